@@ -8,6 +8,9 @@ const config = {
       to: { circular: true },
     },
   ],
+  options: {
+    doNotFollow: { path: "node_modules" },
+  },
 };
 
 export default config;
@@ -2,12 +2,14 @@ import { CompletionItem, CompletionItemKind, Range } from "vscode";
 import { IValueData } from "vscode-html-languageservice";
 import { combineIterators } from "./combineIterators.mts";
 import { convertDocumentation } from "./convertDocumentation.mts";
-import { docs } from "./data.mts";
+import { getExternalActions } from "./data.mts";
 import { getExistingActionValue } from "./getExistingActionValue.mts";
+import { getNamespaceDocs } from "./getNamespaceDocs.mts";
 
 /**
- * Adds completion items to the provided list based on available definitions and
- * references.
+ * Adds completion items to the provided list based on the definitions and
+ * references available in a namespace, as well as the actions declared by the
+ * project manifest.
  *
  * @param completions - Array to which new completion items will be added.
  * @param definitionsGetter - Function that returns a map of definitions for the
@@ -17,6 +19,8 @@ import { getExistingActionValue } from "./getExistingActionValue.mts";
  * @param range - Range in the document where the completion will be applied.
  * @param valueGetter - Function that retrieves value data for a given action
  *                      name.
+ * @param kind - The namespace of the actions.
+ * @param namespace - The namespace of the documents to collect from.
  */
 export const addCompletions = (
   completions: CompletionItem[],
@@ -24,14 +28,25 @@ export const addCompletions = (
   referencesGetter: (cur: Document) => Map<string, Range[]>,
   range: Range,
   valueGetter: (name: string) => IValueData,
+  kind: ActionKind,
+  namespace: string,
 ) => {
+  const sources: Iterable<string>[] = [
+    extern.getExternalActions(namespace)[kind].keys(),
+  ];
   let action, item, valueData, found;
 
-  for (const cur of extern.docs.values()) {
-    for (action of extern.combineIterators(
-      definitionsGetter(cur).keys(),
-      referencesGetter(cur).keys(),
-    )) {
+  for (const cur of extern.getNamespaceDocs(namespace)) {
+    sources.push(
+      extern.combineIterators(
+        definitionsGetter(cur).keys(),
+        referencesGetter(cur).keys(),
+      ),
+    );
+  }
+
+  for (const actions of sources) {
+    for (action of actions) {
       found = false;
       for (const { label } of completions) {
         if (
@@ -47,6 +62,8 @@ export const addCompletions = (
         action,
         definitionsGetter,
         valueGetter,
+        kind,
+        namespace,
       );
       if (!valueData || !valueData.description) {
         continue;
@@ -65,8 +82,9 @@ let extern = {
   CompletionItem,
   combineIterators,
   convertDocumentation,
-  docs,
   getExistingActionValue,
+  getExternalActions,
+  getNamespaceDocs,
 };
 
 /* v8 ignore start */
@@ -76,6 +94,7 @@ if (import.meta.vitest) {
     it,
     expect,
     afterAll,
+    beforeEach,
     vi: { fn },
   } = import.meta.vitest;
   const origExtern = extern;
@@ -83,16 +102,69 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("addCompletions", () => {
+    beforeEach(() => {
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map(),
+        result: new Map(),
+      }));
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
 
+    it("adds the actions declared by the manifest", () => {
+      const completions: any[] = [];
+      const fakeRange = {} as any;
+
+      extern.getNamespaceDocs = fn(() => []) as any;
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map([["declared", {} as ExternalAction]]),
+        result: new Map(),
+      }));
+      extern.getExistingActionValue = fn(
+        () => ({ description: "desc" }) as any,
+      );
+      extern.convertDocumentation = fn(() => "doc") as any;
+      extern.CompletionItem = class {
+        constructor(
+          public label: any,
+          public kind: any,
+        ) {}
+      };
+
+      const definitionsGetter = fn();
+      const valueGetter = fn();
+
+      addCompletions(
+        completions,
+        definitionsGetter,
+        fn(),
+        fakeRange,
+        valueGetter,
+        "state",
+        "site",
+      );
+      expect(completions).toMatchObject([
+        { label: "declared", documentation: "doc" },
+      ]);
+      expect(extern.getExternalActions).toHaveBeenCalledWith("site");
+      expect(extern.getExistingActionValue).toHaveBeenCalledWith(
+        "declared",
+        definitionsGetter,
+        valueGetter,
+        "state",
+        "site",
+      );
+    });
+
     it("adds completion items for valid actions with description", () => {
       const completions: any[] = [];
       const fakeRange = { start: 0, end: 1 } as any;
 
-      const mockDocs = new Map([["doc1", {}]]);
-      extern.docs = { values: () => mockDocs.values() } as any;
+      extern.getNamespaceDocs = fn(() => [{}]) as any;
 
       extern.combineIterators = fn().mockImplementation(() => ["act1", "act2"]);
       extern.getExistingActionValue = fn().mockImplementation(action => ({
@@ -115,6 +187,8 @@ if (import.meta.vitest) {
         () => refs,
         fakeRange,
         fn(),
+        "event",
+        "site",
       );
       expect(completions).toHaveLength(2);
       expect(completions[0]).toMatchObject({
@@ -130,8 +204,7 @@ if (import.meta.vitest) {
       const completions: any[] = [{ label: { label: "dup" } }];
       const fakeRange = {} as any;
 
-      const mockDocs = new Map([["doc1", {}]]);
-      extern.docs = { values: () => mockDocs.values() } as any;
+      extern.getNamespaceDocs = fn(() => [{}]) as any;
       extern.combineIterators = fn().mockReturnValue(["dup", "dup"]);
       extern.getExistingActionValue = fn().mockReturnValue({
         description: "desc",
@@ -150,6 +223,8 @@ if (import.meta.vitest) {
         fn().mockReturnValue(new Map()),
         fakeRange,
         fn(),
+        "event",
+        "site",
       );
       expect(completions).toHaveLength(1);
     });
@@ -158,8 +233,7 @@ if (import.meta.vitest) {
       const completions: any[] = [];
       const fakeRange = {} as any;
 
-      const mockDocs = new Map([["doc1", {}]]);
-      extern.docs = { values: () => mockDocs.values() } as any;
+      extern.getNamespaceDocs = fn(() => [{}]) as any;
       extern.combineIterators = fn().mockReturnValue(["noDesc", "noValue"]);
       extern.getExistingActionValue = fn()
         .mockImplementationOnce(() => ({}))
@@ -179,6 +253,8 @@ if (import.meta.vitest) {
         fn().mockReturnValue(new Map()),
         fakeRange,
         fn(),
+        "event",
+        "site",
       );
       expect(completions).toHaveLength(0);
     });
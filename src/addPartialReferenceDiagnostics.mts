@@ -1,58 +1,70 @@
 import { Diagnostic, DiagnosticSeverity, DiagnosticTag, Range } from "vscode";
-import { docs } from "./data.mts";
+import { createDiagnostic } from "./createDiagnostic.mts";
+import { getExternalActions } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
 
 /**
  * Adds diagnostics for items present in one set but missing in a corresponding
  * reference set.
  *
+ * Only the reference items of the namespace of the current document count, so
+ * that unrelated workspace folders do not vouch for each other. Items matched
+ * by the dynamic patterns of any document of the namespace, i.e. ones that may
+ * be produced by template interpolations at runtime, are not missing. Neither
+ * are the ones declared by the project manifest, which are both triggered and
+ * consumed outside of the markup.
+ *
  * @param diagnostics - Array to which new diagnostics will be added.
  * @param cur - Current document being analyzed.
  * @param left - Function returning a map of items from the current document.
- * @param right - Function returning a map of reference items from another
- *                document.
+ * @param right - The number of documents of the namespace of the current
+ *                document holding each reference item.
+ * @param dynamic - The dynamic patterns of every document of the namespace
+ *                  matching reference items.
  * @param kind - Kind of diagnostic to apply.
  * @param tpl - Template function to generate diagnostic messages.
+ * @param code - The code identifying the diagnostics.
  * @param severity - Severity level of the diagnostics.
  * @param tags - Optional tags associated with the diagnostics.
  */
-export const addPartialReferenceDiagnostics = <T extends string>(
+export const addPartialReferenceDiagnostics = (
   diagnostics: Diagnostic[],
   cur: Document,
   left: (cur: Document) => Map<string, Range[]>,
-  right: (cur: Document) => Map<string, Range[]>,
-  kind: T,
-  tpl: (scope: { kind: T; action: string }) => string,
+  right: Map<string, number>,
+  dynamic: RegExp[],
+  kind: ActionKind,
+  tpl: (scope: { kind: ActionKind; action: string }) => string,
+  code: RuleCode,
   severity: DiagnosticSeverity,
-  tags?: DiagnosticTag[]
+  tags?: DiagnosticTag[],
 ) => {
-  let found, ref, range, diagnostic;
+  const namespace = extern.getNamespace(cur.uri);
+  const external = extern.getExternalActions(namespace)[kind];
+  let range;
 
   for (const [action, ranges] of left(cur)) {
-    found = false;
-    for (ref of extern.docs.values()) {
-      if (right(ref).has(action)) {
-        found = true;
-        break;
-      }
-    }
-    if (!found) {
+    if (
+      !external.has(action) &&
+      !right.has(action) &&
+      !dynamic.some(pattern => pattern.test(action))
+    ) {
       for (range of ranges) {
-        diagnostic = new extern.Diagnostic(
-          range,
-          tpl({ kind, action }),
-          severity
+        diagnostics.push(
+          extern.createDiagnostic(
+            range,
+            tpl({ kind, action }),
+            code,
+            severity,
+            tags,
+          ),
         );
-        diagnostic.source = "KEML";
-        if (tags) {
-          diagnostic.tags = tags;
-        }
-        diagnostics.push(diagnostic);
       }
     }
   }
 };
 
-let extern = { Diagnostic, docs };
+let extern = { createDiagnostic, getExternalActions, getNamespace };
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -61,6 +73,7 @@ if (import.meta.vitest) {
     it,
     expect,
     afterAll,
+    beforeEach,
     vi: { fn },
   } = import.meta.vitest;
   const origExtern = extern;
@@ -68,6 +81,15 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("addPartialReferenceDiagnostics", () => {
+    beforeEach(() => {
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map(),
+        result: new Map(),
+      }));
+      extern.getNamespace = fn(() => "ns");
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
@@ -75,80 +97,121 @@ if (import.meta.vitest) {
     it("adds a diagnostic when no matching action found in right refs", () => {
       const diagnostics: any[] = [];
       const mockRange = { id: 1 } as any;
-      const kind = "K" as const;
+      const kind = "event" as const;
       const tpl = fn().mockImplementation(
-        ({ kind, action }) => `${kind}:${action}`
+        ({ kind, action }) => `${kind}:${action}`,
       );
       const severity = 2 as any;
 
-      extern.docs = { values: () => [{}, {}][Symbol.iterator]() } as any;
-      extern.Diagnostic = class {
-        constructor(
-          public range: any,
-          public message: any,
-          public severity: any
-        ) {}
-      };
+      extern.createDiagnostic = fn((range, message, code, severity) => ({
+        range,
+        message,
+        severity,
+        source: "KEML",
+        code,
+      })) as any;
 
       const left = fn().mockReturnValue(
-        new Map([["missingAction", [mockRange]]])
+        new Map([["missingAction", [mockRange]]]),
       );
-      const right = fn().mockReturnValue(new Map());
 
       addPartialReferenceDiagnostics(
         diagnostics,
         {} as any,
         left,
-        right,
+        new Map(),
+        [/^other_\S*$/],
         kind,
         tpl,
-        severity
+        "code" as RuleCode,
+        severity,
       );
       expect(diagnostics).toHaveLength(1);
       expect(diagnostics[0]).toMatchObject({
         range: mockRange,
-        message: "K:missingAction",
+        message: "event:missingAction",
         severity,
         source: "KEML",
+        code: "code",
       });
     });
 
     it("does not add diagnostics when action is found in right refs", () => {
       const diagnostics: any[] = [];
-      const kind = "K" as const;
+      const kind = "event" as const;
       const tpl = fn();
       const severity = 1 as any;
 
-      extern.docs = {
-        values: () => [{}, {}][Symbol.iterator](),
-      } as any;
-      extern.Diagnostic = class {
-        constructor(
-          public range: any,
-          public message: any,
-          public severity: any
-        ) {}
-      };
+      extern.createDiagnostic = fn((range, message, code, severity) => ({
+        range,
+        message,
+        severity,
+        source: "KEML",
+        code,
+      })) as any;
 
       const left = fn().mockReturnValue(
-        new Map([["foundAction", [{} as any]]])
-      );
-      const right = fn().mockImplementation(
-        () => new Map([["foundAction", [{} as any]]])
+        new Map([["foundAction", [{} as any]]]),
       );
 
       addPartialReferenceDiagnostics(
         diagnostics,
         {} as any,
         left,
-        right,
+        new Map([["foundAction", 1]]),
+        [],
         kind,
         tpl,
-        severity
+        "code" as RuleCode,
+        severity,
+      );
+      expect(diagnostics).toHaveLength(0);
+    });
+
+    it("does not add diagnostics when action matches a dynamic pattern", () => {
+      const diagnostics: any[] = [];
+
+      addPartialReferenceDiagnostics(
+        diagnostics,
+        {} as any,
+        fn().mockReturnValue(new Map([["save_1", [{} as any]]])),
+        new Map(),
+        [/^save_\S*$/],
+        "event" as const,
+        fn(),
+        "code" as RuleCode,
+        1 as any,
       );
       expect(diagnostics).toHaveLength(0);
     });
 
+    it("does not add diagnostics when action is declared by the manifest", () => {
+      const diagnostics: any[] = [];
+      const test = fn();
+
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map([["declared", {} as ExternalAction]]),
+        result: new Map(),
+      }));
+
+      addPartialReferenceDiagnostics(
+        diagnostics,
+        { uri: "file:///a.html" } as any,
+        fn().mockReturnValue(new Map([["declared", [{} as any]]])),
+        new Map(),
+        [{ test } as any],
+        "state",
+        fn(),
+        "code" as RuleCode,
+        1 as any,
+      );
+      expect(extern.getNamespace).toHaveBeenCalledWith("file:///a.html");
+      expect(extern.getExternalActions).toHaveBeenCalledWith("ns");
+      expect(test).not.toHaveBeenCalled();
+      expect(diagnostics).toHaveLength(0);
+    });
+
     it("includes tags when provided", () => {
       const diagnostics: any[] = [];
       const mockRange = { id: 2 } as any;
@@ -156,27 +219,28 @@ if (import.meta.vitest) {
       const tpl = fn().mockReturnValue("msg");
       const severity = 3 as any;
 
-      extern.docs = { values: () => [][Symbol.iterator]() } as any;
-      extern.Diagnostic = class {
-        constructor(
-          public range: any,
-          public message: any,
-          public severity: any
-        ) {}
-      };
+      extern.createDiagnostic = fn((range, message, code, severity, tags) => ({
+        range,
+        message,
+        severity,
+        source: "KEML",
+        code,
+        tags,
+      })) as any;
 
       const left = fn().mockReturnValue(new Map([["missing", [mockRange]]]));
-      const right = fn().mockReturnValue(new Map());
 
       addPartialReferenceDiagnostics(
         diagnostics,
         {} as any,
         left,
-        right,
-        "K" as any,
+        new Map(),
+        [],
+        "event",
         tpl,
+        "code" as RuleCode,
         severity,
-        tags
+        tags,
       );
       expect(diagnostics[0]).toMatchObject({
         tags,
@@ -1,17 +1,48 @@
 import { Diagnostic, DiagnosticSeverity, DiagnosticTag, Range } from "vscode";
 import { addPartialReferenceDiagnostics } from "./addPartialReferenceDiagnostics.mts";
 import {
+  actionIndex,
   getActionUndefinedSeverity,
   getActionUnusedSeverity,
+  getRuleSeverity,
 } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
 import { t } from "./t.mts";
 
 const UNUSED_TPL = t`'${"action"}' ${"kind"} action is declared but its value is never read.`;
 const UNDECLARED_TPL = t`Cannot find ${"kind"} action '${"action"}'.`;
 
+/**
+ * Counts the documents of a page holding each action.
+ *
+ * @param page - The documents of the page.
+ * @param resolver - Function that returns a map of actions for a document.
+ * @returns The number of documents holding each action.
+ */
+const countPage = (
+  page: Document[],
+  resolver: (cur: Document) => Map<string, Range[]>,
+) => {
+  const result = new Map<string, number>();
+
+  for (const cur of page) {
+    for (const action of resolver(cur).keys()) {
+      result.set(action, (result.get(action) ?? 0) + 1);
+    }
+  }
+
+  return result;
+};
+
 /**
  * Adds diagnostics for unused or undefined references in a document.
  *
+ * Whether an action is defined or used anywhere in the namespace of the
+ * document is looked up in the action index, which must be up to date. In the
+ * page graph mode, only the documents rendered along with it count instead.
+ * Actions that may be subscribed to or defined through template interpolations
+ * are neither reported as unused nor as undefined.
+ *
  * @param diagnostics - Array to which new diagnostics will be added.
  * @param cur - Current document being analyzed.
  * @param definitionResolver - Function that returns a map of definitions for
@@ -19,29 +50,58 @@ const UNDECLARED_TPL = t`Cannot find ${"kind"} action '${"action"}'.`;
  * @param referenceResolver - Function that returns a map of references for the
  *                            document.
  * @param kind - Kind of action being analyzed ("event", "state", or "result").
+ * @param page - The documents rendered along with the current one on any of
+ *               its pages, in the page graph mode.
  */
 export const addReferenceDiagnostics = (
   diagnostics: Diagnostic[],
   cur: Document,
   definitionResolver: (cur: Document) => Map<string, Range[]>,
   referenceResolver: (cur: Document) => Map<string, Range[]>,
-  kind: "event" | "state" | "result"
+  kind: "event" | "state" | "result",
+  page?: Document[],
 ) => {
-  const actionUnusedSeverity = extern.getActionUnusedSeverity();
-  const actionUndefinedSeverity = extern.getActionUndefinedSeverity();
+  const actionUnusedSeverity = extern.getRuleSeverity(
+    "unused-action",
+    extern.getActionUnusedSeverity(),
+  );
+  const actionUndefinedSeverity = extern.getRuleSeverity(
+    "undefined-action",
+    extern.getActionUndefinedSeverity(),
+  );
+
+  let references, definitions, dynamicReferences, dynamicDefinitions;
+
+  if (page) {
+    references = countPage(page, referenceResolver);
+    definitions = countPage(page, definitionResolver);
+    dynamicReferences = page.flatMap(o => o.dynamic_references[kind]);
+    dynamicDefinitions = page.flatMap(o => o.dynamic_definitions[kind]);
+  } else {
+    const index = extern.actionIndex.namespaces.get(
+      extern.getNamespace(cur.uri),
+    )!;
+
+    references = index.references[kind];
+    definitions = index.definitions[kind];
+    dynamicReferences = index.dynamic_references[kind];
+    dynamicDefinitions = index.dynamic_definitions[kind];
+  }
 
   if (actionUnusedSeverity != null) {
     extern.addPartialReferenceDiagnostics(
       diagnostics,
       cur,
       definitionResolver,
-      referenceResolver,
+      references,
+      dynamicReferences,
       kind,
       UNUSED_TPL,
+      "unused-action",
       actionUnusedSeverity,
-      actionUnusedSeverity === DiagnosticSeverity.Warning
-        ? [DiagnosticTag.Unnecessary]
-        : undefined
+      actionUnusedSeverity === DiagnosticSeverity.Warning ?
+        [DiagnosticTag.Unnecessary]
+      : undefined,
     );
   }
   if (actionUndefinedSeverity != null) {
@@ -49,18 +109,23 @@ export const addReferenceDiagnostics = (
       diagnostics,
       cur,
       referenceResolver,
-      definitionResolver,
+      definitions,
+      dynamicDefinitions,
       kind,
       UNDECLARED_TPL,
-      actionUndefinedSeverity
+      "undefined-action",
+      actionUndefinedSeverity,
     );
   }
 };
 
 let extern = {
+  actionIndex,
   addPartialReferenceDiagnostics,
   getActionUndefinedSeverity,
   getActionUnusedSeverity,
+  getNamespace,
+  getRuleSeverity,
 };
 
 /* v8 ignore start */
@@ -70,6 +135,7 @@ if (import.meta.vitest) {
     it,
     expect,
     afterAll,
+    beforeEach,
     vi: { fn },
   } = import.meta.vitest;
   const origExtern = extern;
@@ -77,16 +143,59 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("addReferenceDiagnostics", () => {
+    const index = {
+      definitions: { state: new Map([["ready", 1]]) },
+      references: { state: new Map([["loading", 2]]) },
+      dynamic_definitions: { state: [/^definition$/] },
+      dynamic_references: { state: [/^reference$/] },
+    };
+
+    beforeEach(() => {
+      extern.actionIndex = { namespaces: new Map([["site", index]]) } as any;
+      extern.getNamespace = fn(() => "site");
+      extern.getRuleSeverity = fn((_, severity) => severity);
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
 
+    it("prefers the severities of the rules", () => {
+      extern.getActionUnusedSeverity = fn().mockReturnValue(
+        DiagnosticSeverity.Warning,
+      );
+      extern.getActionUndefinedSeverity = fn().mockReturnValue(
+        DiagnosticSeverity.Error,
+      );
+      extern.getRuleSeverity = fn(code =>
+        code === "unused-action" ? undefined : DiagnosticSeverity.Hint,
+      );
+      extern.addPartialReferenceDiagnostics = fn();
+
+      addReferenceDiagnostics([], {} as any, fn(), fn(), "state");
+
+      expect(extern.getRuleSeverity).toHaveBeenCalledWith(
+        "unused-action",
+        DiagnosticSeverity.Warning,
+      );
+      expect(extern.getRuleSeverity).toHaveBeenCalledWith(
+        "undefined-action",
+        DiagnosticSeverity.Error,
+      );
+      expect(extern.addPartialReferenceDiagnostics).toHaveBeenCalledOnce();
+      expect(extern.addPartialReferenceDiagnostics).toHaveBeenCalledWith(
+        ...Array(7).fill(expect.anything()),
+        "undefined-action",
+        DiagnosticSeverity.Hint,
+      );
+    });
+
     it("does nothing when both severities are null", () => {
       extern.getActionUnusedSeverity = fn().mockReturnValue(null);
       extern.getActionUndefinedSeverity = fn().mockReturnValue(null);
       extern.addPartialReferenceDiagnostics = fn();
 
-      addReferenceDiagnostics([], {} as any, fn(), fn(), "event");
+      addReferenceDiagnostics([], {} as any, fn(), fn(), "state");
 
       expect(extern.addPartialReferenceDiagnostics).not.toHaveBeenCalled();
       expect(extern.getActionUnusedSeverity).toHaveBeenCalled();
@@ -100,10 +209,10 @@ if (import.meta.vitest) {
       const refResolver = fn();
 
       extern.getActionUnusedSeverity = fn().mockReturnValue(
-        DiagnosticSeverity.Warning
+        DiagnosticSeverity.Warning,
       );
       extern.getActionUndefinedSeverity = fn().mockReturnValue(
-        DiagnosticSeverity.Error
+        DiagnosticSeverity.Error,
       );
       const mockAddDiagnostics = (extern.addPartialReferenceDiagnostics = fn());
 
@@ -112,7 +221,7 @@ if (import.meta.vitest) {
         cur,
         defResolver,
         refResolver,
-        "state"
+        "state",
       );
 
       expect(mockAddDiagnostics).toHaveBeenCalledTimes(2);
@@ -121,9 +230,11 @@ if (import.meta.vitest) {
           diagnostics,
           cur,
           defResolver,
-          refResolver,
+          index.references.state,
+          index.dynamic_references.state,
           "state",
           expect.any(Function),
+          "unused-action",
           DiagnosticSeverity.Warning,
           [DiagnosticTag.Unnecessary],
         ],
@@ -131,9 +242,11 @@ if (import.meta.vitest) {
           diagnostics,
           cur,
           refResolver,
-          defResolver,
+          index.definitions.state,
+          index.dynamic_definitions.state,
           "state",
           expect.any(Function),
+          "undefined-action",
           DiagnosticSeverity.Error,
         ],
       ]);
@@ -146,10 +259,10 @@ if (import.meta.vitest) {
       const refResolver = fn();
 
       extern.getActionUnusedSeverity = fn().mockReturnValue(
-        DiagnosticSeverity.Error
+        DiagnosticSeverity.Error,
       );
       extern.getActionUndefinedSeverity = fn().mockReturnValue(
-        DiagnosticSeverity.Error
+        DiagnosticSeverity.Error,
       );
       const mockAddDiagnostics = (extern.addPartialReferenceDiagnostics = fn());
 
@@ -158,7 +271,7 @@ if (import.meta.vitest) {
         cur,
         defResolver,
         refResolver,
-        "state"
+        "state",
       );
 
       expect(mockAddDiagnostics).toHaveBeenCalledTimes(2);
@@ -167,9 +280,11 @@ if (import.meta.vitest) {
           diagnostics,
           cur,
           defResolver,
-          refResolver,
+          index.references.state,
+          index.dynamic_references.state,
           "state",
           expect.any(Function),
+          "unused-action",
           DiagnosticSeverity.Error,
           undefined,
         ],
@@ -177,13 +292,67 @@ if (import.meta.vitest) {
           diagnostics,
           cur,
           refResolver,
-          defResolver,
+          index.definitions.state,
+          index.dynamic_definitions.state,
           "state",
           expect.any(Function),
+          "undefined-action",
           DiagnosticSeverity.Error,
         ],
       ]);
     });
+
+    it("only counts the documents of the page in the page graph mode", () => {
+      const doc = (definitions: string[], references: string[]) =>
+        ({
+          definitions: new Map(definitions.map(action => [action, []])),
+          references: new Map(references.map(action => [action, []])),
+          dynamic_definitions: { state: [/^a/] },
+          dynamic_references: { state: [/^b/] },
+        }) as any;
+      const page = [doc(["ready"], ["ready"]), doc(["ready"], ["done"])];
+
+      extern.getActionUnusedSeverity = fn().mockReturnValue(
+        DiagnosticSeverity.Warning,
+      );
+      extern.getActionUndefinedSeverity = fn().mockReturnValue(
+        DiagnosticSeverity.Error,
+      );
+      extern.getNamespace = fn();
+      const mockAddDiagnostics = (extern.addPartialReferenceDiagnostics = fn());
+
+      addReferenceDiagnostics(
+        [],
+        page[0],
+        (cur: any) => cur.definitions,
+        (cur: any) => cur.references,
+        "state",
+        page,
+      );
+
+      expect(extern.getNamespace).not.toHaveBeenCalled();
+      expect(
+        mockAddDiagnostics.mock.calls.map(args => args.slice(0, 5)),
+      ).toEqual([
+        [
+          [],
+          page[0],
+          expect.any(Function),
+          new Map([
+            ["ready", 1],
+            ["done", 1],
+          ]),
+          [/^b/, /^b/],
+        ],
+        [
+          [],
+          page[0],
+          expect.any(Function),
+          new Map([["ready", 2]]),
+          [/^a/, /^a/],
+        ],
+      ]);
+    });
   });
 }
 /* v8 ignore stop */
@@ -0,0 +1,130 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  MarkdownString,
+  Range,
+  Uri,
+} from "vscode";
+import { getFolderRoutes } from "./getFolderRoutes.mts";
+
+/**
+ * Adds the paths of the routes of the server to the provided list, leaving
+ * out the routes that do not accept the method of the request.
+ *
+ * @param completions - Array to which new completion items will be added.
+ * @param range - Range in the document where the completion will be applied.
+ * @param method - The method of the request, any method when `undefined`.
+ * @param uri - The URI of the document, telling which server it requests.
+ */
+export const addRouteCompletions = (
+  completions: CompletionItem[],
+  range: Range,
+  method: string | undefined,
+  uri: Uri,
+) => {
+  const labels = new Set(
+    completions.map(({ label }) =>
+      typeof label === "string" ? label : label.label,
+    ),
+  );
+  let item;
+
+  for (const route of extern.getFolderRoutes(uri)) {
+    if (
+      labels.has(route.path) ||
+      (method && route.method && route.method !== method)
+    ) {
+      continue;
+    }
+    labels.add(route.path);
+    item = new extern.CompletionItem(route.path, CompletionItemKind.Value);
+    item.insertText = route.path;
+    item.range = range;
+    item.detail = `${route.method ?? "*"} ${route.path}`;
+    if (route.description) {
+      item.documentation = new extern.MarkdownString(route.description);
+    }
+    completions.push(item);
+  }
+};
+
+let extern = { CompletionItem, MarkdownString, getFolderRoutes };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("addRouteCompletions", () => {
+    const site = { path: "/site" } as Uri;
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    extern.CompletionItem = class {
+      constructor(
+        public label: any,
+        public kind: any,
+      ) {}
+    } as any;
+    extern.MarkdownString = class {
+      constructor(public value: string) {}
+    } as any;
+    extern.getFolderRoutes = uri =>
+      [
+        { method: "GET", path: "/todos", description: "Lists the todos." },
+        { method: "POST", path: "/todos", description: "" },
+        { method: "PUT", path: "/todos/{id}", description: "" },
+        { method: undefined, path: "/health", description: "" },
+      ].filter(() => uri.path === "/site") as Route[];
+
+    it("adds the paths accepting the method", () => {
+      const completions: any[] = [{ label: { label: "/other" } }];
+      const range = {} as any;
+
+      addRouteCompletions(completions, range, "GET", site);
+      expect(completions).toEqual([
+        { label: { label: "/other" } },
+        {
+          label: "/todos",
+          kind: CompletionItemKind.Value,
+          insertText: "/todos",
+          range,
+          detail: "GET /todos",
+          documentation: { value: "Lists the todos." },
+        },
+        {
+          label: "/health",
+          kind: CompletionItemKind.Value,
+          insertText: "/health",
+          range,
+          detail: "* /health",
+        },
+      ]);
+    });
+
+    it("adds every path when the method is only known at runtime", () => {
+      const completions: any[] = [{ label: "/health" }];
+
+      addRouteCompletions(completions, {} as any, undefined, site);
+      expect(completions.map(({ label }) => label)).toEqual([
+        "/health",
+        "/todos",
+        "/todos/{id}",
+      ]);
+    });
+
+    it("adds the paths of the server of the workspace folder", () => {
+      const completions: any[] = [];
+
+      addRouteCompletions(completions, {} as any, "GET", {
+        path: "/docs",
+      } as Uri);
+      expect(completions).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,132 @@
+import { Diagnostic, DiagnosticSeverity } from "vscode";
+import { getRuleSeverity } from "./data.mts";
+import { createDiagnostic } from "./createDiagnostic.mts";
+import { getFolderRoutes } from "./getFolderRoutes.mts";
+
+/**
+ * Adds diagnostics for the requests of a document no route of the server of
+ * its workspace folder accepts, once routes were loaded.
+ *
+ * The query string and the fragment of a path are left out of the match.
+ *
+ * @param diagnostics - Array to which new diagnostics will be added.
+ * @param cur - Current document being analyzed.
+ */
+export const addRouteDiagnostics = (
+  diagnostics: Diagnostic[],
+  cur: Document,
+) => {
+  const routes = extern.getFolderRoutes(cur.uri);
+  const severity = extern.getRuleSeverity(
+    "unknown-route",
+    DiagnosticSeverity.Warning,
+  );
+
+  if (!routes.length || severity == null) {
+    return;
+  }
+
+  for (const { method, path, range } of cur.endpoints) {
+    const pathname = path.replace(/[?#].*/, "");
+
+    if (
+      !routes.some(
+        route =>
+          (!route.method || route.method === method) &&
+          route.pattern.test(pathname),
+      )
+    ) {
+      diagnostics.push(
+        extern.createDiagnostic(
+          range,
+          `No route of the server matches ${method} ${pathname}.`,
+          "unknown-route",
+          severity,
+        ),
+      );
+    }
+  }
+};
+
+let extern = { createDiagnostic, getFolderRoutes, getRuleSeverity };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("addRouteDiagnostics", () => {
+    const cur = {
+      uri: "file:///site/index.php",
+      endpoints: [
+        { method: "GET", path: "/todos?done=1", range: "r1" },
+        { method: "PUT", path: "/todos/42", range: "r2" },
+        { method: "DELETE", path: "/todos/42#top", range: "r3" },
+        { method: "POST", path: "/health", range: "r4" },
+      ],
+    } as any;
+
+    beforeEach(() => {
+      extern.createDiagnostic = fn((range, message, code, severity) => ({
+        range,
+        message,
+        code,
+        severity,
+      })) as any;
+      extern.getFolderRoutes = fn(
+        () =>
+          [
+            { method: "GET", pattern: /^\/todos\/?$/ },
+            { method: "PUT", pattern: /^\/todos\/[^/]+\/?$/ },
+            { method: undefined, pattern: /^\/health\/?$/ },
+          ] as Route[],
+      ) as any;
+      extern.getRuleSeverity = fn((_, severity) => severity);
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("reports the requests no route accepts", () => {
+      const diagnostics: any[] = [];
+
+      addRouteDiagnostics(diagnostics, cur);
+      expect(diagnostics).toEqual([
+        {
+          range: "r3",
+          message: "No route of the server matches DELETE /todos/42.",
+          code: "unknown-route",
+          severity: DiagnosticSeverity.Warning,
+        },
+      ]);
+      expect(extern.getFolderRoutes).toHaveBeenCalledWith(cur.uri);
+      expect(extern.getRuleSeverity).toHaveBeenCalledWith(
+        "unknown-route",
+        DiagnosticSeverity.Warning,
+      );
+    });
+
+    it("does nothing without routes or when disabled", () => {
+      const diagnostics: any[] = [];
+      const { getFolderRoutes } = extern;
+
+      extern.getFolderRoutes = () => [];
+      addRouteDiagnostics(diagnostics, cur);
+      extern.getFolderRoutes = getFolderRoutes;
+      extern.getRuleSeverity = fn(() => undefined);
+      addRouteDiagnostics(diagnostics, cur);
+      expect(diagnostics).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
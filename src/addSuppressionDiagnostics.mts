@@ -0,0 +1,124 @@
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from "vscode";
+import { createDiagnostic } from "./createDiagnostic.mts";
+import { getRuleSeverity } from "./data.mts";
+
+/**
+ * Adds a diagnostic for every suppression comment that turned no diagnostic
+ * off.
+ *
+ * @param diagnostics - Array to which new diagnostics will be added.
+ * @param suppressions - The suppressions of the document.
+ * @param used - The suppressions that turned a diagnostic off.
+ */
+export const addSuppressionDiagnostics = (
+  diagnostics: Diagnostic[],
+  suppressions: Suppression[],
+  used: Set<Suppression>,
+) => {
+  const severity = extern.getRuleSeverity(
+    "unused-suppression",
+    DiagnosticSeverity.Warning,
+  );
+
+  if (severity == null) {
+    return;
+  }
+
+  for (const suppression of suppressions) {
+    if (!used.has(suppression)) {
+      diagnostics.push(
+        extern.createDiagnostic(
+          suppression.range,
+          suppression.codes.length ?
+            `Unused suppression: no '${suppression.codes.join("', '")}' diagnostic is reported here.`
+          : "Unused suppression: no diagnostic is reported here.",
+          "unused-suppression",
+          severity,
+          [DiagnosticTag.Unnecessary],
+        ),
+      );
+    }
+  }
+};
+
+let extern = { createDiagnostic, getRuleSeverity };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("addSuppressionDiagnostics", () => {
+    const used = { codes: [], range: "r0" } as unknown as Suppression;
+    const all = { codes: [], range: "r1" } as unknown as Suppression;
+    const some = {
+      codes: ["a", "b"],
+      range: "r2",
+    } as unknown as Suppression;
+
+    beforeEach(() => {
+      extern.createDiagnostic = fn((range, message, code, severity, tags) => ({
+        range,
+        message,
+        code,
+        severity,
+        tags,
+      })) as any;
+      extern.getRuleSeverity = fn((_, severity) => severity);
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("reports the unused suppressions", () => {
+      const diagnostics: Diagnostic[] = [];
+
+      addSuppressionDiagnostics(
+        diagnostics,
+        [used, all, some],
+        new Set([used]),
+      );
+
+      expect(extern.getRuleSeverity).toHaveBeenCalledWith(
+        "unused-suppression",
+        DiagnosticSeverity.Warning,
+      );
+      expect(diagnostics).toEqual([
+        {
+          range: "r1",
+          message: "Unused suppression: no diagnostic is reported here.",
+          code: "unused-suppression",
+          severity: DiagnosticSeverity.Warning,
+          tags: [DiagnosticTag.Unnecessary],
+        },
+        {
+          range: "r2",
+          message:
+            "Unused suppression: no 'a', 'b' diagnostic is reported here.",
+          code: "unused-suppression",
+          severity: DiagnosticSeverity.Warning,
+          tags: [DiagnosticTag.Unnecessary],
+        },
+      ]);
+    });
+
+    it("does nothing when the rule is disabled", () => {
+      const diagnostics: Diagnostic[] = [];
+
+      extern.getRuleSeverity = fn();
+      addSuppressionDiagnostics(diagnostics, [all], new Set());
+      expect(diagnostics).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
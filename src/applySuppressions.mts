@@ -0,0 +1,79 @@
+import { Diagnostic } from "vscode";
+import { getDiagnosticCode } from "./getDiagnosticCode.mts";
+
+/**
+ * Filters out the diagnostics turned off by suppression comments.
+ *
+ * @param diagnostics - The diagnostics to filter.
+ * @param suppressions - The suppressions of the document.
+ * @param used - Receives the suppressions that turned a diagnostic off.
+ * @returns The diagnostics that are not suppressed.
+ */
+export const applySuppressions = (
+  diagnostics: Diagnostic[],
+  suppressions: Suppression[],
+  used: Set<Suppression>,
+) =>
+  diagnostics.filter(diagnostic => {
+    const code = getDiagnosticCode(diagnostic) as string;
+    const { line } = diagnostic.range.start;
+    let kept = true;
+
+    for (const suppression of suppressions) {
+      if (
+        line >= suppression.start &&
+        line <= suppression.end &&
+        (!suppression.codes.length || suppression.codes.includes(code))
+      ) {
+        used.add(suppression);
+        kept = false;
+      }
+    }
+
+    return kept;
+  });
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("applySuppressions", () => {
+    const diagnostic = (line: number, value: string) =>
+      ({
+        code: { value },
+        range: { start: { line } },
+      }) as unknown as Diagnostic;
+
+    it("drops the suppressed diagnostics", () => {
+      const all = { codes: [], start: 1, end: 1 } as unknown as Suppression;
+      const some = {
+        codes: ["a"],
+        start: 1,
+        end: 3,
+      } as unknown as Suppression;
+      const unused = {
+        codes: ["c"],
+        start: 0,
+        end: 9,
+      } as unknown as Suppression;
+      const used = new Set<Suppression>();
+      const kept = [diagnostic(0, "a"), diagnostic(2, "b"), diagnostic(4, "a")];
+
+      expect(
+        applySuppressions(
+          [
+            kept[0]!,
+            diagnostic(1, "a"),
+            kept[1]!,
+            diagnostic(3, "a"),
+            kept[2]!,
+          ],
+          [all, some, unused],
+          used,
+        ),
+      ).toEqual(kept);
+      expect(used).toEqual(new Set([all, some]));
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,19 @@
+/**
+ * Blanks out text, keeping line breaks so that positions stay the same.
+ *
+ * @param text - The text to blank out.
+ * @returns Spaces and line breaks of the same length as the text.
+ */
+export const blank = (text: string) => text.replace(/[^\r\n]/g, " ");
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("blank", () => {
+    it("replaces everything but line breaks with spaces", () => {
+      expect(blank("a\r\nbc\nd")).toBe(" \r\n  \n ");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,363 @@
+import { DiagnosticSeverity } from "vscode";
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { formatJson } from "./formatJson.mts";
+import { formatSarif } from "./formatSarif.mts";
+import { formatStylish } from "./formatStylish.mts";
+import { lint } from "./lint.mts";
+import { ruleCodes } from "./rules.mts";
+import { templateSyntaxes } from "./templateSyntaxes.mts";
+
+const USAGE = `Usage: keml-lint [options] [patterns...]
+
+Reports KEML problems in the files of the current directory, optionally
+narrowed down to the given glob patterns, and exits with code 1 if any of them
+is an error.
+
+Options:
+  -f, --format <name>                  stylish (default), json or sarif
+  -o, --output <file>                  write the report to a file
+  -l, --language-id <id>               language to scan (default: html)
+  --include <glob>                     like keml.include
+  --exclude <glob>                     like search.exclude
+  --action-undefined-severity <level>  like keml.actionUndefinedSeverity
+  --action-unused-severity <level>     like keml.actionUnusedSeverity
+  --ignore-log-attribute               like keml.warnOnLogAttribute: false
+  --template-syntax <name>             like keml.templateSyntaxes
+  --rule <code>=<level>                like keml.rules
+  --custom-event <name>                like keml.customEvents
+  --page-graph                         like keml.pageGraph: true
+  --routes <file>                      like keml.routes
+  -h, --help                           show this message
+`;
+
+const formatters = new Map([
+  ["stylish", formatStylish],
+  ["json", formatJson],
+  ["sarif", formatSarif],
+]);
+
+const severities = ["Error", "Warning", "Information", "Hint", "Disable"];
+
+/**
+ * Excluded by default, like in VS Code.
+ */
+const defaultExclude = ["**/node_modules", "**/bower_components"];
+
+/**
+ * Runs the `keml-lint` command.
+ *
+ * @param args - Command line arguments, without the executable and script.
+ * @param cwd - The directory to scan.
+ * @returns The exit code: 0 on success, 1 when errors were found and 2 on
+ *          invalid usage.
+ */
+export const run = async (args: string[], cwd: string) => {
+  let values, positionals;
+
+  try {
+    ({ values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: "string", short: "f", default: "stylish" },
+        output: { type: "string", short: "o" },
+        "language-id": { type: "string", short: "l", multiple: true },
+        include: { type: "string", multiple: true, default: [] },
+        exclude: { type: "string", multiple: true, default: [] },
+        "action-undefined-severity": { type: "string", default: "Error" },
+        "action-unused-severity": { type: "string", default: "Warning" },
+        "ignore-log-attribute": { type: "boolean", default: false },
+        "template-syntax": { type: "string", multiple: true, default: [] },
+        rule: { type: "string", multiple: true, default: [] },
+        "custom-event": { type: "string", multiple: true, default: [] },
+        "page-graph": { type: "boolean", default: false },
+        routes: { type: "string", default: "" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }));
+  } catch (error) {
+    extern.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    extern.stdout.write(USAGE);
+    return 0;
+  }
+
+  const format = extern.formatters.get(values.format);
+  if (!format) {
+    extern.stderr.write(`Unknown format '${values.format}'.\n\n${USAGE}`);
+    return 2;
+  }
+
+  for (const option of [
+    "action-undefined-severity",
+    "action-unused-severity",
+  ] as const) {
+    if (!severities.includes(values[option])) {
+      extern.stderr.write(
+        `Invalid --${option} '${values[option]}', expected one of: ${severities.join(", ")}.\n`,
+      );
+      return 2;
+    }
+  }
+
+  for (const name of values["template-syntax"]) {
+    if (!(name in templateSyntaxes)) {
+      extern.stderr.write(
+        `Invalid --template-syntax '${name}', expected one of: ${Object.keys(templateSyntaxes).join(", ")}.\n`,
+      );
+      return 2;
+    }
+  }
+
+  const rules: Record<string, string> = {};
+
+  for (const rule of values.rule) {
+    const [code, level] = rule.split("=") as [string, string?];
+
+    if (!ruleCodes.includes(code as RuleCode)) {
+      extern.stderr.write(
+        `Invalid --rule '${rule}', expected one of: ${ruleCodes.join(", ")}.\n`,
+      );
+      return 2;
+    }
+    if (!severities.includes(level!)) {
+      extern.stderr.write(
+        `Invalid --rule '${rule}', expected a level among: ${severities.join(", ")}.\n`,
+      );
+      return 2;
+    }
+    rules[code] = level!;
+  }
+
+  const results = await extern.lint({
+    cwd,
+    patterns: positionals,
+    keml: {
+      languageIds: values["language-id"] ?? ["html"],
+      include: values.include,
+      actionUndefinedSeverity: values["action-undefined-severity"],
+      actionUnusedSeverity: values["action-unused-severity"],
+      warnOnLogAttribute: !values["ignore-log-attribute"],
+      templateSyntaxes: values["template-syntax"],
+      rules,
+      customEvents: values["custom-event"],
+      pageGraph: values["page-graph"],
+      routes: values.routes,
+    },
+    exclude: defaultExclude.concat(values.exclude),
+  });
+  const report = format(results);
+
+  if (values.output) {
+    await extern.writeFile(values.output, report);
+  } else {
+    extern.stdout.write(report);
+  }
+
+  return (
+      results.some(({ diagnostics }) =>
+        diagnostics.some(
+          ({ severity }) => severity === DiagnosticSeverity.Error,
+        ),
+      )
+    ) ?
+      1
+    : 0;
+};
+
+let extern = {
+  formatters,
+  lint,
+  writeFile,
+  stdout: process.stdout as { write(text: string): unknown },
+  stderr: process.stderr as { write(text: string): unknown },
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("run", () => {
+    const error = { severity: 0 };
+    const warning = { severity: 1 };
+
+    beforeEach(() => {
+      extern.formatters = new Map([["stylish", fn(() => "report")]]);
+      extern.lint = fn(async () => [
+        { path: "a.html", diagnostics: [warning] },
+      ]) as any;
+      extern.writeFile = fn() as any;
+      extern.stdout = { write: fn() };
+      extern.stderr = { write: fn() };
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("lints with the default options", async () => {
+      expect(await run([], "/cwd")).toBe(0);
+      expect(extern.lint).toHaveBeenCalledWith({
+        cwd: "/cwd",
+        patterns: [],
+        keml: {
+          languageIds: ["html"],
+          include: [],
+          actionUndefinedSeverity: "Error",
+          actionUnusedSeverity: "Warning",
+          warnOnLogAttribute: true,
+          templateSyntaxes: [],
+          rules: {},
+          customEvents: [],
+          pageGraph: false,
+          routes: "",
+        },
+        exclude: ["**/node_modules", "**/bower_components"],
+      });
+      expect(extern.formatters.get("stylish")).toHaveBeenCalledWith([
+        { path: "a.html", diagnostics: [warning] },
+      ]);
+      expect(extern.stdout.write).toHaveBeenCalledWith("report");
+    });
+
+    it("lints with the given options", async () => {
+      expect(
+        await run(
+          [
+            "-l",
+            "html",
+            "--language-id=php",
+            "--include",
+            "build",
+            "--exclude",
+            "dist",
+            "--action-undefined-severity",
+            "Disable",
+            "--action-unused-severity",
+            "Hint",
+            "--ignore-log-attribute",
+            "--template-syntax",
+            "php",
+            "--rule",
+            "log-attribute=Error",
+            "--rule=invalid-position=Disable",
+            "--custom-event",
+            "refresh",
+            "--page-graph",
+            "--routes",
+            "openapi.json",
+            "-o",
+            "report.txt",
+            "templates",
+            "**/*.php",
+          ],
+          "/cwd",
+        ),
+      ).toBe(0);
+      expect(extern.lint).toHaveBeenCalledWith({
+        cwd: "/cwd",
+        patterns: ["templates", "**/*.php"],
+        keml: {
+          languageIds: ["html", "php"],
+          include: ["build"],
+          actionUndefinedSeverity: "Disable",
+          actionUnusedSeverity: "Hint",
+          warnOnLogAttribute: false,
+          templateSyntaxes: ["php"],
+          rules: { "log-attribute": "Error", "invalid-position": "Disable" },
+          customEvents: ["refresh"],
+          pageGraph: true,
+          routes: "openapi.json",
+        },
+        exclude: ["**/node_modules", "**/bower_components", "dist"],
+      });
+      expect(extern.writeFile).toHaveBeenCalledWith("report.txt", "report");
+      expect(extern.stdout.write).not.toHaveBeenCalled();
+    });
+
+    it("fails when there are errors", async () => {
+      extern.lint = fn(async () => [
+        { path: "a.html", diagnostics: [] },
+        { path: "b.html", diagnostics: [warning, error] },
+      ]) as any;
+      expect(await run([], "/cwd")).toBe(1);
+    });
+
+    it("scans the files of a single language", async () => {
+      const { mkdtemp, rm, writeFile } = await import("node:fs/promises");
+      const { tmpdir } = await import("node:os");
+      const { join } = await import("node:path");
+      const dir = await mkdtemp(join(tmpdir(), "keml-cli-"));
+
+      await writeFile(
+        join(dir, "a.vue"),
+        '<template><div on="missing"></div></template>\n',
+      );
+      extern.lint = origExtern.lint;
+
+      try {
+        expect(await run(["-l", "vue"], dir)).toBe(1);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+      expect(extern.formatters.get("stylish")).toHaveBeenCalledWith([
+        { path: "a.vue", diagnostics: expect.any(Array) },
+      ]);
+    });
+
+    it("shows the usage", async () => {
+      expect(await run(["--help"], "/cwd")).toBe(0);
+      expect(extern.stdout.write).toHaveBeenCalledWith(
+        expect.stringContaining("Usage: keml-lint"),
+      );
+      expect(extern.lint).not.toHaveBeenCalled();
+    });
+
+    it("rejects invalid usage", async () => {
+      expect(await run(["--foo"], "/cwd")).toBe(2);
+      expect(await run(["-f", "xml"], "/cwd")).toBe(2);
+      expect(await run(["--action-unused-severity", "Fatal"], "/cwd")).toBe(2);
+      expect(await run(["--template-syntax", "pug"], "/cwd")).toBe(2);
+      expect(await run(["--rule", "foo=Error"], "/cwd")).toBe(2);
+      expect(await run(["--rule", "log-attribute"], "/cwd")).toBe(2);
+      expect(extern.stderr.write).toHaveBeenNthCalledWith(
+        2,
+        expect.stringMatching(/^Unknown format 'xml'\./),
+      );
+      expect(extern.stderr.write).toHaveBeenNthCalledWith(
+        3,
+        "Invalid --action-unused-severity 'Fatal', expected one of: Error, Warning, Information, Hint, Disable.\n",
+      );
+      expect(extern.stderr.write).toHaveBeenNthCalledWith(
+        4,
+        "Invalid --template-syntax 'pug', expected one of: jinja, go, handlebars, php, erb, blade.\n",
+      );
+      expect(extern.stderr.write).toHaveBeenNthCalledWith(
+        5,
+        expect.stringMatching(
+          /^Invalid --rule 'foo=Error', expected one of: undefined-action, /,
+        ),
+      );
+      expect(extern.stderr.write).toHaveBeenNthCalledWith(
+        6,
+        "Invalid --rule 'log-attribute', expected a level among: Error, Warning, Information, Hint, Disable.\n",
+      );
+      expect(extern.lint).not.toHaveBeenCalled();
+    });
+  });
+}
+/* v8 ignore stop */
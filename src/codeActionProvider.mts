@@ -0,0 +1,1053 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionProvider,
+  Diagnostic,
+  Range,
+  SnippetString,
+  SnippetTextEdit,
+  WorkspaceEdit,
+} from "vscode";
+import { docs } from "./data.mts";
+import { findClosest } from "./findClosest.mts";
+import { getDependencies } from "./getDependencies.mts";
+import { getDiagnosticCode } from "./getDiagnosticCode.mts";
+import { Node } from "./node.mts";
+import { parseTokens } from "./parseTokens.mts";
+import { suggestEvent } from "./suggestEvent.mts";
+import {
+  validBehavior,
+  validMethod,
+  validPosition,
+  validScrollPosition,
+} from "./validValues.mts";
+
+const ATTR_NAME_PATTERN = /^[^\s=]+/;
+const WHITESPACE_PATTERN = /\s/;
+
+/**
+ * Attributes used to define a missing action, per kind.
+ */
+const definitionAttrs: Record<ActionKind, string> = {
+  event: "on:click",
+  state: "if:intersects",
+  result: "result",
+};
+
+/**
+ * Produces quick fixes for a diagnostic raised on a node.
+ */
+type Fixer = (
+  cur: Document,
+  node: Node,
+  diagnostic: Diagnostic,
+) => CodeAction[];
+
+/**
+ * Creates a quick fix resolving a diagnostic.
+ *
+ * @param title - Title of the quick fix.
+ * @param diagnostic - The diagnostic being resolved.
+ * @param edit - The edit performed by the quick fix.
+ * @param isPreferred - Whether the quick fix is the preferred one.
+ * @returns The code action.
+ */
+const createFix = (
+  title: string,
+  diagnostic: Diagnostic,
+  edit: WorkspaceEdit,
+  isPreferred = false,
+) => {
+  const action = new extern.CodeAction(title, extern.CodeActionKind.QuickFix);
+
+  action.diagnostics = [diagnostic];
+  action.edit = edit;
+  action.isPreferred = isPreferred;
+
+  return action;
+};
+
+/**
+ * Extracts the attribute name from the text covered by a diagnostic.
+ *
+ * @param cur - The document.
+ * @param range - Range starting with an attribute name.
+ * @returns The attribute name, or an empty string.
+ */
+const getAttrName = (cur: Document, range: Range) =>
+  ATTR_NAME_PATTERN.exec(cur.getText(range))?.[0] ?? "";
+
+/**
+ * Extends a range backwards over the whitespace preceding it, so that removing
+ * an attribute leaves no gap behind.
+ *
+ * @param cur - The document.
+ * @param range - Range covering an attribute.
+ * @returns The extended range.
+ */
+const getRemovalRange = (cur: Document, range: Range) => {
+  const text = cur.getText();
+  let start = cur.offsetAt(range.start);
+
+  while (start && WHITESPACE_PATTERN.test(text[start - 1]!)) {
+    --start;
+  }
+
+  return cur.rangeBetween(start, cur.offsetAt(range.end));
+};
+
+/**
+ * Computes where a new attribute can be appended to a start tag.
+ *
+ * @param cur - The document.
+ * @param node - The node to append to.
+ * @returns The offset and the whitespace to prefix the attribute with.
+ */
+const getInsertion = (cur: Document, node: Node) => {
+  const text = cur.getText();
+  let offset = node.startTagEnd! - 1;
+
+  if (text[offset - 1] === "/") {
+    --offset;
+  }
+
+  return {
+    position: cur.positionAt(offset),
+    prefix: WHITESPACE_PATTERN.test(text[offset - 1]!) ? "" : " ",
+  };
+};
+
+/**
+ * Creates quick fixes appending one of several attributes to a node, leaving
+ * the cursor inside of its value.
+ *
+ * @param cur - The document.
+ * @param node - The node to append to.
+ * @param diagnostic - The diagnostic being resolved.
+ * @param names - Names of the attributes to offer.
+ * @returns The code actions.
+ */
+const addAttributeFixes = (
+  cur: Document,
+  node: Node,
+  diagnostic: Diagnostic,
+  names: Iterable<string>,
+) => {
+  const { position, prefix } = getInsertion(cur, node);
+  const result = [];
+  let name, edit;
+
+  for (name of names) {
+    edit = new extern.WorkspaceEdit();
+    edit.set(cur.uri, [
+      extern.SnippetTextEdit.insert(
+        position,
+        new extern.SnippetString(`${prefix}${name}="$1"`),
+      ),
+    ]);
+    result.push(createFix(`Add '${name}' attribute`, diagnostic, edit));
+  }
+
+  return result;
+};
+
+/**
+ * Creates a quick fix removing an attribute altogether.
+ *
+ * @param cur - The document.
+ * @param diagnostic - The diagnostic being resolved.
+ * @param range - Range covering the attribute.
+ * @param title - Title of the quick fix.
+ * @returns The code action.
+ */
+const removeAttributeFix = (
+  cur: Document,
+  diagnostic: Diagnostic,
+  range: Range,
+  title: string,
+) => {
+  const edit = new extern.WorkspaceEdit();
+  edit.delete(cur.uri, getRemovalRange(cur, range));
+  return createFix(title, diagnostic, edit, true);
+};
+
+/**
+ * Creates a quick fix replacing a range with a value.
+ *
+ * @param cur - The document.
+ * @param diagnostic - The diagnostic being resolved.
+ * @param range - Range to replace.
+ * @param value - The replacement text.
+ * @param title - Title of the quick fix.
+ * @param isPreferred - Whether the quick fix is the preferred one.
+ * @returns The code action.
+ */
+const replaceFix = (
+  cur: Document,
+  diagnostic: Diagnostic,
+  range: Range,
+  value: string,
+  title: string,
+  isPreferred: boolean,
+) => {
+  const edit = new extern.WorkspaceEdit();
+  edit.replace(cur.uri, range, value);
+  return createFix(title, diagnostic, edit, isPreferred);
+};
+
+/**
+ * Creates a fixer replacing an invalid value with the closest valid one, or
+ * offering every valid value when the value is missing altogether.
+ *
+ * @param values - The valid values.
+ * @returns The fixer.
+ */
+const replaceValue =
+  (values: string[]): Fixer =>
+  (cur, node, diagnostic) => {
+    const { range } = diagnostic;
+    const attr = node.findAttrAt(cur.offsetAt(range.start));
+
+    if (attr) {
+      const { closest } = extern.findClosest(attr.value, values);
+      return [
+        replaceFix(
+          cur,
+          diagnostic,
+          range,
+          closest,
+          `Change to '${closest}'`,
+          true,
+        ),
+      ];
+    }
+
+    const name = getAttrName(cur, range);
+
+    return values.map(value =>
+      replaceFix(
+        cur,
+        diagnostic,
+        range,
+        `${name}="${value}"`,
+        `Set '${name}' to '${value}'`,
+        false,
+      ),
+    );
+  };
+
+/**
+ * Quick fixes for every diagnostic code.
+ */
+const fixers = new Map<string, Fixer>([
+  [
+    "missing-dependency",
+    (cur, node, diagnostic) => {
+      const names = new Set<string>();
+      let depends;
+
+      for (depends of extern.getDependencies(
+        node.tag!,
+        getAttrName(cur, diagnostic.range),
+      )) {
+        if (
+          !depends.some(
+            d => node.hasAttribute(d) || node.hasAttribute(`x-${d}`),
+          )
+        ) {
+          depends.forEach(names.add, names);
+        }
+      }
+
+      return addAttributeFixes(cur, node, diagnostic, names);
+    },
+  ],
+  [
+    "conditional-without-if",
+    (cur, node, diagnostic) => addAttributeFixes(cur, node, diagnostic, ["if"]),
+  ],
+  [
+    "scroll-without-offset",
+    (cur, node, diagnostic) =>
+      addAttributeFixes(cur, node, diagnostic, ["top", "left"]),
+  ],
+  ["invalid-position", replaceValue(validPosition)],
+  ["invalid-behavior", replaceValue(validBehavior)],
+  ["invalid-scroll-position", replaceValue(validScrollPosition)],
+  ["invalid-method", replaceValue(validMethod)],
+  [
+    "shadowed-endpoint",
+    (cur, _, diagnostic) => [
+      removeAttributeFix(
+        cur,
+        diagnostic,
+        diagnostic.range,
+        `Remove ignored '${getAttrName(cur, diagnostic.range)}' attribute`,
+      ),
+    ],
+  ],
+  [
+    "redirect-with-method",
+    (cur, _, diagnostic) => [
+      removeAttributeFix(
+        cur,
+        diagnostic,
+        diagnostic.range,
+        "Remove 'redirect' attribute",
+      ),
+    ],
+  ],
+  [
+    "unknown-event",
+    (cur, _, diagnostic) => {
+      const { range } = diagnostic;
+      const name = cur.getText(range);
+      const prefix = name.slice(0, name.indexOf(":") + 1);
+      const suggestion = extern.suggestEvent(name.slice(prefix.length));
+
+      return suggestion ?
+          [
+            replaceFix(
+              cur,
+              diagnostic,
+              range,
+              prefix + suggestion,
+              `Change to '${prefix + suggestion}'`,
+              true,
+            ),
+          ]
+        : [];
+    },
+  ],
+  [
+    "log-attribute",
+    (cur, _, diagnostic) => [
+      removeAttributeFix(
+        cur,
+        diagnostic,
+        diagnostic.range,
+        `Remove '${getAttrName(cur, diagnostic.range)}' attribute`,
+      ),
+    ],
+  ],
+  [
+    "empty-subscriber",
+    (cur, _, diagnostic) => [
+      removeAttributeFix(
+        cur,
+        diagnostic,
+        diagnostic.range,
+        `Remove empty '${getAttrName(cur, diagnostic.range)}' attribute`,
+      ),
+    ],
+  ],
+  [
+    "whitespace-in-subscriber",
+    (cur, node, diagnostic) => {
+      const { range } = diagnostic;
+      const attr = node.findAttrAt(cur.offsetAt(range.start));
+      if (!attr) {
+        return [];
+      }
+
+      const tokens = extern.parseTokens(attr.value);
+
+      return tokens.map(({ token }) =>
+        replaceFix(
+          cur,
+          diagnostic,
+          range,
+          token,
+          `Change to '${token}'`,
+          tokens.length === 1,
+        ),
+      );
+    },
+  ],
+  [
+    "undefined-action",
+    (cur, node, diagnostic) => {
+      const match = cur.findActionAt(diagnostic.range.start);
+      if (!match) {
+        return [];
+      }
+
+      const { kind, action } = match;
+      const name = definitionAttrs[kind];
+      const attr = node.getAttribute(name);
+      const edit = new extern.WorkspaceEdit();
+
+      if (attr?.range) {
+        edit.insert(
+          cur.uri,
+          attr.range.end,
+          attr.value ? ` ${action}` : action,
+        );
+      } else {
+        const { position, prefix } = getInsertion(cur, node);
+        edit.insert(cur.uri, position, `${prefix}${name}="${action}"`);
+      }
+
+      return [
+        createFix(
+          `Define ${kind} action '${action}' with '${name}'`,
+          diagnostic,
+          edit,
+          true,
+        ),
+      ];
+    },
+  ],
+  [
+    "unused-action",
+    (cur, node, diagnostic) => {
+      const { range } = diagnostic;
+      const match = cur.findActionAt(range.start);
+      const attr = node.findAttrAt(cur.offsetAt(range.start));
+      if (!match || !attr) {
+        return [];
+      }
+
+      const title = `Remove unused ${match.kind} action '${match.action}'`;
+
+      if (extern.parseTokens(attr.value).length < 2) {
+        return [removeAttributeFix(cur, diagnostic, attr.fullRange, title)];
+      }
+
+      const text = cur.getText();
+      let start = cur.offsetAt(range.start);
+      let end = cur.offsetAt(range.end);
+
+      if (end < attr.end! && WHITESPACE_PATTERN.test(text[end]!)) {
+        while (end < attr.end! && WHITESPACE_PATTERN.test(text[end]!)) {
+          ++end;
+        }
+      } else {
+        while (
+          start > attr.start! &&
+          WHITESPACE_PATTERN.test(text[start - 1]!)
+        ) {
+          --start;
+        }
+      }
+
+      const edit = new extern.WorkspaceEdit();
+      edit.delete(cur.uri, cur.rangeBetween(start, end));
+
+      return [createFix(title, diagnostic, edit, true)];
+    },
+  ],
+]);
+
+/**
+ * Provides quick fixes for KEML diagnostics.
+ */
+export const codeActionProvider: CodeActionProvider = {
+  /**
+   * Collects quick fixes for the KEML diagnostics in the given context.
+   *
+   * @param doc - Document in which the code actions were requested.
+   * @param _range - Range for which the code actions were requested (unused).
+   * @param context - Context carrying the diagnostics to fix.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The quick fixes, or undefined if cancelled or unavailable.
+   */
+  provideCodeActions(
+    doc,
+    _range,
+    { diagnostics },
+    { isCancellationRequested },
+  ) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    const cur = extern.docs.get(doc.uri.toString());
+    if (!cur) {
+      return;
+    }
+
+    const result: CodeAction[] = [];
+    let diagnostic, fixer, node;
+
+    for (diagnostic of diagnostics) {
+      if (
+        diagnostic.source === "KEML" &&
+        (fixer = fixers.get(getDiagnosticCode(diagnostic) as string)) &&
+        (node = cur.findNodeAt(cur.offsetAt(diagnostic.range.start)))
+      ) {
+        result.push(...fixer(cur, node, diagnostic));
+      }
+    }
+
+    return result;
+  },
+};
+
+let extern = {
+  CodeAction,
+  CodeActionKind,
+  SnippetString,
+  SnippetTextEdit,
+  WorkspaceEdit,
+  docs,
+  findClosest,
+  getDependencies,
+  parseTokens,
+  suggestEvent,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    beforeEach,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  /**
+   * Offsets double as positions in these tests.
+   */
+  const createDoc = (text: string, node?: Node, match?: ActionMatch) =>
+    ({
+      uri: "uri",
+      getText: (range?: any) =>
+        range ? text.slice(range.start, range.end) : text,
+      offsetAt: (position: any) => position,
+      positionAt: (offset: number) => offset,
+      rangeBetween: (start: number, end: number) => ({ start, end }),
+      findNodeAt: fn(() => node),
+      findActionAt: fn(() => match),
+    }) as any;
+
+  const createNode = (
+    text: string,
+    tag: string,
+    attrs: [string, number, number?][],
+  ) => {
+    const start = text.indexOf(`<${tag}`);
+    const node = new Node({
+      tag,
+      start,
+      startTagEnd: text.indexOf(">", start) + 1,
+      end: text.length,
+    } as any);
+    let name, nameOffset, valueOffset, valueEnd;
+
+    for ([name, nameOffset, valueOffset] of attrs) {
+      if (valueOffset == null) {
+        node.setAttribute(name, {
+          name,
+          value: "",
+          fullRange: { start: nameOffset, end: nameOffset + name.length },
+        } as any);
+      } else {
+        valueEnd = text.indexOf('"', valueOffset);
+        node.setAttribute(name, {
+          name,
+          value: text.slice(valueOffset, valueEnd),
+          start: valueOffset,
+          end: valueEnd,
+          range: { start: valueOffset, end: valueEnd },
+          fullRange: { start: nameOffset, end: valueEnd + 1 },
+        } as any);
+      }
+    }
+
+    return node;
+  };
+
+  const diagnose = (code: string, start: number, end: number) =>
+    ({ source: "KEML", code, range: { start, end } }) as any;
+
+  const provide = (cur: any, ...diagnostics: any[]) => {
+    extern.docs = new Map([["doc", cur]]) as any;
+    return codeActionProvider.provideCodeActions(
+      { uri: { toString: () => "doc" } } as any,
+      {} as any,
+      { diagnostics } as any,
+      { isCancellationRequested: false } as any,
+    ) as any[];
+  };
+
+  describe("codeActionProvider", () => {
+    beforeEach(() => {
+      extern = {
+        ...origExtern,
+        docs: new Map(),
+        CodeAction: class {
+          diagnostics?: any;
+          edit?: any;
+          isPreferred?: boolean;
+          constructor(
+            public title: string,
+            public kind: any,
+          ) {}
+        } as any,
+        CodeActionKind: { QuickFix: "quickfix" } as any,
+        SnippetString: class {
+          constructor(public value: string) {}
+        } as any,
+        SnippetTextEdit: {
+          insert: (position: any, snippet: any) => ({ position, snippet }),
+        } as any,
+        WorkspaceEdit: class {
+          edits: any[] = [];
+          set(uri: any, edits: any) {
+            this.edits.push(["set", uri, edits]);
+          }
+          insert(uri: any, position: any, text: string) {
+            this.edits.push(["insert", uri, position, text]);
+          }
+          delete(uri: any, range: any) {
+            this.edits.push(["delete", uri, range]);
+          }
+          replace(uri: any, range: any, text: string) {
+            this.edits.push(["replace", uri, range, text]);
+          }
+        } as any,
+      };
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("returns undefined if cancelled", () => {
+      expect(
+        codeActionProvider.provideCodeActions(
+          {} as any,
+          {} as any,
+          { diagnostics: [] } as any,
+          { isCancellationRequested: true } as any,
+        ),
+      ).toBeUndefined();
+    });
+
+    it("returns undefined for an unknown document", () => {
+      expect(
+        codeActionProvider.provideCodeActions(
+          { uri: { toString: () => "missing" } } as any,
+          {} as any,
+          { diagnostics: [] } as any,
+          { isCancellationRequested: false } as any,
+        ),
+      ).toBeUndefined();
+    });
+
+    it("ignores foreign, unknown and detached diagnostics", () => {
+      const text = "<div>";
+      const cur = createDoc(text);
+      expect(
+        provide(
+          cur,
+          { source: "other", code: "log-attribute", range: {} },
+          diagnose("unknown", 0, 1),
+          diagnose("log-attribute", 0, 1),
+        ),
+      ).toEqual([]);
+    });
+
+    it("adds a missing dependency", () => {
+      const text = '<div event:click="ctrlKey">';
+      const node = createNode(text, "div", [["event:click", 5, 18]]);
+      const diagnostic = diagnose("missing-dependency", 5, 26);
+      const [fix, ...rest] = provide(createDoc(text, node), diagnostic);
+
+      expect(rest).toEqual([]);
+      expect(fix).toMatchObject({
+        title: "Add 'on:click' attribute",
+        kind: "quickfix",
+        diagnostics: [diagnostic],
+        isPreferred: false,
+        edit: {
+          edits: [
+            [
+              "set",
+              "uri",
+              [{ position: 26, snippet: { value: ' on:click="$1"' } }],
+            ],
+          ],
+        },
+      });
+    });
+
+    it("fixes diagnostics linking to the documentation of their rule", () => {
+      const text = '<div event:click="ctrlKey">';
+      const node = createNode(text, "div", [["event:click", 5, 18]]);
+      const diagnostic = {
+        ...diagnose("", 5, 26),
+        code: { value: "missing-dependency", target: {} },
+      };
+
+      expect(provide(createDoc(text, node), diagnostic)).toMatchObject([
+        { title: "Add 'on:click' attribute", diagnostics: [diagnostic] },
+      ]);
+    });
+
+    it("offers every alternative of every unsatisfied group once", () => {
+      const text = '<div result="x" if="y"/>';
+      const node = createNode(text, "div", [
+        ["result", 5, 13],
+        ["if", 16, 20],
+      ]);
+      extern.getDependencies = fn(() => [["on", "sse"], ["on"], ["if"]]);
+      const fixes = provide(
+        createDoc(text, node),
+        diagnose("missing-dependency", 5, 15),
+      );
+
+      expect(extern.getDependencies).toHaveBeenCalledWith("div", "result");
+      expect(fixes.map(({ title }) => title)).toEqual([
+        "Add 'on' attribute",
+        "Add 'sse' attribute",
+      ]);
+      expect(fixes[0].edit.edits[0][2][0].position).toBe(22);
+    });
+
+    it("skips groups satisfied by x- attributes", () => {
+      const text = '<div x-on="a" once>';
+      const node = createNode(text, "div", [
+        ["x-on", 5, 11],
+        ["once", 14],
+      ]);
+      expect(
+        provide(createDoc(text, node), diagnose("missing-dependency", 14, 18)),
+      ).toEqual([]);
+    });
+
+    it("skips a stale missing dependency diagnostic", () => {
+      const text = "<div>";
+      const node = createNode(text, "div", []);
+      expect(
+        provide(createDoc(text, node), diagnose("missing-dependency", 4, 4)),
+      ).toEqual([]);
+    });
+
+    it("adds 'if' to a conditional attribute", () => {
+      const text = '<div x-class="a" >';
+      const node = createNode(text, "div", [["x-class", 5, 14]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("conditional-without-if", 5, 16),
+      );
+      expect(fix.title).toBe("Add 'if' attribute");
+      expect(fix.edit.edits[0][2][0]).toEqual({
+        position: 17,
+        snippet: { value: 'if="$1"' },
+      });
+    });
+
+    it("adds an offset to a scroll attribute", () => {
+      const text = '<div scroll="a">';
+      const node = createNode(text, "div", [["scroll", 5, 13]]);
+      expect(
+        provide(
+          createDoc(text, node),
+          diagnose("scroll-without-offset", 5, 15),
+        ).map(({ title }) => title),
+      ).toEqual(["Add 'top' attribute", "Add 'left' attribute"]);
+    });
+
+    it("replaces an invalid value with the closest valid one", () => {
+      const text = '<div position="apend">';
+      const node = createNode(text, "div", [["position", 5, 15]]);
+      const [fix, ...rest] = provide(
+        createDoc(text, node),
+        diagnose("invalid-position", 15, 20),
+      );
+      expect(rest).toEqual([]);
+      expect(fix).toMatchObject({
+        title: "Change to 'append'",
+        isPreferred: true,
+        edit: {
+          edits: [["replace", "uri", { start: 15, end: 20 }, "append"]],
+        },
+      });
+    });
+
+    it("replaces an invalid behavior", () => {
+      const text = '<div behavior="smoth">';
+      const node = createNode(text, "div", [["behavior", 5, 15]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("invalid-behavior", 15, 20),
+      );
+      expect(fix.title).toBe("Change to 'smooth'");
+    });
+
+    it("offers every value for a missing scroll position", () => {
+      const text = "<div top>";
+      const node = createNode(text, "div", [["top", 5]]);
+      const fixes = provide(
+        createDoc(text, node),
+        diagnose("invalid-scroll-position", 5, 8),
+      );
+      expect(fixes.map(({ title }) => title)).toEqual([
+        "Set 'top' to 'start'",
+        "Set 'top' to 'center'",
+        "Set 'top' to 'end'",
+      ]);
+      expect(fixes[0]).toMatchObject({
+        isPreferred: false,
+        edit: {
+          edits: [["replace", "uri", { start: 5, end: 8 }, 'top="start"']],
+        },
+      });
+    });
+
+    it("replaces an invalid method", () => {
+      const text = '<div method="pot">';
+      const node = createNode(text, "div", [["method", 5, 13]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("invalid-method", 13, 16),
+      );
+      expect(fix.title).toBe("Change to 'POST'");
+    });
+
+    it("removes an ignored endpoint attribute", () => {
+      const text = '<div post="/a" put="/b">';
+      const node = createNode(text, "div", [
+        ["post", 5, 11],
+        ["put", 15, 20],
+      ]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("shadowed-endpoint", 15, 23),
+      );
+      expect(fix).toMatchObject({
+        title: "Remove ignored 'put' attribute",
+        edit: { edits: [["delete", "uri", { start: 14, end: 23 }]] },
+      });
+    });
+
+    it("removes a redirect attribute", () => {
+      const text = '<div post="/a" redirect="assign">';
+      const node = createNode(text, "div", [
+        ["post", 5, 11],
+        ["redirect", 15, 25],
+      ]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("redirect-with-method", 15, 32),
+      );
+      expect(fix).toMatchObject({
+        title: "Remove 'redirect' attribute",
+        edit: { edits: [["delete", "uri", { start: 14, end: 32 }]] },
+      });
+    });
+
+    it("renames an unknown event", () => {
+      const text = '<div x-on:clik="a" on:teleport="b">';
+      const node = createNode(text, "div", [
+        ["x-on:clik", 5, 16],
+        ["on:teleport", 19, 32],
+      ]);
+      const cur = createDoc(text, node);
+      const [fix] = provide(cur, diagnose("unknown-event", 5, 14));
+      expect(fix).toMatchObject({
+        title: "Change to 'x-on:click'",
+        isPreferred: true,
+        edit: {
+          edits: [["replace", "uri", { start: 5, end: 14 }, "x-on:click"]],
+        },
+      });
+      expect(provide(cur, diagnose("unknown-event", 19, 30))).toEqual([]);
+    });
+
+    it("removes a log attribute with its leading whitespace", () => {
+      const text = "<div  x-log>";
+      const node = createNode(text, "div", [["x-log", 6]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("log-attribute", 6, 11),
+      );
+      expect(fix).toMatchObject({
+        title: "Remove 'x-log' attribute",
+        isPreferred: true,
+        edit: { edits: [["delete", "uri", { start: 4, end: 11 }]] },
+      });
+    });
+
+    it("removes an attribute at the very start of a document", () => {
+      const text = "log>";
+      const node = createNode(text, "", [["log", 0]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("log-attribute", 0, 3),
+      );
+      expect(fix.edit.edits[0][2]).toEqual({ start: 0, end: 3 });
+    });
+
+    it("removes an empty subscriber", () => {
+      const text = '<div on="">';
+      const node = createNode(text, "div", [["on", 5, 9]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("empty-subscriber", 5, 10),
+      );
+      expect(fix).toMatchObject({
+        title: "Remove empty 'on' attribute",
+        edit: { edits: [["delete", "uri", { start: 4, end: 10 }]] },
+      });
+    });
+
+    it("offers every token of a subscriber with whitespace", () => {
+      const text = '<div on="a b">';
+      const node = createNode(text, "div", [["on", 5, 9]]);
+      const fixes = provide(
+        createDoc(text, node),
+        diagnose("whitespace-in-subscriber", 9, 12),
+      );
+      expect(fixes).toMatchObject([
+        { title: "Change to 'a'", isPreferred: false },
+        { title: "Change to 'b'", isPreferred: false },
+      ]);
+    });
+
+    it("trims a subscriber surrounded by whitespace", () => {
+      const text = '<div on=" a ">';
+      const node = createNode(text, "div", [["on", 5, 9]]);
+      const [fix] = provide(
+        createDoc(text, node),
+        diagnose("whitespace-in-subscriber", 9, 12),
+      );
+      expect(fix).toMatchObject({
+        title: "Change to 'a'",
+        isPreferred: true,
+        edit: { edits: [["replace", "uri", { start: 9, end: 12 }, "a"]] },
+      });
+    });
+
+    it("skips a stale whitespace diagnostic", () => {
+      const text = "<div on>";
+      const node = createNode(text, "div", [["on", 5]]);
+      expect(
+        provide(
+          createDoc(text, node),
+          diagnose("whitespace-in-subscriber", 5, 7),
+        ),
+      ).toEqual([]);
+    });
+
+    it("defines an undefined action on the same element", () => {
+      const text = '<div on="save">';
+      const node = createNode(text, "div", [["on", 5, 9]]);
+      const cur = createDoc(text, node, {
+        kind: "event",
+        action: "save",
+        range: { start: 9, end: 13 } as any,
+        definition: false,
+      });
+      const [fix] = provide(cur, diagnose("undefined-action", 9, 13));
+      expect(cur.findActionAt).toHaveBeenCalledWith(9);
+      expect(fix).toMatchObject({
+        title: "Define event action 'save' with 'on:click'",
+        isPreferred: true,
+        edit: { edits: [["insert", "uri", 14, ' on:click="save"']] },
+      });
+    });
+
+    it("appends an undefined action to an existing definition", () => {
+      const text = '<div if="busy" if:intersects="seen">';
+      const node = createNode(text, "div", [
+        ["if", 5, 9],
+        ["if:intersects", 15, 30],
+      ]);
+      const cur = createDoc(text, node, {
+        kind: "state",
+        action: "busy",
+        range: {} as any,
+        definition: false,
+      });
+      const [fix] = provide(cur, diagnose("undefined-action", 9, 13));
+      expect(fix.edit.edits).toEqual([["insert", "uri", 34, " busy"]]);
+    });
+
+    it("fills an empty definition with an undefined action", () => {
+      const text = '<div render="list" result="">';
+      const node = createNode(text, "div", [
+        ["render", 5, 13],
+        ["result", 19, 27],
+      ]);
+      const cur = createDoc(text, node, {
+        kind: "result",
+        action: "list",
+        range: {} as any,
+        definition: false,
+      });
+      const [fix] = provide(cur, diagnose("undefined-action", 13, 17));
+      expect(fix.edit.edits).toEqual([["insert", "uri", 27, "list"]]);
+    });
+
+    it("skips a stale undefined action diagnostic", () => {
+      const text = "<div>";
+      const node = createNode(text, "div", []);
+      expect(
+        provide(createDoc(text, node), diagnose("undefined-action", 1, 2)),
+      ).toEqual([]);
+    });
+
+    it("removes the only unused action with its attribute", () => {
+      const text = '<div on:click="save">';
+      const node = createNode(text, "div", [["on:click", 5, 15]]);
+      const cur = createDoc(text, node, {
+        kind: "event",
+        action: "save",
+        range: {} as any,
+        definition: true,
+      });
+      const [fix] = provide(cur, diagnose("unused-action", 15, 19));
+      expect(fix).toMatchObject({
+        title: "Remove unused event action 'save'",
+        edit: { edits: [["delete", "uri", { start: 4, end: 20 }]] },
+      });
+    });
+
+    it("removes an unused action with the whitespace following it", () => {
+      const text = '<div result="a  b">';
+      const node = createNode(text, "div", [["result", 5, 13]]);
+      const cur = createDoc(text, node, {
+        kind: "result",
+        action: "a",
+        range: {} as any,
+        definition: true,
+      });
+      const [fix] = provide(cur, diagnose("unused-action", 13, 14));
+      expect(fix.edit.edits).toEqual([
+        ["delete", "uri", { start: 13, end: 16 }],
+      ]);
+    });
+
+    it("removes the last unused action with the whitespace preceding it", () => {
+      const text = '<div result="a  b">';
+      const node = createNode(text, "div", [["result", 5, 13]]);
+      const cur = createDoc(text, node, {
+        kind: "result",
+        action: "b",
+        range: {} as any,
+        definition: true,
+      });
+      const [fix] = provide(cur, diagnose("unused-action", 16, 17));
+      expect(fix.edit.edits).toEqual([
+        ["delete", "uri", { start: 14, end: 17 }],
+      ]);
+    });
+
+    it("skips a stale unused action diagnostic", () => {
+      const text = '<div result="a">';
+      const node = createNode(text, "div", [["result", 5, 13]]);
+      expect(
+        provide(createDoc(text, node), diagnose("unused-action", 13, 14)),
+      ).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
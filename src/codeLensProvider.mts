@@ -0,0 +1,285 @@
+import { CodeLens, CodeLensProvider, Location } from "vscode";
+import { docs, getExternalActions } from "./data.mts";
+import { getAnnotations } from "./getAnnotations.mts";
+import { getLocations } from "./getLocations.mts";
+import { getNamespace } from "./getNamespace.mts";
+import {
+  actionKinds,
+  definitionResolvers,
+  referenceResolvers,
+} from "./resolvers.mts";
+
+/**
+ * Formats a count along with a noun, pluralized as needed.
+ *
+ * @param count - The count.
+ * @param noun - The singular noun.
+ * @returns For example "1 file" or "2 files".
+ */
+const pluralize = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Provides reference counts above every action: how many elements subscribe
+ * to an action, and in how many files, above its definitions; and how many
+ * times an action is defined above its subscribers, counting its declaration
+ * in the project manifest.
+ *
+ * Clicking a count opens the same locations as "Find All References" in the
+ * peek view, and hovering it shows the documentation of the action.
+ */
+export const codeLensProvider: CodeLensProvider = {
+  /**
+   * Computes the reference count lenses of a document.
+   *
+   * @param doc - The document.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The lenses, or undefined if the document is unknown.
+   */
+  provideCodeLenses(doc, { isCancellationRequested }) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    const cur = extern.docs.get(doc.uri.toString());
+    if (!cur) {
+      return;
+    }
+
+    const namespace = extern.getNamespace(cur.uri);
+    const lenses: CodeLens[] = [];
+    let kind, resolver, opposite, definition, action, ranges, range, declared;
+    let locations: Location[], title, tooltip;
+
+    for (kind of actionKinds) {
+      for ([resolver, opposite, definition] of [
+        [definitionResolvers[kind], referenceResolvers[kind], true],
+        [referenceResolvers[kind], definitionResolvers[kind], false],
+      ] as const) {
+        for ([action, ranges] of resolver(cur)) {
+          locations = extern.getLocations(action, opposite, namespace);
+          declared = extern.getExternalActions(namespace)[kind].get(action);
+          if (declared && !definition) {
+            locations.unshift(declared.location);
+          }
+          title =
+            definition ?
+              `${pluralize(locations.length, "subscriber")} · ${pluralize(
+                new Set(locations.map(({ uri }) => uri.toString())).size,
+                "file",
+              )}`
+            : `defined in ${pluralize(locations.length, "place")}`;
+          tooltip = [
+            `${kind} action "${action}"`,
+            ...new Set(
+              [
+                declared,
+                ...extern.getAnnotations(action, kind, namespace),
+              ].flatMap(documented => documented?.description || []),
+            ),
+          ].join("\n\n");
+
+          for (range of ranges) {
+            lenses.push(
+              new extern.CodeLens(range, {
+                title,
+                tooltip,
+                command: "keml.showReferences",
+                arguments: [doc.uri, range.start, locations],
+              }),
+            );
+          }
+        }
+      }
+    }
+
+    return lenses;
+  },
+};
+
+let extern = {
+  CodeLens,
+  docs,
+  getAnnotations,
+  getExternalActions,
+  getLocations,
+  getNamespace,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const { Document } = await import("./document.mts");
+  const { docs, setExclude, setInclude, setLanguageIds } =
+    await import("./data.mts");
+  const { Location, Position, TextDocument, Uri } =
+    await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("codeLensProvider", () => {
+    const token = { isCancellationRequested: false } as any;
+    const a = Uri.file("/a.html");
+    const b = Uri.file("/b.html");
+
+    setLanguageIds(["html"]);
+    setExclude([]);
+    setInclude([]);
+
+    afterAll(() => {
+      docs.clear();
+      extern = origExtern;
+    });
+
+    it("ignores cancelled requests and unknown documents", () => {
+      extern.docs = new Map();
+      expect(
+        codeLensProvider.provideCodeLenses(
+          { uri: a } as any,
+          { isCancellationRequested: true } as any,
+        ),
+      ).toBeUndefined();
+      expect(
+        codeLensProvider.provideCodeLenses({ uri: a } as any, token),
+      ).toBeUndefined();
+    });
+
+    it("counts subscribers and definitions", () => {
+      const manifest = new Location(Uri.file("/.kemlrc"), new Position(1, 2));
+
+      extern = {
+        ...origExtern,
+        getExternalActions: fn(() => ({
+          event: new Map(),
+          state: new Map([
+            ["busy", { description: "", location: manifest } as any],
+          ]),
+          result: new Map([
+            ["list", { description: "", location: manifest } as any],
+          ]),
+        })),
+      };
+      docs.set(
+        a.toString(),
+        new Document(
+          new TextDocument(
+            a,
+            "html",
+            1,
+            [
+              '<button on:click="save" if="busy"></button>',
+              '<form on="save" result="list"></form>',
+            ].join("\n"),
+          ) as any,
+        ),
+      );
+      docs.set(
+        b.toString(),
+        new Document(
+          new TextDocument(
+            b,
+            "html",
+            1,
+            ['<p on="save"></p>', '<input on:input="busy save">'].join("\n"),
+          ) as any,
+        ),
+      );
+
+      const lenses = codeLensProvider.provideCodeLenses(
+        { uri: a } as any,
+        token,
+      ) as CodeLens[];
+
+      expect(
+        lenses.map(({ range: { start }, command }) => [
+          `${start.line}:${start.character}`,
+          command!.title,
+          command!.tooltip,
+        ]),
+      ).toEqual([
+        ["0:18", "2 subscribers · 2 files", 'event action "save"'],
+        ["1:10", "defined in 2 places", 'event action "save"'],
+        ["0:28", "defined in 1 place", 'state action "busy"'],
+        ["1:24", "0 subscribers · 0 files", 'result action "list"'],
+      ]);
+
+      const { command, arguments: args } = lenses[1]!.command!;
+      const [uri, position, locations] = args as [unknown, unknown, Location[]];
+
+      expect(command).toBe("keml.showReferences");
+      expect(uri).toBe(a);
+      expect(position).toBe(lenses[1]!.range.start);
+      expect(locations.map(({ uri }) => uri.toString())).toEqual([
+        a.toString(),
+        b.toString(),
+      ]);
+      expect(lenses[2]!.command!.arguments![2]).toEqual([manifest]);
+      expect(lenses[3]!.command!.arguments![2]).toEqual([]);
+      expect(extern.getExternalActions).toHaveBeenCalledWith("");
+    });
+
+    it("shows the documentation of actions", () => {
+      extern = {
+        ...origExtern,
+        getExternalActions: () => ({
+          event: new Map(),
+          state: new Map([["busy", { description: "Declared." } as any]]),
+          result: new Map(),
+        }),
+      };
+      docs.set(
+        a.toString(),
+        new Document(
+          new TextDocument(
+            a,
+            "html",
+            1,
+            [
+              "<!-- @keml save: Saves. @keml busy: Busy. -->",
+              '<button on:click="save" if="busy"></button>',
+            ].join("\n"),
+          ) as any,
+        ),
+      );
+      docs.set(
+        b.toString(),
+        new Document(
+          new TextDocument(
+            b,
+            "html",
+            1,
+            [
+              "<!-- @keml save: Saves. -->",
+              '<input on:input="save">',
+              "<!-- @keml save: Persists. -->",
+              '<input on:input="save">',
+            ].join("\n"),
+          ) as any,
+        ),
+      );
+
+      const lenses = codeLensProvider.provideCodeLenses(
+        { uri: a } as any,
+        token,
+      ) as CodeLens[];
+
+      expect(lenses.map(({ command }) => command!.tooltip)).toEqual([
+        'event action "save"\n\nSaves.\n\nPersists.',
+        'state action "busy"\n\nDeclared.',
+      ]);
+    });
+
+    it("pluralizes counts", () => {
+      expect(pluralize(1, "file")).toBe("1 file");
+      expect(pluralize(0, "file")).toBe("0 files");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -1,22 +1,50 @@
-import { extensions, workspace } from "vscode";
+import { extensions, window, workspace } from "vscode";
 import {
   languageDisposables,
   setActionUndefinedSeverity,
   setActionUnusedSeverity,
+  setCustomEvents,
   setExclude,
   setFileExtensions,
   setInclude,
+  setIncludePatterns,
   setLanguageIds,
+  setPageGraph,
+  setRules,
+  setSharedNamespaces,
+  setTemplateSyntaxes,
   setWarnOnLogAttribute,
 } from "./data.mts";
+import { defaultIncludePatterns } from "./defaultIncludePatterns.mts";
 import { populateDocs, pruneDocs } from "./documents.mts";
+import { loadIndexCache, saveIndexCache } from "./indexCache.mts";
+import { loadManifest } from "./manifest.mts";
 import { registerProviders } from "./registerProviders.mts";
+import { loadRoutes, updateRoutesWatcher } from "./routes.mts";
 import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
 import { updateFileSystemWatcher } from "./updateFileSystemWatcher.mts";
 
+/**
+ * Compiles the patterns of the include directives, reporting the invalid ones.
+ *
+ * @param sources - The sources of the patterns.
+ * @returns The global patterns.
+ */
+const compileIncludePatterns = (sources: string[]) =>
+  sources.flatMap(source => {
+    try {
+      return [new RegExp(source, "g")];
+    } catch (error) {
+      extern.window.showErrorMessage(`Invalid include pattern: ${error}`);
+      return [];
+    }
+  });
+
 /**
  * Configures the workspace and language settings, including file extensions,
- * include/exclude patterns, severities, and diagnostic collections.
+ * include/exclude patterns, severities, namespaces, custom events, the page
+ * graph mode, the project manifest, the routes of the server, the index cache
+ * and diagnostic collections.
  *
  * Updates internal configuration and registers necessary providers.
  *
@@ -24,8 +52,15 @@ import { updateFileSystemWatcher } from "./updateFileSystemWatcher.mts";
  *   configuration change may affect the display of `log` attribute warnings.
  *   This can trigger a selective refresh of documents containing `log`
  *   attributes to ensure diagnostics reflect the current setting.
+ * @param affectsEveryDocument - When `true`, indicates that the configuration
+ *   change may affect every document, e.g. how template interpolations are
+ *   recognized or how severe each rule is, which triggers a refresh of every
+ *   document.
  */
-export const configure = async (affectsWarnOnLogAttribute: boolean) => {
+export const configure = async (
+  affectsWarnOnLogAttribute: boolean,
+  affectsEveryDocument = false,
+) => {
   const excludes = extern.workspace
     .getConfiguration("search", null)
     .get<Record<string, boolean>>("exclude", {});
@@ -46,6 +81,17 @@ export const configure = async (affectsWarnOnLogAttribute: boolean) => {
     keml.get<string>("actionUnusedSeverity", "Warning"),
   );
   extern.setWarnOnLogAttribute(keml.get<boolean>("warnOnLogAttribute", true));
+  extern.setTemplateSyntaxes(keml.get<string[]>("templateSyntaxes", []));
+  extern.setRules(keml.get<Record<string, string>>("rules", {}));
+  extern.setCustomEvents(keml.get<string[]>("customEvents", []));
+  extern.setSharedNamespaces(keml.get<string[][]>("sharedNamespaces", []));
+  extern.setIncludePatterns(
+    extern.setPageGraph(keml.get<boolean>("pageGraph", false)) ?
+      compileIncludePatterns(
+        keml.get<string[]>("includePatterns", defaultIncludePatterns),
+      )
+    : [],
+  );
 
   for (const pattern in excludes) {
     if (excludes[pattern]) {
@@ -69,7 +115,7 @@ export const configure = async (affectsWarnOnLogAttribute: boolean) => {
   }
 
   extern.setFileExtensions(fileExtensions);
-  extern.pruneDocs(affectsWarnOnLogAttribute);
+  extern.pruneDocs(affectsWarnOnLogAttribute, affectsEveryDocument);
 
   for ([languageId, disposables] of Array.from(extern.languageDisposables)) {
     if (!languageIds.includes(languageId)) {
@@ -80,9 +126,14 @@ export const configure = async (affectsWarnOnLogAttribute: boolean) => {
     }
   }
 
+  await extern.loadManifest();
+  await extern.loadRoutes();
+  await extern.loadIndexCache();
   await extern.populateDocs();
-  extern.updateDiagnosticCollection();
+  extern.updateDiagnosticCollection(true);
+  await extern.saveIndexCache();
   extern.updateFileSystemWatcher();
+  extern.updateRoutesWatcher();
 
   for (languageId of languageIds) {
     if (!extern.languageDisposables.has(languageId)) {
@@ -96,20 +147,32 @@ export const configure = async (affectsWarnOnLogAttribute: boolean) => {
 
 let extern = {
   extensions,
+  window,
   workspace,
   languageDisposables,
   setActionUndefinedSeverity,
   setActionUnusedSeverity,
+  setCustomEvents,
   setExclude,
   setFileExtensions,
   setWarnOnLogAttribute,
+  setTemplateSyntaxes,
+  setRules,
+  setSharedNamespaces,
   setInclude,
+  setIncludePatterns,
   setLanguageIds,
+  setPageGraph,
+  loadIndexCache,
+  loadManifest,
+  loadRoutes,
   populateDocs,
   pruneDocs,
   registerProviders,
+  saveIndexCache,
   updateDiagnosticCollection,
   updateFileSystemWatcher,
+  updateRoutesWatcher,
 };
 
 /* v8 ignore start */
@@ -148,6 +211,17 @@ if (import.meta.vitest) {
             if (section === "keml" && key === "actionUnusedSeverity")
               return "Warning";
             if (section === "keml" && key === "warnOnLogAttribute") return 42;
+            if (section === "keml" && key === "templateSyntaxes")
+              return ["jinja"];
+            if (section === "keml" && key === "rules")
+              return { "log-attribute": "Error" };
+            if (section === "keml" && key === "customEvents")
+              return ["refresh"];
+            if (section === "keml" && key === "sharedNamespaces")
+              return [["site", "admin"]];
+            if (section === "keml" && key === "pageGraph") return true;
+            if (section === "keml" && key === "includePatterns")
+              return ["\\{\\{> (\\w+)", "(unclosed"];
             return defaultValue;
           },
         })),
@@ -177,10 +251,22 @@ if (import.meta.vitest) {
       extern.setActionUnusedSeverity = fn();
       extern.setFileExtensions = fn();
       extern.setWarnOnLogAttribute = fn();
+      extern.setTemplateSyntaxes = fn();
+      extern.setRules = fn();
+      extern.setCustomEvents = fn();
+      extern.setSharedNamespaces = fn();
+      extern.setPageGraph = fn(pageGraph => pageGraph);
+      extern.setIncludePatterns = fn();
+      extern.window = { showErrorMessage: fn() } as any;
       extern.pruneDocs = fn();
+      extern.loadManifest = fn();
+      extern.loadRoutes = fn();
+      extern.loadIndexCache = fn();
       extern.populateDocs = fn();
       extern.updateDiagnosticCollection = fn();
+      extern.saveIndexCache = fn();
       extern.updateFileSystemWatcher = fn();
+      extern.updateRoutesWatcher = fn();
       extern.registerProviders = registerProvidersMock;
       extern.languageDisposables = languageDisposablesMock;
 
@@ -203,11 +289,29 @@ if (import.meta.vitest) {
       expect(extern.setActionUnusedSeverity).toHaveBeenCalledWith("Warning");
 
       // Docs updated
-      expect(extern.pruneDocs).toHaveBeenCalled();
+      expect(extern.pruneDocs).toHaveBeenCalledWith(false, false);
+      expect(extern.loadManifest).toHaveBeenCalled();
+      expect(extern.loadRoutes).toHaveBeenCalled();
+      expect(extern.loadIndexCache).toHaveBeenCalled();
       expect(extern.populateDocs).toHaveBeenCalled();
-      expect(extern.updateDiagnosticCollection).toHaveBeenCalled();
+      expect(extern.updateDiagnosticCollection).toHaveBeenCalledWith(true);
+      expect(extern.saveIndexCache).toHaveBeenCalled();
       expect(extern.updateFileSystemWatcher).toHaveBeenCalled();
+      expect(extern.updateRoutesWatcher).toHaveBeenCalled();
       expect(extern.setWarnOnLogAttribute).toHaveBeenCalledWith(42);
+      expect(extern.setTemplateSyntaxes).toHaveBeenCalledWith(["jinja"]);
+      expect(extern.setRules).toHaveBeenCalledWith({
+        "log-attribute": "Error",
+      });
+      expect(extern.setCustomEvents).toHaveBeenCalledWith(["refresh"]);
+      expect(extern.setSharedNamespaces).toHaveBeenCalledWith([
+        ["site", "admin"],
+      ]);
+      expect(extern.setPageGraph).toHaveBeenCalledWith(true);
+      expect(extern.setIncludePatterns).toHaveBeenCalledWith([/\{\{> (\w+)/g]);
+      expect(extern.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringMatching(/^Invalid include pattern: SyntaxError/),
+      );
 
       // Providers registered for languageIds
       expect(registerProvidersMock).toHaveBeenCalledWith("html");
@@ -242,14 +346,24 @@ if (import.meta.vitest) {
       extern.setActionUndefinedSeverity = fn();
       extern.setActionUnusedSeverity = fn();
       extern.setFileExtensions = fn();
+      extern.setPageGraph = fn(() => false);
+      extern.setIncludePatterns = fn();
       extern.pruneDocs = fn();
+      extern.loadManifest = fn();
+      extern.loadRoutes = fn();
+      extern.loadIndexCache = fn();
       extern.populateDocs = fn();
       extern.updateDiagnosticCollection = fn();
+      extern.saveIndexCache = fn();
       extern.updateFileSystemWatcher = fn();
+      extern.updateRoutesWatcher = fn();
       extern.registerProviders = fn();
 
-      await configure(true);
+      await configure(true, true);
+
+      expect(extern.setIncludePatterns).toHaveBeenCalledWith([]);
 
+      expect(extern.pruneDocs).toHaveBeenCalledWith(true, true);
       expect(oldDisposeMock).toHaveBeenCalled();
       expect(extern.languageDisposables.has("oldLang")).toBe(false);
       expect(extern.languageDisposables.has("oldLang2")).toBe(true);
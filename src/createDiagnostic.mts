@@ -0,0 +1,85 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  Range,
+  Uri,
+} from "vscode";
+import { RULES_URL } from "./rules.mts";
+
+/**
+ * Creates a KEML diagnostic, whose code links to the documentation of its
+ * rule.
+ *
+ * @param range - The range the diagnostic applies to.
+ * @param message - The message of the diagnostic.
+ * @param code - The code of the rule.
+ * @param severity - The severity level of the diagnostic.
+ * @param tags - Optional tags associated with the diagnostic.
+ * @returns The diagnostic.
+ */
+export const createDiagnostic = (
+  range: Range,
+  message: string,
+  code: RuleCode,
+  severity: DiagnosticSeverity,
+  tags?: DiagnosticTag[],
+) => {
+  const diagnostic = new extern.Diagnostic(range, message, severity);
+
+  diagnostic.source = "KEML";
+  diagnostic.code = {
+    value: code,
+    target: extern.Uri.parse(`${RULES_URL}#${code}`),
+  };
+  if (tags) {
+    diagnostic.tags = tags;
+  }
+
+  return diagnostic;
+};
+
+let extern = { Diagnostic, Uri };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("createDiagnostic", () => {
+    const range = {} as Range;
+
+    it("links the code to the documentation of the rule", () => {
+      const diagnostic = createDiagnostic(
+        range,
+        "a",
+        "log-attribute",
+        DiagnosticSeverity.Warning,
+      );
+
+      expect(diagnostic).toMatchObject({
+        range,
+        message: "a",
+        severity: DiagnosticSeverity.Warning,
+        source: "KEML",
+      });
+      expect(diagnostic.tags).toBeUndefined();
+      expect(diagnostic.code).toMatchObject({ value: "log-attribute" });
+      expect(String((diagnostic.code as { target: Uri }).target)).toBe(
+        `${RULES_URL}#log-attribute`,
+      );
+    });
+
+    it("sets the tags", () => {
+      expect(
+        createDiagnostic(
+          range,
+          "a",
+          "empty-subscriber",
+          DiagnosticSeverity.Warning,
+          [DiagnosticTag.Unnecessary],
+        ).tags,
+      ).toEqual([DiagnosticTag.Unnecessary]);
+    });
+  });
+}
+/* v8 ignore stop */
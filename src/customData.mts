@@ -1,15 +1,11 @@
 import { HTMLDataV1, MarkupKind } from "vscode-html-languageservice";
+import { domEvents } from "./domEvents.mts";
 import { getEndpointAttrs } from "./getEndpointAttrs.mts";
 import { getEventAttrs } from "./getEventAttrs.mts";
 import { getMethodValue } from "./getMethodValue.mts";
+import { kemlEvents } from "./kemlEvents.mts";
+import { methods, validMethod } from "./validValues.mts";
 
-const customEvents = ["conceal", "navigate", "result", "reveal"];
-const methods = {
-  GET: ["href", "action", "src", "get"],
-  POST: ["post"],
-  PUT: ["put"],
-  DELETE: ["delete"],
-};
 const valueTags = ["input", "select", "textarea"];
 const validityTags = valueTags.concat([
   "form",
@@ -37,7 +33,8 @@ const validityTags = valueTags.concat([
  */
 export const customData: HTMLDataV1 = {
   version: 1.1,
-  globalAttributes: customEvents
+  globalAttributes: Object.keys(kemlEvents)
+    .concat(Object.keys(domEvents))
     .flatMap(getEventAttrs)
     .concat(Object.entries(methods).flatMap(getEndpointAttrs), [
       {
@@ -892,7 +889,7 @@ Part of the scrolling attribute set:
         },
       ],
     },
-    { name: "method", values: Object.keys(methods).map(getMethodValue) },
+    { name: "method", values: validMethod.map(getMethodValue) },
     {
       name: "behavior",
       values: [
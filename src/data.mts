@@ -8,10 +8,16 @@ import {
   DiagnosticSeverity,
   Disposable,
   languages,
+  Uri,
 } from "vscode";
 
 export const docs = new Map<string, Document>();
 export const languageDisposables = new Map<string, Disposable[]>();
+export const actionIndex: ActionIndex = {
+  namespaces: new Map(),
+  documents: new Map(),
+};
+export const indexCache = new Map<string, IndexCacheEntry>();
 
 const severityMap = new Map([
   ["Error", DiagnosticSeverity.Error],
@@ -21,15 +27,28 @@ const severityMap = new Map([
 ]);
 
 let diagnosticCollection: DiagnosticCollection;
+let storageUri: Uri | undefined;
 let attrs: Map<string, Attr | null>;
+let activeNamespace = "";
+let sharedNamespaceGroups: string[][] = [];
 let excludes: string[];
 let includes: string[];
 let fileExts: string[];
 let fileExtGlob: string | null;
 let langIds: string[];
+let templateSyntaxNames: string[] = [];
+let pageGraphEnabled = false;
+let includeRegExps: RegExp[] = [];
+let externalActions = new Map<
+  string,
+  Record<ActionKind, Map<string, ExternalAction>>
+>();
+let serverRoutes = new Map<string, Route[]>();
+let customEventNames: string[] = [];
 let undefinedSeverity: DiagnosticSeverity | undefined;
 let unusedSeverity: DiagnosticSeverity | undefined;
 let warnLogAttribute: boolean;
+let ruleSeverities = new Map<string, DiagnosticSeverity | undefined>();
 
 /**
  * Returns whether the `log` attribute should trigger a warning.
@@ -58,6 +77,22 @@ export const getDiagnosticCollection = () =>
   diagnosticCollection ??
   (diagnosticCollection = extern.languages.createDiagnosticCollection("KEML"));
 
+/**
+ * Retrieves the directory where the language server may store data for the
+ * workspace, such as the index cache.
+ *
+ * @returns The directory, or `undefined` when there is none, e.g. when linting.
+ */
+export const getStorageUri = () => storageUri;
+
+/**
+ * Sets the directory where the language server may store data for the
+ * workspace.
+ *
+ * @param uri - The directory, or `undefined` to store nothing.
+ */
+export const setStorageUri = (uri: Uri | undefined) => (storageUri = uri);
+
 /**
  * Retrieves the parsed attributes for the node currently being processed.
  *
@@ -72,6 +107,37 @@ export const getAttributes = () => attrs;
  */
 export const setAttributes = (attributes: typeof attrs) => (attrs = attributes);
 
+/**
+ * Retrieves the namespace of the document currently being processed.
+ *
+ * @returns The name of the namespace.
+ */
+export const getActiveNamespace = () => activeNamespace;
+
+/**
+ * Sets the namespace of the document currently being processed.
+ *
+ * @param namespace - The name of the namespace to set.
+ */
+export const setActiveNamespace = (namespace: string) =>
+  (activeNamespace = namespace);
+
+/**
+ * Retrieves the groups of workspace folders sharing a namespace.
+ *
+ * @returns The lists of folder names.
+ */
+export const getSharedNamespaces = () => sharedNamespaceGroups;
+
+/**
+ * Sets the groups of workspace folders sharing a namespace.
+ *
+ * @param sharedNamespaces - The lists of folder names to set.
+ */
+export const setSharedNamespaces = (
+  sharedNamespaces: typeof sharedNamespaceGroups,
+) => (sharedNamespaceGroups = sharedNamespaces);
+
 /**
  * Retrieves the current exclusion patterns.
  *
@@ -110,12 +176,17 @@ export const getFileExtensions = () => fileExts;
 /**
  * Sets the file extensions to be used.
  *
+ * A single extension is not wrapped in braces, which not every glob matcher
+ * expands when they hold one alternative.
+ *
  * @param fileExtensions - The list of file extensions to set.
  */
 export const setFileExtensions = (fileExtensions: typeof fileExts) => (
   (fileExts = fileExtensions),
   (fileExtGlob =
-    fileExtensions.length ? `**/*.{${fileExtensions.join(",")}}` : null)
+    fileExtensions.length > 1 ? `**/*.{${fileExtensions.join(",")}}`
+    : fileExtensions.length ? `**/*.${fileExtensions[0]}`
+    : null)
 );
 
 /**
@@ -140,6 +211,114 @@ export const getLanguageIds = () => langIds;
 export const setLanguageIds = (languageIds: typeof langIds) =>
   (langIds = languageIds);
 
+/**
+ * Retrieves the template syntaxes enabled for all languages.
+ *
+ * @returns The list of template syntax names.
+ */
+export const getTemplateSyntaxes = () => templateSyntaxNames;
+
+/**
+ * Sets the template syntaxes enabled for all languages.
+ *
+ * @param templateSyntaxes - The list of template syntax names to set.
+ */
+export const setTemplateSyntaxes = (
+  templateSyntaxes: typeof templateSyntaxNames,
+) => (templateSyntaxNames = templateSyntaxes);
+
+/**
+ * Retrieves whether undefined and unused actions are looked up per page,
+ * among the files rendered together, rather than per namespace.
+ *
+ * @returns Whether the page graph mode is on.
+ */
+export const getPageGraph = () => pageGraphEnabled;
+
+/**
+ * Turns the page graph mode on or off.
+ *
+ * @param pageGraph - Whether the page graph mode is on.
+ */
+export const setPageGraph = (pageGraph: boolean) =>
+  (pageGraphEnabled = pageGraph);
+
+/**
+ * Retrieves the patterns of the directives including other files, which are
+ * empty unless the page graph mode is on.
+ *
+ * @returns The global patterns, capturing the path of the included file.
+ */
+export const getIncludePatterns = () => includeRegExps;
+
+/**
+ * Sets the patterns of the directives including other files.
+ *
+ * @param includePatterns - The global patterns to set.
+ */
+export const setIncludePatterns = (includePatterns: typeof includeRegExps) =>
+  (includeRegExps = includePatterns);
+
+/**
+ * Declares no action, for the namespaces without a project manifest.
+ */
+const noExternalActions: Record<ActionKind, Map<string, ExternalAction>> = {
+  event: new Map(),
+  state: new Map(),
+  result: new Map(),
+};
+
+/**
+ * Retrieves the actions declared by the project manifest of a namespace.
+ *
+ * @param namespace - The name of the namespace.
+ * @returns The external actions by name, per kind.
+ */
+export const getExternalActions = (namespace: string) =>
+  externalActions.get(namespace) ?? noExternalActions;
+
+/**
+ * Sets the actions declared by the project manifests.
+ *
+ * @param actions - The external actions by name, per kind, by namespace.
+ */
+export const setExternalActions = (actions: typeof externalActions) =>
+  (externalActions = actions);
+
+/**
+ * Retrieves the routes of the server of a workspace folder, empty unless
+ * `keml.routes` points to a route file.
+ *
+ * @param folder - The URI of the workspace folder, `""` outside of every
+ * folder.
+ * @returns The routes.
+ */
+export const getRoutes = (folder: string) => serverRoutes.get(folder) ?? [];
+
+/**
+ * Sets the routes of the server.
+ *
+ * @param routes - The routes, by URI of workspace folder.
+ */
+export const setRoutes = (routes: typeof serverRoutes) =>
+  (serverRoutes = routes);
+
+/**
+ * Retrieves the names of the custom events declared by the user, on top of
+ * the native DOM events and the custom KEML events.
+ *
+ * @returns The event names.
+ */
+export const getCustomEvents = () => customEventNames;
+
+/**
+ * Sets the names of the custom events declared by the user.
+ *
+ * @param customEvents - The event names.
+ */
+export const setCustomEvents = (customEvents: string[]) =>
+  (customEventNames = customEvents);
+
 /**
  * Retrieves the current severity level for undefined actions.
  *
@@ -170,6 +349,32 @@ export const getActionUnusedSeverity = () => unusedSeverity;
 export const setActionUnusedSeverity = (actionUnusedSeverity: string) =>
   (unusedSeverity = severityMap.get(actionUnusedSeverity));
 
+/**
+ * Retrieves the severity level of a rule.
+ *
+ * @param code - The code of the rule.
+ * @param severity - The severity level to fall back to when the rule is not
+ *                   configured.
+ * @returns The severity level, or undefined if the rule is disabled.
+ */
+export const getRuleSeverity = (
+  code: RuleCode,
+  severity: DiagnosticSeverity | undefined,
+) => (ruleSeverities.has(code) ? ruleSeverities.get(code) : severity);
+
+/**
+ * Sets the severity levels of the rules.
+ *
+ * @param rules - The severity level by rule code.
+ */
+export const setRules = (rules: Record<string, string>) =>
+  (ruleSeverities = new Map(
+    Object.entries(rules).map(([code, severity]) => [
+      code,
+      severityMap.get(severity),
+    ]),
+  ));
+
 let extern = { languages };
 
 /* v8 ignore start */
@@ -195,6 +400,20 @@ if (import.meta.vitest) {
       expect(setAttributes(new Map())).toBe(getAttributes());
     });
 
+    it("activeNamespace", () => {
+      expect(getActiveNamespace()).toBe("");
+      expect(setActiveNamespace("site")).toBe(getActiveNamespace());
+      setActiveNamespace("");
+    });
+
+    it("sharedNamespaces", () => {
+      expect(getSharedNamespaces()).toEqual([]);
+      expect(setSharedNamespaces([["site", "admin"]])).toBe(
+        getSharedNamespaces(),
+      );
+      setSharedNamespaces([]);
+    });
+
     it("exclude", () => {
       expect(setExclude([])).toBe(getExclude());
     });
@@ -218,12 +437,69 @@ if (import.meta.vitest) {
       expect(fileExtensionGlob).toBe("**/*.{foo,bar}");
       expect(getFileExtensionGlob()).toBe("**/*.{foo,bar}");
       expect(getFileExtensions()).toBe(fileExtensions);
+      fileExtensions = ["vue"];
+      fileExtensionGlob = setFileExtensions(fileExtensions);
+      expect(fileExtensionGlob).toBe("**/*.vue");
+      expect(getFileExtensionGlob()).toBe("**/*.vue");
+    });
+
+    it("storageUri", () => {
+      expect(getStorageUri()).toBeUndefined();
+      expect(setStorageUri(Uri.file("/storage"))).toBe(getStorageUri());
+      setStorageUri(undefined);
     });
 
     it("languageIds", () => {
       expect(setLanguageIds([])).toBe(getLanguageIds());
     });
 
+    it("templateSyntaxes", () => {
+      expect(getTemplateSyntaxes()).toEqual([]);
+      expect(setTemplateSyntaxes(["jinja"])).toBe(getTemplateSyntaxes());
+    });
+
+    it("pageGraph", () => {
+      expect(getPageGraph()).toBe(false);
+      expect(setPageGraph(true)).toBe(getPageGraph());
+      setPageGraph(false);
+    });
+
+    it("includePatterns", () => {
+      expect(getIncludePatterns()).toEqual([]);
+      expect(setIncludePatterns([/x/g])).toBe(getIncludePatterns());
+      setIncludePatterns([]);
+    });
+
+    it("externalActions", () => {
+      const actions = {
+        event: new Map(),
+        state: new Map(),
+        result: new Map(),
+      };
+
+      expect(getExternalActions("a").event.size).toBe(0);
+      setExternalActions(new Map([["a", actions]]));
+      expect(getExternalActions("a")).toBe(actions);
+      expect(getExternalActions("").event.size).toBe(0);
+      setExternalActions(new Map());
+    });
+
+    it("routes", () => {
+      const routes = [{ path: "/todos" }] as Route[];
+
+      expect(getRoutes("file:///a")).toEqual([]);
+      setRoutes(new Map([["file:///a", routes]]));
+      expect(getRoutes("file:///a")).toBe(routes);
+      expect(getRoutes("")).toEqual([]);
+      setRoutes(new Map());
+    });
+
+    it("customEvents", () => {
+      expect(getCustomEvents()).toEqual([]);
+      expect(setCustomEvents(["refresh"])).toBe(getCustomEvents());
+      setCustomEvents([]);
+    });
+
     it("actionUndefinedSeverity", () => {
       const actionUndefinedSeverity = setActionUndefinedSeverity("Information");
       expect(actionUndefinedSeverity).toBe(DiagnosticSeverity.Information);
@@ -235,6 +511,17 @@ if (import.meta.vitest) {
       expect(actionUnusedSeverity).toBe(DiagnosticSeverity.Hint);
       expect(getActionUnusedSeverity()).toBe(DiagnosticSeverity.Hint);
     });
+
+    it("rules", () => {
+      const { Error, Warning } = DiagnosticSeverity;
+
+      expect(getRuleSeverity("log-attribute", Warning)).toBe(Warning);
+      setRules({ "log-attribute": "Error", "invalid-position": "Disable" });
+      expect(getRuleSeverity("log-attribute", Warning)).toBe(Error);
+      expect(getRuleSeverity("invalid-position", Error)).toBeUndefined();
+      setRules({});
+      expect(getRuleSeverity("log-attribute", undefined)).toBeUndefined();
+    });
   });
 }
 /* v8 ignore stop */
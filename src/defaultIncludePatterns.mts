@@ -0,0 +1,12 @@
+/**
+ * Patterns of the template directives rendering another file along with the
+ * one they appear in, whose first capturing group is the path of that file.
+ */
+export const defaultIncludePatterns = [
+  // Jinja, Django, Twig and Nunjucks
+  String.raw`\{%-?\s*(?:include|extends|embed|import|from)\s+["']([^"']+)["']`,
+  // Handlebars and Mustache partials
+  String.raw`\{\{>\s*["']?([\w./-]+)`,
+  // server-side includes
+  String.raw`<!--#include\s+(?:file|virtual)="([^"]+)"`,
+];
@@ -0,0 +1,16 @@
+/**
+ * Languages assumed outside of VS Code, where the ones contributed by the
+ * installed extensions are not known.
+ */
+export const defaultLanguages = [
+  { id: "html", extensions: [".html", ".htm", ".shtml", ".xhtml"] },
+  { id: "php", extensions: [".php"] },
+  { id: "vue", extensions: [".vue"] },
+  { id: "svelte", extensions: [".svelte"] },
+  { id: "handlebars", extensions: [".handlebars", ".hbs"] },
+  { id: "erb", extensions: [".erb"] },
+  { id: "twig", extensions: [".twig"] },
+  { id: "jinja-html", extensions: [".jinja", ".j2"] },
+  { id: "javascriptreact", extensions: [".jsx"] },
+  { id: "typescriptreact", extensions: [".tsx"] },
+];
@@ -0,0 +1,135 @@
+import { IValueData } from "vscode-html-languageservice";
+import { getExternalActions } from "./data.mts";
+import { getAnnotations } from "./getAnnotations.mts";
+import { getDocumentedValue } from "./getDocumentedValue.mts";
+
+/**
+ * Generates metadata for an action, preferring its documentation over the
+ * generic description: the declaration of the project manifest if any, or else
+ * the `@keml` annotations of its definitions. Definitions that disagree are
+ * listed one by one, along with their locations.
+ *
+ * @param name - The name of the action.
+ * @param kind - The namespace of the action.
+ * @param valueGetter - Function generating the generic metadata.
+ * @param namespace - The namespace of the documents the action belongs to.
+ * @returns An {@link IValueData} object describing the action.
+ */
+export const describeAction = (
+  name: string,
+  kind: ActionKind,
+  valueGetter: (name: string) => IValueData,
+  namespace: string,
+) => {
+  const external = extern.getExternalActions(namespace)[kind].get(name);
+  if (external) {
+    return extern.getDocumentedValue(name, kind, external.description);
+  }
+
+  const annotations = extern.getAnnotations(name, kind, namespace);
+  const descriptions = new Set(
+    annotations.map(({ description }) => description),
+  );
+
+  if (!descriptions.size) {
+    return valueGetter(name);
+  }
+
+  return extern.getDocumentedValue(
+    name,
+    kind,
+    descriptions.size === 1 ?
+      annotations[0]!.description
+    : annotations
+        .map(
+          ({ description, location: { uri, range } }) =>
+            `- \`${uri.path.split("/").pop()}:${range.start.line + 1}\`: ${description}`,
+        )
+        .join("\n"),
+  );
+};
+
+let extern = { getAnnotations, getDocumentedValue, getExternalActions };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("describeAction", () => {
+    const generic = { name: "generic" };
+    const valueGetter = fn(() => generic);
+    const annotation = (description: string, path: string, line: number) => ({
+      description,
+      location: { uri: { path }, range: { start: { line } } } as any,
+    });
+
+    beforeEach(() => {
+      extern.getExternalActions = fn(() => ({
+        event: new Map([["declared", { description: "Declared." } as any]]),
+        state: new Map(),
+        result: new Map(),
+      }));
+      extern.getAnnotations = fn(() => []);
+      extern.getDocumentedValue = fn((_name, _kind, documentation) => ({
+        name: documentation,
+      }));
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("prefers the declaration of the manifest", () => {
+      expect(describeAction("declared", "event", valueGetter, "site")).toEqual({
+        name: "Declared.",
+      });
+      expect(extern.getExternalActions).toHaveBeenCalledWith("site");
+      expect(extern.getDocumentedValue).toHaveBeenCalledWith(
+        "declared",
+        "event",
+        "Declared.",
+      );
+    });
+
+    it("falls back to the generic description", () => {
+      expect(describeAction("declared", "state", valueGetter, "site")).toBe(
+        generic,
+      );
+      expect(valueGetter).toHaveBeenCalledWith("declared");
+      expect(extern.getAnnotations).toHaveBeenCalledWith(
+        "declared",
+        "state",
+        "site",
+      );
+    });
+
+    it("uses the annotations of the definitions", () => {
+      extern.getAnnotations = fn(() => [
+        annotation("Saves.", "/a/b.html", 0),
+        annotation("Saves.", "/a/c.html", 1),
+      ]);
+      expect(describeAction("save", "event", valueGetter, "site")).toEqual({
+        name: "Saves.",
+      });
+
+      extern.getAnnotations = fn(() => [
+        annotation("Saves.", "/a/b.html", 0),
+        annotation("Persists.", "/a/c.html", 1),
+      ]);
+      expect(describeAction("save", "event", valueGetter, "site")).toEqual({
+        name: "- `b.html:1`: Saves.\n- `c.html:2`: Persists.",
+      });
+    });
+  });
+}
+/* v8 ignore stop */
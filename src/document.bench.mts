@@ -0,0 +1,63 @@
+import { bench, describe } from "vitest";
+import { setExclude, setInclude, setLanguageIds } from "./data.mts";
+import { Document } from "./document.mts";
+import { Range, TextDocument, Uri } from "./vscode-shim.mts";
+
+describe("Document", () => {
+  const html = Array.from(
+    { length: 1000 },
+    (_, i) => `<section>
+  <!-- @keml save${i}: Saves item ${i}. -->
+  <button on:click="save${i}" if:valid="valid${i}" log>Save</button>
+  <div on="save${i}" if="valid${i}" render="list${i}" result="list${i}"></div>
+  <p>Item ${i}</p>
+</section>`,
+  ).join("\n");
+  const start = html.indexOf("Item 500");
+  const create = (text: string) =>
+    new TextDocument(Uri.file("/layout.html"), "html", 1, text) as any;
+  const before = create(html);
+  const after = create(html.slice(0, start) + "New " + html.slice(start));
+  const position = before.positionAt(start);
+
+  // inserting and removing the same text in turn keeps the document stable
+  const insert = {
+    document: after,
+    contentChanges: [
+      {
+        range: new Range(position, position),
+        rangeOffset: start,
+        rangeLength: 0,
+        text: "New ",
+      },
+    ],
+    reason: undefined,
+  };
+  const remove = {
+    document: before,
+    contentChanges: [
+      {
+        range: new Range(position, after.positionAt(start + 4)),
+        rangeOffset: start,
+        rangeLength: 4,
+        text: "",
+      },
+    ],
+    reason: undefined,
+  };
+
+  setLanguageIds(["html"]);
+  setExclude([]);
+  setInclude([]);
+
+  const cur = new Document(before);
+  let inserted = false;
+
+  bench("update - full", () => {
+    new Document(after);
+  });
+
+  bench("update - incremental", () => {
+    cur.update((inserted = !inserted) ? insert : remove);
+  });
+});
@@ -2,37 +2,57 @@ import {
   Diagnostic,
   DiagnosticSeverity,
   DiagnosticTag,
+  DocumentHighlight,
+  DocumentHighlightKind,
   Hover,
   Position,
   Range,
   TextDocument,
   TextDocumentChangeEvent,
+  TextDocumentContentChangeEvent,
   Uri,
 } from "vscode";
 import {
   HTMLDocument,
   Node as LSNode,
   TextDocument as LSTextDocument,
+  ScannerState,
   TokenType,
 } from "vscode-html-languageservice";
 import { addCompletions } from "./addCompletions.mts";
 import { addDefinitionRanges } from "./addDefinitionRanges.mts";
 import { addRange } from "./addRange.mts";
+import { addRouteCompletions } from "./addRouteCompletions.mts";
+import { applySuppressions } from "./applySuppressions.mts";
+import { blank } from "./blank.mts";
 import { convertCompletionItem } from "./convertCompletionItem.mts";
 import { convertDocumentation } from "./convertDocumentation.mts";
 import { convertHover } from "./convertHover.mts";
+import { createDiagnostic } from "./createDiagnostic.mts";
+import { extractJsxTags } from "./extractJsxTags.mts";
+import { extractVueTemplate } from "./extractVueTemplate.mts";
 import {
   getExclude,
+  getExternalActions,
   getInclude,
+  getIncludePatterns,
   getLanguageIds,
+  getRuleSeverity,
   getWarnOnLogAttribute,
+  setActiveNamespace,
   setAttributes,
 } from "./data.mts";
+import { getBoundName } from "./getBoundName.mts";
+import { getDependencies } from "./getDependencies.mts";
+import { getDynamicPatterns } from "./getDynamicPatterns.mts";
 import { getEventDefinitions } from "./getEventDefinitions.mts";
+import { getEventNames } from "./getEventNames.mts";
 import { getEventReferences } from "./getEventReferences.mts";
 import { getEventValue } from "./getEventValue.mts";
 import { getExistingActionValue } from "./getExistingActionValue.mts";
 import { getLocations } from "./getLocations.mts";
+import { getNamespace } from "./getNamespace.mts";
+import { getRequest } from "./getRequest.mts";
 import { getResultDefinitions } from "./getResultDefinitions.mts";
 import { getResultReferences } from "./getResultReferences.mts";
 import { getResultValue } from "./getResultValue.mts";
@@ -40,6 +60,7 @@ import { getStateDefinitions } from "./getStateDefinitions.mts";
 import { getStateReferences } from "./getStateReferences.mts";
 import { getStateValue } from "./getStateValue.mts";
 import { isBehavior } from "./isBehavior.mts";
+import { isEndpoint } from "./isEndpoint.mts";
 import { isEventDefinition } from "./isEventDefinition.mts";
 import { isEventFilter } from "./isEventFilter.mts";
 import { isEventReference } from "./isEventReference.mts";
@@ -48,36 +69,119 @@ import { isPosition } from "./isPosition.mts";
 import { isResultDefinition } from "./isResultDefinition.mts";
 import { isResultReference } from "./isResultReference.mts";
 import { isScroll } from "./isScroll.mts";
-import { isScrollDependent } from "./isScrollDependent.mts";
 import { isScrollPosition } from "./isScrollPosition.mts";
 import { isStateDefinition } from "./isStateDefinition.mts";
 import { isStateReference } from "./isStateReference.mts";
-import { isTagOnDependent } from "./isTagOnDependent.mts";
-import { isTagSseDependent } from "./isTagSseDependent.mts";
+import { getInterpolationPattern } from "./templateSyntaxes.mts";
 import { isInvalidToken } from "./isValidToken.mts";
 import { match } from "./match.mts";
+import { mergeInto } from "./mergeInto.mts";
 import { Node } from "./node.mts";
+import { parseAnnotations } from "./parseAnnotations.mts";
+import { parseIncludes } from "./parseIncludes.mts";
+import { parseSuppressions } from "./parseSuppressions.mts";
 import { INVALID_PATTERN } from "./parseTokens.mts";
+import { actionKinds } from "./resolvers.mts";
 import { service } from "./service.mts";
 import { sortByZero } from "./sortByZero.mts";
+import { suggestEvent } from "./suggestEvent.mts";
 import { t } from "./t.mts";
 import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
+import {
+  validBehavior,
+  validMethod,
+  validPosition,
+  validScrollPosition,
+} from "./validValues.mts";
 
 const HEAD_PATTERN = /^(?:\s*["'])?/;
 const TAIL_PATTERN = /(?:["']\s*)?$/;
 const WORD_PATTERN = /[^"'\s]+/;
-const validPosition = [
-  "replaceChildren",
-  "replaceWith",
-  "before",
-  "after",
-  "prepend",
-  "append",
-];
-const validBehavior = ["auto", "instant", "smooth"];
-const validScrollPosition = ["start", "center", "end"];
+const JSX_LANGUAGE_IDS = ["javascriptreact", "typescriptreact"];
+const REQUEST_ATTRS = ["post", "put", "delete", "get"];
+const REQUEST_HOVER_ATTRS = REQUEST_ATTRS.concat(
+  ["action", "href", "src"],
+  ["on", "method", "redirect"],
+);
+const DYNAMIC_TPL = t`Dynamic ${"kind"} action: it depends on template interpolations, so it is left out of the undefined and unused action checks.`;
 const DEP_TPL = t`'${"name"}' is unused because it has no effect without '${"depends"}' (or 'x-' prefixed equivalents).`;
 
+/**
+ * What a top-level element of a document contributes to it, along with its
+ * descendants, so that an edit only needs to scan the elements it touches.
+ */
+interface Segment {
+  /**
+   * Diagnostics of the elements, before suppression.
+   */
+  diagnostics: Diagnostic[];
+
+  /**
+   * Start tag ranges mapped to the elements, in source order.
+   */
+  ranges: [number, number, Node][];
+
+  /**
+   * Maps of action names to their definition ranges, per kind.
+   */
+  definitions: Record<ActionKind, Map<string, Range[]>>;
+
+  /**
+   * Maps of action names to their reference ranges, per kind.
+   */
+  references: Record<ActionKind, Map<string, Range[]>>;
+
+  /**
+   * Patterns matching the actions defined through template interpolations,
+   * per kind.
+   */
+  dynamic_definitions: Record<ActionKind, RegExp[]>;
+
+  /**
+   * Patterns matching the actions subscribed to through template
+   * interpolations, per kind.
+   */
+  dynamic_references: Record<ActionKind, RegExp[]>;
+
+  /**
+   * The documentation of the actions defined by the elements, per kind.
+   */
+  annotations: Record<ActionKind, Map<string, ActionAnnotation[]>>;
+
+  /**
+   * Whether any of the elements has a `log` attribute.
+   */
+  has_log: boolean;
+
+  /**
+   * The requests the elements with an `on` attribute send to absolute paths.
+   */
+  endpoints: Endpoint[];
+}
+
+/**
+ * Everything a document knows about its actions, diagnostics and
+ * suppressions, which is all a restored document knows.
+ */
+export type DocumentSummary = Pick<
+  Document,
+  | "diagnostics"
+  | "event_definitions"
+  | "event_references"
+  | "state_definitions"
+  | "state_references"
+  | "result_definitions"
+  | "result_references"
+  | "dynamic_definitions"
+  | "dynamic_references"
+  | "annotations"
+  | "suppressions"
+  | "suppressed"
+  | "has_log"
+  | "includes"
+  | "endpoints"
+>;
+
 /**
  * Represents a document with diagnostics, references, and definitions.
  */
@@ -117,8 +221,65 @@ export class Document {
    */
   result_references!: Map<string, Range[]>;
 
+  /**
+   * Patterns matching the actions defined through template interpolations,
+   * per kind.
+   */
+  dynamic_definitions!: Record<ActionKind, RegExp[]>;
+
+  /**
+   * Patterns matching the actions subscribed to through template
+   * interpolations, per kind.
+   */
+  dynamic_references!: Record<ActionKind, RegExp[]>;
+
+  /**
+   * The documentation of the actions defined in the document, per kind.
+   */
+  annotations!: Record<ActionKind, Map<string, ActionAnnotation[]>>;
+
+  /**
+   * The suppression comments of the document.
+   */
+  suppressions!: Suppression[];
+
+  /**
+   * The suppressions that turned a diagnostic of the document itself off.
+   */
+  suppressed!: Set<Suppression>;
+
   has_log!: boolean;
 
+  /**
+   * The paths of the files the document includes, as written, in the page
+   * graph mode.
+   */
+  includes!: string[];
+
+  /**
+   * The requests the elements with an `on` attribute send to absolute paths,
+   * checked against the routes of the server.
+   */
+  endpoints!: Endpoint[];
+
+  /**
+   * Incremented whenever the document is parsed anew, fully or partially.
+   */
+  revision = 0;
+
+  /**
+   * Whether the document was restored from a summary rather than parsed, so
+   * it has no syntax tree.
+   */
+  restored = false;
+
+  /**
+   * The modification time and size of the file when the document was read
+   * from it, along with the revision the document had then, as long as it is
+   * known to reflect the file on disk.
+   */
+  source?: { mtime: number; size: number; revision: number };
+
   /**
    * The URI of the document.
    */
@@ -144,6 +305,17 @@ export class Document {
    */
   private ranges!: [number, number, Node][];
 
+  /**
+   * What each top-level element contributes to the document, in the order of
+   * the roots of the parsed HTML document.
+   */
+  private segments!: Segment[];
+
+  /**
+   * Start and end offsets of the template interpolations in the document.
+   */
+  private interpolations!: [number, number][];
+
   /**
    * Creates a new Document instance.
    *
@@ -157,7 +329,7 @@ export class Document {
       uri.toString(),
       "html",
       version,
-      doc.getText(),
+      this.getHTMLText(),
     );
     this.parseHTMLDocument();
   }
@@ -210,6 +382,54 @@ export class Document {
     return this.doc.getText(range);
   }
 
+  /**
+   * Whether the text parsed as HTML is derived from the text of the document,
+   * rather than being the text itself, so it cannot be updated incrementally.
+   */
+  private get isDerived() {
+    return (
+      this.languageId === "vue" ||
+      JSX_LANGUAGE_IDS.includes(this.languageId) ||
+      !!extern.getInterpolationPattern(this.languageId)
+    );
+  }
+
+  /**
+   * Retrieves the text of the document to be parsed as HTML: the template of
+   * Vue single-file components or the JSX tags of React components, with
+   * everything else blanked out, or else the whole text. Template
+   * interpolations are recorded and blanked out as well, so that their quotes
+   * and brackets do not get in the way of the parser, and so are the
+   * expressions of JSX attribute values.
+   *
+   * @returns The HTML text, at the same offsets as in the document.
+   */
+  private getHTMLText() {
+    const text = this.getText();
+    const { languageId } = this;
+    const pattern = extern.getInterpolationPattern(languageId);
+
+    this.interpolations = [];
+
+    const html =
+      languageId === "vue" ? extern.extractVueTemplate(text)
+      : JSX_LANGUAGE_IDS.includes(languageId) ?
+        extern.extractJsxTags(text, this.interpolations)
+      : text;
+
+    if (!pattern) {
+      return html;
+    }
+
+    const result = html.replace(pattern, (interpolation, offset: number) => {
+      this.interpolations.push([offset, offset + interpolation.length]);
+      return extern.blank(interpolation);
+    });
+    this.interpolations.sort(extern.sortByZero);
+
+    return result;
+  }
+
   /**
    * Converts an offset to a position in the document.
    *
@@ -279,6 +499,42 @@ export class Document {
     return;
   }
 
+  /**
+   * Returns the element nodes of the document, in source order, along with
+   * their parsed attributes.
+   */
+  get nodes() {
+    return this.ranges.map(range => range[2]);
+  }
+
+  /**
+   * Creates a document from the summary of a parsed one, e.g. as found in the
+   * index cache, without reading nor parsing its file.
+   *
+   * A restored document answers workspace-wide queries about actions and
+   * diagnostics, but has no text nor syntax tree, so it must be replaced by a
+   * parsed document before serving any other request.
+   *
+   * @param uri - The URI of the document.
+   * @param languageId - The language identifier of the document.
+   * @param summary - What the parsed document knew.
+   * @returns The restored document.
+   */
+  static restore(uri: Uri, languageId: string, summary: DocumentSummary) {
+    const cur: Document = Object.assign(
+      Object.create(Document.prototype),
+      summary,
+    );
+
+    cur.uri = uri;
+    // only what the getters of the document read
+    cur.doc = { uri, languageId, version: 0 } as TextDocument;
+    cur.revision = 0;
+    cur.restored = true;
+
+    return cur;
+  }
+
   /**
    * Determines if a document is applicable based on language ID and URI.
    *
@@ -315,7 +571,10 @@ export class Document {
       return;
     }
 
+    const namespace = extern.getNamespace(this.uri);
+
     extern.setAttributes(node.attributes);
+    extern.setActiveNamespace(namespace);
     const completions = extern.service
       .doComplete(this.textDoc, position, this.htmlDoc)
       .items.map(extern.convertCompletionItem);
@@ -337,6 +596,8 @@ export class Document {
         getEventReferences,
         range,
         getEventValue,
+        "event",
+        namespace,
       );
     } else if (extern.isStateDefinition(name)) {
       extern.addCompletions(
@@ -345,6 +606,8 @@ export class Document {
         getStateReferences,
         range,
         getStateValue,
+        "state",
+        namespace,
       );
     } else if (extern.isResultDefinition(name)) {
       extern.addCompletions(
@@ -353,6 +616,15 @@ export class Document {
         getResultReferences,
         range,
         getResultValue,
+        "result",
+        namespace,
+      );
+    } else if (extern.isEndpoint(name)) {
+      extern.addRouteCompletions(
+        completions,
+        range,
+        extern.getRequest(node.attributes).method,
+        this.uri,
       );
     }
 
@@ -374,32 +646,55 @@ export class Document {
 
     extern.setAttributes(node.attributes);
     const hover = extern.service.doHover(this.textDoc, position, this.htmlDoc);
+    const attr = node.findAttrAt(offset);
+    const request =
+      attr && REQUEST_HOVER_ATTRS.includes(attr.name) ?
+        this.describeRequest(node.attributes)
+      : undefined;
+
     if (hover) {
-      return extern.convertHover(hover);
-    }
+      const result = extern.convertHover(hover);
 
-    const range = this.getWordRangeAtPosition(position);
-    if (!range) {
-      return;
+      if (request) {
+        result.contents.push(request);
+      }
+      return result;
     }
 
-    const attr = node.findAttrAt(offset);
     if (!attr) {
       return;
     }
 
     const { name } = attr;
-    let definitionsGetter, valueGetter;
+    if (attr.interpolations) {
+      return (
+        this.doDynamicHover(attr) ??
+        (request ? new extern.Hover(request, attr.range) : undefined)
+      );
+    }
+    if (request) {
+      return new extern.Hover(request, attr.range);
+    }
+
+    const range = this.getWordRangeAtPosition(position);
+    if (!range) {
+      return;
+    }
+
+    let definitionsGetter, valueGetter, kind: ActionKind;
 
     if (extern.isEventDefinition(name)) {
       definitionsGetter = getEventDefinitions;
       valueGetter = getEventValue;
+      kind = "event";
     } else if (extern.isStateDefinition(name)) {
       definitionsGetter = getStateDefinitions;
       valueGetter = getStateValue;
+      kind = "state";
     } else if (extern.isResultDefinition(name)) {
       definitionsGetter = getResultDefinitions;
       valueGetter = getResultValue;
+      kind = "result";
     } else {
       return;
     }
@@ -408,6 +703,8 @@ export class Document {
       this.getText(range),
       definitionsGetter,
       valueGetter,
+      kind,
+      extern.getNamespace(this.uri),
     );
     if (!valueData || !valueData.description) {
       return;
@@ -420,20 +717,64 @@ export class Document {
   }
 
   /**
-   * Resolves references for events, states, or results at a position.
+   * Describes the request an element with an `on` attribute sends, as worked
+   * out from its endpoint attributes.
    *
-   * @param eventResolver - Resolver for event definitions.
-   * @param stateResolver - Resolver for state definitions.
-   * @param resultResolver - Resolver for result definitions.
-   * @param position - Position to resolve references.
-   * @returns Locations of references or undefined.
+   * The description shows up when hovering any attribute taking part in the
+   * request, i.e. `on`, the endpoint attributes, `method` and `redirect`, but
+   * not the element name.
+   *
+   * @param attributes - The attributes of the element.
+   * @returns Markdown describing the request, if the element has a non-blank
+   *   URL.
    */
-  doRefer(
-    eventResolver: (cur: Document) => Map<string, Range[]>,
-    stateResolver: (cur: Document) => Map<string, Range[]>,
-    resultResolver: (cur: Document) => Map<string, Range[]>,
-    position: Position,
-  ) {
+  private describeRequest(attributes: Map<string, Attr>) {
+    const { method, url } = extern.getRequest(attributes);
+
+    if (!attributes.has("on") || !url?.value.trim()) {
+      return;
+    }
+
+    return (
+      attributes.has("redirect") ? `This element navigates to \`${url.value}\`.`
+      : method ? `This element sends \`${method} ${url.value}\`.`
+      : `This element sends a request to \`${url.value}\`, with a method only known at runtime.`
+    );
+  }
+
+  /**
+   * Computes the hover of an action attribute holding template
+   * interpolations.
+   *
+   * @param attr - The attribute.
+   * @returns Hover data or undefined if the attribute is not an action one.
+   */
+  private doDynamicHover({ name, range }: Attr) {
+    const kind =
+      extern.isEventDefinition(name) || extern.isEventReference(name) ? "event"
+      : extern.isStateDefinition(name) || extern.isStateReference(name) ?
+        "state"
+      : extern.isResultDefinition(name) || extern.isResultReference(name) ?
+        "result"
+      : undefined;
+
+    if (!kind) {
+      return;
+    }
+
+    return new extern.Hover(DYNAMIC_TPL({ kind }), range);
+  }
+
+  /**
+   * Finds the action at a given position.
+   *
+   * Subscribers hold a single action, so their whole value is matched, while
+   * only the word under the cursor is matched inside of definitions.
+   *
+   * @param position - Position to examine.
+   * @returns The matched action or undefined.
+   */
+  findActionAt(position: Position): ActionMatch | undefined {
     const offset = this.offsetAt(position);
     const node = this.findNodeAt(offset);
     if (!node) {
@@ -445,18 +786,33 @@ export class Document {
       return;
     }
 
-    let { name, value } = attr;
+    const { name, value } = attr;
 
     if (extern.isEventReference(name)) {
-      return extern.getLocations(value, eventResolver);
+      return {
+        kind: "event",
+        action: value,
+        range: attr.range!,
+        definition: false,
+      };
     }
 
     if (extern.isStateReference(name)) {
-      return extern.getLocations(value, stateResolver);
+      return {
+        kind: "state",
+        action: value,
+        range: attr.range!,
+        definition: false,
+      };
     }
 
     if (extern.isResultReference(name)) {
-      return extern.getLocations(value, resultResolver);
+      return {
+        kind: "result",
+        action: value,
+        range: attr.range!,
+        definition: false,
+      };
     }
 
     const range = this.getWordRangeAtPosition(position);
@@ -464,26 +820,104 @@ export class Document {
       return;
     }
 
-    value = this.getText(range);
+    let kind: ActionKind;
 
     if (extern.isEventDefinition(name)) {
-      return extern.getLocations(value, eventResolver);
+      kind = "event";
+    } else if (extern.isStateDefinition(name)) {
+      kind = "state";
+    } else if (extern.isResultDefinition(name)) {
+      kind = "result";
+    } else {
+      return;
     }
 
-    if (extern.isStateDefinition(name)) {
-      return extern.getLocations(value, stateResolver);
+    return { kind, action: this.getText(range), range, definition: true };
+  }
+
+  /**
+   * Resolves references for events, states, or results at a position.
+   *
+   * @param eventResolver - Resolver for event definitions.
+   * @param stateResolver - Resolver for state definitions.
+   * @param resultResolver - Resolver for result definitions.
+   * @param position - Position to resolve references.
+   * @param external - Whether to start with the declaration of the action in
+   *   the project manifest, if any.
+   * @returns Locations of references or undefined.
+   */
+  doRefer(
+    eventResolver: (cur: Document) => Map<string, Range[]>,
+    stateResolver: (cur: Document) => Map<string, Range[]>,
+    resultResolver: (cur: Document) => Map<string, Range[]>,
+    position: Position,
+    external = false,
+  ) {
+    const match = this.findActionAt(position);
+    if (!match) {
+      return;
     }
 
-    if (extern.isResultDefinition(name)) {
-      return extern.getLocations(value, resultResolver);
+    const { kind, action } = match;
+    const namespace = extern.getNamespace(this.uri);
+    const locations = extern.getLocations(
+      action,
+      kind === "event" ? eventResolver
+      : kind === "state" ? stateResolver
+      : resultResolver,
+      namespace,
+    );
+    const declared =
+      external && extern.getExternalActions(namespace)[kind].get(action);
+
+    if (declared) {
+      locations.unshift(declared.location);
     }
 
-    return;
+    return locations;
+  }
+
+  /**
+   * Highlights every occurrence of the action at a position in this document,
+   * definitions as writes and subscribers as reads. Actions of other kinds
+   * sharing the same name are left out.
+   *
+   * @param position - Position to highlight the action at.
+   * @returns Highlights of the action or undefined.
+   */
+  doHighlight(position: Position) {
+    const match = this.findActionAt(position);
+    if (!match) {
+      return;
+    }
+
+    const { kind, action } = match;
+
+    return [
+      ...(this[`${kind}_definitions`].get(action) ?? []).map(
+        range =>
+          new extern.DocumentHighlight(
+            range,
+            extern.DocumentHighlightKind.Write,
+          ),
+      ),
+      ...(this[`${kind}_references`].get(action) ?? []).map(
+        range =>
+          new extern.DocumentHighlight(
+            range,
+            extern.DocumentHighlightKind.Read,
+          ),
+      ),
+    ];
   }
 
   /**
    * Updates the document and re-parses its content after a change event.
    *
+   * A single edit of a document that is not derived only re-parses the
+   * top-level elements it touches, though the whole text is still searched for
+   * suppression comments and includes.
+   *
    * @param event - The text document change event.
    */
   update({ document, contentChanges }: TextDocumentChangeEvent) {
@@ -494,12 +928,35 @@ export class Document {
       return;
     }
 
-    this.textDoc = LSTextDocument.update(
-      this.textDoc,
-      contentChanges.slice(),
-      this.version,
-    );
-    this.parseHTMLDocument();
+    if (this.isDerived) {
+      this.textDoc = LSTextDocument.create(
+        this.url,
+        "html",
+        this.version,
+        this.getHTMLText(),
+      );
+      this.parseHTMLDocument();
+    } else if (contentChanges.length === 1) {
+      const [change] = contentChanges as [TextDocumentContentChangeEvent];
+      const start = this.textDoc.offsetAt(change.range.start);
+      const end = this.textDoc.offsetAt(change.range.end);
+
+      this.textDoc = LSTextDocument.update(
+        this.textDoc,
+        [change],
+        this.version,
+      );
+      if (!this.reparse(change, start, end)) {
+        this.parseHTMLDocument();
+      }
+    } else {
+      this.textDoc = LSTextDocument.update(
+        this.textDoc,
+        contentChanges.slice(),
+        this.version,
+      );
+      this.parseHTMLDocument();
+    }
     extern.updateDiagnosticCollection();
   }
 
@@ -514,16 +971,20 @@ export class Document {
     initialOffset?: number | undefined,
     range?: Range | undefined,
   ) {
-    return extern.service.createScanner(this.getText(range), initialOffset);
+    return extern.service.createScanner(
+      this.textDoc.getText(range),
+      initialOffset,
+    );
   }
 
   /**
    * Parses the attributes of a node and records their ranges.
    *
    * @param node - The node whose attributes are being parsed.
+   * @param ranges - Receives the start tag range of the node.
    * @returns A map of attribute names to their details.
    */
-  private parseNodeAttrs(node: LSNode) {
+  private parseNodeAttrs(node: LSNode, ranges: [number, number, Node][]) {
     const { attributes, start, startTagEnd, tag } = node;
     const newNode = new extern.Node(node);
 
@@ -531,7 +992,7 @@ export class Document {
       return newNode.attributes;
     }
 
-    this.ranges.push([start, startTagEnd, newNode]);
+    ranges.push([start, startTagEnd, newNode]);
 
     if (!attributes || !tag) {
       return newNode.attributes;
@@ -547,7 +1008,9 @@ export class Document {
       head,
       tail,
       offset,
-      end;
+      end,
+      attr: Attr,
+      interpolations;
 
     while (
       tokenEnd < startTagEnd &&
@@ -574,15 +1037,22 @@ export class Document {
         tail = TAIL_PATTERN.exec(tokenText)![0].length * -1;
         offset = tokenOffset + head;
         end = tokenEnd + tail;
-
-        newNode.setAttribute(name, {
+        attr = {
           name,
           value: tokenText.slice(head, tail),
           start: offset,
           end,
           range: this.rangeBetween(offset, end),
           fullRange: this.rangeBetween(nameOffset, tokenEnd),
-        });
+        };
+        interpolations = this.getInterpolations(offset, end);
+        if (interpolations.length) {
+          // the blanked out text was scanned, so read the actual value
+          attr.value = this.getText(attr.range);
+          attr.interpolations = interpolations;
+        }
+
+        newNode.setAttribute(name, attr);
         name = undefined;
       }
     }
@@ -590,19 +1060,154 @@ export class Document {
     return newNode.attributes;
   }
 
+  /**
+   * Finds the template interpolations within a span of the document.
+   *
+   * @param start - Start offset of the span.
+   * @param end - End offset of the span.
+   * @returns Start and end offsets of the interpolations, relative to the
+   *   start of the span.
+   */
+  private getInterpolations(start: number, end: number) {
+    const result: [number, number][] = [];
+
+    for (const [a, b] of this.interpolations) {
+      if (a < end && b > start) {
+        result.push([Math.max(a, start) - start, Math.min(b, end) - start]);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Records the patterns of the actions of an attribute that depend on
+   * template interpolations.
+   *
+   * @param store - The patterns of the kind of action the attribute holds.
+   * @param attr - The attribute.
+   */
+  private addDynamicPatterns(store: RegExp[], { value, interpolations }: Attr) {
+    if (interpolations) {
+      store.push(...extern.getDynamicPatterns(value, interpolations));
+    }
+  }
+
+  /**
+   * Records the `@keml` annotations of an element for the actions it defines.
+   *
+   * @param segment - The segment the element belongs to.
+   * @param annotations - The descriptions by action name.
+   * @param start - Start offset of the element.
+   * @param end - End offset of the start tag of the element.
+   */
+  private addAnnotations(
+    segment: Segment,
+    annotations: Map<string, string>,
+    start: number,
+    end: number,
+  ) {
+    let kind, action, description, range, offset, store;
+
+    for (kind of actionKinds) {
+      for ([action, description] of annotations) {
+        // the ranges of the element were added last
+        if (
+          (range = segment.definitions[kind].get(action)?.at(-1)) &&
+          (offset = this.offsetAt(range.start)) > start &&
+          offset < end
+        ) {
+          store = segment.annotations[kind];
+          store.get(action)?.push({ description, range }) ??
+            store.set(action, [{ description, range }]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Collects the lines suppressed by the suppression comments.
+   *
+   * A `keml-disable` comment lasts until a `keml-enable` comment listing none
+   * or some of its codes, or else to the end of the document.
+   *
+   * @param text - The text of the document.
+   */
+  private addSuppressions(text: string) {
+    const open: Suppression[] = [];
+    let range, suppression, i;
+
+    this.suppressions = [];
+    for (const { directive, codes, start, end } of extern.parseSuppressions(
+      text,
+    )) {
+      range = this.rangeBetween(start, end);
+      if (directive === "enable") {
+        for (i = open.length; i--;) {
+          suppression = open[i]!;
+          if (
+            !codes.length ||
+            suppression.codes.some(code => codes.includes(code))
+          ) {
+            suppression.end = range.start.line;
+            open.splice(i, 1);
+          }
+        }
+      } else if (directive === "disable") {
+        suppression = { codes, range, start: range.start.line, end: Infinity };
+        this.suppressions.push(suppression);
+        open.push(suppression);
+      } else {
+        this.suppressions.push({
+          codes,
+          range,
+          start: range.end.line + 1,
+          end: range.end.line + 1,
+        });
+      }
+    }
+  }
+
+  /**
+   * Adds a diagnostic, unless its rule is disabled.
+   *
+   * @param store - Receives the diagnostic.
+   * @param range - The range associated with the diagnostic.
+   * @param message - The message of the diagnostic.
+   * @param code - The code of the rule.
+   * @param severity - The default severity level of the rule, if enabled.
+   * @param tags - Optional tags associated with the diagnostic.
+   */
+  private addDiagnostic(
+    store: Diagnostic[],
+    range: Range,
+    message: string,
+    code: RuleCode,
+    severity: DiagnosticSeverity | undefined,
+    tags?: DiagnosticTag[],
+  ) {
+    if ((severity = extern.getRuleSeverity(code, severity)) != null) {
+      store.push(extern.createDiagnostic(range, message, code, severity, tags));
+    }
+  }
+
   /**
    * Adds a diagnostic if a dependent attribute is missing.
    *
+   * @param store - Receives the diagnostic.
    * @param attributes - The attributes of the node to check.
    * @param range - The range associated with the diagnostic.
    * @param name - The name of the current attribute.
    * @param depends - The name of the dependent attribute.
+   * @param code - The code identifying the diagnostic.
    */
   private addDependsDiagnostic(
+    store: Diagnostic[],
     attributes: Record<string, string | null>,
     range: Range,
     name: string,
     depends: string[],
+    code: RuleCode,
   ) {
     for (let i = 0, l = depends.length, d; i < l; ++i) {
       d = depends[i]!;
@@ -611,14 +1216,14 @@ export class Document {
       }
     }
 
-    const diagnostic = new extern.Diagnostic(
+    this.addDiagnostic(
+      store,
       range,
       DEP_TPL({ name, depends: depends.join("', '") }),
+      code,
       DiagnosticSeverity.Warning,
+      [DiagnosticTag.Unnecessary],
     );
-    diagnostic.source = "KEML";
-    diagnostic.tags = [DiagnosticTag.Unnecessary];
-    this.diagnostics.push(diagnostic);
   }
 
   /**
@@ -627,23 +1232,381 @@ export class Document {
    * Updates diagnostics, event/state/result definitions, and reference maps.
    */
   private parseHTMLDocument() {
-    this.diagnostics = [];
-    this.ranges = [];
-    this.has_log = false;
-    this.event_definitions = new Map<string, Range[]>();
-    this.event_references = new Map<string, Range[]>();
-    this.state_definitions = new Map<string, Range[]>();
-    this.state_references = new Map<string, Range[]>();
-    this.result_definitions = new Map<string, Range[]>();
-    this.result_references = new Map<string, Range[]>();
     this.htmlDoc = extern.service.parseHTMLDocument(this.textDoc);
 
-    const stack = [this.htmlDoc.roots];
-    let nodes,
+    const annotated = extern.parseAnnotations(this.textDoc.getText());
+
+    this.segments = this.htmlDoc.roots.map(root =>
+      this.scanSegment(root, annotated),
+    );
+    this.assemble();
+  }
+
+  /**
+   * Re-parses the part of the document an edit touched: the top-level
+   * elements it overlaps, along with the one that follows it, which its
+   * annotations may be written for. The elements after that part are only
+   * moved.
+   *
+   * Should the edit change the way the rest of the document parses, e.g. by
+   * leaving an element or a comment open, nothing is changed.
+   *
+   * @param change - The change of the edit.
+   * @param start - Start offset of the replaced text, before the edit.
+   * @param end - End offset of the replaced text, before the edit.
+   * @returns Whether the document was re-parsed.
+   */
+  private reparse(
+    { range, text }: TextDocumentContentChangeEvent,
+    start: number,
+    end: number,
+  ) {
+    const { roots } = this.htmlDoc;
+    const parent = roots[0]?.parent;
+    if (!parent) {
+      return false;
+    }
+
+    const delta = text.length - (end - start);
+    let first = 0;
+    let last;
+
+    while (first < roots.length && roots[first]!.end < start) {
+      first++;
+    }
+    for (last = first; last < roots.length && roots[last]!.start <= end;) {
+      last++;
+    }
+    last = Math.min(last + 1, roots.length);
+
+    const offset = first ? roots[first - 1]!.end : 0;
+    const html = this.textDoc
+      .getText()
+      .slice(
+        offset,
+        (last < roots.length ? roots[last]!.start : parent.end) + delta,
+      );
+    const scanner = extern.service.createScanner(html);
+
+    while (scanner.scan() !== TokenType.EOS);
+    if (scanner.getScannerState() !== ScannerState.WithinContent) {
+      return false;
+    }
+
+    const parsed = extern.service.parseHTMLDocument(
+      LSTextDocument.create(this.url, "html", this.version, html),
+    ).roots;
+    // an element left open would take in the elements that follow
+    if (!parsed.every(root => (root as LSNode & { closed: boolean }).closed)) {
+      return false;
+    }
+
+    const annotated = new Map(
+      Array.from(extern.parseAnnotations(html), ([index, annotations]) => [
+        offset + index,
+        annotations,
+      ]),
+    );
+    const removed = this.segments.slice(first, last);
+    let moved = new Map<Range, Range>();
+    let index = 0;
+
+    for (const root of parsed) {
+      root.parent = parent;
+    }
+    this.moveNodes(parsed, offset);
+    if (delta) {
+      this.moveNodes(roots.slice(last), delta);
+      moved = this.moveSegments(
+        this.segments.slice(last),
+        delta,
+        range.end,
+        this.positionAt(start + text.length),
+      );
+    }
+    parent.end += delta;
+
+    const added = parsed.map(root => this.scanSegment(root, annotated));
+
+    for (const { ranges } of this.segments.slice(0, first)) {
+      index += ranges.length;
+    }
+    this.ranges.splice(
+      index,
+      removed.reduce((count, { ranges }) => count + ranges.length, 0),
+      ...added.flatMap(({ ranges }) => ranges),
+    );
+    roots.splice(first, last - first, ...parsed);
+    this.segments.splice(first, last - first, ...added);
+    this.patchMaps(removed.concat(added), moved);
+    this.collect();
+
+    return true;
+  }
+
+  /**
+   * Moves parsed HTML nodes, along with their descendants.
+   *
+   * @param nodes - The nodes to move.
+   * @param delta - The number of characters to move them by.
+   */
+  private moveNodes(nodes: LSNode[], delta: number) {
+    const stack = [nodes];
+    let node;
+
+    while ((nodes = stack.pop()!)) {
+      for (node of nodes) {
+        stack.push(node.children);
+        node.start += delta;
+        node.end += delta;
+        if (node.startTagEnd != null) {
+          node.startTagEnd += delta;
+        }
+        if (node.endTagStart != null) {
+          node.endTagStart += delta;
+        }
+      }
+    }
+  }
+
+  /**
+   * Moves the segments that follow an edit to where the edit left them.
+   *
+   * @param segments - The segments to move.
+   * @param delta - The number of characters the edit added, or removed when
+   *   negative.
+   * @param from - The end of the replaced text, before the edit.
+   * @param to - The end of the inserted text, after the edit.
+   * @returns The ranges that had to be replaced, mapped to their replacements.
+   */
+  private moveSegments(
+    segments: Segment[],
+    delta: number,
+    from: Position,
+    to: Position,
+  ) {
+    const moved = new Map<Range, Range>();
+    const lines = to.line - from.line;
+
+    /**
+     * Moves a position, which only changes column on the line the edit ended.
+     */
+    const movePosition = ({ line, character }: Position) =>
+      line === from.line ?
+        new extern.Position(to.line, to.character + character - from.character)
+      : new extern.Position(line + lines, character);
+
+    /**
+     * Moves a range, once even if shared, unless it stays where it is.
+     */
+    const move = (range: Range) => {
+      if (!lines && range.start.line !== from.line) {
+        return range;
+      }
+
+      let result = moved.get(range);
+
+      if (!result) {
+        result = new extern.Range(
+          movePosition(range.start),
+          movePosition(range.end),
+        );
+        moved.set(range, result);
+      }
+
+      return result;
+    };
+
+    let entry,
       node,
+      attr,
+      kind,
+      ranges,
+      i,
+      annotations,
+      annotation,
       diagnostic,
+      endpoint;
+
+    for (const segment of segments) {
+      for (entry of segment.ranges) {
+        entry[0] += delta;
+        entry[1] += delta;
+        node = entry[2];
+        node.start += delta;
+        node.end += delta;
+        node.startTagEnd! += delta;
+        if (node.endTagStart != null) {
+          node.endTagStart += delta;
+        }
+        for (attr of node.attributes.values()) {
+          if (attr.range) {
+            attr.start! += delta;
+            attr.end! += delta;
+            attr.range = move(attr.range);
+          }
+          attr.fullRange = move(attr.fullRange);
+        }
+      }
+      for (kind of actionKinds) {
+        for (ranges of segment.definitions[kind].values()) {
+          for (i = ranges.length; i--;) {
+            ranges[i] = move(ranges[i]!);
+          }
+        }
+        for (ranges of segment.references[kind].values()) {
+          for (i = ranges.length; i--;) {
+            ranges[i] = move(ranges[i]!);
+          }
+        }
+        for (annotations of segment.annotations[kind].values()) {
+          for (annotation of annotations) {
+            annotation.range = move(annotation.range);
+          }
+        }
+      }
+      for (diagnostic of segment.diagnostics) {
+        diagnostic.range = move(diagnostic.range);
+      }
+      for (endpoint of segment.endpoints) {
+        endpoint.range = move(endpoint.range);
+      }
+    }
+
+    return moved;
+  }
+
+  /**
+   * Reports the event of an `on:` or `event:` attribute unless it is a native
+   * DOM event, a custom KEML event or a custom event declared by the user,
+   * suggesting the closest known event, if any.
+   *
+   * @param diagnostics - Receives the diagnostic.
+   * @param name - The name of the attribute.
+   * @param range - Range covering the attribute.
+   */
+  private scanEvent(diagnostics: Diagnostic[], name: string, range: Range) {
+    const event = name.slice(name.indexOf(":") + 1);
+
+    if (
+      !event ||
+      extern.INVALID_PATTERN.test(event) ||
+      extern.getEventNames().includes(event)
+    ) {
+      return;
+    }
+
+    const suggestion = extern.suggestEvent(event);
+
+    this.addDiagnostic(
+      diagnostics,
+      new extern.Range(
+        range.start,
+        this.positionAt(this.offsetAt(range.start) + name.length),
+      ),
+      `Unknown event '${event}'.${suggestion ? ` Did you mean '${suggestion}'?` : ""}`,
+      "unknown-event",
+      DiagnosticSeverity.Warning,
+    );
+  }
+
+  /**
+   * Checks the request an element with an `on` attribute sends, then records
+   * it, unless it navigates instead, its method or URL are only known at
+   * runtime, or the URL is relative or points to another origin.
+   *
+   * @param segment - Receives the diagnostics and the request.
+   * @param attributes - The attributes of the element.
+   */
+  private scanRequest(segment: Segment, attributes: Map<string, Attr>) {
+    const { method, url } = extern.getRequest(attributes);
+    const override = attributes.get("method");
+    const redirect = attributes.get("redirect");
+    let name, attr;
+
+    for (name of REQUEST_ATTRS) {
+      if ((attr = attributes.get(name)) && attr !== url) {
+        this.addDiagnostic(
+          segment.diagnostics,
+          attr.fullRange,
+          `'${name}' is ignored because '${url!.name}' takes precedence.`,
+          "shadowed-endpoint",
+          DiagnosticSeverity.Warning,
+          [DiagnosticTag.Unnecessary],
+        );
+      }
+    }
+    if (
+      override?.range &&
+      override.value &&
+      !extern.INVALID_PATTERN.test(override.value) &&
+      !validMethod.includes(override.value.toUpperCase())
+    ) {
+      this.addDiagnostic(
+        segment.diagnostics,
+        override.range,
+        `Invalid HTTP method.
+Expected one of: ${validMethod.join(", ")}.`,
+        "invalid-method",
+        DiagnosticSeverity.Warning,
+      );
+    }
+    if (redirect && method && method !== "GET") {
+      this.addDiagnostic(
+        segment.diagnostics,
+        redirect.fullRange,
+        `'redirect' navigates instead of sending a request, so the ${method} method is ignored.`,
+        "redirect-with-method",
+        DiagnosticSeverity.Warning,
+      );
+    }
+
+    if (
+      !redirect &&
+      method &&
+      url?.range &&
+      !url.interpolations &&
+      url.value.startsWith("/") &&
+      !url.value.startsWith("//")
+    ) {
+      segment.endpoints.push({ method, path: url.value, range: url.range });
+    }
+  }
+
+  /**
+   * Scans a top-level element and its descendants.
+   *
+   * @param root - The top-level element.
+   * @param annotated - The annotations of the document, by the offset of the
+   *   element they apply to.
+   * @returns What the element contributes to the document.
+   */
+  private scanSegment(
+    root: LSNode,
+    annotated: Map<number, Map<string, string>>,
+  ) {
+    const segment: Segment = {
+      diagnostics: [],
+      ranges: [],
+      definitions: { event: new Map(), state: new Map(), result: new Map() },
+      references: { event: new Map(), state: new Map(), result: new Map() },
+      dynamic_definitions: { event: [], state: [], result: [] },
+      dynamic_references: { event: [], state: [], result: [] },
+      annotations: { event: new Map(), state: new Map(), result: new Map() },
+      has_log: false,
+      endpoints: [],
+    };
+    const { diagnostics, definitions, references } = segment;
+    const vue = this.languageId === "vue";
+    const stack = [[root]];
+    let nodes,
+      node,
+      annotations,
+      depends,
       tag,
-      attributes,
+      attributes: Record<string, string | null>,
+      bound,
+      attrs,
       name: string,
       value: string,
       range: Range | undefined,
@@ -653,86 +1616,108 @@ export class Document {
       for (node of nodes) {
         stack.push(node.children);
         tag = node.tag;
-        attributes = node.attributes ?? {};
+        attributes = { ...node.attributes };
+        if (vue) {
+          for (name in attributes) {
+            if ((bound = extern.getBoundName(name))) {
+              attributes[bound] = attributes[name]!;
+            }
+          }
+        }
 
-        for (const attr of this.parseNodeAttrs(node).values()) {
+        attrs = this.parseNodeAttrs(node, segment.ranges);
+        for (const attr of attrs.values()) {
           name = attr.name;
           value = attr.value;
           range = attr.range;
           fullRange = attr.fullRange;
+          if (vue && (bound = extern.getBoundName(name))) {
+            // the value of a binding is only known at runtime
+            for (depends of extern.getDependencies(tag!, bound)) {
+              this.addDependsDiagnostic(
+                diagnostics,
+                attributes,
+                fullRange,
+                bound,
+                depends,
+                "missing-dependency",
+              );
+            }
+            continue;
+          }
           if (range) {
             if (extern.isEventDefinition(name)) {
-              extern.addDefinitionRanges(this.event_definitions, value, range);
+              extern.addDefinitionRanges(definitions.event, value, range);
+              this.addDynamicPatterns(segment.dynamic_definitions.event, attr);
             } else if (extern.isEventReference(name)) {
-              extern.addRange(this.event_references, value, range);
+              extern.addRange(references.event, value, range);
+              this.addDynamicPatterns(segment.dynamic_references.event, attr);
             } else if (extern.isStateDefinition(name)) {
-              extern.addDefinitionRanges(this.state_definitions, value, range);
+              extern.addDefinitionRanges(definitions.state, value, range);
+              this.addDynamicPatterns(segment.dynamic_definitions.state, attr);
             } else if (extern.isStateReference(name)) {
-              extern.addRange(this.state_references, value, range);
+              extern.addRange(references.state, value, range);
+              this.addDynamicPatterns(segment.dynamic_references.state, attr);
             } else if (extern.isResultDefinition(name)) {
-              extern.addDefinitionRanges(this.result_definitions, value, range);
+              extern.addDefinitionRanges(definitions.result, value, range);
+              this.addDynamicPatterns(segment.dynamic_definitions.result, attr);
             } else if (extern.isResultReference(name)) {
-              extern.addRange(this.result_references, value, range);
+              extern.addRange(references.result, value, range);
+              this.addDynamicPatterns(segment.dynamic_references.result, attr);
             }
           }
+          if (extern.isEventDefinition(name) || extern.isEventFilter(name)) {
+            this.scanEvent(diagnostics, name, fullRange);
+          }
           if (
             extern.isEventReference(name) ||
             extern.isStateReference(name) ||
             extern.isResultReference(name)
           ) {
             if (!value) {
-              diagnostic = new extern.Diagnostic(
+              this.addDiagnostic(
+                diagnostics,
                 fullRange,
                 "No action specified.",
+                "empty-subscriber",
                 DiagnosticSeverity.Warning,
+                [DiagnosticTag.Unnecessary],
               );
-              diagnostic.source = "KEML";
-              diagnostic.tags = [DiagnosticTag.Unnecessary];
-              this.diagnostics.push(diagnostic);
             } else if (extern.isInvalidToken(value) && range) {
-              diagnostic = new extern.Diagnostic(
+              this.addDiagnostic(
+                diagnostics,
                 range,
                 `Action subscribers are only allowed to hold 1 value and are used verbatim.
 Make sure not to have any spaces in the action name.`,
+                "whitespace-in-subscriber",
                 DiagnosticSeverity.Error,
               );
-              diagnostic.source = "KEML";
-              this.diagnostics.push(diagnostic);
             }
           }
-          if (extern.isEventFilter(name)) {
-            this.addDependsDiagnostic(attributes, fullRange, name, [
-              `on${name.slice(name.indexOf(":"))}`,
-            ]);
-          }
-          if (extern.isTagSseDependent(tag!, name)) {
-            this.addDependsDiagnostic(attributes, fullRange, name, [
-              "on",
-              "sse",
-            ]);
-          }
-          if (extern.isTagOnDependent(tag!, name)) {
-            this.addDependsDiagnostic(attributes, fullRange, name, ["on"]);
+          for (depends of extern.getDependencies(tag!, name)) {
+            this.addDependsDiagnostic(
+              diagnostics,
+              attributes,
+              fullRange,
+              name,
+              depends,
+              "missing-dependency",
+            );
           }
-          if (extern.isPosition(name)) {
-            this.addDependsDiagnostic(attributes, fullRange, name, ["render"]);
-            if (
-              !validPosition.includes(value) &&
-              !extern.INVALID_PATTERN.test(value) &&
-              range
-            ) {
-              diagnostic = new extern.Diagnostic(
-                range,
-                `Invalid render position.
+          if (
+            extern.isPosition(name) &&
+            !validPosition.includes(value) &&
+            !extern.INVALID_PATTERN.test(value) &&
+            range
+          ) {
+            this.addDiagnostic(
+              diagnostics,
+              range,
+              `Invalid render position.
 Expected one of: ${validPosition.join(", ")}.`,
-                DiagnosticSeverity.Error,
-              );
-              diagnostic.source = "KEML";
-              this.diagnostics.push(diagnostic);
-            }
-          }
-          if (extern.isScrollDependent(name)) {
-            this.addDependsDiagnostic(attributes, fullRange, name, ["scroll"]);
+              "invalid-position",
+              DiagnosticSeverity.Error,
+            );
           }
           if (
             extern.isBehavior(name) &&
@@ -740,59 +1725,67 @@ Expected one of: ${validPosition.join(", ")}.`,
             !extern.INVALID_PATTERN.test(value) &&
             range
           ) {
-            diagnostic = new extern.Diagnostic(
+            this.addDiagnostic(
+              diagnostics,
               range,
               `Invalid scroll behavior.
 Expected one of: ${validBehavior.join(", ")}.
 Falling back to "auto".`,
+              "invalid-behavior",
               DiagnosticSeverity.Error,
             );
-            diagnostic.source = "KEML";
-            this.diagnostics.push(diagnostic);
           }
           if (extern.isScrollPosition(name)) {
             if (!value) {
-              diagnostic = new extern.Diagnostic(
+              this.addDiagnostic(
+                diagnostics,
                 fullRange,
                 `Missing value.
 Expected one of: ${validScrollPosition.join(", ")} or a numeric value.
 The value will be ignored.
 Specify either "top" or "left" to enable scrolling.`,
+                "invalid-scroll-position",
                 DiagnosticSeverity.Warning,
               );
-              diagnostic.source = "KEML";
-              this.diagnostics.push(diagnostic);
             } else if (
               range &&
+              !attr.interpolations &&
               isNaN(+value) &&
               !validScrollPosition.includes(value)
             ) {
-              diagnostic = new extern.Diagnostic(
+              this.addDiagnostic(
+                diagnostics,
                 range,
                 `Invalid scroll position.
 Expected one of: ${validScrollPosition.join(", ")} or a numeric value.
 The value will be ignored.
 Specify either "top" or "left" to enable scrolling.`,
+                "invalid-scroll-position",
                 DiagnosticSeverity.Error,
               );
-              diagnostic.source = "KEML";
-              this.diagnostics.push(diagnostic);
             }
           }
           if (extern.isLog(name)) {
-            this.has_log = true;
-            if (extern.getWarnOnLogAttribute()) {
-              diagnostic = new extern.Diagnostic(
-                fullRange,
-                `Debug attribute \`log\` is enabled. Remove before production or disable this warning with \`keml.warnOnLogAttribute\`.`,
-                DiagnosticSeverity.Warning,
-              );
-              diagnostic.source = "KEML";
-              this.diagnostics.push(diagnostic);
-            }
+            segment.has_log = true;
+            this.addDiagnostic(
+              diagnostics,
+              fullRange,
+              `Debug attribute \`log\` is enabled. Remove before production or disable this warning with \`keml.warnOnLogAttribute\`.`,
+              "log-attribute",
+              extern.getWarnOnLogAttribute() ?
+                DiagnosticSeverity.Warning
+              : undefined,
+            );
           }
           if (name.startsWith("x-")) {
-            this.addDependsDiagnostic(attributes, fullRange, name, ["if"]);
+            this.addDependsDiagnostic(
+              diagnostics,
+              attributes,
+              fullRange,
+              name,
+              ["if"],
+              "conditional-without-if",
+            );
           }
           if (
             extern.isScroll(name) &&
@@ -801,43 +1794,193 @@ Specify either "top" or "left" to enable scrolling.`,
             !("left" in attributes) &&
             !("x-left" in attributes)
           ) {
-            diagnostic = new extern.Diagnostic(
+            this.addDiagnostic(
+              diagnostics,
               fullRange,
               `Scroll attribute will not trigger movement. Specify 'top', 'left', or both to enable scrolling.`,
+              "scroll-without-offset",
               DiagnosticSeverity.Warning,
             );
-            diagnostic.source = "KEML";
-            this.diagnostics.push(diagnostic);
           }
         }
+        if (attrs.has("on")) {
+          this.scanRequest(segment, attrs);
+        }
+        if (node.startTagEnd && (annotations = annotated.get(node.start))) {
+          this.addAnnotations(
+            segment,
+            annotations,
+            node.start,
+            node.startTagEnd,
+          );
+        }
       }
     }
-    this.ranges.sort(extern.sortByZero);
+    segment.ranges.sort(extern.sortByZero);
+
+    return segment;
+  }
+
+  /**
+   * Combines the segments into what the document holds.
+   */
+  private assemble() {
+    const { segments } = this;
+    let segment, kind;
+
+    this.ranges = segments.flatMap(({ ranges }) => ranges);
+    this.event_definitions = new Map<string, Range[]>();
+    this.event_references = new Map<string, Range[]>();
+    this.state_definitions = new Map<string, Range[]>();
+    this.state_references = new Map<string, Range[]>();
+    this.result_definitions = new Map<string, Range[]>();
+    this.result_references = new Map<string, Range[]>();
+    this.annotations = {
+      event: new Map(),
+      state: new Map(),
+      result: new Map(),
+    };
+    for (segment of segments) {
+      for (kind of actionKinds) {
+        extern.mergeInto(
+          this[`${kind}_definitions`],
+          segment.definitions[kind],
+        );
+        extern.mergeInto(this[`${kind}_references`], segment.references[kind]);
+        extern.mergeInto(this.annotations[kind], segment.annotations[kind]);
+      }
+    }
+    this.collect();
+  }
+
+  /**
+   * Updates the maps of the document for the actions of segments that were
+   * replaced, and for the ranges that were moved.
+   *
+   * @param replaced - The segments that were removed or added.
+   * @param moved - The ranges that were moved, mapped to their replacements.
+   */
+  private patchMaps(replaced: Segment[], moved: Map<Range, Range>) {
+    const { segments } = this;
+    let store, values, i;
+
+    /**
+     * Gathers the values of the keys of the replaced segments anew.
+     */
+    const patch = <T,>(
+      store: Map<string, T[]>,
+      select: (segment: Segment) => Map<string, T[]>,
+    ) => {
+      for (const key of new Set(
+        replaced.flatMap(segment => Array.from(select(segment).keys())),
+      )) {
+        values = segments.flatMap(segment => select(segment).get(key) ?? []);
+        if (values.length) {
+          store.set(key, values);
+        } else {
+          store.delete(key);
+        }
+      }
+    };
+
+    for (const kind of actionKinds) {
+      if (moved.size) {
+        for (store of [
+          this[`${kind}_definitions`],
+          this[`${kind}_references`],
+        ]) {
+          for (values of store.values()) {
+            for (i = values.length; i--;) {
+              values[i] = moved.get(values[i]!) ?? values[i]!;
+            }
+          }
+        }
+      }
+      patch(
+        this[`${kind}_definitions`],
+        ({ definitions }) => definitions[kind],
+      );
+      patch(this[`${kind}_references`], ({ references }) => references[kind]);
+      patch(this.annotations[kind], ({ annotations }) => annotations[kind]);
+    }
+  }
+
+  /**
+   * Collects the diagnostics and the dynamic actions of the segments, and
+   * applies the suppression comments.
+   */
+  private collect() {
+    const { segments } = this;
+    let segment, kind;
+
+    this.revision++;
+    this.diagnostics = segments.flatMap(({ diagnostics }) => diagnostics);
+    this.has_log = segments.some(({ has_log }) => has_log);
+    this.endpoints = segments.flatMap(({ endpoints }) => endpoints);
+    this.dynamic_definitions = { event: [], state: [], result: [] };
+    this.dynamic_references = { event: [], state: [], result: [] };
+    for (segment of segments) {
+      for (kind of actionKinds) {
+        this.dynamic_definitions[kind].push(
+          ...segment.dynamic_definitions[kind],
+        );
+        this.dynamic_references[kind].push(...segment.dynamic_references[kind]);
+      }
+    }
+    const text = this.textDoc.getText();
+
+    this.addSuppressions(text);
+    this.includes = extern.parseIncludes(text, extern.getIncludePatterns());
+    this.suppressed = new Set();
+    this.diagnostics = extern.applySuppressions(
+      this.diagnostics,
+      this.suppressions,
+      this.suppressed,
+    );
   }
 }
 
 let extern = {
-  Diagnostic,
+  DocumentHighlight,
+  DocumentHighlightKind,
   Hover,
+  Position,
   Range,
   addCompletions,
   addDefinitionRanges,
   addRange,
+  addRouteCompletions,
+  applySuppressions,
+  blank,
   convertCompletionItem,
   convertDocumentation,
   convertHover,
+  createDiagnostic,
+  extractJsxTags,
+  extractVueTemplate,
   getExclude,
+  getExternalActions,
   getInclude,
+  getIncludePatterns,
   getLanguageIds,
+  getRuleSeverity,
   getWarnOnLogAttribute,
+  setActiveNamespace,
   setAttributes,
+  getBoundName,
+  getDependencies,
+  getDynamicPatterns,
+  getEventNames,
   getExistingActionValue,
+  getInterpolationPattern,
   getLocations,
+  getNamespace,
+  getRequest,
+  isEndpoint,
   isEventDefinition,
   isEventFilter,
   isEventReference,
   isPosition,
-  isScrollDependent,
   isBehavior,
   isScrollPosition,
   isScroll,
@@ -846,14 +1989,17 @@ let extern = {
   isResultReference,
   isStateDefinition,
   isStateReference,
-  isTagSseDependent,
-  isTagOnDependent,
   isInvalidToken,
   match,
+  mergeInto,
   Node,
+  parseAnnotations,
+  parseIncludes,
+  parseSuppressions,
   INVALID_PATTERN,
   service,
   sortByZero,
+  suggestEvent,
   updateDiagnosticCollection,
 };
 
@@ -879,6 +2025,8 @@ if (import.meta.vitest) {
     },
   } = import.meta.vitest;
   const { getLanguageService } = await import("vscode-html-languageservice");
+  const { TextDocument: ShimTextDocument, Uri } =
+    await import("./vscode-shim.mts");
   const origExtern = extern;
   const testService = getLanguageService();
 
@@ -982,11 +2130,114 @@ if (import.meta.vitest) {
     }
   }
 
+  class VueDocument extends Document {
+    constructor(html: string) {
+      super(Object.assign(new MockTextDocument(html), { languageId: "vue" }));
+    }
+  }
+
+  class JsxDocument extends Document {
+    constructor(html: string) {
+      super(
+        Object.assign(new MockTextDocument(html), {
+          languageId: "typescriptreact",
+        }),
+      );
+    }
+  }
+
+  class TwigDocument extends Document {
+    constructor(html: string) {
+      super(Object.assign(new MockTextDocument(html), { languageId: "twig" }));
+    }
+  }
+
+  /**
+   * Mocks the action attribute checks after the attribute names of KEML.
+   */
+  const mockActionAttrs = () => {
+    extern.isEventDefinition = fn(name => name === "on:click");
+    extern.isEventReference = fn(name => name === "on") as any;
+    extern.isStateDefinition = fn(name => name === "if:valid");
+    extern.isStateReference = fn(name => name === "if") as any;
+    extern.isResultDefinition = fn(name => name === "result") as any;
+    extern.isResultReference = fn(name => name === "render") as any;
+  };
+
   let setAttr: Mock<(name: string, value: any) => any>;
   let update: MockInstance<(typeof LSTextDocument)["update"]>;
   let doComplete: MockInstance<(typeof testService)["doComplete"]>;
   let doHover: MockInstance<(typeof testService)["doHover"]>;
 
+  /**
+   * Parses documents for real, to compare incremental updates with a full
+   * parse.
+   */
+  const mockIncrementalParsing = () => {
+    update.mockRestore();
+    mockActionAttrs();
+    extern.Node = Node;
+    extern.addRange = addRange;
+    extern.addDefinitionRanges = fn((store, value, range) =>
+      addRange(store, value, range),
+    );
+    extern.isLog = fn(name => name === "log") as any;
+  };
+
+  /**
+   * Replaces a part of the text of a document, the way an editor would.
+   *
+   * @returns The text after the edit.
+   */
+  const edit = (
+    cur: Document,
+    html: string,
+    start: number,
+    end: number,
+    text: string,
+    create: (text: string) => TextDocument = text => new MockTextDocument(text),
+  ) => {
+    const before = create(html);
+    const result = html.slice(0, start) + text + html.slice(end);
+
+    cur.update({
+      document: create(result),
+      contentChanges: [
+        {
+          range: new extern.Range(
+            before.positionAt(start),
+            before.positionAt(end),
+          ),
+          rangeOffset: start,
+          rangeLength: end - start,
+          text,
+        },
+      ],
+      reason: undefined,
+    });
+
+    return result;
+  };
+
+  /**
+   * Lists what a document holds.
+   */
+  const summarize = (cur: Document) => ({
+    nodes: cur.nodes.map(({ attributes, ...node }) => ({
+      ...node,
+      attributes: Array.from(attributes.values()),
+    })),
+    maps: actionKinds.flatMap(kind => [
+      cur[`${kind}_definitions`],
+      cur[`${kind}_references`],
+    ]),
+    dynamic: [cur.dynamic_definitions, cur.dynamic_references],
+    annotations: cur.annotations,
+    diagnostics: cur.diagnostics,
+    has_log: cur.has_log,
+    endpoints: cur.endpoints,
+  });
+
   describe("Document", () => {
     beforeAll(() => {
       useFakeTimers();
@@ -997,21 +2248,25 @@ if (import.meta.vitest) {
       setAttr = fn((name: string, value: any) => attrs.set(name, value));
 
       extern = {
-        Diagnostic: class {
-          source?: string;
-          tags?: DiagnosticTag[];
+        DocumentHighlight: class {
           constructor(
-            public range: Range,
-            public message: string,
-            public severity: DiagnosticSeverity,
+            public range: any,
+            public kind: any,
           ) {}
-        },
+        } as any,
+        DocumentHighlightKind: { Text: 0, Read: 1, Write: 2 } as any,
         Hover: class Hover {
           constructor(
             public contents: any,
             public range: any,
           ) {}
         },
+        Position: class {
+          constructor(
+            public line: any,
+            public character: any,
+          ) {}
+        } as any,
         Range: class {
           constructor(
             public start: any,
@@ -1021,22 +2276,57 @@ if (import.meta.vitest) {
         addCompletions: fn(),
         addDefinitionRanges: fn(),
         addRange: fn(),
+        addRouteCompletions: fn(),
+        applySuppressions,
         convertCompletionItem: fn(a => a),
         convertDocumentation: fn(a => a),
         convertHover: fn(a => a),
+        createDiagnostic: fn((range, message, code, severity, tags) => ({
+          range,
+          message,
+          severity,
+          source: "KEML",
+          code,
+          tags,
+        })) as any,
+        blank,
+        extractJsxTags: fn(extractJsxTags),
+        extractVueTemplate: fn(a =>
+          a.replace("<script></script>", " ".repeat(17)),
+        ),
         getExclude: fn().mockReturnValue([]),
+        getExternalActions: fn().mockReturnValue({
+          event: new Map(),
+          state: new Map([["bar", { location: "manifest-loc" }]]),
+          result: new Map(),
+        }),
         getInclude: fn().mockReturnValue([]),
+        getIncludePatterns: fn().mockReturnValue([/\{\{> (\w+)/g]),
         getLanguageIds: fn().mockReturnValue([]),
+        getRuleSeverity: fn((_, severity) => severity),
+        setActiveNamespace: fn(),
         setAttributes: fn(),
+        getBoundName,
+        getDependencies: fn().mockReturnValue([]),
+        getDynamicPatterns,
         getExistingActionValue: fn(),
+        getInterpolationPattern: fn(languageId =>
+          languageId === "twig" ? /\{\{[\s\S]*?\}\}/g : undefined,
+        ),
         getLocations: fn().mockReturnValue(["mock-loc"]),
+        getNamespace: fn().mockReturnValue("site"),
+        getEventNames,
+        getRequest,
+        isEndpoint: fn().mockReturnValue(false),
+        parseAnnotations,
+        parseIncludes,
+        parseSuppressions,
         isEventDefinition: fn().mockReturnValue(false),
         isEventFilter: fn().mockReturnValue(false),
         isEventReference: fn().mockReturnValue(false) as any,
         isPosition: fn().mockReturnValue(false) as any,
         isBehavior: fn().mockReturnValue(false) as any,
         isScroll: fn().mockReturnValue(false) as any,
-        isScrollDependent: fn().mockReturnValue(false) as any,
         isScrollPosition: fn().mockReturnValue(false) as any,
         isLog: fn().mockReturnValue(false) as any,
         getWarnOnLogAttribute: fn().mockReturnValue(true) as any,
@@ -1044,16 +2334,16 @@ if (import.meta.vitest) {
         isResultReference: fn().mockReturnValue(false) as any,
         isStateDefinition: fn().mockReturnValue(false),
         isStateReference: fn().mockReturnValue(false) as any,
-        isTagSseDependent: fn().mockReturnValue(false),
-        isTagOnDependent: fn().mockReturnValue(false),
         isInvalidToken: fn().mockReturnValue(true),
         match: fn().mockReturnValue(false),
+        mergeInto,
         Node: class extends Node {
           override attributes = attrs;
           override setAttribute = setAttr;
         } as any,
         INVALID_PATTERN: { test: fn().mockReturnValue(true) } as any,
         sortByZero: fn(([a], [b]) => a - b),
+        suggestEvent,
         updateDiagnosticCollection: fn(),
         service: testService,
       };
@@ -1152,6 +2442,54 @@ if (import.meta.vitest) {
       );
     });
 
+    it("parseHTMLDocument - annotations", () => {
+      extern.addDefinitionRanges = fn((definitions, value, range) => {
+        definitions.set(value, [range]);
+      });
+      extern.isEventDefinition = fn(name => name === "on:click");
+      extern.isStateDefinition = fn(name => name === "value");
+      const cur = new TestDocument(
+        [
+          "<!-- @keml save: Saves. @keml ready: Ready. @keml x: Ignored. -->",
+          '<button on:click="save" value="ready"></button>',
+          "<!-- @keml save: Misplaced. -->",
+          'text <p on:click="save"></p>',
+          '<!-- @keml save: Outer. --><div><p on:click="save"></p></div>',
+        ].join("\n"),
+      );
+      expect(cur.annotations).toEqual({
+        event: new Map([
+          [
+            "save",
+            [
+              {
+                description: "Saves.",
+                range: {
+                  start: { line: 1, character: 18 },
+                  end: { line: 1, character: 22 },
+                },
+              },
+            ],
+          ],
+        ]),
+        state: new Map([
+          [
+            "ready",
+            [
+              {
+                description: "Ready.",
+                range: {
+                  start: { line: 1, character: 31 },
+                  end: { line: 1, character: 36 },
+                },
+              },
+            ],
+          ],
+        ]),
+        result: new Map(),
+      });
+    });
+
     it("parseHTMLDocument - event reference - no value", () => {
       extern.isEventReference = fn().mockReturnValue(true) as any;
       const cur = new TestDocument('<input value="">');
@@ -1212,93 +2550,195 @@ if (import.meta.vitest) {
     });
 
     it("addDependsDiagnostic - in attributes", () => {
-      extern.isEventFilter = fn(name => name.startsWith("event:"));
+      extern.getDependencies = fn((_, name) =>
+        name.startsWith("event:") ? [["on:value"]] : [],
+      );
       const cur = new TestDocument('<input on:value="" event:value="lol">');
-      expect(extern.isEventFilter).toHaveBeenCalledWith("event:value");
+      expect(extern.getDependencies).toHaveBeenCalledWith(
+        "input",
+        "event:value",
+      );
       expect(cur.diagnostics.length).toBe(0);
     });
 
     it("addDependsDiagnostic - in x-attributes", () => {
-      extern.isEventFilter = fn(name => name.startsWith("event:"));
+      extern.getDependencies = fn((_, name) =>
+        name.startsWith("event:") ? [["on:value"]] : [],
+      );
       const cur = new TestDocument(
         '<input if="" x-on:value="" event:value="lol">',
       );
-      expect(extern.isEventFilter).toHaveBeenCalledWith("event:value");
       expect(cur.diagnostics.length).toBe(0);
     });
 
-    it("parseHTMLDocument - event filter", () => {
-      extern.isEventFilter = fn(name => name.startsWith("event:"));
+    it("addDependsDiagnostic - one of several alternatives", () => {
+      extern.getDependencies = fn((_, name) =>
+        name === "result" ? [["on", "sse"]] : [],
+      );
+      const cur = new TestDocument('<input sse="" result="lol">');
+      expect(cur.diagnostics.length).toBe(0);
+    });
+
+    it("parseHTMLDocument - missing dependency", () => {
+      extern.getDependencies = fn((_, name) =>
+        name.startsWith("event:") ? [["on:value"]] : [],
+      );
       const cur = new TestDocument('<input if="" event:value="lol">');
-      expect(extern.isEventFilter).toHaveBeenCalledWith("event:value");
       expect(cur.diagnostics).toMatchObject([
         {
           range: {
             end: { character: 30, line: 0 },
             start: { character: 13, line: 0 },
           },
+          message:
+            "'event:value' is unused because it has no effect without 'on:value' (or 'x-' prefixed equivalents).",
           severity: DiagnosticSeverity.Warning,
+          code: "missing-dependency",
           tags: [DiagnosticTag.Unnecessary],
         },
       ]);
     });
 
-    it("parseHTMLDocument - depends on 'sse' which exists", () => {
-      extern.isTagSseDependent = fn((_, name) => name === "result");
-      const cur = new TestDocument('<input sse="" result="lol">');
-      expect(extern.isTagSseDependent).toHaveBeenCalledWith("input", "result");
-      expect(cur.diagnostics.length).toBe(0);
-    });
-
-    it("parseHTMLDocument - depends on 'sse' which does not exist", () => {
-      extern.isTagSseDependent = fn().mockReturnValue(true);
-      const cur = new TestDocument('<input result="lol">');
+    it("parseHTMLDocument - vue bindings", () => {
+      extern.getDependencies = fn((_, name) =>
+        name === "debounce" ? [["on"]]
+        : name === "throttle" ? [["once"]]
+        : [],
+      );
+      const cur = new VueDocument(
+        '<div id="e" :on="a b" :debounce="c" v-bind:throttle="d"></div><script></script>',
+      );
+      expect(extern.extractVueTemplate).toHaveBeenCalled();
+      expect(extern.isEventReference).toHaveBeenCalledWith("id");
+      expect(extern.isEventReference).not.toHaveBeenCalledWith(":on");
+      expect(extern.addRange).not.toHaveBeenCalled();
       expect(cur.diagnostics).toMatchObject([
         {
           range: {
-            end: { character: 19, line: 0 },
-            start: { character: 7, line: 0 },
+            start: { character: 36, line: 0 },
+            end: { character: 55, line: 0 },
           },
+          message:
+            "'throttle' is unused because it has no effect without 'once' (or 'x-' prefixed equivalents).",
+          code: "missing-dependency",
         },
       ]);
     });
 
-    it("parseHTMLDocument - depends on 'on' which exists", () => {
-      extern.isTagOnDependent = fn((_, name) => name === "value");
-      const cur = new TestDocument('<input on="" value="lol">');
-      expect(extern.isTagOnDependent).toHaveBeenCalledWith("input", "value");
-      expect(cur.diagnostics.length).toBe(0);
+    it("parseHTMLDocument - bindings outside of vue", () => {
+      new TestDocument('<div :on="a"></div>');
+      expect(extern.extractVueTemplate).not.toHaveBeenCalled();
+      expect(extern.isEventReference).toHaveBeenCalledWith(":on");
     });
 
-    it("parseHTMLDocument - depends on 'on' which does not exist", () => {
-      extern.isTagOnDependent = fn().mockReturnValue(true);
-      const cur = new TestDocument('<input value="lol">');
+    it("parseHTMLDocument - interpolations", () => {
+      mockActionAttrs();
+      extern.isInvalidToken = fn().mockReturnValue(false);
+      extern.isScrollPosition = fn(name => name === "top") as any;
+      const cur = new TwigDocument(
+        [
+          '{{ a }}<p on:click="save_{{ "id" }} load" on="{{ b }}"',
+          'if:valid="{{c}}d" if="e{{f}}" result="{{g}}" render="r{{ h }}s"',
+          'top="{{ y }}" title="t">{{ i }}</p>',
+        ].join("\n"),
+      );
+      expect(extern.getInterpolationPattern).toHaveBeenCalledWith("twig");
+      expect(setAttr).toHaveBeenCalledWith("on:click", {
+        name: "on:click",
+        value: 'save_{{ "id" }} load',
+        start: 20,
+        end: 40,
+        range: {
+          start: { line: 0, character: 20 },
+          end: { line: 0, character: 40 },
+        },
+        fullRange: {
+          start: { line: 0, character: 10 },
+          end: { line: 0, character: 41 },
+        },
+        interpolations: [[5, 15]],
+      });
+      expect(setAttr).toHaveBeenCalledWith("title", {
+        name: "title",
+        value: "t",
+        start: 140,
+        end: 141,
+        range: {
+          start: { line: 2, character: 21 },
+          end: { line: 2, character: 22 },
+        },
+        fullRange: {
+          start: { line: 2, character: 14 },
+          end: { line: 2, character: 23 },
+        },
+      });
+      expect(extern.addDefinitionRanges).toHaveBeenCalledWith(
+        cur.event_definitions,
+        'save_{{ "id" }} load',
+        expect.anything(),
+      );
+      expect(cur.dynamic_definitions).toEqual({
+        event: [/^save_\S*$/],
+        state: [/^\S*d$/],
+        result: [/^\S*$/],
+      });
+      expect(cur.dynamic_references).toEqual({
+        event: [/^\S*$/],
+        state: [/^e\S*$/],
+        result: [/^r\S*s$/],
+      });
+      expect(cur.diagnostics).toEqual([]);
+    });
+
+    it("parseHTMLDocument - jsx", () => {
+      mockActionAttrs();
+      const cur = new JsxDocument(
+        'const A = () => <button on:click={"save"} on={load} />;',
+      );
+      expect(extern.extractJsxTags).toHaveBeenCalled();
+      expect(extern.addDefinitionRanges).toHaveBeenCalledWith(
+        cur.event_definitions,
+        "save",
+        {
+          start: { line: 0, character: 35 },
+          end: { line: 0, character: 39 },
+        },
+      );
+      expect(setAttr).toHaveBeenCalledWith(
+        "on",
+        expect.objectContaining({ value: "load", interpolations: [[0, 4]] }),
+      );
+      expect(cur.dynamic_references.event).toEqual([/^\S*$/]);
+    });
+
+    it("parseHTMLDocument - every missing dependency group", () => {
+      extern.getDependencies = fn().mockReturnValue([["on", "sse"], ["on"]]);
+      const cur = new TestDocument('<input result="lol">');
       expect(cur.diagnostics).toMatchObject([
         {
           range: {
-            end: { character: 18, line: 0 },
+            end: { character: 19, line: 0 },
             start: { character: 7, line: 0 },
           },
+          message:
+            "'result' is unused because it has no effect without 'on', 'sse' (or 'x-' prefixed equivalents).",
+        },
+        {
+          message:
+            "'result' is unused because it has no effect without 'on' (or 'x-' prefixed equivalents).",
         },
       ]);
     });
 
-    it("parseHTMLDocument - depends on 'scroll' which exists", () => {
-      extern.isScrollDependent = fn(name => name === "value") as any;
-      const cur = new TestDocument('<input scroll="" value="lol">');
-      expect(extern.isScrollDependent).toHaveBeenCalledWith("scroll");
-      expect(cur.diagnostics.length).toBe(0);
-    });
-
-    it("parseHTMLDocument - depends on 'scroll' which does not exist", () => {
-      extern.isScrollDependent = fn().mockReturnValue(true) as any;
-      const cur = new TestDocument('<input value="lol">');
+    it("parseHTMLDocument - x- without if", () => {
+      const cur = new TestDocument('<input x-value="lol">');
       expect(cur.diagnostics).toMatchObject([
         {
           range: {
-            end: { character: 18, line: 0 },
+            end: { character: 20, line: 0 },
             start: { character: 7, line: 0 },
           },
+          code: "conditional-without-if",
         },
       ]);
     });
@@ -1310,6 +2750,170 @@ if (import.meta.vitest) {
       expect(cur.diagnostics.length).toBe(1);
     });
 
+    it("parseHTMLDocument - suppressions", () => {
+      extern.isLog = fn(name => name === "log") as any;
+      const cur = new TestDocument(
+        [
+          "<!-- keml-disable-next-line log-attribute -->",
+          "<input log>",
+          "<!-- keml-disable-next-line other -->",
+          "<input log>",
+          "<!-- keml-disable -->",
+          "<input log>",
+          "<!-- keml-disable log-attribute -->",
+          "<!-- keml-enable -->",
+          "<!-- keml-disable other -->",
+          "<input log>",
+          "<!-- keml-enable other -->",
+          "<!-- keml-disable log-attribute --><input log>",
+          "<!-- keml-enable other -->",
+        ].join("\n"),
+      );
+      expect(cur.diagnostics).toMatchObject([
+        { code: "log-attribute", range: { start: { line: 3 } } },
+        { code: "log-attribute", range: { start: { line: 9 } } },
+      ]);
+      expect(
+        cur.suppressions.map(({ codes, start, end }) => [codes, start, end]),
+      ).toEqual([
+        [["log-attribute"], 1, 1],
+        [["other"], 3, 3],
+        [[], 4, 7],
+        [["log-attribute"], 6, 7],
+        [["other"], 8, 10],
+        [["log-attribute"], 11, Infinity],
+      ]);
+      expect(cur.suppressed).toEqual(
+        new Set([
+          cur.suppressions[0],
+          cur.suppressions[2],
+          cur.suppressions[5],
+        ]),
+      );
+    });
+
+    it("parseHTMLDocument - includes", () => {
+      const cur = new TestDocument("{{> header}} <p></p> {{> footer}}");
+      expect(extern.getIncludePatterns).toHaveBeenCalled();
+      expect(cur.includes).toEqual(["header", "footer"]);
+    });
+
+    it("parseHTMLDocument - endpoints", () => {
+      extern.Node = Node;
+      const cur = new TwigDocument(
+        [
+          '<form on="save" post="/todos?x=1" method="put"></form>',
+          '<p on="a" src="todos"></p><p on="b" href="//cdn.test/a"></p>',
+          '<p src="/todos"></p><p on="c" get></p><p on="d"></p>',
+          '<p on="e" get="/todos/{{ id }}"></p>',
+          '<p on="f" post="/todos" method="{{ m }}"></p>',
+          '<a on="g" href="/home" redirect="assign"></a>',
+        ].join("\n"),
+      );
+      expect(cur.endpoints).toEqual([
+        {
+          method: "PUT",
+          path: "/todos?x=1",
+          range: {
+            start: { line: 0, character: 22 },
+            end: { line: 0, character: 32 },
+          },
+        },
+      ]);
+    });
+
+    it("parseHTMLDocument - requests", () => {
+      extern.Node = Node;
+      extern.INVALID_PATTERN = INVALID_PATTERN;
+      const cur = new TwigDocument(
+        [
+          '<form on="a" get="/a" put="/b" post="/c"></form>',
+          '<p on="b" method="patch" get="/a"></p>',
+          '<p on="c" method="{{ m }}" redirect="assign" post="/a"></p>',
+          '<p on="d" method="get" post="/a" redirect="assign"></p>',
+          '<p on="e" delete="/a" method="" redirect="replace"></p>',
+          '<p get="/a" post="/b" method="x" redirect="assign"></p>',
+        ].join("\n"),
+      );
+      expect(
+        cur.diagnostics.map(({ code, message, range, tags }) => [
+          code,
+          message,
+          range.start.line,
+          range.start.character,
+          tags,
+        ]),
+      ).toEqual([
+        [
+          "shadowed-endpoint",
+          "'put' is ignored because 'post' takes precedence.",
+          0,
+          22,
+          [DiagnosticTag.Unnecessary],
+        ],
+        [
+          "shadowed-endpoint",
+          "'get' is ignored because 'post' takes precedence.",
+          0,
+          13,
+          [DiagnosticTag.Unnecessary],
+        ],
+        [
+          "invalid-method",
+          "Invalid HTTP method.\nExpected one of: GET, POST, PUT, DELETE.",
+          1,
+          18,
+          undefined,
+        ],
+        [
+          "redirect-with-method",
+          "'redirect' navigates instead of sending a request, so the DELETE method is ignored.",
+          4,
+          32,
+          undefined,
+        ],
+      ]);
+    });
+
+    it("parseHTMLDocument - events", () => {
+      extern.Node = Node;
+      extern.INVALID_PATTERN = INVALID_PATTERN;
+      extern.isEventDefinition = isEventDefinition;
+      extern.isEventFilter = isEventFilter;
+      extern.getEventNames = () => ["click", "reveal", "refresh"];
+      const cur = new TwigDocument(
+        [
+          '<p on:clik="a" event:clik="ctrlKey" on:reveal="b"></p>',
+          '<p x-on:refresh="c" on:teleport="d" on:{{ e }}="e" on:="f" if="g"></p>',
+        ].join("\n"),
+      );
+      expect(
+        cur.diagnostics.map(({ code, message, range }) => [
+          code,
+          message,
+          range.start.line,
+          range.start.character,
+          range.end.character,
+        ]),
+      ).toEqual([
+        [
+          "unknown-event",
+          "Unknown event 'clik'. Did you mean 'click'?",
+          0,
+          3,
+          10,
+        ],
+        [
+          "unknown-event",
+          "Unknown event 'clik'. Did you mean 'click'?",
+          0,
+          15,
+          25,
+        ],
+        ["unknown-event", "Unknown event 'teleport'.", 1, 20, 31],
+      ]);
+    });
+
     it("parseHTMLDocument - a log setting disabled", () => {
       extern.isLog = fn().mockReturnValue(true) as any;
       extern.getWarnOnLogAttribute = fn().mockReturnValue(false) as any;
@@ -1319,11 +2923,24 @@ if (import.meta.vitest) {
       expect(cur.has_log).toBe(true);
     });
 
+    it("parseHTMLDocument - rule severities", () => {
+      extern.isLog = fn().mockReturnValue(true) as any;
+      extern.getRuleSeverity = fn(() => DiagnosticSeverity.Error);
+      const cur = new TestDocument('<input value="lol">');
+      expect(extern.getRuleSeverity).toHaveBeenCalledWith(
+        "log-attribute",
+        DiagnosticSeverity.Warning,
+      );
+      expect(cur.diagnostics).toMatchObject([
+        { code: "log-attribute", severity: DiagnosticSeverity.Error },
+      ]);
+    });
+
     it("parseHTMLDocument - a position", () => {
       extern.isPosition = fn().mockReturnValue(true) as any;
       const cur = new TestDocument('<input value="lol">');
       expect(extern.isPosition).toHaveBeenCalledWith("value");
-      expect(cur.diagnostics.length).toBe(1);
+      expect(cur.diagnostics.length).toBe(0);
     });
 
     it("parseHTMLDocument - a position with pattern", () => {
@@ -1331,7 +2948,7 @@ if (import.meta.vitest) {
       extern.INVALID_PATTERN = { test: () => false } as any;
       const cur = new TestDocument('<input value="lol">');
       expect(extern.isPosition).toHaveBeenCalledWith("value");
-      expect(cur.diagnostics.length).toBe(2);
+      expect(cur.diagnostics).toMatchObject([{ code: "invalid-position" }]);
     });
 
     it("parseHTMLDocument - a behavior", () => {
@@ -1400,6 +3017,124 @@ if (import.meta.vitest) {
       expect(update.mock.calls[0]![1]).toEqual(["bar", "baz"]);
     });
 
+    it("update - vue", () => {
+      const cur = new VueDocument("");
+      cur.update({
+        document: Object.assign(
+          new MockTextDocument("<p></p><script></script>"),
+          { languageId: "vue" },
+        ),
+        contentChanges: ["bar"] as any,
+        reason: undefined,
+      });
+      runAllTimers();
+      expect(update).not.toHaveBeenCalled();
+      expect(extern.extractVueTemplate).toHaveBeenLastCalledWith(
+        "<p></p><script></script>",
+      );
+      expect(cur.nodes).toHaveLength(1);
+    });
+
+    it("update - jsx", () => {
+      const cur = new JsxDocument("");
+      cur.update({
+        document: Object.assign(new MockTextDocument("x = <p />"), {
+          languageId: "typescriptreact",
+        }),
+        contentChanges: ["bar"] as any,
+        reason: undefined,
+      });
+      runAllTimers();
+      expect(update).not.toHaveBeenCalled();
+      expect(cur.nodes).toHaveLength(1);
+    });
+
+    it("update - interpolations", () => {
+      const cur = new TwigDocument("");
+      cur.update({
+        document: Object.assign(new MockTextDocument('<p on="{{ a }}"></p>'), {
+          languageId: "twig",
+        }),
+        contentChanges: ["bar"] as any,
+        reason: undefined,
+      });
+      runAllTimers();
+      expect(update).not.toHaveBeenCalled();
+      expect(cur.nodes).toHaveLength(1);
+    });
+
+    it("update - incremental", () => {
+      const html = [
+        "<!-- @keml save: Saves. -->",
+        '<form on:click="save" log><input on="save" disabled></form>',
+        '<p if:valid="ok">a</p> <hr><s on="x"></s>',
+        '<a<b render="r"></b>',
+        "<!-- keml-disable-next-line -->",
+        '<i on="save"></i><!-- @keml done: Done. --><br on:click="done" log>',
+        '<u on="done" put="/todos/1"></u>',
+      ].join("\n");
+      const parse = spyOn(testService, "parseHTMLDocument");
+
+      mockIncrementalParsing();
+      for (const [part, text, whole] of [
+        ["ok", "okay", false],
+        ["ok", "no", false],
+        ['"save"></i>', '"save\n"></i>', false],
+        ["Saves", "Stores", false],
+        ["\n<p", "\n<em on='x'></em><p", false],
+        ["<i on", "<div><i on", true],
+        ["<hr>", "<!--", true],
+        ["<p", "<p<", true],
+        [html, "", true],
+      ] as const) {
+        const start = html.indexOf(part);
+        const cur = new TestDocument(html);
+        const result = edit(cur, html, start, start + part.length, text);
+
+        expect(summarize(cur)).toEqual(summarize(new TestDocument(result)));
+        expect(
+          parse.mock.calls.at(-2)![0].getText().length === result.length,
+        ).toBe(whole);
+      }
+
+      const cur = new TestDocument("");
+
+      edit(cur, "", 0, 0, "<p on='x'></p>");
+      expect(parse.mock.calls.at(-1)![0].getText()).toBe("<p on='x'></p>");
+      expect(cur.nodes).toHaveLength(1);
+    });
+
+    it("update - incremental - large document", () => {
+      const sections = Array.from(
+        { length: 1000 },
+        (_, i) => `<section>
+  <!-- @keml save${i}: Saves item ${i}. -->
+  <button on:click="save${i}" if:valid="valid${i}" log>Save</button>
+  <div on="save${i}" if="valid${i}" render="list${i}" result="list${i}"></div>
+  <p>Item ${i}</p>
+</section>`,
+      );
+      const html = sections.join("\n");
+      const start = html.indexOf("Item 500");
+      const parse = spyOn(testService, "parseHTMLDocument");
+      const create = (text: string) =>
+        new ShimTextDocument(Uri.file("/layout.html"), "keml", 1, text) as any;
+
+      mockIncrementalParsing();
+      extern.parseAnnotations = fn(parseAnnotations);
+
+      const cur = new Document(create(html));
+      const result = edit(cur, html, start, start, "New ", create);
+      const reparsed = `\n${sections[500]!.replace("Item", "New Item")}\n${sections[501]}\n`;
+
+      expect(cur.getText()).toBe(result);
+      expect(cur.nodes).toHaveLength(4000);
+      expect(parse).toHaveBeenCalledTimes(2);
+      expect(parse.mock.calls[1]![0].getText()).toBe(reparsed);
+      expect(extern.parseAnnotations).toHaveBeenLastCalledWith(reparsed);
+      expect(summarize(cur)).toEqual(summarize(new Document(create(result))));
+    });
+
     it("languageId", () => {
       const cur = new TestDocument("");
       expect(cur.languageId).toBe("keml");
@@ -1428,6 +3163,11 @@ if (import.meta.vitest) {
       expect(cur.findNodeAt(17)).toBeUndefined();
     });
 
+    it("nodes", () => {
+      const cur = new TestDocument(" <input><br><hr> ");
+      expect(cur.nodes.map(({ tag }) => tag)).toEqual(["input", "br", "hr"]);
+    });
+
     it("isApplicable", () => {
       extern.getLanguageIds = () => ["html"];
       extern.match = () => false;
@@ -1439,6 +3179,27 @@ if (import.meta.vitest) {
       expect(cur.isApplicable()).toBeTruthy();
     });
 
+    it("restore", () => {
+      const uri = { toString: () => "file:///restored.html" } as any;
+      const event_definitions = new Map([["save", []]]);
+      const cur = Document.restore(uri, "keml", {
+        event_definitions,
+        has_log: true,
+      } as any);
+
+      extern.getLanguageIds = () => ["keml"];
+      extern.match = () => true;
+      expect(cur).toBeInstanceOf(Document);
+      expect(cur.url).toBe("file:///restored.html");
+      expect(cur.languageId).toBe("keml");
+      expect(cur.isApplicable()).toBe(true);
+      expect(cur.event_definitions).toBe(event_definitions);
+      expect(cur.has_log).toBe(true);
+      expect(cur.restored).toBe(true);
+      expect(cur.revision).toBe(0);
+      expect(new TestDocument("").restored).toBe(false);
+    });
+
     it("doComplete - no node", () => {
       const cur = new TestDocument(" <input>");
       expect(
@@ -1459,6 +3220,7 @@ if (import.meta.vitest) {
       const cur = new TestDocument(' <input value="">');
       cur.doComplete({ line: 0, character: 15 } as Position);
       expect(extern.addCompletions).not.toHaveBeenCalled();
+      expect(extern.setActiveNamespace).toHaveBeenCalledWith("site");
     });
 
     it("doComplete - event definition", () => {
@@ -1472,6 +3234,8 @@ if (import.meta.vitest) {
         getEventReferences,
         { end: { character: 18, line: 0 }, start: { character: 15, line: 0 } },
         getEventValue,
+        "event",
+        "site",
       );
     });
 
@@ -1486,6 +3250,8 @@ if (import.meta.vitest) {
         getStateReferences,
         { end: { character: 18, line: 0 }, start: { character: 15, line: 0 } },
         getStateValue,
+        "state",
+        "site",
       );
     });
 
@@ -1500,6 +3266,21 @@ if (import.meta.vitest) {
         getResultReferences,
         { end: { character: 18, line: 0 }, start: { character: 15, line: 0 } },
         getResultValue,
+        "result",
+        "site",
+      );
+    });
+
+    it("doComplete - endpoint", () => {
+      extern.isEndpoint = fn().mockReturnValue(true);
+      const cur = new TestDocument(' <p on="a" put="/to">');
+      cur.doComplete({ line: 0, character: 17 } as Position);
+      expect(extern.isEndpoint).toHaveBeenCalledWith("put");
+      expect(extern.addRouteCompletions).toHaveBeenCalledWith(
+        ["foo"],
+        { end: { character: 19, line: 0 }, start: { character: 16, line: 0 } },
+        "PUT",
+        cur.uri,
       );
     });
 
@@ -1519,6 +3300,54 @@ if (import.meta.vitest) {
       });
     });
 
+    it("doHover - request", () => {
+      const text = [
+        '<p on="a" post="/todos" method="put" title="x"></p>',
+        '<p on="b" href="/home" redirect="assign"></p>',
+        '<p on="c" post="/todos" method="{{ m }}"></p>',
+        '<p on="{{ d }}" src="/todos/{{ id }}"></p>',
+        '<p on="e"></p><p get="/todos"></p>',
+        '<p on="f" get=""></p><p on="g" put=" "></p>',
+      ].join("\n");
+      extern.Node = Node;
+      const cur = new TwigDocument(text);
+      const hover = (line: number, value: string) =>
+        cur.doHover({
+          line,
+          character: text.split("\n")[line]!.indexOf(value) + 1,
+        } as Position) as any;
+
+      mockActionAttrs();
+      expect(hover(0, "/todos")).toEqual({
+        contents: "This element sends `PUT /todos`.",
+        range: {
+          start: { line: 0, character: 16 },
+          end: { line: 0, character: 22 },
+        },
+      });
+      expect(hover(0, "x")).toBeUndefined();
+      expect(hover(1, "b")?.contents).toBe(
+        "This element navigates to `/home`.",
+      );
+      expect(hover(2, "/todos")?.contents).toBe(
+        "This element sends a request to `/todos`, with a method only known at runtime.",
+      );
+      expect(hover(3, "{{ d }}")?.contents).toMatch(/^Dynamic event action/);
+      expect(hover(3, "/todos")?.contents).toBe(
+        "This element sends `GET /todos/{{ id }}`.",
+      );
+      expect(hover(4, "e")).toBeUndefined();
+      expect(hover(4, "/todos")).toBeUndefined();
+      expect(hover(5, "f")).toBeUndefined();
+      expect(hover(5, "g")).toBeUndefined();
+
+      doHover.mockImplementation(() => ({ contents: ["foo"] }));
+      expect(hover(0, "put")).toEqual({
+        contents: ["foo", "This element sends `PUT /todos`."],
+      });
+      expect(hover(4, "/todos")).toEqual({ contents: ["foo"] });
+    });
+
     it("doHover - no value", () => {
       const cur = new TestDocument(' <input value="">');
       expect(
@@ -1541,6 +3370,32 @@ if (import.meta.vitest) {
       expect(extern.convertDocumentation).not.toHaveBeenCalled();
     });
 
+    it("doHover - dynamic", () => {
+      mockActionAttrs();
+      const text =
+        ' <input on:click="{{a}}" on="{{b}}" if:valid="{{c}}" if="{{d}}" result="{{e}}" render="{{f}}" title="{{g}}">';
+      const cur = new TwigDocument(text);
+      const hover = (value: string) =>
+        cur.doHover({
+          line: 0,
+          character: text.indexOf(value) + 2,
+        } as Position) as any;
+
+      expect(hover("{{a}}")).toEqual({
+        contents:
+          "Dynamic event action: it depends on template interpolations, so it is left out of the undefined and unused action checks.",
+        range: {
+          start: { line: 0, character: 18 },
+          end: { line: 0, character: 23 },
+        },
+      });
+      expect(
+        ["{{b}}", "{{c}}", "{{d}}", "{{e}}", "{{f}}", "{{g}}"].map(
+          value => hover(value)?.contents.split(" ")[1],
+        ),
+      ).toEqual(["event", "state", "state", "result", "result", undefined]);
+    });
+
     it("doHover - event definition", () => {
       extern.isEventDefinition = fn().mockReturnValue(true);
       const cur = new TestDocument(' <input value="bar">');
@@ -1551,6 +3406,8 @@ if (import.meta.vitest) {
         "bar",
         getEventDefinitions,
         getEventValue,
+        "event",
+        "site",
       );
       expect(extern.convertDocumentation).not.toHaveBeenCalled();
     });
@@ -1566,6 +3423,8 @@ if (import.meta.vitest) {
         "bar",
         getStateDefinitions,
         getStateValue,
+        "state",
+        "site",
       );
       expect(extern.convertDocumentation).not.toHaveBeenCalled();
     });
@@ -1589,6 +3448,8 @@ if (import.meta.vitest) {
         "bar",
         getResultDefinitions,
         getResultValue,
+        "result",
+        "site",
       );
       expect(extern.convertDocumentation).toHaveBeenCalledWith("baz");
     });
@@ -1631,7 +3492,11 @@ if (import.meta.vitest) {
           { line: 0, character: 16 } as Position,
         ),
       ).toMatchObject(["mock-loc"]);
-      expect(extern.getLocations).toHaveBeenCalledWith("bar", eventResolver);
+      expect(extern.getLocations).toHaveBeenCalledWith(
+        "bar",
+        eventResolver,
+        "site",
+      );
     });
 
     it("doRefer - state reference", () => {
@@ -1647,7 +3512,11 @@ if (import.meta.vitest) {
           { line: 0, character: 16 } as Position,
         ),
       ).toMatchObject(["mock-loc"]);
-      expect(extern.getLocations).toHaveBeenCalledWith("bar", stateResolver);
+      expect(extern.getLocations).toHaveBeenCalledWith(
+        "bar",
+        stateResolver,
+        "site",
+      );
     });
 
     it("doRefer - result reference", () => {
@@ -1663,7 +3532,11 @@ if (import.meta.vitest) {
           { line: 0, character: 16 } as Position,
         ),
       ).toMatchObject(["mock-loc"]);
-      expect(extern.getLocations).toHaveBeenCalledWith("bar", resultResolver);
+      expect(extern.getLocations).toHaveBeenCalledWith(
+        "bar",
+        resultResolver,
+        "site",
+      );
     });
 
     it("doRefer - no value", () => {
@@ -1692,7 +3565,11 @@ if (import.meta.vitest) {
           { line: 0, character: 16 } as Position,
         ),
       ).toMatchObject(["mock-loc"]);
-      expect(extern.getLocations).toHaveBeenCalledWith("bar", eventResolver);
+      expect(extern.getLocations).toHaveBeenCalledWith(
+        "bar",
+        eventResolver,
+        "site",
+      );
     });
 
     it("doRefer - state definition", () => {
@@ -1708,7 +3585,33 @@ if (import.meta.vitest) {
           { line: 0, character: 16 } as Position,
         ),
       ).toMatchObject(["mock-loc"]);
-      expect(extern.getLocations).toHaveBeenCalledWith("bar", stateResolver);
+      expect(extern.getLocations).toHaveBeenCalledWith(
+        "bar",
+        stateResolver,
+        "site",
+      );
+    });
+
+    it("doRefer - external declaration", () => {
+      extern.isStateDefinition = fn().mockReturnValue(true);
+      extern.getLocations = fn(() => ["mock-loc"]) as any;
+      const cur = new TestDocument(' <input value="bar">');
+      const resolver = ({ state_definitions }: Document) => state_definitions;
+      const refer = (external?: boolean) =>
+        cur.doRefer(
+          resolver,
+          resolver,
+          resolver,
+          { line: 0, character: 16 } as Position,
+          external,
+        );
+
+      expect(refer()).toEqual(["mock-loc"]);
+      expect(refer(true)).toEqual(["manifest-loc", "mock-loc"]);
+      expect(extern.getExternalActions).toHaveBeenCalledWith("site");
+      extern.isStateDefinition = fn().mockReturnValue(false);
+      extern.isEventDefinition = fn().mockReturnValue(true);
+      expect(refer(true)).toEqual(["mock-loc"]);
     });
 
     it("doRefer - result definition", () => {
@@ -1724,7 +3627,89 @@ if (import.meta.vitest) {
           { line: 0, character: 16 } as Position,
         ),
       ).toMatchObject(["mock-loc"]);
-      expect(extern.getLocations).toHaveBeenCalledWith("bar", resultResolver);
+      expect(extern.getLocations).toHaveBeenCalledWith(
+        "bar",
+        resultResolver,
+        "site",
+      );
+    });
+
+    it("findActionAt - no node", () => {
+      const cur = new TestDocument(" <input>");
+      expect(
+        cur.findActionAt({ line: 0, character: 0 } as Position),
+      ).toBeUndefined();
+    });
+
+    it("findActionAt - event reference", () => {
+      extern.isEventReference = fn().mockReturnValue(true) as any;
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 16 } as Position),
+      ).toMatchObject({
+        kind: "event",
+        action: "bar",
+        definition: false,
+        range: {
+          end: { character: 18, line: 0 },
+          start: { character: 15, line: 0 },
+        },
+      });
+    });
+
+    it("findActionAt - state reference", () => {
+      extern.isStateReference = fn().mockReturnValue(true) as any;
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 16 } as Position),
+      ).toMatchObject({ kind: "state", action: "bar", definition: false });
+    });
+
+    it("findActionAt - result reference", () => {
+      extern.isResultReference = fn().mockReturnValue(true) as any;
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 16 } as Position),
+      ).toMatchObject({ kind: "result", action: "bar", definition: false });
+    });
+
+    it("findActionAt - event definition", () => {
+      extern.isEventDefinition = fn().mockReturnValue(true);
+      const cur = new TestDocument(' <input value="foo bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 20 } as Position),
+      ).toMatchObject({
+        kind: "event",
+        action: "bar",
+        definition: true,
+        range: {
+          end: { character: 22, line: 0 },
+          start: { character: 19, line: 0 },
+        },
+      });
+    });
+
+    it("findActionAt - state definition", () => {
+      extern.isStateDefinition = fn().mockReturnValue(true);
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 16 } as Position),
+      ).toMatchObject({ kind: "state", action: "bar", definition: true });
+    });
+
+    it("findActionAt - result definition", () => {
+      extern.isResultDefinition = fn().mockReturnValue(true) as any;
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 16 } as Position),
+      ).toMatchObject({ kind: "result", action: "bar", definition: true });
+    });
+
+    it("findActionAt - unknown", () => {
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.findActionAt({ line: 0, character: 16 } as Position),
+      ).toBeUndefined();
     });
 
     it("doRefer - unknown", () => {
@@ -1738,6 +3723,34 @@ if (import.meta.vitest) {
         ),
       ).toBeUndefined();
     });
+
+    it("doHighlight - no action", () => {
+      const cur = new TestDocument(' <input value="bar">');
+      expect(
+        cur.doHighlight({ line: 0, character: 16 } as Position),
+      ).toBeUndefined();
+    });
+
+    it("doHighlight - same kind only", () => {
+      extern.isEventReference = fn().mockReturnValue(true) as any;
+      const cur = new TestDocument(' <input value="bar">');
+      cur.event_definitions.set("bar", ["def" as any]);
+      cur.event_references.set("bar", ["ref1" as any, "ref2" as any]);
+      cur.result_definitions.set("bar", ["other" as any]);
+      expect(cur.doHighlight({ line: 0, character: 16 } as Position)).toEqual([
+        { range: "def", kind: 2 },
+        { range: "ref1", kind: 1 },
+        { range: "ref2", kind: 1 },
+      ]);
+    });
+
+    it("doHighlight - undefined action", () => {
+      extern.isStateDefinition = fn().mockReturnValue(true);
+      const cur = new TestDocument(' <input value="bar">');
+      expect(cur.doHighlight({ line: 0, character: 16 } as Position)).toEqual(
+        [],
+      );
+    });
   });
 }
 /* v8 ignore stop */
@@ -0,0 +1,123 @@
+import { DocumentHighlightProvider } from "vscode";
+import { docs } from "./data.mts";
+
+/**
+ * Highlights every occurrence of the action under the cursor in the open
+ * document, telling definitions (writes) apart from subscribers (reads).
+ *
+ * Events, states and results are separate namespaces, so an event `save` does
+ * not highlight a result `save`.
+ */
+export const documentHighlightProvider: DocumentHighlightProvider = {
+  /**
+   * Computes the highlights of the action at a position.
+   *
+   * @param doc - The document.
+   * @param position - Position of the cursor.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The highlights, or undefined if there is no action at the
+   *   position.
+   */
+  provideDocumentHighlights(doc, position, { isCancellationRequested }) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    return extern.docs.get(doc.uri.toString())?.doHighlight(position);
+  },
+};
+
+let extern = { docs };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const { Document } = await import("./document.mts");
+  const { setExclude, setInclude, setLanguageIds } = await import("./data.mts");
+  const { DocumentHighlight, Position, TextDocument, Uri } =
+    await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("documentHighlightProvider", () => {
+    const token = { isCancellationRequested: false } as any;
+    const a = Uri.file("/a.html");
+    const highlight = (position: InstanceType<typeof Position>) =>
+      (
+        documentHighlightProvider.provideDocumentHighlights(
+          { uri: a } as any,
+          position as any,
+          token,
+        ) as InstanceType<typeof DocumentHighlight>[]
+      ).map(
+        ({ range: { start, end }, kind }) =>
+          `${start.line}:${start.character}-${end.character} ${kind}`,
+      );
+
+    setLanguageIds(["html"]);
+    setExclude([]);
+    setInclude([]);
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("ignores cancelled requests and unknown documents", () => {
+      extern.docs = new Map();
+      expect(
+        documentHighlightProvider.provideDocumentHighlights(
+          { uri: a } as any,
+          new Position(0, 0) as any,
+          { isCancellationRequested: true } as any,
+        ),
+      ).toBeUndefined();
+      expect(
+        documentHighlightProvider.provideDocumentHighlights(
+          { uri: a } as any,
+          new Position(0, 0) as any,
+          token,
+        ),
+      ).toBeUndefined();
+    });
+
+    it("highlights actions of the same kind", () => {
+      extern.docs = new Map([
+        [
+          a.toString(),
+          new Document(
+            new TextDocument(
+              a,
+              "html",
+              1,
+              [
+                '<button on:click="save load">',
+                '<form on="save" result="save" render="save">',
+                '<p on="save" if="save"></p>',
+              ].join("\n"),
+            ) as any,
+          ),
+        ],
+      ]) as any;
+
+      expect(highlight(new Position(0, 20))).toEqual([
+        "0:18-22 2",
+        "1:10-14 1",
+        "2:7-11 1",
+      ]);
+      expect(highlight(new Position(1, 26))).toEqual([
+        "1:24-28 2",
+        "1:38-42 1",
+      ]);
+      expect(highlight(new Position(2, 19))).toEqual(["2:17-21 1"]);
+      expect(
+        documentHighlightProvider.provideDocumentHighlights(
+          { uri: a } as any,
+          new Position(0, 2) as any,
+          token,
+        ),
+      ).toBeUndefined();
+    });
+  });
+}
+/* v8 ignore stop */
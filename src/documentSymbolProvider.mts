@@ -0,0 +1,211 @@
+import {
+  DocumentSymbol,
+  DocumentSymbolProvider,
+  Range,
+  SymbolKind,
+} from "vscode";
+import { docs } from "./data.mts";
+import { getElement } from "./getElement.mts";
+import {
+  actionKinds,
+  definitionResolvers,
+  referenceResolvers,
+} from "./resolvers.mts";
+import { symbolKinds } from "./symbolKinds.mts";
+
+/**
+ * Provides the outline of a document: every action defined in it, with the
+ * elements subscribing to it nested underneath.
+ */
+export const documentSymbolProvider: DocumentSymbolProvider = {
+  /**
+   * Lists the actions defined in a document.
+   *
+   * @param doc - The document.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The action symbols, or undefined if the document is unknown.
+   */
+  provideDocumentSymbols(doc, { isCancellationRequested }) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    const cur = extern.docs.get(doc.uri.toString());
+    if (!cur) {
+      return;
+    }
+
+    const symbols: DocumentSymbol[] = [];
+    let kind, references, action, ranges, range, symbol, element;
+
+    for (kind of actionKinds) {
+      references = referenceResolvers[kind](cur);
+
+      for ([action, ranges] of definitionResolvers[kind](cur)) {
+        element = getElement(cur, ranges[0]!);
+        symbol = new extern.DocumentSymbol(
+          action,
+          `${kind} action`,
+          symbolKinds[kind],
+          element.range,
+          ranges[0]!,
+        );
+
+        for (range of ranges.slice(1)) {
+          symbol.range = symbol.range.union(getElement(cur, range).range);
+        }
+
+        for (range of references.get(action) ?? []) {
+          element = getElement(cur, range);
+          symbol.range = symbol.range.union(element.range);
+          symbol.children.push(
+            new extern.DocumentSymbol(
+              element.tag,
+              element.attribute,
+              SymbolKind.Field,
+              element.range,
+              range,
+            ),
+          );
+        }
+
+        symbols.push(symbol);
+      }
+    }
+
+    return symbols;
+  },
+};
+
+let extern = { DocumentSymbol, docs };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const { Document } = await import("./document.mts");
+  const { setExclude, setInclude, setLanguageIds } = await import("./data.mts");
+  const { TextDocument, Uri } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("documentSymbolProvider", () => {
+    const token = { isCancellationRequested: false } as any;
+    const uri = Uri.file("/a.html");
+
+    setLanguageIds(["html"]);
+    setExclude([]);
+    setInclude([]);
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    const format = ({ start, end }: Range) =>
+      `${start.line}:${start.character}-${end.line}:${end.character}`;
+    const summarize = ({ name, detail, kind, range, children }: any): any => ({
+      name,
+      detail,
+      kind,
+      range: format(range),
+      children: children.map(summarize),
+    });
+
+    it("ignores cancelled requests and unknown documents", () => {
+      extern.docs = new Map();
+      expect(
+        documentSymbolProvider.provideDocumentSymbols(
+          { uri } as any,
+          { isCancellationRequested: true } as any,
+        ),
+      ).toBeUndefined();
+      expect(
+        documentSymbolProvider.provideDocumentSymbols({ uri } as any, token),
+      ).toBeUndefined();
+    });
+
+    it("lists actions with their subscribers", () => {
+      extern.DocumentSymbol = origExtern.DocumentSymbol;
+      extern.docs = new Map([
+        [
+          uri.toString(),
+          new Document(
+            new TextDocument(
+              uri,
+              "html",
+              1,
+              [
+                '<button on:click="save" if="ready"></button>',
+                '<form on="save" result="list" reset="save"></form>',
+                '<ul render="list" if:invalid="ready"></ul>',
+                '<a on:click="save"></a>',
+              ].join("\n"),
+            ) as any,
+          ),
+        ],
+      ]) as any;
+
+      const symbols = documentSymbolProvider.provideDocumentSymbols(
+        { uri } as any,
+        token,
+      ) as DocumentSymbol[];
+
+      expect(symbols.map(summarize)).toEqual([
+        {
+          name: "save",
+          detail: "event action",
+          kind: SymbolKind.Event,
+          range: "0:0-3:19",
+          children: [
+            {
+              name: "form",
+              detail: "on",
+              kind: SymbolKind.Field,
+              range: "1:0-1:43",
+              children: [],
+            },
+            {
+              name: "form",
+              detail: "reset",
+              kind: SymbolKind.Field,
+              range: "1:0-1:43",
+              children: [],
+            },
+          ],
+        },
+        {
+          name: "ready",
+          detail: "state action",
+          kind: SymbolKind.Variable,
+          range: "0:0-2:37",
+          children: [
+            {
+              name: "button",
+              detail: "if",
+              kind: SymbolKind.Field,
+              range: "0:0-0:35",
+              children: [],
+            },
+          ],
+        },
+        {
+          name: "list",
+          detail: "result action",
+          kind: SymbolKind.Object,
+          range: "1:0-2:37",
+          children: [
+            {
+              name: "ul",
+              detail: "render",
+              kind: SymbolKind.Field,
+              range: "2:0-2:37",
+              children: [],
+            },
+          ],
+        },
+      ]);
+      expect(format(symbols[0]!.selectionRange)).toBe("0:18-0:22");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -7,20 +7,24 @@ import {
 } from "vscode";
 import { docs, getFileExtensionGlob } from "./data.mts";
 import { Document } from "./document.mts";
+import { restoreDoc } from "./indexCache.mts";
 import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
 
 /**
  * Creates a function to add a document to the internal store.
  *
- * @param overwrite - Whether to overwrite an existing document.
+ * @param overwrite - Whether to overwrite an existing document, rather than
+ *                    only a restored one.
  * @returns A function that accepts a document and adds it to the store.
  */
 const setDoc = (overwrite: boolean) => (doc: TextDocument) => {
   const { uri, languageId } = doc;
   const url = uri.toString();
+  const cur = extern.docs.get(url);
 
+  // restored documents are replaced as soon as their text is at hand
   if (
-    extern.docs.has(url) === overwrite &&
+    (overwrite ? cur : !cur || cur.restored) &&
     extern.Document.isApplicable(languageId, uri)
   ) {
     extern.docs.set(url, new extern.Document(doc));
@@ -78,15 +82,59 @@ const withFiles =
  * @param affectsWarnOnLogAttribute - If `true`, documents containing `log`
  *   attributes will be removed so they can be re-parsed and diagnostics
  *   refreshed according to the current `keml.warnOnLogAttribute` setting.
+ * @param affectsEveryDocument - If `true`, every document will be removed so
+ *   it can be re-parsed according to the current `keml.templateSyntaxes` and
+ *   `keml.rules` settings.
  */
-export const pruneDocs = (affectsWarnOnLogAttribute: boolean) => {
+export const pruneDocs = (
+  affectsWarnOnLogAttribute: boolean,
+  affectsEveryDocument = false,
+) => {
   for (const [url, cur] of extern.docs) {
-    if (!cur.isApplicable() || (affectsWarnOnLogAttribute && cur.has_log)) {
+    if (
+      affectsEveryDocument ||
+      !cur.isApplicable() ||
+      (affectsWarnOnLogAttribute && cur.has_log)
+    ) {
       extern.docs.delete(url);
     }
   }
 };
 
+/**
+ * Adds a file of the workspace to the internal store, unless it is already
+ * there, e.g. because it is open.
+ *
+ * The file is only read and parsed when the index cache has no entry matching
+ * its modification time and size.
+ *
+ * @param uri - The URI of the file.
+ */
+const onDidFindFile = async (uri: Uri) => {
+  const url = uri.toString();
+  let source, cur;
+
+  if (extern.docs.has(url)) {
+    return;
+  }
+  try {
+    source = await extern.workspace.fs.stat(uri);
+  } catch {
+    // reported when the file fails to open below
+  }
+  if (source && extern.restoreDoc(uri, source)) {
+    return;
+  }
+  await extern.onDidCreateUri(uri);
+  if (source && (cur = extern.docs.get(url))) {
+    cur.source = {
+      mtime: source.mtime,
+      size: source.size,
+      revision: cur.revision,
+    };
+  }
+};
+
 /**
  * Populates the internal document store with currently open documents and files
  * matching the configured file extensions.
@@ -98,10 +146,23 @@ export const populateDocs = async () => {
 
   if (fileExtensionGlob) {
     const files = await extern.workspace.findFiles(fileExtensionGlob);
-    await Promise.all(files.map(extern.onDidCreateUri));
+    await Promise.all(files.map(onDidFindFile));
   }
 };
 
+/**
+ * Replaces the restored documents of the internal store with parsed ones, for
+ * the features that need their syntax trees.
+ */
+export const parseRestoredDocs = async () => {
+  for (const cur of Array.from(extern.docs.values())) {
+    if (cur.restored) {
+      await extern.onDidChangeUri(cur.uri);
+    }
+  }
+  extern.updateDiagnosticCollection();
+};
+
 /**
  * Handles updates when a text document is edited.
  *
@@ -174,9 +235,11 @@ let extern = {
   getFileExtensionGlob,
   Document,
   updateDiagnosticCollection,
+  onDidChangeUri,
   onDidCreate,
   onDidCreateUri,
   onDidDeleteUri,
+  restoreDoc,
 };
 
 /* v8 ignore start */
@@ -352,6 +415,17 @@ if (import.meta.vitest) {
       expect(mockDocs.has("remove")).toBe(false);
     });
 
+    it("pruneDocs - removes every doc when template syntaxes change", () => {
+      extern.docs = new Map([
+        ["a", { isApplicable: fn(() => true) }],
+        ["b", { isApplicable: fn(() => true) }],
+      ]) as any;
+
+      pruneDocs(false, true);
+
+      expect(extern.docs.size).toBe(0);
+    });
+
     it("populateDocs - processes textDocuments and files when glob exists", async () => {
       const mockTextDocs = ["doc1", "doc2"];
       const mockFiles = ["file1", "file2"];
@@ -360,7 +434,16 @@ if (import.meta.vitest) {
       const findFiles = fn(async () => mockFiles);
       const getFileExtensionGlob = fn(() => "*.ts");
 
-      extern.workspace = { textDocuments: mockTextDocs, findFiles } as any;
+      extern.workspace = {
+        textDocuments: mockTextDocs,
+        findFiles,
+        fs: {
+          stat: fn(async () => {
+            throw new Error("fail");
+          }),
+        },
+      } as any;
+      extern.docs = new Map();
       extern.onDidCreate = onDidCreate;
       extern.onDidCreateUri = onDidCreateUri;
       extern.getFileExtensionGlob = getFileExtensionGlob;
@@ -403,6 +486,77 @@ if (import.meta.vitest) {
       expect(onDidCreateUri).not.toHaveBeenCalled();
     });
 
+    it("populateDocs - restores cached files and parses the others", async () => {
+      const source = { mtime: 1, size: 2 };
+      const uri = (url: string) => ({ toString: () => url });
+      const open = { revision: 1 };
+      const parsed = { revision: 3 } as any;
+      const onDidCreateUri = fn(async () => {
+        extern.docs.set("parsed", parsed);
+      });
+      const restoreDoc = fn(
+        (uri: any, _source: any) => uri.toString() === "cached",
+      );
+
+      extern.workspace = {
+        textDocuments: [],
+        findFiles: fn(async () => ["open", "cached", "parsed"].map(uri)),
+        fs: { stat: fn(async () => source) },
+      } as any;
+      extern.docs = new Map([["open", open]]) as any;
+      extern.onDidCreateUri = onDidCreateUri as any;
+      extern.restoreDoc = restoreDoc;
+      extern.getFileExtensionGlob = fn(() => "*.ts");
+
+      await populateDocs();
+
+      expect(restoreDoc).toHaveBeenCalledTimes(2);
+      expect(restoreDoc.mock.calls[0]![1]).toBe(source);
+      expect(onDidCreateUri).toHaveBeenCalledTimes(1);
+      expect(parsed.source).toEqual({ mtime: 1, size: 2, revision: 3 });
+      expect(open).toEqual({ revision: 1 });
+    });
+
+    it("setDoc - replaces a restored Document", () => {
+      const mockDoc = { uri: { toString: () => "u" }, languageId: "ts" } as any;
+      const mockDocs = new Map([["u", { restored: true }]]) as any;
+
+      extern.docs = mockDocs;
+      // @ts-ignore
+      extern.Document = class {
+        constructor(public doc: any) {}
+        static isApplicable() {
+          return true;
+        }
+      };
+
+      setDoc(false)(mockDoc);
+      expect(mockDocs.get("u")).toHaveProperty("doc", mockDoc);
+
+      // only documents in the store are overwritten
+      mockDocs.clear();
+      setDoc(true)(mockDoc);
+      expect(mockDocs.size).toBe(0);
+    });
+
+    it("parseRestoredDocs - parses the restored documents only", async () => {
+      const onDidChangeUri = fn(async () => {});
+      const updateDiagnosticCollection = fn();
+
+      extern.docs = new Map([
+        ["a", { uri: "a", restored: true }],
+        ["b", { uri: "b", restored: false }],
+      ]) as any;
+      extern.onDidChangeUri = onDidChangeUri as any;
+      extern.updateDiagnosticCollection = updateDiagnosticCollection;
+
+      await parseRestoredDocs();
+
+      expect(onDidChangeUri).toHaveBeenCalledTimes(1);
+      expect(onDidChangeUri).toHaveBeenCalledWith("a");
+      expect(updateDiagnosticCollection).toHaveBeenCalledTimes(1);
+    });
+
     it("onDidEdit - calls scheduleUpdate on the doc if it exists", () => {
       const mockEvent = {
         document: { uri: { toString: () => "uri1" } },
@@ -0,0 +1,658 @@
+/**
+ * A native DOM event.
+ */
+interface DomEvent {
+  /**
+   * The interface of the event object, e.g. `PointerEvent`.
+   */
+  type: string;
+
+  /**
+   * The interface documenting the event on MDN, e.g. `Element` for
+   * https://developer.mozilla.org/docs/Web/API/Element/click_event.
+   */
+  target: string;
+
+  /**
+   * When the event fires.
+   */
+  description: string;
+}
+
+/**
+ * Creates the entry of a native DOM event.
+ *
+ * @param type - The interface of the event object.
+ * @param target - The interface documenting the event on MDN.
+ * @param description - When the event fires.
+ * @returns The entry.
+ */
+const event = (
+  type: string,
+  target: string,
+  description: string,
+): DomEvent => ({ type, target, description });
+
+/**
+ * The native DOM events an element may listen to, keyed by name.
+ */
+export const domEvents: Record<string, DomEvent> = {
+  // pointer
+  click: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointing device button is pressed and released on the element.",
+  ),
+  auxclick: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a non-primary pointing device button is pressed and released on the element.",
+  ),
+  contextmenu: event(
+    "PointerEvent",
+    "Element",
+    "Fired when the user attempts to open a context menu.",
+  ),
+  dblclick: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device button is clicked twice on the element.",
+  ),
+  mousedown: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device button is pressed on the element.",
+  ),
+  mouseup: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device button is released on the element.",
+  ),
+  mousemove: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device moves while over the element.",
+  ),
+  mouseenter: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device moves onto the element. Does not bubble.",
+  ),
+  mouseleave: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device moves off the element. Does not bubble.",
+  ),
+  mouseover: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device moves onto the element or one of its children.",
+  ),
+  mouseout: event(
+    "MouseEvent",
+    "Element",
+    "Fired when a pointing device moves off the element or one of its children.",
+  ),
+  mousewheel: event(
+    "WheelEvent",
+    "Element",
+    "Fired when a mouse wheel is rotated. Non-standard, prefer `wheel`.",
+  ),
+  pointerdown: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer becomes active, e.g. a button is pressed or a finger touches the screen.",
+  ),
+  pointerup: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer is no longer active.",
+  ),
+  pointermove: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer changes coordinates, pressure, tilt or twist.",
+  ),
+  pointerover: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer moves into the hit test boundaries of the element.",
+  ),
+  pointerout: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer moves out of the hit test boundaries of the element.",
+  ),
+  pointerenter: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer moves into the element or one of its descendants. Does not bubble.",
+  ),
+  pointerleave: event(
+    "PointerEvent",
+    "Element",
+    "Fired when a pointer moves out of the element and all of its descendants. Does not bubble.",
+  ),
+  pointercancel: event(
+    "PointerEvent",
+    "Element",
+    "Fired when the browser decides there will be no more pointer events, e.g. when the page starts scrolling.",
+  ),
+  gotpointercapture: event(
+    "PointerEvent",
+    "Element",
+    "Fired when the element captures a pointer.",
+  ),
+  lostpointercapture: event(
+    "PointerEvent",
+    "Element",
+    "Fired after a captured pointer is released.",
+  ),
+  pointerlockchange: event(
+    "Event",
+    "Document",
+    "Fired when the pointer is locked or unlocked.",
+  ),
+  pointerlockerror: event(
+    "Event",
+    "Document",
+    "Fired when locking the pointer fails.",
+  ),
+
+  // touch
+  touchstart: event(
+    "TouchEvent",
+    "Element",
+    "Fired when one or more touch points are placed on the touch surface.",
+  ),
+  touchend: event(
+    "TouchEvent",
+    "Element",
+    "Fired when one or more touch points are removed from the touch surface.",
+  ),
+  touchmove: event(
+    "TouchEvent",
+    "Element",
+    "Fired when one or more touch points move along the touch surface.",
+  ),
+  touchcancel: event(
+    "TouchEvent",
+    "Element",
+    "Fired when one or more touch points are disrupted, e.g. when too many are created.",
+  ),
+
+  // wheel and scroll
+  wheel: event(
+    "WheelEvent",
+    "Element",
+    "Fired when the user rotates a wheel button on a pointing device.",
+  ),
+  scroll: event("Event", "Element", "Fired when the element is scrolled."),
+  scrollend: event(
+    "Event",
+    "Element",
+    "Fired when the element has completed scrolling.",
+  ),
+
+  // keyboard and composition
+  keydown: event("KeyboardEvent", "Element", "Fired when a key is pressed."),
+  keyup: event("KeyboardEvent", "Element", "Fired when a key is released."),
+  keypress: event(
+    "KeyboardEvent",
+    "Element",
+    "Fired when a key producing a character is pressed. Deprecated, prefer `keydown` or `beforeinput`.",
+  ),
+  compositionstart: event(
+    "CompositionEvent",
+    "Element",
+    "Fired when a text composition system, such as an input method editor, starts a new composition session.",
+  ),
+  compositionupdate: event(
+    "CompositionEvent",
+    "Element",
+    "Fired when a new character is received in the context of a text composition session.",
+  ),
+  compositionend: event(
+    "CompositionEvent",
+    "Element",
+    "Fired when a text composition session is completed or cancelled.",
+  ),
+
+  // focus
+  focus: event(
+    "FocusEvent",
+    "Element",
+    "Fired when the element has received focus. Does not bubble.",
+  ),
+  blur: event(
+    "FocusEvent",
+    "Element",
+    "Fired when the element has lost focus. Does not bubble.",
+  ),
+  focusin: event(
+    "FocusEvent",
+    "Element",
+    "Fired when the element or one of its descendants is about to receive focus.",
+  ),
+  focusout: event(
+    "FocusEvent",
+    "Element",
+    "Fired when the element or one of its descendants is about to lose focus.",
+  ),
+
+  // form and input
+  beforeinput: event(
+    "InputEvent",
+    "Element",
+    "Fired when the value of an editable element is about to be modified.",
+  ),
+  input: event(
+    "InputEvent",
+    "Element",
+    "Fired when the value of an editable element has been changed.",
+  ),
+  change: event(
+    "Event",
+    "HTMLElement",
+    "Fired when the user commits a change to the value of an `<input>`, `<select>` or `<textarea>`.",
+  ),
+  select: event(
+    "Event",
+    "HTMLInputElement",
+    "Fired when some text has been selected in an `<input>` or a `<textarea>`.",
+  ),
+  selectionchange: event(
+    "Event",
+    "Document",
+    "Fired when the text selection changes.",
+  ),
+  selectstart: event(
+    "Event",
+    "Node",
+    "Fired when the user starts a new selection.",
+  ),
+  invalid: event(
+    "Event",
+    "HTMLInputElement",
+    "Fired when a submittable element is checked for validity and fails its constraints.",
+  ),
+  submit: event(
+    "SubmitEvent",
+    "HTMLFormElement",
+    "Fired when a `<form>` is submitted.",
+  ),
+  reset: event("Event", "HTMLFormElement", "Fired when a `<form>` is reset."),
+  formdata: event(
+    "FormDataEvent",
+    "HTMLFormElement",
+    "Fired after the entry list of a `<form>` is constructed, e.g. when the form is submitted.",
+  ),
+
+  // drag and drop
+  drag: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired every few hundred milliseconds while the element is being dragged.",
+  ),
+  dragstart: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired when the user starts dragging the element.",
+  ),
+  dragend: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired when a drag operation ends, e.g. when the mouse button is released.",
+  ),
+  dragenter: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired when a dragged element enters a valid drop target.",
+  ),
+  dragleave: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired when a dragged element leaves a valid drop target.",
+  ),
+  dragover: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired every few hundred milliseconds while a dragged element is over a valid drop target.",
+  ),
+  drop: event(
+    "DragEvent",
+    "HTMLElement",
+    "Fired when an element is dropped on a valid drop target.",
+  ),
+
+  // clipboard
+  copy: event(
+    "ClipboardEvent",
+    "Element",
+    "Fired when the user copies the selection to the clipboard.",
+  ),
+  cut: event(
+    "ClipboardEvent",
+    "Element",
+    "Fired when the user cuts the selection to the clipboard.",
+  ),
+  paste: event(
+    "ClipboardEvent",
+    "Element",
+    "Fired when the user pastes from the clipboard.",
+  ),
+
+  // animation and transition
+  animationstart: event(
+    "AnimationEvent",
+    "Element",
+    "Fired when a CSS animation has started.",
+  ),
+  animationiteration: event(
+    "AnimationEvent",
+    "Element",
+    "Fired when an iteration of a CSS animation ends and another one begins.",
+  ),
+  animationend: event(
+    "AnimationEvent",
+    "Element",
+    "Fired when a CSS animation has completed.",
+  ),
+  animationcancel: event(
+    "AnimationEvent",
+    "Element",
+    "Fired when a CSS animation unexpectedly aborts.",
+  ),
+  transitionrun: event(
+    "TransitionEvent",
+    "Element",
+    "Fired when a CSS transition is first created, before any delay.",
+  ),
+  transitionstart: event(
+    "TransitionEvent",
+    "Element",
+    "Fired when a CSS transition has actually started, after any delay.",
+  ),
+  transitionend: event(
+    "TransitionEvent",
+    "Element",
+    "Fired when a CSS transition has completed.",
+  ),
+  transitioncancel: event(
+    "TransitionEvent",
+    "Element",
+    "Fired when a CSS transition is cancelled.",
+  ),
+
+  // media
+  abort: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the resource was not fully loaded, but not as the result of an error.",
+  ),
+  canplay: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the media can be played, but may need to stop for further buffering.",
+  ),
+  canplaythrough: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the media can be played to the end without stopping for further buffering.",
+  ),
+  durationchange: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the `duration` attribute has been updated.",
+  ),
+  emptied: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the media has become empty, e.g. when it is reloaded.",
+  ),
+  ended: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when playback stops because the end of the media was reached.",
+  ),
+  loadeddata: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the first frame of the media has finished loading.",
+  ),
+  loadedmetadata: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the metadata of the media has been loaded.",
+  ),
+  loadstart: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the browser has started to load the resource.",
+  ),
+  pause: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when playback has been paused.",
+  ),
+  play: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when playback has begun after having been paused.",
+  ),
+  playing: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when playback is ready to start after having been paused or delayed due to lack of data.",
+  ),
+  progress: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired periodically as the browser loads the resource.",
+  ),
+  ratechange: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the playback rate has changed.",
+  ),
+  seeked: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when a seek operation has completed.",
+  ),
+  seeking: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when a seek operation has started.",
+  ),
+  stalled: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the browser is trying to fetch media data, but data is unexpectedly not forthcoming.",
+  ),
+  suspend: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the loading of the media has been suspended.",
+  ),
+  timeupdate: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the time indicated by the `currentTime` attribute has been updated.",
+  ),
+  volumechange: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when the volume has changed.",
+  ),
+  waiting: event(
+    "Event",
+    "HTMLMediaElement",
+    "Fired when playback has stopped because of a temporary lack of data.",
+  ),
+  cuechange: event(
+    "Event",
+    "TextTrack",
+    "Fired when a text track has changed the cues it is displaying.",
+  ),
+
+  // loading
+  load: event(
+    "Event",
+    "Window",
+    "Fired when the resource and its dependent resources have finished loading.",
+  ),
+  error: event(
+    "Event",
+    "Window",
+    "Fired when a resource failed to load or could not be used.",
+  ),
+  readystatechange: event(
+    "Event",
+    "Document",
+    "Fired when the `readyState` attribute of the document has changed.",
+  ),
+  visibilitychange: event(
+    "Event",
+    "Document",
+    "Fired when the content of the tab has become visible or hidden.",
+  ),
+
+  // window
+  afterprint: event(
+    "Event",
+    "Window",
+    "Fired after the document has started printing or the print preview has been closed.",
+  ),
+  beforeprint: event(
+    "Event",
+    "Window",
+    "Fired when the document is about to be printed or previewed for printing.",
+  ),
+  beforeunload: event(
+    "BeforeUnloadEvent",
+    "Window",
+    "Fired when the window, the document and its resources are about to be unloaded.",
+  ),
+  unload: event(
+    "Event",
+    "Window",
+    "Fired when the document or a child resource is being unloaded. Deprecated, prefer `pagehide`.",
+  ),
+  pagehide: event(
+    "PageTransitionEvent",
+    "Window",
+    "Fired when the browser hides the current page in the process of presenting a different page from the session history.",
+  ),
+  pageshow: event(
+    "PageTransitionEvent",
+    "Window",
+    "Fired when the browser displays the window's document due to navigation.",
+  ),
+  hashchange: event(
+    "HashChangeEvent",
+    "Window",
+    "Fired when the fragment identifier of the URL has changed.",
+  ),
+  popstate: event(
+    "PopStateEvent",
+    "Window",
+    "Fired when the active history entry changes while the user navigates the session history.",
+  ),
+  resize: event("UIEvent", "Window", "Fired when the window has been resized."),
+  message: event(
+    "MessageEvent",
+    "Window",
+    "Fired when the window receives a message, e.g. from `postMessage()`.",
+  ),
+  messageerror: event(
+    "MessageEvent",
+    "Window",
+    "Fired when the window receives a message that cannot be deserialized.",
+  ),
+  storage: event(
+    "StorageEvent",
+    "Window",
+    "Fired when a storage area has been modified in the context of another document.",
+  ),
+  online: event(
+    "Event",
+    "Window",
+    "Fired when the browser has gained access to the network.",
+  ),
+  offline: event(
+    "Event",
+    "Window",
+    "Fired when the browser has lost access to the network.",
+  ),
+  languagechange: event(
+    "Event",
+    "Window",
+    "Fired when the preferred language of the user changes.",
+  ),
+
+  // interactive elements
+  toggle: event(
+    "ToggleEvent",
+    "HTMLElement",
+    "Fired when a popover, a `<dialog>` or a `<details>` element has been shown or hidden.",
+  ),
+  beforetoggle: event(
+    "ToggleEvent",
+    "HTMLElement",
+    "Fired just before a popover or a `<dialog>` element is shown or hidden.",
+  ),
+  cancel: event(
+    "Event",
+    "HTMLDialogElement",
+    "Fired when the user dismisses a `<dialog>`, e.g. with the Esc key.",
+  ),
+  close: event(
+    "Event",
+    "HTMLDialogElement",
+    "Fired when a `<dialog>` has been closed.",
+  ),
+  fullscreenchange: event(
+    "Event",
+    "Element",
+    "Fired when the element enters or exits fullscreen mode.",
+  ),
+  fullscreenerror: event(
+    "Event",
+    "Element",
+    "Fired when the element cannot switch to fullscreen mode.",
+  ),
+  slotchange: event(
+    "Event",
+    "HTMLSlotElement",
+    "Fired when the nodes assigned to a `<slot>` change.",
+  ),
+  securitypolicyviolation: event(
+    "SecurityPolicyViolationEvent",
+    "Element",
+    "Fired when a Content Security Policy is violated.",
+  ),
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { getDefaultHTMLDataProvider } =
+    await import("vscode-html-languageservice");
+
+  describe("domEvents", () => {
+    it("covers the standard event handlers of the HTML data", () => {
+      const provider = getDefaultHTMLDataProvider();
+      const obsolete = ["formchange", "forminput", "redo", "show", "undo"];
+
+      for (const tag of ["body", "video", "form", "dialog", "details"]) {
+        for (const { name } of provider.provideAttributes(tag)) {
+          if (name.startsWith("on") && !obsolete.includes(name.slice(2))) {
+            expect(domEvents).toHaveProperty(name.slice(2));
+          }
+        }
+      }
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,25 @@
+const SPECIAL_PATTERN = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Escapes text for use in a regular expression.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+export const escapeRegExp = (text: string) =>
+  text.replace(SPECIAL_PATTERN, "\\$&");
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("escapeRegExp", () => {
+    it("escapes special characters", () => {
+      expect(escapeRegExp("{{ a.b }}")).toBe("\\{\\{ a\\.b \\}\\}");
+      expect(
+        new RegExp(escapeRegExp("<?= $a[0] ?>")).test("<?= $a[0] ?>"),
+      ).toBe(true);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -1,64 +1,175 @@
-import { ExtensionContext, workspace } from "vscode";
-import { configure } from "./configure.mts";
-import { getDiagnosticCollection, languageDisposables } from "./data.mts";
 import {
-  onDidCloseDiagnostics,
-  onDidCreateDiagnostics,
-  onDidCreateFilesDiagnostics,
-  onDidDeleteFilesDiagnostics,
-  onDidEdit,
-  onDidRenameFilesDiagnostics,
-} from "./documents.mts";
-import { onDidChangeConfiguration } from "./onDidChangeConfiguration.mts";
+  commands,
+  ConfigurationChangeEvent,
+  ExtensionContext,
+  extensions,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
 import {
-  getWatcher,
-  updateFileSystemWatcher,
-} from "./updateFileSystemWatcher.mts";
+  LanguageClient,
+  LanguageClientOptions,
+  Location,
+  Position,
+  ServerOptions,
+} from "vscode-languageclient/node.js";
+import { showActionGraph } from "./showActionGraph.mts";
+
+let client: LanguageClient | undefined;
+
+/**
+ * Lists the languages contributed by all installed extensions, so that the
+ * language server can resolve file extensions the same way VS Code does.
+ *
+ * @returns Identifiers and file extensions of the known languages.
+ */
+const getLanguages = () => {
+  const result: { id: string; extensions: string[] }[] = [];
+  let languages: { id: string; extensions?: string[] }[] | undefined;
+  let packageJSON, id, exts;
+
+  for ({ packageJSON } of extern.extensions.all) {
+    if ((languages = packageJSON?.contributes?.languages)) {
+      for ({ id, extensions: exts } of languages) {
+        if (exts) {
+          result.push({ id, extensions: exts });
+        }
+      }
+    }
+  }
+
+  return result;
+};
 
 /**
- * Activates the extension by performing initial configuration and registering
- * event handlers.
+ * Retrieves the current language client, telling the user when there is none,
+ * e.g. while it restarts.
  *
- * @param context - The extension context containing subscriptions.
+ * @returns The client, if running.
  */
-export const activate = async ({ subscriptions }: ExtensionContext) => {
-  await extern.configure(false);
+const getClient = () => {
+  if (!client) {
+    extern.window.showErrorMessage("The KEML language server is not running.");
+  }
+
+  return client;
+};
+
+/**
+ * Starts a language client for the configured languages.
+ *
+ * @param serverOptions - How to launch the language server.
+ * @param storageUri - Where the language server may store the index cache.
+ */
+const start = async (serverOptions: ServerOptions, storageUri?: Uri) => {
+  const clientOptions: LanguageClientOptions = {
+    documentSelector: extern.workspace
+      .getConfiguration("keml", null)
+      .get<string[]>("languageIds", ["html"])
+      .map(language => ({ language })),
+    synchronize: { configurationSection: ["keml", "search"] },
+    initializationOptions: {
+      languages: getLanguages(),
+      storageUri: storageUri?.toString(),
+    },
+  };
+
+  const { LanguageClient } = await extern.loadClient();
+
+  client = new LanguageClient("keml", "KEML", serverOptions, clientOptions);
+  await client.start();
+};
+
+/**
+ * Activates the extension by launching the KEML language server over stdio
+ * and connecting to it as a client.
+ *
+ * The client is restarted whenever `keml.languageIds` changes, because the
+ * set of synchronized documents depends on it. Commands always talk to the
+ * current client, or tell the user there is none.
+ *
+ * @param context - The extension context.
+ */
+export const activate = async ({
+  asAbsolutePath,
+  storageUri,
+  subscriptions,
+}: ExtensionContext) => {
+  const { TransportKind } = await extern.loadClient();
+  const run = {
+    module: asAbsolutePath("out/server.js"),
+    transport: TransportKind.stdio,
+  } as const;
+  const serverOptions = { run, debug: run };
 
   subscriptions.push(
-    extern.getDiagnosticCollection(),
-    extern.workspace.onDidChangeConfiguration(onDidChangeConfiguration),
-    extern.workspace.onDidChangeTextDocument(onDidEdit),
-    extern.workspace.onDidChangeWorkspaceFolders(updateFileSystemWatcher),
-    extern.workspace.onDidCloseTextDocument(onDidCloseDiagnostics),
-    extern.workspace.onDidCreateFiles(onDidCreateFilesDiagnostics),
-    extern.workspace.onDidDeleteFiles(onDidDeleteFilesDiagnostics),
-    extern.workspace.onDidOpenTextDocument(onDidCreateDiagnostics),
-    extern.workspace.onDidRenameFiles(onDidRenameFilesDiagnostics),
+    extern.workspace.onDidChangeConfiguration(
+      async (e: ConfigurationChangeEvent) => {
+        if (e.affectsConfiguration("keml.languageIds")) {
+          await deactivate();
+          await start(serverOptions, storageUri);
+        }
+      },
+    ),
+    extern.commands.registerCommand(
+      "keml.showActionGraph",
+      () =>
+        getClient() &&
+        extern.showActionGraph(
+          async filter =>
+            (await getClient()?.sendRequest<ActionGraph<Location>>(
+              "keml/actionGraph",
+              filter,
+            )) ?? { nodes: [], edges: [] },
+        ),
+    ),
+    extern.commands.registerCommand("keml.rebuildIndex", () =>
+      getClient()?.sendRequest("keml/rebuildIndex"),
+    ),
+    extern.commands.registerCommand(
+      "keml.showReferences",
+      (uri: string, position: Position, locations: Location[]) => {
+        const converter = getClient()?.protocol2CodeConverter;
+        if (!converter) {
+          return;
+        }
+
+        return extern.commands.executeCommand(
+          "editor.action.showReferences",
+          converter.asUri(uri),
+          converter.asPosition(position),
+          locations.map(location => converter.asLocation(location)),
+        );
+      },
+    ),
   );
+
+  await start(serverOptions, storageUri);
 };
 
 /**
- * Deactivates the extension by disposing of watchers and language-specific
- * resources.
+ * Deactivates the extension by stopping the language client, which in turn
+ * shuts the language server down.
  */
-export const deactivate = () => {
-  extern.getWatcher().dispose();
+export const deactivate = async () => {
+  const cur = client;
 
-  let disposable;
-  for (const disposables of extern.languageDisposables.values()) {
-    for (disposable of disposables) {
-      disposable.dispose();
-    }
-  }
-  extern.languageDisposables.clear();
+  client = undefined;
+  await cur?.stop();
 };
 
 let extern = {
+  commands,
+  extensions,
+  showActionGraph,
+  window,
   workspace,
-  configure,
-  getDiagnosticCollection,
-  languageDisposables,
-  getWatcher,
+  /**
+   * Loads the language client on demand, since it requires the real `vscode`
+   * module as soon as it is imported.
+   */
+  loadClient: () => import("vscode-languageclient/node.js"),
 };
 
 /* v8 ignore start */
@@ -68,6 +179,7 @@ if (import.meta.vitest) {
     it,
     expect,
     afterAll,
+    beforeEach,
     vi: { fn },
   } = import.meta.vitest;
   const origExtern = extern;
@@ -75,97 +187,172 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("activate/deactivate", () => {
+    const instances: any[] = [];
+    let onDidChangeConfiguration: (e: any) => Promise<void>;
+    let callbacks: Record<string, (...args: any[]) => unknown>;
+
+    beforeEach(() => {
+      instances.length = 0;
+      const LanguageClient = class {
+        start = fn(async () => {});
+        stop = fn(async () => {});
+        sendRequest = fn(async () => "graph");
+        protocol2CodeConverter = {
+          asUri: (uri: string) => `uri ${uri}`,
+          asPosition: (position: string) => `position ${position}`,
+          asLocation: (location: string) => `location ${location}`,
+        };
+        args: any[];
+        constructor(...args: any[]) {
+          this.args = args;
+          instances.push(this);
+        }
+      };
+      extern.loadClient = fn(async () => ({
+        LanguageClient,
+        TransportKind: { stdio: 0 },
+      })) as any;
+      extern.extensions = {
+        all: [
+          { packageJSON: null },
+          { packageJSON: { contributes: {} } },
+          {
+            packageJSON: {
+              contributes: {
+                languages: [
+                  { id: "html", extensions: [".html"] },
+                  { id: "nothing" },
+                ],
+              },
+            },
+          },
+        ],
+      } as any;
+      extern.workspace = {
+        getConfiguration: fn(() => ({ get: () => ["html", "php"] })),
+        onDidChangeConfiguration: fn(listener => {
+          onDidChangeConfiguration = listener;
+          return "disposable";
+        }),
+      } as any;
+      callbacks = {};
+      extern.commands = {
+        registerCommand: fn((command, callback) => {
+          callbacks[command] = callback;
+          return command;
+        }),
+        executeCommand: fn(),
+      } as any;
+      extern.showActionGraph = fn(async fetchGraph => {
+        await fetchGraph({ action: "event:save" });
+      });
+      extern.window = { showErrorMessage: fn() } as any;
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
 
-    it("activate calls configure and registers workspace listeners with correct handlers and disposables", async () => {
-      const configureFn = fn(async () => {});
-      const diagCollection = {} as any;
-
-      // Fake disposables returned by workspace registration functions
-      const fakeDisposable1 = {};
-      const fakeDisposable2 = {};
-      const fakeDisposable3 = {};
-      const fakeDisposable4 = {};
-      const fakeDisposable5 = {};
-      const fakeDisposable6 = {};
-      const fakeDisposable7 = {};
-      const fakeDisposable8 = {};
+    it("loads the language client on demand", async () => {
+      await expect(origExtern.loadClient()).rejects.toThrow("vscode");
+    });
 
+    it("starts a language client", async () => {
       const subscriptions: any[] = [];
 
-      extern.configure = configureFn;
-      extern.getDiagnosticCollection = fn(() => diagCollection);
-      extern.workspace = {
-        onDidChangeConfiguration: fn(() => fakeDisposable1),
-        onDidChangeTextDocument: fn(() => fakeDisposable2),
-        onDidChangeWorkspaceFolders: fn(() => fakeDisposable3),
-        onDidCreateFiles: fn(() => fakeDisposable4),
-        onDidDeleteFiles: fn(() => fakeDisposable5),
-        onDidOpenTextDocument: fn(() => fakeDisposable6),
-        onDidRenameFiles: fn(() => fakeDisposable7),
-        onDidCloseTextDocument: fn(() => fakeDisposable8),
-      } as any;
+      await activate({
+        asAbsolutePath: (path: string) => `/ext/${path}`,
+        storageUri: { toString: () => "file:///storage" },
+        subscriptions,
+      } as any);
 
-      await activate({ subscriptions } as any);
+      const run = { module: "/ext/out/server.js", transport: 0 };
 
-      expect(configureFn).toHaveBeenCalled();
+      expect(subscriptions).toEqual([
+        "disposable",
+        "keml.showActionGraph",
+        "keml.rebuildIndex",
+        "keml.showReferences",
+      ]);
+      expect(instances).toHaveLength(1);
+      expect(instances[0].args).toEqual([
+        "keml",
+        "KEML",
+        { run, debug: run },
+        {
+          documentSelector: [{ language: "html" }, { language: "php" }],
+          synchronize: { configurationSection: ["keml", "search"] },
+          initializationOptions: {
+            languages: [{ id: "html", extensions: [".html"] }],
+            storageUri: "file:///storage",
+          },
+        },
+      ]);
+      expect(instances[0].start).toHaveBeenCalled();
 
-      // Each workspace function called with the correct module handler
-      expect(extern.workspace.onDidChangeConfiguration).toHaveBeenCalledWith(
-        onDidChangeConfiguration,
-      );
-      expect(extern.workspace.onDidChangeTextDocument).toHaveBeenCalledWith(
-        onDidEdit,
-      );
-      expect(extern.workspace.onDidChangeWorkspaceFolders).toHaveBeenCalledWith(
-        updateFileSystemWatcher,
-      );
-      expect(extern.workspace.onDidCreateFiles).toHaveBeenCalledWith(
-        onDidCreateFilesDiagnostics,
-      );
-      expect(extern.workspace.onDidDeleteFiles).toHaveBeenCalledWith(
-        onDidDeleteFilesDiagnostics,
-      );
-      expect(extern.workspace.onDidOpenTextDocument).toHaveBeenCalledWith(
-        onDidCreateDiagnostics,
+      await onDidChangeConfiguration({ affectsConfiguration: () => false });
+      expect(instances).toHaveLength(1);
+
+      await onDidChangeConfiguration({
+        affectsConfiguration: (section: string) =>
+          section === "keml.languageIds",
+      });
+      expect(instances[0].stop).toHaveBeenCalled();
+      expect(instances).toHaveLength(2);
+      expect(instances[1].start).toHaveBeenCalled();
+
+      await callbacks["keml.showActionGraph"]!();
+      expect(instances[0].sendRequest).not.toHaveBeenCalled();
+      expect(instances[1].sendRequest).toHaveBeenCalledWith(
+        "keml/actionGraph",
+        { action: "event:save" },
       );
-      expect(extern.workspace.onDidRenameFiles).toHaveBeenCalledWith(
-        onDidRenameFilesDiagnostics,
+
+      await callbacks["keml.rebuildIndex"]!();
+      expect(instances[1].sendRequest).toHaveBeenCalledWith(
+        "keml/rebuildIndex",
       );
-      expect(extern.workspace.onDidCloseTextDocument).toHaveBeenCalledWith(
-        onDidCloseDiagnostics,
+
+      callbacks["keml.showReferences"]!("a", "p", ["l1", "l2"]);
+      expect(extern.commands.executeCommand).toHaveBeenCalledWith(
+        "editor.action.showReferences",
+        "uri a",
+        "position p",
+        ["location l1", "location l2"],
       );
 
-      // Subscriptions array contains the disposables returned by workspace functions
-      expect(subscriptions).toContain(diagCollection);
-      expect(subscriptions).toContain(fakeDisposable1);
-      expect(subscriptions).toContain(fakeDisposable2);
-      expect(subscriptions).toContain(fakeDisposable3);
-      expect(subscriptions).toContain(fakeDisposable4);
-      expect(subscriptions).toContain(fakeDisposable5);
-      expect(subscriptions).toContain(fakeDisposable6);
-      expect(subscriptions).toContain(fakeDisposable7);
-      expect(subscriptions).toContain(fakeDisposable8);
+      await deactivate();
+      expect(instances[1].stop).toHaveBeenCalled();
+      await deactivate();
+      expect(instances[1].stop).toHaveBeenCalledTimes(1);
+      expect(extern.window.showErrorMessage).not.toHaveBeenCalled();
     });
 
-    it("deactivate disposes watcher and clears language disposables", () => {
-      const disposeWatcher = fn();
-      const disposable1 = { dispose: fn() };
-      const disposable2 = { dispose: fn() };
+    it("tells the user when the language server is not running", async () => {
+      let graph;
 
-      extern.getWatcher = fn(() => ({ dispose: disposeWatcher })) as any;
-      extern.languageDisposables = new Map([
-        ["lang1", [disposable1, disposable2]],
-      ]);
+      await activate({
+        asAbsolutePath: (path: string) => path,
+        subscriptions: [],
+      } as any);
+      extern.showActionGraph = fn(async fetchGraph => {
+        await deactivate();
+        graph = await fetchGraph({});
+      });
 
-      deactivate();
+      await callbacks["keml.showActionGraph"]!();
+      expect(graph).toEqual({ nodes: [], edges: [] });
+      expect(instances[0].sendRequest).not.toHaveBeenCalled();
 
-      expect(disposeWatcher).toHaveBeenCalled();
-      expect(disposable1.dispose).toHaveBeenCalled();
-      expect(disposable2.dispose).toHaveBeenCalled();
-      expect(extern.languageDisposables.size).toBe(0);
+      await callbacks["keml.showActionGraph"]!();
+      await callbacks["keml.rebuildIndex"]!();
+      await callbacks["keml.showReferences"]!("a", "p", []);
+      expect(extern.showActionGraph).toHaveBeenCalledOnce();
+      expect(extern.commands.executeCommand).not.toHaveBeenCalled();
+      expect(extern.window.showErrorMessage).toHaveBeenCalledTimes(4);
+      expect(extern.window.showErrorMessage).toHaveBeenCalledWith(
+        "The KEML language server is not running.",
+      );
     });
   });
 }
@@ -0,0 +1,401 @@
+import { blank } from "./blank.mts";
+
+const WHITESPACE_PATTERN = /\s/;
+const WORD_PATTERN = /[\w$]/;
+const NAME_PATTERN = /[\w$.:-]/;
+const LITERAL_PATTERN = /^(["'`])[^"'`\\$\r\n]*\1$/;
+
+/**
+ * Punctuation after which an expression, and thus a JSX element or a regular
+ * expression, may start.
+ */
+const EXPRESSION_START = new Set("(,=:[!&|?{;>+-*%~^");
+
+/**
+ * Keywords after which an expression may start.
+ */
+const KEYWORDS = new Set([
+  "await",
+  "case",
+  "default",
+  "else",
+  "return",
+  "yield",
+]);
+
+/**
+ * Extracts the JSX tags of a JavaScript or TypeScript module.
+ *
+ * Everything but the start and end tags of JSX elements, i.e. the code, the
+ * text children, the fragments and the spread attributes, is blanked out, so
+ * offsets into the result are offsets into the module. Attribute values that
+ * are string literals, like `{"save"}`, are turned into quoted HTML attribute
+ * values, while any other expression is kept as an empty quoted value.
+ *
+ * @param text - The text of the module.
+ * @param expressions - Receives the start and end offsets of the non-literal
+ *   attribute value expressions, in order.
+ * @returns The text with only the JSX tags left.
+ */
+export const extractJsxTags = (
+  text: string,
+  expressions: [number, number][],
+) => {
+  const result = blank(text).split("");
+  const { length } = text;
+  let i = 0;
+
+  /**
+   * Copies a part of the text into the result.
+   */
+  const keep = (start: number, end: number) => {
+    for (let j = start; j < end; j++) {
+      result[j] = text[j]!;
+    }
+  };
+
+  /**
+   * Blanks a part of the result out again.
+   */
+  const reset = (start: number, end: number) => {
+    const blanked = blank(text.slice(start, end));
+
+    for (let j = start; j < end; j++) {
+      result[j] = blanked[j - start]!;
+    }
+  };
+
+  /**
+   * Skips from an opening delimiter past the closing one, or to the end.
+   */
+  const skipPast = (close: string, escapes: boolean) => {
+    for (i++; i < length && !text.startsWith(close, i); i++) {
+      if (escapes && text[i] === "\\") {
+        i++;
+      }
+    }
+    i += close.length;
+  };
+
+  /**
+   * Skips a template literal, scanning the code of its placeholders.
+   */
+  const skipTemplate = () => {
+    for (i++; i < length && text[i] !== "`"; i++) {
+      if (text[i] === "\\") {
+        i++;
+      } else if (text.startsWith("${", i)) {
+        i += 2;
+        scanCode(true);
+      }
+    }
+    i++;
+  };
+
+  /**
+   * Scans code for JSX elements, up to the end of the text or, when nested, to
+   * the unmatched closing brace.
+   */
+  const scanCode = (nested: boolean) => {
+    let depth = 0;
+    let prev = "";
+    let char, start;
+
+    while (i < length) {
+      char = text[i]!;
+      if (WHITESPACE_PATTERN.test(char)) {
+        i++;
+      } else if (text.startsWith("//", i)) {
+        skipPast("\n", false);
+      } else if (text.startsWith("/*", i)) {
+        skipPast("*/", false);
+      } else if (char === '"' || char === "'") {
+        skipPast(char, true);
+        prev = char;
+      } else if (char === "`") {
+        skipTemplate();
+        prev = char;
+      } else if (char === "}" && nested && !depth) {
+        return;
+      } else if (
+        (char === "/" || char === "<") &&
+        (!prev || EXPRESSION_START.has(prev) || KEYWORDS.has(prev))
+      ) {
+        if (char === "/") {
+          skipPast("/", true);
+        } else if (!scanElement()) {
+          i++;
+        }
+        prev = ")";
+      } else if (WORD_PATTERN.test(char)) {
+        for (start = i++; i < length && WORD_PATTERN.test(text[i]!); i++);
+        prev = text.slice(start, i);
+      } else {
+        if (char === "{") {
+          depth++;
+        } else if (char === "}") {
+          depth--;
+        }
+        prev = char;
+        i++;
+      }
+    }
+  };
+
+  /**
+   * Scans the code of an expression container, from its opening brace past its
+   * closing one.
+   */
+  const scanExpression = () => {
+    i++;
+    scanCode(true);
+    i++;
+  };
+
+  /**
+   * Reads a tag or attribute name.
+   */
+  const readName = () => {
+    const start = i;
+    while (i < length && NAME_PATTERN.test(text[i]!)) {
+      i++;
+    }
+    return text.slice(start, i);
+  };
+
+  /**
+   * Skips whitespace.
+   */
+  const skipWhitespace = () => {
+    while (i < length && WHITESPACE_PATTERN.test(text[i]!)) {
+      i++;
+    }
+  };
+
+  /**
+   * Turns the expression container of an attribute value into a quoted value.
+   */
+  const quoteExpression = (start: number, end: number) => {
+    const inner = text.slice(start + 1, end - 1);
+    const literal = inner.trim();
+
+    reset(start, end);
+    if (LITERAL_PATTERN.test(literal)) {
+      const offset = start + 1 + inner.indexOf(literal);
+      const last = offset + literal.length - 1;
+
+      keep(offset + 1, last);
+      result[offset] = result[last] = '"';
+    } else {
+      result[start] = result[end - 1] = '"';
+      if (end - start > 2) {
+        expressions.push([start + 1, end - 1]);
+      }
+    }
+  };
+
+  /**
+   * Scans a JSX element, from the `<` of its start tag past its end tag.
+   *
+   * @returns Whether there is an element, rather than e.g. a type parameter.
+   */
+  const scanElement = () => {
+    const start = i;
+    const count = expressions.length;
+    let tag, offset;
+
+    i++;
+    if (text[i] === ">") {
+      i++;
+      if (scanChildren(undefined)) {
+        return true;
+      }
+    } else if ((tag = readName())) {
+      keep(start, i);
+      while (i < length) {
+        skipWhitespace();
+        if (text.startsWith("/>", i)) {
+          keep(i, (i += 2));
+          return true;
+        }
+        if (text[i] === ">") {
+          keep(i, ++i);
+          if (scanChildren(tag)) {
+            return true;
+          }
+          break;
+        }
+        offset = i;
+        if (text[i] === "{") {
+          // a spread attribute
+          scanExpression();
+          reset(offset, i);
+          continue;
+        }
+        if (!readName()) {
+          break;
+        }
+        keep(offset, i);
+        skipWhitespace();
+        if (text[i] !== "=") {
+          continue;
+        }
+        keep(i, ++i);
+        skipWhitespace();
+        offset = i;
+        if (text[i] === '"' || text[i] === "'") {
+          skipPast(text[i]!, false);
+          keep(offset, i);
+        } else if (text[i] === "{") {
+          scanExpression();
+          quoteExpression(offset, i);
+        } else {
+          break;
+        }
+      }
+    }
+
+    reset(start, i);
+    expressions.length = count;
+    i = start;
+    return false;
+  };
+
+  /**
+   * Scans the children of a JSX element past its end tag.
+   *
+   * @param tag - The tag of the element, or undefined for a fragment.
+   * @returns Whether the end tag was found.
+   */
+  const scanChildren = (tag: string | undefined) => {
+    let start;
+
+    while (i < length) {
+      if (text[i] === "{") {
+        scanExpression();
+      } else if (text.startsWith("</", i)) {
+        start = i;
+        i += 2;
+        skipWhitespace();
+        if (readName() === (tag ?? "")) {
+          skipWhitespace();
+          if (text[i] === ">") {
+            i++;
+            if (tag) {
+              keep(start, i);
+            }
+            return true;
+          }
+        }
+      } else if (text[i] !== "<" || !scanElement()) {
+        i++;
+      }
+    }
+
+    return false;
+  };
+
+  scanCode(false);
+
+  return result.join("");
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("extractJsxTags", () => {
+    /**
+     * Extracts the tags, with consecutive blanks collapsed.
+     */
+    const extract = (text: string) => {
+      const expressions: [number, number][] = [];
+      const result = extractJsxTags(text, expressions);
+
+      expect(result).toHaveLength(text.length);
+      return [result.replace(/ +/g, " ").trim(), expressions];
+    };
+
+    /**
+     * Finds the offsets of a part of a text.
+     */
+    const span = (text: string, part: string) => {
+      const start = text.indexOf(part);
+      return [start, start + part.length];
+    };
+
+    it("keeps the tags of JSX elements only", () => {
+      const text = [
+        'import { save } from "./save";',
+        "// <p> in a comment",
+        "/* <p> in another */",
+        "export const App = ({ items }) => (",
+        '  <main id="app">',
+        "    <>{items.map(item => <li key={item}>{'<' + item}</li>)}</>",
+        '    <button on:click="save" type={"submit"}>Save</button>',
+        "  </main>",
+        ");",
+      ].join("\n");
+      const [result, expressions] = extract(text);
+      const key = text.indexOf("{item}>") + 1;
+
+      expect((result as string).split("\n").map(line => line.trim())).toEqual([
+        '<main id="app">',
+        '<li key=" "> </li>',
+        '<button on:click="save" type= "submit" > </button>',
+        "</main>",
+      ]);
+      expect(expressions).toEqual([[key, key + 4]]);
+    });
+
+    it("turns string literals into quoted values", () => {
+      const text = "x = <a on='a b' if={ 'c' } render={`d`} result={`${e}`} />";
+
+      expect(extract(text)).toEqual([
+        `<a on='a b' if= "c" render= "d" result=" " />`,
+        [span(text, "`${e}`")],
+      ]);
+    });
+
+    it("blanks spread attributes and nested elements out of values", () => {
+      const text =
+        'f(<Card {...props} slot={<p on="x" />} if={ok} disabled />)';
+
+      expect(extract(text)).toEqual([
+        '<Card slot=" " if=" " disabled />',
+        [span(text, '<p on="x" />'), span(text, "ok")],
+      ]);
+    });
+
+    it("skips type parameters, comparisons, strings and regular expressions", () => {
+      expect(
+        extract(
+          [
+            "const f = <T,>(a: T) => a < b;",
+            'const r = /<p on="x">/g, s = "<p>\\"", t = `<p>\\`${"}"}`;',
+            "return <T extends unknown>(x)",
+          ].join("\n"),
+        ),
+      ).toEqual(["", []]);
+    });
+
+    it("skips elements that are not closed", () => {
+      expect(extract("return <p>{x}<a/>")).toEqual(["", []]);
+      expect(extract("(<p><a/>")).toEqual(["<a/>", []]);
+      expect(extract("return <>")).toEqual(["", []]);
+      expect(extract("return <p a={}")).toEqual(["", []]);
+      expect(extract("return <p a=b>")).toEqual(["", []]);
+      expect(extract("return <p @>")).toEqual(["", []]);
+      expect(extract("return <p></q></p >")).toEqual(["<p> </p >", []]);
+      expect(extract("return <p></p")).toEqual(["", []]);
+    });
+
+    it("scans code nested in braces", () => {
+      expect(extract("if (a) { b = <i />; } } c = <b></b>")).toEqual([
+        "<i /> <b></b>",
+        [],
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,91 @@
+import { getLanguageService, TextDocument } from "vscode-html-languageservice";
+import { blank } from "./blank.mts";
+
+const LANG_PATTERN = /^["']?html["']?$/i;
+const parser = getLanguageService();
+
+/**
+ * Extracts the `<template>` block of a Vue single-file component.
+ *
+ * Everything but the content of the top-level template, i.e. the `<script>`
+ * and `<style>` blocks, the template tags themselves and any custom blocks, is
+ * blanked out, so offsets into the result are offsets into the component.
+ * Templates written in another language than HTML, such as Pug, are blanked
+ * out as well.
+ *
+ * @param text - The text of the component.
+ * @returns The text with only the HTML template left.
+ */
+export const extractVueTemplate = (text: string) => {
+  const template = parser
+    .parseHTMLDocument(TextDocument.create("", "html", 0, text))
+    .roots.find(({ tag }) => tag === "template");
+  const lang = template?.attributes?.["lang"];
+
+  if (!template?.startTagEnd || (lang != null && !LANG_PATTERN.test(lang))) {
+    return blank(text);
+  }
+
+  const { startTagEnd, endTagStart = text.length } = template;
+
+  return (
+    blank(text.slice(0, startTagEnd)) +
+    text.slice(startTagEnd, endTagStart) +
+    blank(text.slice(endTagStart))
+  );
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("extractVueTemplate", () => {
+    it("keeps the template content only", () => {
+      const text = [
+        '<script setup>\nconst a = "<div on=\\"x\\">";\n</script>',
+        '<template>\n  <button on:click="save">\n</template>',
+        "<style>\ndiv { color: red }\n</style>",
+      ].join("\n");
+      const result = extractVueTemplate(text);
+
+      expect(result).toHaveLength(text.length);
+      expect(result.split("\n").map(line => line.trim())).toEqual([
+        "",
+        "",
+        "",
+        "",
+        '<button on:click="save">',
+        "",
+        "",
+        "",
+        "",
+      ]);
+      expect(result.indexOf("<button")).toBe(text.indexOf("<button"));
+    });
+
+    it("keeps nested templates and explicit HTML templates", () => {
+      expect(
+        extractVueTemplate(
+          "<template lang='html'><template v-if='a'><p></p></template></template>",
+        ),
+      ).toBe(
+        "                      <template v-if='a'><p></p></template>           ",
+      );
+    });
+
+    it("keeps unclosed templates up to the end", () => {
+      expect(extractVueTemplate("<template><p>")).toBe("          <p>");
+    });
+
+    it("blanks out everything without an HTML template", () => {
+      expect(extractVueTemplate("<script>\r\n</script>")).toBe(
+        "        \r\n         ",
+      );
+      expect(extractVueTemplate('<template lang="pug">p</template>')).toBe(
+        " ".repeat(33),
+      );
+      expect(extractVueTemplate("<template")).toBe("         ");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,87 @@
+/**
+ * Computes the Levenshtein distance between two strings.
+ *
+ * @param a - First string.
+ * @param b - Second string.
+ * @returns The minimum number of single-character edits that turn `a` into
+ *          `b`.
+ */
+const getDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  let i, j, prev, tmp;
+
+  for (i = 1; i <= a.length; ++i) {
+    prev = row[0]!;
+    row[0] = i;
+    for (j = 1; j <= b.length; ++j) {
+      tmp = row[j]!;
+      row[j] =
+        a[i - 1] === b[j - 1] ? prev : Math.min(prev, row[j - 1]!, row[j]!) + 1;
+      prev = tmp;
+    }
+  }
+
+  return row[b.length]!;
+};
+
+/**
+ * Finds the candidate most similar to a value.
+ *
+ * Comparison is case-insensitive; ties are resolved in favor of the earliest
+ * candidate.
+ *
+ * @param value - The value to match.
+ * @param candidates - Non-empty list of acceptable values.
+ * @returns The closest candidate and its distance from the value.
+ */
+export const findClosest = (value: string, candidates: string[]) => {
+  const needle = value.toLowerCase();
+  let closest = candidates[0]!;
+  let distance = Infinity;
+  let candidate, cur;
+
+  for (candidate of candidates) {
+    if ((cur = getDistance(needle, candidate.toLowerCase())) < distance) {
+      closest = candidate;
+      distance = cur;
+    }
+  }
+
+  return { closest, distance };
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("findClosest", () => {
+    it("computes edit distances", () => {
+      expect(getDistance("", "abc")).toBe(3);
+      expect(getDistance("abc", "")).toBe(3);
+      expect(getDistance("kitten", "sitting")).toBe(3);
+      expect(getDistance("same", "same")).toBe(0);
+    });
+
+    it("returns the most similar candidate", () => {
+      expect(findClosest("smoth", ["auto", "instant", "smooth"])).toEqual({
+        closest: "smooth",
+        distance: 1,
+      });
+    });
+
+    it("ignores case", () => {
+      expect(findClosest("Append", ["prepend", "append"])).toEqual({
+        closest: "append",
+        distance: 0,
+      });
+    });
+
+    it("prefers the earliest candidate on a tie", () => {
+      expect(findClosest("x", ["a", "b"])).toEqual({
+        closest: "a",
+        distance: 1,
+      });
+    });
+  });
+}
+/* v8 ignore stop */
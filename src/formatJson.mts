@@ -0,0 +1,51 @@
+import { LintResult } from "./lint.mts";
+import { toLintMessage } from "./toLintMessage.mts";
+
+/**
+ * Formats lint results as JSON, for consumption by other tools.
+ *
+ * @param results - The lint results.
+ * @returns An array of files, each with its path and messages.
+ */
+export const formatJson = (results: LintResult[]) =>
+  `${JSON.stringify(
+    results.map(({ path, diagnostics }) => ({
+      filePath: path,
+      messages: diagnostics.map(extern.toLintMessage),
+    })),
+    null,
+    2,
+  )}\n`;
+
+let extern = { toLintMessage };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("formatJson", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("formats the messages of each file", () => {
+      extern.toLintMessage = (diagnostic: any) => diagnostic;
+
+      expect(
+        JSON.parse(
+          formatJson([
+            { path: "a.html", diagnostics: [] },
+            { path: "b.html", diagnostics: ["foo"] as any },
+          ]),
+        ),
+      ).toEqual([
+        { filePath: "a.html", messages: [] },
+        { filePath: "b.html", messages: ["foo"] },
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,184 @@
+import { LintResult } from "./lint.mts";
+import { toLintMessage } from "./toLintMessage.mts";
+
+const levels = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+  hint: "note",
+} as const;
+
+/**
+ * Formats lint results as a SARIF 2.1.0 log, understood by code scanning
+ * services such as GitHub's.
+ *
+ * File locations are relative to the `%SRCROOT%` base, i.e. the scanned
+ * directory.
+ *
+ * @param results - The lint results.
+ * @returns The SARIF log.
+ */
+export const formatSarif = (results: LintResult[]) => {
+  const rules: { id: string }[] = [];
+  const ruleIndices = new Map<string, number>();
+  const sarifResults = [];
+  let diagnostic, index;
+
+  for (const { path, diagnostics } of results) {
+    for (diagnostic of diagnostics) {
+      const { ruleId, severity, message, line, column, endLine, endColumn } =
+        extern.toLintMessage(diagnostic);
+
+      if (ruleId != null && (index = ruleIndices.get(ruleId)) == null) {
+        ruleIndices.set(ruleId, (index = rules.push({ id: ruleId }) - 1));
+      }
+
+      sarifResults.push({
+        ...(ruleId != null && { ruleId, ruleIndex: index }),
+        level: levels[severity],
+        message: { text: message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: path, uriBaseId: "%SRCROOT%" },
+              region: {
+                startLine: line,
+                startColumn: column,
+                endLine,
+                endColumn,
+              },
+            },
+          },
+        ],
+      });
+    }
+  }
+
+  return `${JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "keml-lint",
+              informationUri: "https://github.com/thealjey/keml-vscode",
+              rules,
+            },
+          },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2,
+  )}\n`;
+};
+
+let extern = { toLintMessage };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("formatSarif", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("formats an empty log", () => {
+      expect(JSON.parse(formatSarif([]))).toEqual({
+        $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+        version: "2.1.0",
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: "keml-lint",
+                informationUri: "https://github.com/thealjey/keml-vscode",
+                rules: [],
+              },
+            },
+            results: [],
+          },
+        ],
+      });
+    });
+
+    it("formats the results and their rules", () => {
+      extern.toLintMessage = (diagnostic: any) => ({
+        message: "foo",
+        line: 1,
+        column: 2,
+        endLine: 3,
+        endColumn: 4,
+        ...diagnostic,
+      });
+
+      const [run] = JSON.parse(
+        formatSarif([
+          {
+            path: "a.html",
+            diagnostics: [
+              { ruleId: "unused-action", severity: "warning" },
+              { ruleId: "log-attribute", severity: "info" },
+            ] as any,
+          },
+          {
+            path: "b/c.html",
+            diagnostics: [
+              { ruleId: "unused-action", severity: "hint" },
+              { ruleId: null, severity: "error" },
+            ] as any,
+          },
+        ]),
+      ).runs;
+      const location = (uri: string) => [
+        {
+          physicalLocation: {
+            artifactLocation: { uri, uriBaseId: "%SRCROOT%" },
+            region: { startLine: 1, startColumn: 2, endLine: 3, endColumn: 4 },
+          },
+        },
+      ];
+
+      expect(run.tool.driver.rules).toEqual([
+        { id: "unused-action" },
+        { id: "log-attribute" },
+      ]);
+      expect(run.results).toEqual([
+        {
+          ruleId: "unused-action",
+          ruleIndex: 0,
+          level: "warning",
+          message: { text: "foo" },
+          locations: location("a.html"),
+        },
+        {
+          ruleId: "log-attribute",
+          ruleIndex: 1,
+          level: "note",
+          message: { text: "foo" },
+          locations: location("a.html"),
+        },
+        {
+          ruleId: "unused-action",
+          ruleIndex: 0,
+          level: "note",
+          message: { text: "foo" },
+          locations: location("b/c.html"),
+        },
+        {
+          level: "error",
+          message: { text: "foo" },
+          locations: location("b/c.html"),
+        },
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
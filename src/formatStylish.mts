@@ -0,0 +1,204 @@
+import { LintResult } from "./lint.mts";
+import { toLintMessage } from "./toLintMessage.mts";
+
+/**
+ * Pluralizes a count of things.
+ *
+ * @param count - The count.
+ * @param noun - The singular noun.
+ * @returns The count followed by the noun.
+ */
+const pluralize = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Formats lint results for humans: the problems of each file in aligned
+ * columns, with messages on a single line, followed by a summary counting
+ * the problems by severity.
+ *
+ * @param results - The lint results.
+ * @returns The report, empty when there are no problems.
+ */
+export const formatStylish = (results: LintResult[]) => {
+  const counts = { error: 0, warning: 0, info: 0, hint: 0 };
+  let output = "";
+  let total = 0;
+
+  for (const { path, diagnostics } of results) {
+    if (!diagnostics.length) {
+      continue;
+    }
+
+    const rows = diagnostics.map(diagnostic => {
+      const { ruleId, severity, message, line, column } =
+        extern.toLintMessage(diagnostic);
+
+      ++counts[severity];
+      return [
+        `${line}:${column}`,
+        severity,
+        message.replace(/\s*\n\s*/g, " "),
+        ruleId ?? "",
+      ];
+    });
+    const widths = [0, 1, 2].map(i =>
+      Math.max(...rows.map(row => row[i]!.length)),
+    );
+
+    total += rows.length;
+    output += `\n${path}\n`;
+    for (const [position, severity, message, ruleId] of rows) {
+      output += `  ${position!.padStart(widths[0]!)}  ${severity!.padEnd(
+        widths[1]!,
+      )}  ${message!.padEnd(widths[2]!)}  ${ruleId}`.trimEnd();
+      output += "\n";
+    }
+  }
+
+  if (!total) {
+    return "";
+  }
+
+  const summary = [
+    pluralize(counts.error, "error"),
+    pluralize(counts.warning, "warning"),
+  ];
+
+  if (counts.info) {
+    summary.push(`${counts.info} info`);
+  }
+  if (counts.hint) {
+    summary.push(pluralize(counts.hint, "hint"));
+  }
+
+  return `${output}\n✖ ${pluralize(total, "problem")} (${summary.join(", ")})\n`;
+};
+
+let extern = { toLintMessage };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("formatStylish", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("formats nothing when there are no problems", () => {
+      expect(formatStylish([])).toBe("");
+      expect(formatStylish([{ path: "a.html", diagnostics: [] }])).toBe("");
+    });
+
+    it("formats the problems of each file", () => {
+      extern.toLintMessage = (diagnostic: any) => diagnostic;
+
+      expect(
+        formatStylish([
+          { path: "a.html", diagnostics: [] },
+          {
+            path: "b.html",
+            diagnostics: [
+              {
+                ruleId: "unused-action",
+                severity: "warning",
+                message: "foo",
+                line: 1,
+                column: 5,
+              },
+              {
+                ruleId: null,
+                severity: "error",
+                message: "bar baz",
+                line: 12,
+                column: 10,
+              },
+            ] as any,
+          },
+          {
+            path: "c.html",
+            diagnostics: [
+              {
+                ruleId: "log-attribute",
+                severity: "info",
+                message: "qux",
+                line: 3,
+                column: 1,
+              },
+            ] as any,
+          },
+        ]),
+      ).toBe(
+        [
+          "",
+          "b.html",
+          "    1:5  warning  foo      unused-action",
+          "  12:10  error    bar baz",
+          "",
+          "c.html",
+          "  3:1  info  qux  log-attribute",
+          "",
+          "✖ 3 problems (1 error, 1 warning, 1 info)",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("puts multi-line messages on a single line", () => {
+      extern.toLintMessage = (diagnostic: any) => diagnostic;
+
+      expect(
+        formatStylish([
+          {
+            path: "a.html",
+            diagnostics: [
+              {
+                ruleId: "unknown-event",
+                severity: "error",
+                message: "Unknown event 'clik'.\n  Did you mean 'click'?",
+                line: 1,
+                column: 5,
+              },
+              {
+                ruleId: "unused-action",
+                severity: "warning",
+                message: "foo",
+                line: 2,
+                column: 1,
+              },
+            ] as any,
+          },
+        ]),
+      ).toBe(
+        [
+          "",
+          "a.html",
+          "  1:5  error    Unknown event 'clik'. Did you mean 'click'?  unknown-event",
+          "  2:1  warning  foo                                          unused-action",
+          "",
+          "✖ 2 problems (1 error, 1 warning)",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("counts every severity in the summary", () => {
+      extern.toLintMessage = (diagnostic: any) => diagnostic;
+
+      const diagnostics = ["info", "info", "hint", "hint", "hint"].map(
+        severity => ({ severity, message: "", line: 1, column: 1 }),
+      ) as any;
+
+      expect(formatStylish([{ path: "a.html", diagnostics }])).toMatch(
+        /\n✖ 5 problems \(0 errors, 0 warnings, 2 info, 3 hints\)\n$/,
+      );
+      expect(
+        formatStylish([{ path: "a.html", diagnostics: diagnostics.slice(2) }]),
+      ).toMatch(/\(0 errors, 0 warnings, 3 hints\)\n$/);
+    });
+  });
+}
+/* v8 ignore stop */
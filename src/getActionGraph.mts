@@ -0,0 +1,400 @@
+import { Location } from "vscode";
+import { docs } from "./data.mts";
+import { getElement } from "./getElement.mts";
+import { getNamespace } from "./getNamespace.mts";
+import {
+  actionKinds,
+  definitionResolvers,
+  referenceResolvers,
+} from "./resolvers.mts";
+
+/**
+ * Collects the nodes reachable from a node in one direction.
+ *
+ * @param id - The starting node.
+ * @param next - Maps a node to its neighbors in the direction of travel.
+ * @param result - Receives the reachable nodes, including the starting one.
+ */
+const traverse = (
+  id: string,
+  next: Map<string, string[]>,
+  result: Set<string>,
+) => {
+  const stack = [id];
+  const seen = new Set(stack);
+  let cur, neighbor;
+
+  while ((cur = stack.pop()) != null) {
+    result.add(cur);
+    for (neighbor of next.get(cur) ?? []) {
+      if (!seen.has(neighbor)) {
+        seen.add(neighbor);
+        stack.push(neighbor);
+      }
+    }
+  }
+};
+
+/**
+ * Builds the graph of how actions flow between the elements of the workspace:
+ * elements point to the actions they define (e.g. `on:click`, `result`), and
+ * actions point to the elements subscribing to them (e.g. `on`, `render`), so
+ * that following the edges reads trigger → subscriber → result → render.
+ * Actions of different namespaces are different nodes, identified by
+ * `namespace:kind:name`.
+ *
+ * @param filter - Narrows the graph down to a document and/or to the
+ *                 transitive closure of an action.
+ * @returns The nodes and edges of the graph.
+ */
+export const getActionGraph = ({ uri, action }: ActionGraphFilter = {}) => {
+  const nodes = new Map<string, ActionGraphNode>();
+  const edges = new Map<string, ActionGraphEdge>();
+  const defined = new Set<string>();
+  let kind, resolver, definition, name, ranges, range, element, id, elementId;
+  let namespace;
+
+  for (const cur of extern.docs.values()) {
+    namespace = extern.getNamespace(cur.uri);
+    for (kind of actionKinds) {
+      for ([resolver, definition] of [
+        [definitionResolvers[kind], true],
+        [referenceResolvers[kind], false],
+      ] as const) {
+        for ([name, ranges] of resolver(cur)) {
+          id = `${namespace}:${kind}:${name}`;
+
+          for (range of ranges) {
+            element = extern.getElement(cur, range);
+            elementId = `${cur.url}#${element.range.start.line}:${element.range.start.character}`;
+
+            if (!nodes.has(elementId)) {
+              nodes.set(elementId, {
+                id: elementId,
+                type: "element",
+                label: `<${element.tag}>`,
+                detail: `${cur.uri.path.split("/").pop()}:${element.range.start.line + 1}`,
+                location: new extern.Location(cur.uri, element.range),
+              });
+            }
+
+            if (!nodes.has(id) || (definition && !defined.has(id))) {
+              nodes.set(id, {
+                id,
+                type: kind,
+                label: name,
+                detail: `${kind} action`,
+                location: new extern.Location(cur.uri, range),
+              });
+            }
+
+            if (definition) {
+              defined.add(id);
+            }
+
+            const [from, to] = definition ? [elementId, id] : [id, elementId];
+            edges.set(`${from}\n${to}\n${element.attribute}`, {
+              from,
+              to,
+              label: element.attribute,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  let keep: Set<string> | undefined;
+
+  if (action != null) {
+    const forward = new Map<string, string[]>();
+    const backward = new Map<string, string[]>();
+
+    for (const { from, to } of edges.values()) {
+      forward.set(from, (forward.get(from) ?? []).concat(to));
+      backward.set(to, (backward.get(to) ?? []).concat(from));
+    }
+
+    keep = new Set();
+    if (nodes.has(action)) {
+      traverse(action, forward, keep);
+      traverse(action, backward, keep);
+    }
+  }
+
+  if (uri != null) {
+    const inFile = new Set<string>();
+
+    for (const node of nodes.values()) {
+      if (
+        node.type === "element" &&
+        node.location.uri.toString() === uri &&
+        (!keep || keep.has(node.id))
+      ) {
+        inFile.add(node.id);
+      }
+    }
+
+    keep = new Set(inFile);
+    for (const { from, to } of edges.values()) {
+      if (inFile.has(from)) {
+        keep.add(to);
+      } else if (inFile.has(to)) {
+        keep.add(from);
+      }
+    }
+  }
+
+  const graph: ActionGraph = { nodes: [], edges: [] };
+
+  for (const node of nodes.values()) {
+    if (!keep || keep.has(node.id)) {
+      graph.nodes.push(node);
+    }
+  }
+
+  for (const edge of edges.values()) {
+    if (!keep || (keep.has(edge.from) && keep.has(edge.to))) {
+      graph.edges.push(edge);
+    }
+  }
+
+  return graph;
+};
+
+let extern = { Location, docs, getElement, getNamespace };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeAll, afterAll } = import.meta.vitest;
+  const { Document } = await import("./document.mts");
+  const { setExclude, setInclude, setLanguageIds } = await import("./data.mts");
+  const { TextDocument, Uri } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getActionGraph", () => {
+    const a = Uri.file("/a.html");
+    const b = Uri.file("/b.html");
+
+    const summarize = ({ nodes, edges }: ActionGraph) => ({
+      nodes: nodes.map(({ id, type, label, detail }) => ({
+        id: id.replace(/^file:\/\/\//, ""),
+        type,
+        label,
+        detail,
+      })),
+      edges: edges.map(({ from, to, label }) =>
+        `${from} -${label}-> ${to}`.replaceAll("file:///", ""),
+      ),
+    });
+
+    beforeAll(() => {
+      setLanguageIds(["html"]);
+      setExclude([]);
+      setInclude([]);
+      extern = { ...origExtern, getNamespace: () => "site" };
+      extern.docs = new Map([
+        [
+          a.toString(),
+          new Document(
+            new TextDocument(
+              a,
+              "html",
+              1,
+              [
+                '<button on:click="save"></button>',
+                '<form on="save" post="/todos" result="todoList" reset="save"></form>',
+                '<ul render="todoList"></ul>',
+              ].join("\n"),
+            ) as any,
+          ),
+        ],
+        [
+          b.toString(),
+          new Document(
+            new TextDocument(
+              b,
+              "html",
+              1,
+              [
+                '<p on="save"></p>',
+                '<input on:input="search" if="busy">',
+                '<ul on="search" result="found"></ul>',
+              ].join("\n"),
+            ) as any,
+          ),
+        ],
+      ]) as any;
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("builds the graph of the whole workspace", () => {
+      const graph = getActionGraph();
+
+      expect(summarize(graph)).toEqual({
+        nodes: [
+          {
+            id: "a.html#0:0",
+            type: "element",
+            label: "<button>",
+            detail: "a.html:1",
+          },
+          {
+            id: "site:event:save",
+            type: "event",
+            label: "save",
+            detail: "event action",
+          },
+          {
+            id: "a.html#1:0",
+            type: "element",
+            label: "<form>",
+            detail: "a.html:2",
+          },
+          {
+            id: "site:result:todoList",
+            type: "result",
+            label: "todoList",
+            detail: "result action",
+          },
+          {
+            id: "a.html#2:0",
+            type: "element",
+            label: "<ul>",
+            detail: "a.html:3",
+          },
+          {
+            id: "b.html#1:0",
+            type: "element",
+            label: "<input>",
+            detail: "b.html:2",
+          },
+          {
+            id: "site:event:search",
+            type: "event",
+            label: "search",
+            detail: "event action",
+          },
+          {
+            id: "b.html#0:0",
+            type: "element",
+            label: "<p>",
+            detail: "b.html:1",
+          },
+          {
+            id: "b.html#2:0",
+            type: "element",
+            label: "<ul>",
+            detail: "b.html:3",
+          },
+          {
+            id: "site:state:busy",
+            type: "state",
+            label: "busy",
+            detail: "state action",
+          },
+          {
+            id: "site:result:found",
+            type: "result",
+            label: "found",
+            detail: "result action",
+          },
+        ],
+        edges: [
+          "a.html#0:0 -on:click-> site:event:save",
+          "site:event:save -on-> a.html#1:0",
+          "site:event:save -reset-> a.html#1:0",
+          "a.html#1:0 -result-> site:result:todoList",
+          "site:result:todoList -render-> a.html#2:0",
+          "b.html#1:0 -on:input-> site:event:search",
+          "site:event:save -on-> b.html#0:0",
+          "site:event:search -on-> b.html#2:0",
+          "site:state:busy -if-> b.html#1:0",
+          "b.html#2:0 -result-> site:result:found",
+        ],
+      });
+      const find = (id: string) => graph.nodes.find(node => node.id === id)!;
+
+      expect(find("site:event:save").location.range.start).toEqual({
+        line: 0,
+        character: 18,
+      });
+      expect(find("site:state:busy").location.uri.toString()).toBe(
+        b.toString(),
+      );
+    });
+
+    it("narrows the graph down to a document", () => {
+      expect(summarize(getActionGraph({ uri: b.toString() }))).toEqual({
+        nodes: [
+          expect.objectContaining({ id: "site:event:save" }),
+          expect.objectContaining({ id: "b.html#1:0" }),
+          expect.objectContaining({ id: "site:event:search" }),
+          expect.objectContaining({ id: "b.html#0:0" }),
+          expect.objectContaining({ id: "b.html#2:0" }),
+          expect.objectContaining({ id: "site:state:busy" }),
+          expect.objectContaining({ id: "site:result:found" }),
+        ],
+        edges: [
+          "b.html#1:0 -on:input-> site:event:search",
+          "site:event:save -on-> b.html#0:0",
+          "site:event:search -on-> b.html#2:0",
+          "site:state:busy -if-> b.html#1:0",
+          "b.html#2:0 -result-> site:result:found",
+        ],
+      });
+    });
+
+    it("narrows the graph down to the closure of an action", () => {
+      expect(
+        summarize(getActionGraph({ action: "site:result:todoList" })),
+      ).toEqual({
+        nodes: [
+          expect.objectContaining({ id: "a.html#0:0" }),
+          expect.objectContaining({ id: "site:event:save" }),
+          expect.objectContaining({ id: "a.html#1:0" }),
+          expect.objectContaining({ id: "site:result:todoList" }),
+          expect.objectContaining({ id: "a.html#2:0" }),
+        ],
+        edges: [
+          "a.html#0:0 -on:click-> site:event:save",
+          "site:event:save -on-> a.html#1:0",
+          "site:event:save -reset-> a.html#1:0",
+          "a.html#1:0 -result-> site:result:todoList",
+          "site:result:todoList -render-> a.html#2:0",
+        ],
+      });
+      expect(
+        summarize(
+          getActionGraph({ action: "site:event:save", uri: b.toString() }),
+        ),
+      ).toEqual({
+        nodes: [
+          expect.objectContaining({ id: "site:event:save" }),
+          expect.objectContaining({ id: "b.html#0:0" }),
+        ],
+        edges: ["site:event:save -on-> b.html#0:0"],
+      });
+      expect(getActionGraph({ action: "site:event:missing" })).toEqual({
+        nodes: [],
+        edges: [],
+      });
+    });
+
+    it("keeps the actions of different namespaces apart", () => {
+      extern.getNamespace = uri => (uri === a ? "site" : "admin");
+
+      const { edges } = summarize(getActionGraph());
+
+      extern.getNamespace = () => "site";
+      expect(edges).toContain("site:event:save -on-> a.html#1:0");
+      expect(edges).toContain("admin:event:save -on-> b.html#0:0");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,101 @@
+import { Location } from "vscode";
+import { getNamespaceDocs } from "./getNamespaceDocs.mts";
+
+/**
+ * Collects the documentation of the definitions of an action across the
+ * documents of a namespace.
+ *
+ * @param action - The name of the action.
+ * @param kind - The namespace of the action.
+ * @param namespace - The namespace of the documents to collect from.
+ * @returns The descriptions along with the locations of the definitions they
+ *          document.
+ */
+export const getAnnotations = (
+  action: string,
+  kind: ActionKind,
+  namespace: string,
+) => {
+  const result = [];
+  let annotations, description, range;
+
+  for (const cur of extern.getNamespaceDocs(namespace)) {
+    if ((annotations = cur.annotations[kind].get(action))) {
+      for ({ description, range } of annotations) {
+        result.push({
+          description,
+          location: new extern.Location(cur.uri, range),
+        });
+      }
+    }
+  }
+
+  return result;
+};
+
+let extern = { Location, getNamespaceDocs };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getAnnotations", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("collects the annotations of every document of the namespace", () => {
+      const annotations = (event: [string, ActionAnnotation[]][]) => ({
+        event: new Map(event),
+        state: new Map(),
+        result: new Map(),
+      });
+
+      extern.Location = class {
+        constructor(
+          public uri: any,
+          public range: any,
+        ) {}
+      } as any;
+      extern.getNamespaceDocs = fn(() => [
+        {
+          uri: "a",
+          annotations: annotations([
+            [
+              "save",
+              [
+                { description: "A", range: 1 as any },
+                { description: "B", range: 2 as any },
+              ],
+            ],
+          ]),
+        },
+        { uri: "b", annotations: annotations([]) },
+        {
+          uri: "c",
+          annotations: annotations([
+            ["save", [{ description: "C", range: 3 as any }]],
+          ]),
+        },
+      ]) as any;
+
+      expect(getAnnotations("save", "event", "site")).toEqual([
+        { description: "A", location: { uri: "a", range: 1 } },
+        { description: "B", location: { uri: "a", range: 2 } },
+        { description: "C", location: { uri: "c", range: 3 } },
+      ]);
+      expect(getAnnotations("save", "state", "site")).toEqual([]);
+      expect(extern.getNamespaceDocs).toHaveBeenCalledWith("site");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,28 @@
+const BINDING_PATTERN = /^(?::|v-bind:)(.+)$/;
+
+/**
+ * Gets the name of the attribute a Vue binding (`:name` or `v-bind:name`)
+ * binds to. Its value is a JavaScript expression evaluated at runtime, rather
+ * than a literal value.
+ *
+ * @param name - The name of the attribute to check.
+ * @returns The bound attribute name, or undefined if it is not a binding.
+ */
+export const getBoundName = (name: string) => BINDING_PATTERN.exec(name)?.[1];
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("getBoundName", () => {
+    it("returns the bound attribute name of bindings only", () => {
+      expect(getBoundName(":on")).toBe("on");
+      expect(getBoundName("v-bind:result")).toBe("result");
+      expect(getBoundName(":on:click")).toBe("on:click");
+      expect(getBoundName("on")).toBeUndefined();
+      expect(getBoundName(":")).toBeUndefined();
+      expect(getBoundName("v-on:click")).toBeUndefined();
+    });
+  });
+}
+/* v8 ignore stop */
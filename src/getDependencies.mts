@@ -0,0 +1,105 @@
+import { isEventFilter } from "./isEventFilter.mts";
+import { isPosition } from "./isPosition.mts";
+import { isScrollDependent } from "./isScrollDependent.mts";
+import { isTagOnDependent } from "./isTagOnDependent.mts";
+import { isTagSseDependent } from "./isTagSseDependent.mts";
+
+/**
+ * Lists the attributes an attribute depends on to have any effect.
+ *
+ * Each entry is a group of alternatives: the attribute only works when at
+ * least one member of every group (or its `x-` prefixed equivalent) is present
+ * on the same element.
+ *
+ * @param tag - The tag name of the element.
+ * @param name - The name of the attribute.
+ * @returns The groups of required attributes.
+ */
+export const getDependencies = (tag: string, name: string) => {
+  const result: string[][] = [];
+
+  if (extern.isEventFilter(name)) {
+    result.push([`on${name.slice(name.indexOf(":"))}`]);
+  }
+  if (extern.isTagSseDependent(tag, name)) {
+    result.push(["on", "sse"]);
+  }
+  if (extern.isTagOnDependent(tag, name)) {
+    result.push(["on"]);
+  }
+  if (extern.isPosition(name)) {
+    result.push(["render"]);
+  }
+  if (extern.isScrollDependent(name)) {
+    result.push(["scroll"]);
+  }
+
+  return result;
+};
+
+let extern = {
+  isEventFilter,
+  isPosition,
+  isScrollDependent,
+  isTagOnDependent,
+  isTagSseDependent,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  describe("getDependencies", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("returns nothing for an independent attribute", () => {
+      expect(getDependencies("div", "class")).toEqual([]);
+    });
+
+    it("event filters depend on their event", () => {
+      expect(getDependencies("div", "event:click")).toEqual([["on:click"]]);
+      expect(getDependencies("div", "x-event:keydown")).toEqual([
+        ["on:keydown"],
+      ]);
+    });
+
+    it("sse dependent attributes depend on 'on' or 'sse'", () => {
+      expect(getDependencies("div", "result")).toEqual([["on", "sse"]]);
+      expect(getDependencies("a", "href")).toEqual([]);
+    });
+
+    it("on dependent attributes depend on 'on'", () => {
+      expect(getDependencies("div", "once")).toEqual([["on"]]);
+      expect(getDependencies("form", "method")).toEqual([]);
+    });
+
+    it("position depends on 'render'", () => {
+      expect(getDependencies("div", "position")).toEqual([["render"]]);
+    });
+
+    it("scroll dependent attributes depend on 'scroll'", () => {
+      expect(getDependencies("div", "behavior")).toEqual([["scroll"]]);
+    });
+
+    it("collects every group", () => {
+      extern = {
+        isEventFilter: () => true,
+        isPosition: () => true,
+        isScrollDependent: () => true,
+        isTagOnDependent: () => true,
+        isTagSseDependent: () => true,
+      } as any;
+      expect(getDependencies("div", "event:x")).toEqual([
+        ["on:x"],
+        ["on", "sse"],
+        ["on"],
+        ["render"],
+        ["scroll"],
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,27 @@
+import { Diagnostic } from "vscode";
+
+/**
+ * Retrieves the code of a diagnostic, with or without a documentation link.
+ *
+ * @param diagnostic - The diagnostic.
+ * @returns The code, or undefined if there is none.
+ */
+export const getDiagnosticCode = ({ code }: Diagnostic) =>
+  typeof code === "object" ? code.value : code;
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("getDiagnosticCode", () => {
+    it("handles any kind of code", () => {
+      const convert = (code: unknown) => getDiagnosticCode({ code } as any);
+
+      expect(convert(undefined)).toBeUndefined();
+      expect(convert("a")).toBe("a");
+      expect(convert(1)).toBe(1);
+      expect(convert({ value: "b", target: {} })).toBe("b");
+    });
+  });
+}
+/* v8 ignore stop */
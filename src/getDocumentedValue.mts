@@ -0,0 +1,48 @@
+import { IValueData, MarkupKind } from "vscode-html-languageservice";
+
+const titles: Record<ActionKind, string> = {
+  event: "Event Action",
+  state: "State Action",
+  result: "Result Action",
+};
+
+/**
+ * Generates metadata for a documented action, using its documentation in place
+ * of the generic description.
+ *
+ * @param name - The name of the action.
+ * @param kind - The namespace of the action.
+ * @param documentation - Markdown documenting the action.
+ * @returns An {@link IValueData} object describing the action.
+ */
+export const getDocumentedValue = (
+  name: string,
+  kind: ActionKind,
+  documentation: string,
+): IValueData => ({
+  name,
+  description: {
+    kind: MarkupKind.Markdown,
+    value: `**${titles[kind]}**: \`${name}\`\n\n${documentation}`,
+  },
+});
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("getDocumentedValue", () => {
+    it("uses the documentation", () => {
+      expect(
+        getDocumentedValue("ready", "state", "Set by *our* script."),
+      ).toEqual({
+        name: "ready",
+        description: {
+          kind: MarkupKind.Markdown,
+          value: "**State Action**: `ready`\n\nSet by *our* script.",
+        },
+      });
+    });
+  });
+}
+/* v8 ignore stop */
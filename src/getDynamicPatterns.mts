@@ -0,0 +1,84 @@
+import { escapeRegExp } from "./escapeRegExp.mts";
+
+const WHITESPACE_PATTERN = /\s/;
+
+/**
+ * Turns the whitespace separated actions of an attribute value that partly
+ * depend on template interpolations into patterns matching any action they
+ * may produce at runtime, e.g. `save_{{ id }}` into `/^save_\S*$/`.
+ *
+ * @param value - The attribute value.
+ * @param interpolations - Start and end offsets of the interpolations in the
+ *   value, in order.
+ * @returns One pattern per dynamic action.
+ */
+export const getDynamicPatterns = (
+  value: string,
+  interpolations: [number, number][],
+) => {
+  const result: RegExp[] = [];
+  let source = "";
+  let dynamic = false;
+  let offset = 0;
+  let char;
+
+  /**
+   * Ends the current action, keeping it if it is dynamic.
+   */
+  const flush = () => {
+    if (dynamic) {
+      result.push(new RegExp(`^${source}$`));
+    }
+    source = "";
+    dynamic = false;
+  };
+
+  for (const [start, end] of [
+    ...interpolations,
+    [value.length, value.length] as const,
+  ]) {
+    for (; offset < start; offset++) {
+      if (WHITESPACE_PATTERN.test((char = value[offset]!))) {
+        flush();
+      } else {
+        source += escapeRegExp(char);
+      }
+    }
+    if (start < end) {
+      if (!source.endsWith("\\S*")) {
+        source += "\\S*";
+      }
+      dynamic = true;
+      offset = end;
+    }
+  }
+  flush();
+
+  return result;
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("getDynamicPatterns", () => {
+    it("ignores static actions", () => {
+      expect(getDynamicPatterns("a b", [])).toEqual([]);
+    });
+
+    it("matches what interpolations may produce", () => {
+      const value = "a {{ x }} b_{{ y }}{{ z }}.c\t{% w %}d e";
+      const patterns = getDynamicPatterns(value, [
+        [2, 9],
+        [12, 19],
+        [19, 26],
+        [29, 36],
+      ]);
+
+      expect(patterns).toEqual([/^\S*$/, /^b_\S*\.c$/, /^\S*d$/]);
+      expect(patterns[1]!.test("b_1.c")).toBe(true);
+      expect(patterns[1]!.test("b_1xc")).toBe(false);
+    });
+  });
+}
+/* v8 ignore stop */
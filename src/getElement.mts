@@ -0,0 +1,19 @@
+import { Range } from "vscode";
+
+/**
+ * Finds the element and attribute holding an action name.
+ *
+ * @param cur - The document.
+ * @param range - The range of the action name.
+ * @returns The range of the start tag, the tag name and the attribute name.
+ */
+export const getElement = (cur: Document, range: Range) => {
+  const offset = cur.offsetAt(range.start);
+  const node = cur.findNodeAt(offset)!;
+
+  return {
+    range: cur.rangeBetween(node.start, node.startTagEnd!),
+    tag: node.tag!,
+    attribute: node.findAttrAt(offset)!.name,
+  };
+};
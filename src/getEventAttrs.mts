@@ -1,37 +1,36 @@
 import { IAttributeData, MarkupKind } from "vscode-html-languageservice";
+import { domEvents } from "./domEvents.mts";
+import { kemlEvents } from "./kemlEvents.mts";
 
 /**
- * Predefined Markdown descriptions for well-known custom events.
+ * The base URL of the MDN documentation of the Web APIs.
+ */
+const MDN_API_URL = "https://developer.mozilla.org/docs/Web/API";
+
+/**
+ * Describes when an event fires, in Markdown.
  *
- * The keys represent custom event names (e.g., `"reveal"`, `"conceal"`),
- * and the values are Markdown-formatted explanations of when those events fire
- * and how they are typically used.
+ * Custom KEML events come with their own description, native DOM events with
+ * the one from the catalog along with the interface of the event object, and
+ * any other event is assumed to be declared through the `keml.customEvents`
+ * setting.
  *
- * If an event name is not listed here, `getEventAttrs` will fall back to a
- * generic "behaves like native event" description.
+ * @param name - The event name.
+ * @returns The description.
  */
-const CUSTOM_EVENT_DESCRIPTIONS: Record<string, string> = {
-  reveal: `* Triggered when an element becomes **visible in the viewport**.
-* Fires on initial page load if the element is already visible.
-* Fires again whenever the element enters the viewport after scrolling.`,
-  conceal: `* Triggered when an element **leaves the viewport** after scrolling.
-* Complements \`reveal\`, allowing visibility-based behaviors.`,
-  navigate: `* Triggered on **browser history changes** via the History API.
-* Useful for responding to in-app navigation without a full page reload.`,
-  result: `* Triggered **after receiving a response with a successful status code**.
-* Fires once the new content is fully rendered and all elements with declared
-  actions are ready to run.
-* Even actions on elements rendered dynamically through this response will fire
-  correctly.
-* Useful for chaining actions after dynamic updates.`,
-  failure: `* Triggered **after receiving a response with an unsuccessful status code**.
-* Fires once the new content is fully rendered and all elements with declared
-  actions are ready to run.
-* Even actions on elements rendered dynamically through this response will fire
-  correctly.
-* Useful for chaining actions after dynamic updates.`,
-  discover: `* Triggered **when the element is first discovered**.
-* Will be re-emitted if the \`on:discover\` attribute is removed and then added back again.`,
+const describeEvent = (name: string) => {
+  if (Object.hasOwn(kemlEvents, name)) {
+    return kemlEvents[name]!;
+  }
+
+  if (Object.hasOwn(domEvents, name)) {
+    const { type, description } = domEvents[name]!;
+
+    return `* ${description}
+* Dispatches a [\`${type}\`](${MDN_API_URL}/${type}).`;
+  }
+
+  return "* A custom event, declared through the `keml.customEvents` setting.";
 };
 
 /**
@@ -52,24 +51,32 @@ const CUSTOM_EVENT_DESCRIPTIONS: Record<string, string> = {
  *   * Provides fine-grained control, such as hotkey filters or modifier checks.
  *
  * The descriptions are provided in Markdown format and rendered in VS Code’s
- * IntelliSense hover/tooltips.
+ * IntelliSense hover/tooltips. Native DOM events also link to their MDN page.
  *
  * @param name - The base event name (e.g., `"click"`, `"keydown"`, `"reveal"`).
  *
  * @returns An array of two {@link IAttributeData} entries:
  *          one for `on:{name}` and one for `event:{name}`.
  */
-export const getEventAttrs = (name: string): IAttributeData[] => [
-  {
-    name: `on:${name}`,
-    description: {
-      kind: MarkupKind.Markdown,
-      value: `**Attribute**: \`on:${name}\`
-
-${
-  CUSTOM_EVENT_DESCRIPTIONS[name] ??
-  `* Behaves like the native \`${name}\` event.`
-}
+export const getEventAttrs = (name: string): IAttributeData[] => {
+  const references =
+    Object.hasOwn(domEvents, name) ?
+      [
+        {
+          name: "MDN Reference",
+          url: `${MDN_API_URL}/${domEvents[name]!.target}/${name}_event`,
+        },
+      ]
+    : [];
+
+  return [
+    {
+      name: `on:${name}`,
+      description: {
+        kind: MarkupKind.Markdown,
+        value: `**Attribute**: \`on:${name}\`
+
+${describeEvent(name)}
 * Declares a **list of named actions** to run when the event fires.
   * Actions are **names**, not arbitrary JavaScript code.
   * Names can be **reused** across your KEML project.
@@ -89,13 +96,14 @@ Example:
 \`\`\`
 → Runs \`save\` and \`highlight\` actions only if **Ctrl** is pressed when
   clicking.`,
+      },
+      references,
     },
-  },
-  {
-    name: `event:${name}`,
-    description: {
-      kind: MarkupKind.Markdown,
-      value: `**Attribute**: \`event:${name}\`
+    {
+      name: `event:${name}`,
+      description: {
+        kind: MarkupKind.Markdown,
+        value: `**Attribute**: \`event:${name}\`
 
 * Defines **conditions** that must be satisfied for \`on:${name}\` actions to
   fire.
@@ -114,9 +122,11 @@ Condition rules:
 💡 Useful for hotkeys and modifiers. Example:
 \`event:keydown="ctrlKey, key=a"\`
 → fires only when **Ctrl+A** is pressed.`,
+      },
+      references,
     },
-  },
-];
+  ];
+};
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -126,6 +136,41 @@ if (import.meta.vitest) {
     it("returns 2 elements", () => {
       expect(getEventAttrs("foo").length).toBe(2);
     });
+
+    it("describes the event", () => {
+      const [on, filter] = getEventAttrs("click");
+
+      expect(on).toMatchObject({
+        name: "on:click",
+        description: {
+          value: expect.stringContaining(
+            "* Dispatches a [`PointerEvent`](https://developer.mozilla.org/docs/Web/API/PointerEvent).",
+          ),
+        },
+        references: [
+          {
+            name: "MDN Reference",
+            url: "https://developer.mozilla.org/docs/Web/API/Element/click_event",
+          },
+        ],
+      });
+      expect(filter).toMatchObject({
+        name: "event:click",
+        references: on!.references,
+      });
+      expect(getEventAttrs("reveal")[0]).toMatchObject({
+        description: {
+          value: expect.stringContaining("**visible in the viewport**"),
+        },
+        references: [],
+      });
+      expect(getEventAttrs("toString")[0]).toMatchObject({
+        description: {
+          value: expect.stringContaining("`keml.customEvents` setting"),
+        },
+        references: [],
+      });
+    });
   });
 }
 /* v8 ignore stop */
@@ -0,0 +1,43 @@
+import { getCustomEvents } from "./data.mts";
+import { domEvents } from "./domEvents.mts";
+import { kemlEvents } from "./kemlEvents.mts";
+
+const builtinEvents = Object.keys(kemlEvents).concat(Object.keys(domEvents));
+
+/**
+ * Lists the events an element may listen to: the custom KEML events, the
+ * native DOM events and the custom events declared by the user.
+ *
+ * @returns The event names, without duplicates.
+ */
+export const getEventNames = () =>
+  Array.from(new Set(builtinEvents.concat(extern.getCustomEvents())));
+
+let extern = { getCustomEvents };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getEventNames", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("lists the built-in and custom events once", () => {
+      extern.getCustomEvents = () => ["refresh", "click"];
+
+      const names = getEventNames();
+
+      expect(names).toContain("reveal");
+      expect(names).toContain("failure");
+      expect(names).toContain("transitionend");
+      expect(names.at(-1)).toBe("refresh");
+      expect(names.filter(name => name === "click")).toHaveLength(1);
+    });
+  });
+}
+/* v8 ignore stop */
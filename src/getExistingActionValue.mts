@@ -1,29 +1,41 @@
 import { Range } from "vscode";
 import { IValueData } from "vscode-html-languageservice";
-import { docs } from "./data.mts";
+import { docs, getExternalActions } from "./data.mts";
+import { describeAction } from "./describeAction.mts";
 
 /**
  * Retrieves the value data for an existing action by name, if it exists.
  *
+ * Actions declared by the project manifest exist as well. Documented actions
+ * are described by their documentation rather than by the value getter.
+ *
  * @param name - The name of the action.
  * @param definitionsGetter - Function to retrieve definitions from a document.
  * @param valueGetter - Function to retrieve value data for a given action name.
+ * @param kind - The namespace of the action.
+ * @param namespace - The namespace of the document the action is found in.
  * @returns The value data for the action, or undefined if not found.
  */
 export const getExistingActionValue = (
   name: string,
   definitionsGetter: (cur: Document) => Map<string, Range[]>,
-  valueGetter: (name: string) => IValueData
+  valueGetter: (name: string) => IValueData,
+  kind: ActionKind,
+  namespace: string,
 ) => {
+  if (extern.getExternalActions(namespace)[kind].has(name)) {
+    return extern.describeAction(name, kind, valueGetter, namespace);
+  }
+
   for (const cur of extern.docs.values()) {
     if (definitionsGetter(cur).has(name)) {
-      return valueGetter(name);
+      return extern.describeAction(name, kind, valueGetter, namespace);
     }
   }
   return;
 };
 
-let extern = { docs };
+let extern = { describeAction, docs, getExternalActions };
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -32,6 +44,7 @@ if (import.meta.vitest) {
     it,
     expect,
     afterAll,
+    beforeEach,
     vi: { fn },
   } = import.meta.vitest;
   const origExtern = extern;
@@ -39,10 +52,46 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("getExistingActionValue", () => {
+    const external = { description: "desc" } as ExternalAction;
+
+    beforeEach(() => {
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map([["declared", external]]),
+        result: new Map(),
+      }));
+      extern.describeAction = fn((name, _kind, valueGetter) =>
+        valueGetter(name),
+      );
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
 
+    it("describes actions declared by the manifest", () => {
+      const definitionsGetter = fn();
+      const valueGetter = fn(() => ({ value: 7 }) as any);
+
+      expect(
+        getExistingActionValue(
+          "declared",
+          definitionsGetter,
+          valueGetter,
+          "state",
+          "site",
+        ),
+      ).toEqual({ value: 7 });
+      expect(extern.getExternalActions).toHaveBeenCalledWith("site");
+      expect(extern.describeAction).toHaveBeenCalledWith(
+        "declared",
+        "state",
+        valueGetter,
+        "site",
+      );
+      expect(definitionsGetter).not.toHaveBeenCalled();
+    });
+
     it("returns value when a definition exists", () => {
       const dummyDoc = {} as Document;
       const name = "myAction";
@@ -60,10 +109,18 @@ if (import.meta.vitest) {
       const result = getExistingActionValue(
         name,
         definitionsGetter,
-        valueGetter
+        valueGetter,
+        "event",
+        "site",
       );
 
       expect(result).toBe(expectedValue);
+      expect(extern.describeAction).toHaveBeenCalledWith(
+        name,
+        "event",
+        valueGetter,
+        "site",
+      );
       expect(definitionsGetter).toHaveBeenCalledWith(dummyDoc);
       expect(valueGetter).toHaveBeenCalledWith(name);
     });
@@ -83,7 +140,9 @@ if (import.meta.vitest) {
       const result = getExistingActionValue(
         name,
         definitionsGetter,
-        valueGetter
+        valueGetter,
+        "event",
+        "site",
       );
 
       expect(result).toBeUndefined();
@@ -0,0 +1,53 @@
+import { Uri, workspace } from "vscode";
+import { getRoutes } from "./data.mts";
+
+/**
+ * Retrieves the routes of the server a resource is requesting, i.e. those of
+ * the route file of its workspace folder.
+ *
+ * @param uri - The URI of the resource.
+ * @returns The routes.
+ */
+export const getFolderRoutes = (uri: Uri) =>
+  extern.getRoutes(
+    extern.workspace.getWorkspaceFolder(uri)?.uri.toString() ?? "",
+  );
+
+let extern = { getRoutes, workspace };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getFolderRoutes", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("looks the routes up by workspace folder", () => {
+      extern.getRoutes = fn(() => []);
+      extern.workspace = {
+        getWorkspaceFolder: (uri: any) =>
+          uri && { uri: { toString: () => `file:///${uri}` } },
+      } as any;
+
+      getFolderRoutes("site" as any);
+      getFolderRoutes(undefined as any);
+
+      expect((extern.getRoutes as any).mock.calls).toEqual([
+        ["file:///site"],
+        [""],
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
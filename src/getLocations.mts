@@ -1,21 +1,24 @@
 import { Location, Range } from "vscode";
-import { docs } from "./data.mts";
+import { getNamespaceDocs } from "./getNamespaceDocs.mts";
 
 /**
- * Retrieves locations for a given value using a resolver function.
+ * Retrieves locations for a given value using a resolver function, among the
+ * documents of a namespace.
  *
  * @param value - The value to find locations for.
  * @param resolver - Function to retrieve ranges from a document.
+ * @param namespace - The namespace of the documents to search.
  * @returns An array of locations corresponding to the value.
  */
 export const getLocations = (
   value: string,
-  resolver: (cur: Document) => Map<string, Range[]>
+  resolver: (cur: Document) => Map<string, Range[]>,
+  namespace: string
 ) => {
   const result = [];
   let ranges, range;
 
-  for (const cur of extern.docs.values()) {
+  for (const cur of extern.getNamespaceDocs(namespace)) {
     if ((ranges = resolver(cur).get(value))) {
       for (range of ranges) {
         result.push(new extern.Location(cur.uri, range));
@@ -26,7 +29,7 @@ export const getLocations = (
   return result;
 };
 
-let extern = { Location, docs };
+let extern = { Location, getNamespaceDocs };
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -47,7 +50,7 @@ if (import.meta.vitest) {
     });
 
     it("returns mapped Location objects for matching values", () => {
-      // Mock docs as a Map of Document objects
+      // Mock the documents of the namespace
       const doc1 = { uri: "uri1" };
       const doc2 = { uri: "uri2" };
       const resolver = fn((cur: any) => {
@@ -57,16 +60,15 @@ if (import.meta.vitest) {
         return map;
       });
 
-      extern.docs = new Map([
-        ["doc1", doc1],
-        ["doc2", doc2],
-      ]) as any;
+      const getNamespaceDocs = fn(() => [doc1, doc2]);
+      extern.getNamespaceDocs = getNamespaceDocs as any;
       extern.Location = class {
         constructor(public uri: any, public range: any) {}
       };
 
-      const result = getLocations("value1", resolver);
+      const result = getLocations("value1", resolver, "site");
 
+      expect(getNamespaceDocs).toHaveBeenCalledWith("site");
       expect(result).toEqual([
         { uri: "uri1", range: { start: 0, end: 5 } },
         { uri: "uri2", range: { start: 10, end: 15 } },
@@ -76,12 +78,12 @@ if (import.meta.vitest) {
     it("returns an empty array when no matches are found", () => {
       const doc = { uri: "uri" };
       const resolver = fn(() => new Map());
-      extern.docs = new Map([["doc", doc]]) as any;
+      extern.getNamespaceDocs = fn(() => [doc]) as any;
       extern.Location = class {
         constructor(public uri: any, public range: any) {}
       };
 
-      const result = getLocations("missing", resolver);
+      const result = getLocations("missing", resolver, "site");
 
       expect(result).toEqual([]);
     });
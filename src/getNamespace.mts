@@ -0,0 +1,58 @@
+import { Uri, workspace } from "vscode";
+import { getSharedNamespaces } from "./data.mts";
+
+/**
+ * Tells which namespace of actions a resource belongs to.
+ *
+ * Every workspace folder has a namespace of its own, named after it, unless
+ * the `keml.sharedNamespaces` setting lists it along with other folders, which
+ * then share the namespace of the first one. Resources outside of every folder
+ * share the unnamed namespace.
+ *
+ * @param uri - The URI of the resource.
+ * @returns The name of the namespace.
+ */
+export const getNamespace = (uri: Uri) => {
+  const folder = extern.workspace.getWorkspaceFolder(uri);
+
+  if (!folder) {
+    return "";
+  }
+
+  for (const names of extern.getSharedNamespaces()) {
+    if (names.includes(folder.name)) {
+      return names[0]!;
+    }
+  }
+
+  return folder.name;
+};
+
+let extern = { getSharedNamespaces, workspace };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getNamespace", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("names the namespace after the folder, or its shared group", () => {
+      extern.getSharedNamespaces = () => [["docs"], ["site", "admin"]];
+      extern.workspace = {
+        getWorkspaceFolder: (uri: any) => uri && { name: uri },
+      } as any;
+
+      expect(getNamespace("mail" as any)).toBe("mail");
+      expect(getNamespace("site" as any)).toBe("site");
+      expect(getNamespace("admin" as any)).toBe("site");
+      expect(getNamespace(undefined as any)).toBe("");
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,49 @@
+import { docs } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
+
+/**
+ * Iterates over the documents of the internal store belonging to a namespace.
+ *
+ * @param namespace - The name of the namespace.
+ * @yields The documents of the namespace.
+ */
+export function* getNamespaceDocs(namespace: string) {
+  for (const cur of extern.docs.values()) {
+    if (extern.getNamespace(cur.uri) === namespace) {
+      yield cur;
+    }
+  }
+}
+
+let extern = { docs, getNamespace };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getNamespaceDocs", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("yields the documents of the namespace only", () => {
+      const a = { uri: "site/a" };
+      const b = { uri: "mail/b" };
+      const c = { uri: "site/c" };
+
+      extern.docs = new Map([
+        ["a", a],
+        ["b", b],
+        ["c", c],
+      ]) as any;
+      extern.getNamespace = (uri: any) => uri.split("/")[0];
+
+      expect([...getNamespaceDocs("site")]).toEqual([a, c]);
+      expect([...getNamespaceDocs("")]).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
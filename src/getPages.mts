@@ -0,0 +1,226 @@
+import { posix } from "node:path";
+import { workspace } from "vscode";
+import { docs } from "./data.mts";
+
+/**
+ * Finds the document an include directive refers to.
+ *
+ * The path is tried relative to the directory of the including document, then
+ * to the root of its workspace folder, with and without the extension of the
+ * including document, e.g. `{{> footer}}` in `page.hbs` tries `footer.hbs`.
+ * Failing that, any document whose path ends with it will do, as template
+ * engines usually look up a list of directories.
+ *
+ * @param cur - The including document.
+ * @param path - The path, as written in the directive.
+ * @param byPath - The documents, by path.
+ * @returns The included document, if any.
+ */
+const resolveInclude = (
+  cur: Document,
+  path: string,
+  byPath: Map<string, Document>,
+) => {
+  const dir = posix.dirname(cur.uri.path);
+  const root = extern.workspace.getWorkspaceFolder(cur.uri)?.uri.path ?? dir;
+  const ext = posix.extname(cur.uri.path);
+  const bases = path.startsWith("/") ? [root, dir] : [dir, root];
+  const suffix = posix.join(
+    "/",
+    posix.normalize(path).replace(/^(\.\.\/)+/, ""),
+  );
+  let base, candidate, key, result;
+
+  for (base of bases) {
+    candidate = posix.join(base, path);
+    result = byPath.get(candidate) ?? byPath.get(candidate + ext);
+    if (result) {
+      return result;
+    }
+  }
+
+  for ([key, result] of byPath) {
+    if (key.endsWith(suffix) || key.endsWith(suffix + ext)) {
+      return result;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Splits the documents of the internal store into pages, following their
+ * include directives.
+ *
+ * A page is a document no other one includes, along with every document it
+ * includes, directly or not. Documents only including each other make a page
+ * of their own.
+ *
+ * @returns Every document, along with the documents rendered with it on any of
+ *          its pages.
+ */
+export const getPages = () => {
+  const byPath = new Map<string, Document>();
+  const included = new Map<Document, Document[]>();
+  const result = new Map<Document, Set<Document>>();
+  let cur, next;
+
+  for (cur of extern.docs.values()) {
+    byPath.set(cur.uri.path, cur);
+  }
+
+  for (cur of byPath.values()) {
+    included.set(
+      cur,
+      cur.includes.flatMap(path => resolveInclude(cur!, path, byPath) ?? []),
+    );
+  }
+
+  const addPage = (root: Document) => {
+    const page = new Set([root]);
+
+    for (cur of page) {
+      for (next of included.get(cur)!) {
+        page.add(next);
+      }
+    }
+
+    for (cur of page) {
+      if (!result.has(cur)) {
+        result.set(cur, new Set());
+      }
+      for (next of page) {
+        result.get(cur)!.add(next);
+      }
+    }
+  };
+  const children = new Set(Array.from(included.values()).flat());
+
+  for (cur of included.keys()) {
+    if (!children.has(cur)) {
+      addPage(cur);
+    }
+  }
+
+  for (cur of included.keys()) {
+    if (!result.has(cur)) {
+      addPage(cur);
+    }
+  }
+
+  return new Map(
+    Array.from(result, ([cur, page]) => [cur, Array.from(page)] as const),
+  );
+};
+
+let extern = { docs, workspace };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getPages", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    const setDocs = (includes: Record<string, string[]>) => {
+      extern.docs = new Map(
+        Object.entries(includes).map(([path, includes]) => [
+          path,
+          { uri: { path }, includes },
+        ]),
+      ) as any;
+    };
+    const getPaths = () =>
+      Object.fromEntries(
+        Array.from(getPages(), ([cur, page]) => [
+          cur.uri.path,
+          page.map(({ uri }) => uri.path).sort(),
+        ]),
+      );
+
+    extern.workspace = {
+      getWorkspaceFolder: ({ path }: any) =>
+        path.startsWith("/site/") ? { uri: { path: "/site" } } : undefined,
+    } as any;
+
+    it("follows the include directives", () => {
+      setDocs({
+        "/site/index.html": ["layout", "partials/cart.html", "/nav.html"],
+        "/site/about.html": ["layout.html", "missing.html"],
+        "/site/layout.html": ["../site/footer.html"],
+        "/site/footer.html": [],
+        "/site/nav.html": [],
+        "/site/templates/partials/cart.html": [],
+        "/other/page.html": ["/other/footer.html"],
+        "/other/footer.html": [],
+      });
+
+      expect(getPaths()).toEqual({
+        "/site/index.html": [
+          "/site/footer.html",
+          "/site/index.html",
+          "/site/layout.html",
+          "/site/nav.html",
+          "/site/templates/partials/cart.html",
+        ],
+        "/site/about.html": [
+          "/site/about.html",
+          "/site/footer.html",
+          "/site/layout.html",
+        ],
+        "/site/layout.html": [
+          "/site/about.html",
+          "/site/footer.html",
+          "/site/index.html",
+          "/site/layout.html",
+          "/site/nav.html",
+          "/site/templates/partials/cart.html",
+        ],
+        "/site/footer.html": [
+          "/site/about.html",
+          "/site/footer.html",
+          "/site/index.html",
+          "/site/layout.html",
+          "/site/nav.html",
+          "/site/templates/partials/cart.html",
+        ],
+        "/site/nav.html": [
+          "/site/footer.html",
+          "/site/index.html",
+          "/site/layout.html",
+          "/site/nav.html",
+          "/site/templates/partials/cart.html",
+        ],
+        "/site/templates/partials/cart.html": [
+          "/site/footer.html",
+          "/site/index.html",
+          "/site/layout.html",
+          "/site/nav.html",
+          "/site/templates/partials/cart.html",
+        ],
+        "/other/page.html": ["/other/footer.html", "/other/page.html"],
+        "/other/footer.html": ["/other/footer.html", "/other/page.html"],
+      });
+    });
+
+    it("makes pages of documents only including each other", () => {
+      setDocs({
+        "/site/a.html": ["b.html"],
+        "/site/b.html": ["a.html"],
+        "/site/c.html": [],
+      });
+
+      expect(getPaths()).toEqual({
+        "/site/a.html": ["/site/a.html", "/site/b.html"],
+        "/site/b.html": ["/site/a.html", "/site/b.html"],
+        "/site/c.html": ["/site/c.html"],
+      });
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,102 @@
+/**
+ * The endpoint attributes setting the method of the request, by priority.
+ */
+const methodAttributes = ["post", "put", "delete"];
+
+/**
+ * The endpoint attributes of `GET` requests, by priority.
+ */
+const getAttributes = ["get", "action", "href", "src"];
+
+/**
+ * Works out the request an element sends when triggered.
+ *
+ * The method is `GET` by default, overridden by the first of the `post`,
+ * `put` and `delete` attributes found, in this order, and finally by the
+ * `method` attribute. The URL comes from that same attribute, or else from the
+ * first of the `get`, `action`, `href` and `src` attributes found. Conditional
+ * `x-` attributes are left out, as they only apply when their condition holds.
+ *
+ * @param attributes - The attributes of the element.
+ * @returns The method in upper case, `undefined` when only known at runtime,
+ *          along with the attribute holding the URL, if any.
+ */
+export const getRequest = (attributes: Map<string, Attr>) => {
+  let method: string | undefined = "GET";
+  let url: Attr | undefined;
+  let name;
+
+  for (name of methodAttributes) {
+    if ((url = attributes.get(name))) {
+      method = name.toUpperCase();
+      break;
+    }
+  }
+
+  if (!url) {
+    for (name of getAttributes) {
+      if ((url = attributes.get(name))) {
+        break;
+      }
+    }
+  }
+
+  const override = attributes.get("method");
+
+  if (override?.value) {
+    method = override.interpolations ? undefined : override.value.toUpperCase();
+  }
+
+  return { method, url };
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("getRequest", () => {
+    const attrs = (values: Record<string, string>) =>
+      new Map(
+        Object.entries(values).map(([name, value]) => [
+          name,
+          { name, value } as Attr,
+        ]),
+      );
+
+    it("defaults to GET", () => {
+      expect(getRequest(attrs({}))).toEqual({
+        method: "GET",
+        url: undefined,
+      });
+      expect(getRequest(attrs({ src: "/a", get: "/b" }))).toMatchObject({
+        method: "GET",
+        url: { name: "get", value: "/b" },
+      });
+      expect(getRequest(attrs({ href: "/a", "x-post": "/b" }))).toMatchObject({
+        method: "GET",
+        url: { name: "href" },
+      });
+    });
+
+    it("follows the endpoint attributes in order", () => {
+      expect(
+        getRequest(attrs({ get: "/a", delete: "/b", put: "/c" })),
+      ).toMatchObject({ method: "PUT", url: { name: "put", value: "/c" } });
+    });
+
+    it("lets the method attribute override the method", () => {
+      expect(
+        getRequest(attrs({ src: "/todos", method: "patch" })),
+      ).toMatchObject({ method: "PATCH", url: { name: "src" } });
+      expect(getRequest(attrs({ post: "/todos", method: "" }))).toMatchObject({
+        method: "POST",
+      });
+
+      const dynamic = attrs({ post: "/todos", method: "<?= $m ?>" });
+
+      dynamic.get("method")!.interpolations = [[0, 9]];
+      expect(getRequest(dynamic)).toMatchObject({ method: undefined });
+    });
+  });
+}
+/* v8 ignore stop */
@@ -1,4 +1,4 @@
-import { Range } from "vscode";
+import { Location, Range, Uri } from "vscode";
 
 declare global {
   type Document = import("./document.mjs", {
@@ -38,5 +38,410 @@ declare global {
      * The range covering the entire attribute, from start to end.
      */
     fullRange: Range;
+
+    /**
+     * Start and end offsets of the template interpolations in the value, if
+     * any.
+     */
+    interpolations?: [number, number][];
+  }
+
+  /**
+   * The namespace an action belongs to.
+   */
+  type ActionKind = "event" | "state" | "result";
+
+  /**
+   * The code of a diagnostic, by which its severity can be configured.
+   */
+  type RuleCode =
+    | "undefined-action"
+    | "unused-action"
+    | "missing-dependency"
+    | "conditional-without-if"
+    | "empty-subscriber"
+    | "whitespace-in-subscriber"
+    | "invalid-position"
+    | "invalid-behavior"
+    | "invalid-scroll-position"
+    | "scroll-without-offset"
+    | "log-attribute"
+    | "unused-suppression"
+    | "unknown-route"
+    | "shadowed-endpoint"
+    | "invalid-method"
+    | "redirect-with-method"
+    | "unknown-event";
+
+  /**
+   * Represents an action name found at a specific location in a document.
+   */
+  interface ActionMatch {
+    /**
+     * The namespace of the action.
+     */
+    kind: ActionKind;
+
+    /**
+     * The name of the action.
+     */
+    action: string;
+
+    /**
+     * The range covering the action name.
+     */
+    range: Range;
+
+    /**
+     * Whether the action is being defined (rather than subscribed to).
+     */
+    definition: boolean;
+  }
+
+  /**
+   * The documentation of an action definition, found in an `@keml` annotation
+   * of the comment preceding the defining element.
+   */
+  interface ActionAnnotation {
+    /**
+     * Markdown describing the action.
+     */
+    description: string;
+
+    /**
+     * The range covering the documented action name in the defining element.
+     */
+    range: Range;
+  }
+
+  /**
+   * A route of the server, as found in the file the `keml.routes` setting
+   * points to.
+   */
+  interface Route {
+    /**
+     * The HTTP method in upper case, any method when `undefined`.
+     */
+    method: string | undefined;
+
+    /**
+     * The path, with its parameters in braces, e.g. `/todos/{id}`.
+     */
+    path: string;
+
+    /**
+     * Matches the paths of the route, whatever its parameters.
+     */
+    pattern: RegExp;
+
+    /**
+     * Markdown describing the route.
+     */
+    description: string;
+  }
+
+  /**
+   * A request an element sends to an absolute path, when triggered.
+   */
+  interface Endpoint {
+    /**
+     * The HTTP method in upper case.
+     */
+    method: string;
+
+    /**
+     * The path, as written in the endpoint attribute.
+     */
+    path: string;
+
+    /**
+     * The range covering the path.
+     */
+    range: Range;
+  }
+
+  /**
+   * KEML diagnostics turned off by a comment, for a span of lines.
+   */
+  interface Suppression {
+    /**
+     * The codes of the suppressed diagnostics, every one of them when empty.
+     */
+    codes: string[];
+
+    /**
+     * The range covering the comment.
+     */
+    range: Range;
+
+    /**
+     * The first suppressed line.
+     */
+    start: number;
+
+    /**
+     * The last suppressed line.
+     */
+    end: number;
+  }
+
+  /**
+   * An action declared by the project manifest, i.e. one that is triggered or
+   * consumed outside of the markup, by scripts or by the server.
+   */
+  interface ExternalAction {
+    /**
+     * Markdown describing the action.
+     */
+    description: string;
+
+    /**
+     * Where the action is declared in the manifest.
+     */
+    location: Location;
+  }
+
+  /**
+   * A node of the action flow graph: either an element or an action.
+   */
+  interface ActionGraphNode<L = Location> {
+    /**
+     * Unique identifier of the node.
+     */
+    id: string;
+
+    /**
+     * Whether the node is an element, or the kind of action it is.
+     */
+    type: "element" | ActionKind;
+
+    /**
+     * Tag or action name.
+     */
+    label: string;
+
+    /**
+     * Where the element or the action is found.
+     */
+    detail: string;
+
+    /**
+     * The start tag of the element, or the first definition of the action
+     * (the first subscriber of an undefined one).
+     */
+    location: L;
+  }
+
+  /**
+   * A directed edge of the action flow graph, from an element to the action it
+   * defines, or from an action to the element subscribing to it.
+   */
+  interface ActionGraphEdge {
+    /**
+     * Identifier of the source node.
+     */
+    from: string;
+
+    /**
+     * Identifier of the target node.
+     */
+    to: string;
+
+    /**
+     * Name of the attribute connecting the nodes.
+     */
+    label: string;
+  }
+
+  /**
+   * The flow of actions between elements.
+   */
+  interface ActionGraph<L = Location> {
+    nodes: ActionGraphNode<L>[];
+    edges: ActionGraphEdge[];
+  }
+
+  /**
+   * Narrows the action flow graph down.
+   */
+  interface ActionGraphFilter {
+    /**
+     * Only keeps the elements of this document and the actions they touch.
+     */
+    uri?: string;
+
+    /**
+     * Only keeps the nodes that this action node leads to, or is reached from.
+     */
+    action?: string;
+  }
+
+  /**
+   * What a document contributed to the action index when it was last counted.
+   */
+  interface IndexedDocument {
+    /**
+     * The document that was counted.
+     */
+    cur: Document;
+
+    /**
+     * The revision of the document that was counted.
+     */
+    revision: number;
+
+    /**
+     * The URI the diagnostics of the document were published for.
+     */
+    uri: Uri;
+
+    /**
+     * The namespace the document was counted in.
+     */
+    namespace: string;
+
+    /**
+     * The names of the actions the document defines, per kind.
+     */
+    definitions: Record<ActionKind, string[]>;
+
+    /**
+     * The names of the actions the document subscribes to, per kind.
+     */
+    references: Record<ActionKind, string[]>;
+
+    /**
+     * The sources of the dynamic patterns of the document.
+     */
+    dynamic: string;
+  }
+
+  /**
+   * How many documents of a namespace define and subscribe to each action.
+   */
+  interface NamespaceIndex {
+    /**
+     * The number of documents defining each action, per kind.
+     */
+    definitions: Record<ActionKind, Map<string, number>>;
+
+    /**
+     * The number of documents subscribing to each action, per kind.
+     */
+    references: Record<ActionKind, Map<string, number>>;
+
+    /**
+     * The patterns of the actions every document defines through template
+     * interpolations, per kind.
+     */
+    dynamic_definitions: Record<ActionKind, RegExp[]>;
+
+    /**
+     * The patterns of the actions every document subscribes to through
+     * template interpolations, per kind.
+     */
+    dynamic_references: Record<ActionKind, RegExp[]>;
+  }
+
+  /**
+   * How many documents of each namespace define and subscribe to each action,
+   * so that telling whether an action is defined or used anywhere takes no
+   * scan of every document.
+   */
+  interface ActionIndex {
+    /**
+     * The counts of every namespace, by name.
+     */
+    namespaces: Map<string, NamespaceIndex>;
+
+    /**
+     * What each document was counted with, by URL.
+     */
+    documents: Map<string, IndexedDocument>;
+  }
+
+  /**
+   * The start line and character, then the end line and character of a range,
+   * as stored in the index cache.
+   */
+  type CachedRange = [number, number, number, number];
+
+  /**
+   * What the index cache knows about a file: everything a document parsed from
+   * it needs to answer workspace-wide queries, along with the modification
+   * time and size of the file when it was read.
+   */
+  interface IndexCacheEntry {
+    /**
+     * The modification time of the file, in milliseconds since the epoch.
+     */
+    mtime: number;
+
+    /**
+     * The size of the file, in bytes.
+     */
+    size: number;
+
+    /**
+     * The language identifier of the document.
+     */
+    languageId: string;
+
+    /**
+     * The ranges of the action definitions of the document, per kind.
+     */
+    definitions: Record<ActionKind, [string, CachedRange[]][]>;
+
+    /**
+     * The ranges of the action subscribers of the document, per kind.
+     */
+    references: Record<ActionKind, [string, CachedRange[]][]>;
+
+    /**
+     * The sources and flags of the dynamic definition patterns, per kind.
+     */
+    dynamic_definitions: Record<ActionKind, [string, string][]>;
+
+    /**
+     * The sources and flags of the dynamic subscriber patterns, per kind.
+     */
+    dynamic_references: Record<ActionKind, [string, string][]>;
+
+    /**
+     * The descriptions and ranges of the action annotations, per kind.
+     */
+    annotations: Record<ActionKind, [string, [string, CachedRange][]][]>;
+
+    /**
+     * The range, message, rule code, severity and tags of the diagnostics of
+     * the document itself.
+     */
+    diagnostics: [CachedRange, string, RuleCode, number, number[]][];
+
+    /**
+     * The codes, comment range, first and last line of the suppressions.
+     */
+    suppressions: [string[], CachedRange, number, number][];
+
+    /**
+     * The indices of the suppressions that turned a diagnostic of the document
+     * itself off.
+     */
+    suppressed: number[];
+
+    /**
+     * Whether the document has a `log` attribute.
+     */
+    has_log: boolean;
+
+    /**
+     * The paths of the files the document includes.
+     */
+    includes: string[];
+
+    /**
+     * The methods, paths and ranges of the requests the document sends.
+     */
+    endpoints: [string, string, CachedRange][];
   }
 }
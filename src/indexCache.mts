@@ -0,0 +1,561 @@
+import { posix } from "node:path";
+import { Diagnostic, Range, Uri, window, workspace } from "vscode";
+import { createDiagnostic } from "./createDiagnostic.mts";
+import { docs, getStorageUri, indexCache } from "./data.mts";
+import { Document, DocumentSummary } from "./document.mts";
+import { getDiagnosticCode } from "./getDiagnosticCode.mts";
+import {
+  actionKinds,
+  definitionResolvers,
+  referenceResolvers,
+} from "./resolvers.mts";
+
+/**
+ * Version of the format of the index cache, to be increased whenever it, or
+ * what the parser reports about documents, changes.
+ */
+const CACHE_VERSION = 5;
+
+/**
+ * Name of the index cache file in the storage directory.
+ */
+const CACHE_NAME = "index.json";
+
+/**
+ * Settings changing what a document reports about itself, which invalidate
+ * the whole cache when they change.
+ */
+const PARSER_SETTINGS = [
+  "templateSyntaxes",
+  "rules",
+  "customEvents",
+  "warnOnLogAttribute",
+  "pageGraph",
+  "includePatterns",
+];
+
+/**
+ * The contents of the index cache file.
+ */
+interface IndexCacheFile {
+  /**
+   * Version of the format.
+   */
+  version: number;
+
+  /**
+   * The parser settings the documents were parsed with.
+   */
+  settings: string;
+
+  /**
+   * The entries, by document URL.
+   */
+  files: Record<string, IndexCacheEntry>;
+}
+
+/**
+ * Locates the index cache file.
+ *
+ * @returns The file, or `undefined` without a storage directory.
+ */
+const getCacheUri = () => {
+  const storageUri = extern.getStorageUri();
+
+  return storageUri?.with({ path: posix.join(storageUri.path, CACHE_NAME) });
+};
+
+/**
+ * Reads the parser settings, as stored along with the cached entries.
+ */
+const getSettings = () => {
+  const keml = extern.workspace.getConfiguration("keml", null);
+
+  return JSON.stringify(PARSER_SETTINGS.map(name => keml.get(name) ?? null));
+};
+
+/**
+ * Flattens a range for the index cache.
+ */
+const toCachedRange = ({ start, end }: Range): CachedRange => [
+  start.line,
+  start.character,
+  end.line,
+  end.character,
+];
+
+/**
+ * Creates a range from its flattened form in the index cache.
+ */
+const fromCachedRange = (range: CachedRange) => new extern.Range(...range);
+
+/**
+ * Summarizes a document as an entry of the index cache.
+ *
+ * @param cur - The document.
+ * @param source - The modification time and size of its file.
+ * @returns The entry.
+ */
+const toEntry = (
+  cur: Document,
+  { mtime, size }: { mtime: number; size: number },
+) => {
+  const entry: IndexCacheEntry = {
+    mtime,
+    size,
+    languageId: cur.languageId,
+    definitions: { event: [], state: [], result: [] },
+    references: { event: [], state: [], result: [] },
+    dynamic_definitions: { event: [], state: [], result: [] },
+    dynamic_references: { event: [], state: [], result: [] },
+    annotations: { event: [], state: [], result: [] },
+    diagnostics: cur.diagnostics.map((diagnostic: Diagnostic) => [
+      toCachedRange(diagnostic.range),
+      diagnostic.message,
+      getDiagnosticCode(diagnostic) as RuleCode,
+      diagnostic.severity,
+      diagnostic.tags ?? [],
+    ]),
+    suppressions: cur.suppressions.map(({ codes, range, start, end }) => [
+      codes,
+      toCachedRange(range),
+      start,
+      end,
+    ]),
+    suppressed: cur.suppressions.flatMap((suppression, index) =>
+      cur.suppressed.has(suppression) ? [index] : [],
+    ),
+    has_log: cur.has_log,
+    includes: cur.includes,
+    endpoints: cur.endpoints.map(({ method, path, range }) => [
+      method,
+      path,
+      toCachedRange(range),
+    ]),
+  };
+
+  for (const kind of actionKinds) {
+    entry.definitions[kind] = Array.from(
+      definitionResolvers[kind](cur),
+      ([action, ranges]) => [action, ranges.map(toCachedRange)],
+    );
+    entry.references[kind] = Array.from(
+      referenceResolvers[kind](cur),
+      ([action, ranges]) => [action, ranges.map(toCachedRange)],
+    );
+    entry.dynamic_definitions[kind] = cur.dynamic_definitions[kind].map(
+      ({ source, flags }) => [source, flags],
+    );
+    entry.dynamic_references[kind] = cur.dynamic_references[kind].map(
+      ({ source, flags }) => [source, flags],
+    );
+    entry.annotations[kind] = Array.from(
+      cur.annotations[kind],
+      ([action, annotations]) => [
+        action,
+        annotations.map(({ description, range }) => [
+          description,
+          toCachedRange(range),
+        ]),
+      ],
+    );
+  }
+
+  return entry;
+};
+
+/**
+ * Turns an entry of the index cache back into a document summary.
+ *
+ * @param entry - The entry.
+ * @returns The summary.
+ */
+const toSummary = (entry: IndexCacheEntry) => {
+  const suppressions = entry.suppressions.map(
+    ([codes, range, start, end]): Suppression => ({
+      codes,
+      range: fromCachedRange(range),
+      start,
+      end,
+    }),
+  );
+  const summary = {
+    diagnostics: entry.diagnostics.map(
+      ([range, message, code, severity, tags]) =>
+        extern.createDiagnostic(
+          fromCachedRange(range),
+          message,
+          code,
+          severity,
+          tags.length ? tags : undefined,
+        ),
+    ),
+    dynamic_definitions: { event: [], state: [], result: [] },
+    dynamic_references: { event: [], state: [], result: [] },
+    annotations: { event: new Map(), state: new Map(), result: new Map() },
+    suppressions,
+    suppressed: new Set(entry.suppressed.map(index => suppressions[index]!)),
+    has_log: entry.has_log,
+    includes: entry.includes,
+    endpoints: entry.endpoints.map(([method, path, range]) => ({
+      method,
+      path,
+      range: fromCachedRange(range),
+    })),
+  } as unknown as DocumentSummary;
+
+  for (const kind of actionKinds) {
+    summary[`${kind}_definitions`] = new Map(
+      entry.definitions[kind].map(([action, ranges]) => [
+        action,
+        ranges.map(fromCachedRange),
+      ]),
+    );
+    summary[`${kind}_references`] = new Map(
+      entry.references[kind].map(([action, ranges]) => [
+        action,
+        ranges.map(fromCachedRange),
+      ]),
+    );
+    summary.dynamic_definitions[kind] = entry.dynamic_definitions[kind].map(
+      ([source, flags]) => new RegExp(source, flags),
+    );
+    summary.dynamic_references[kind] = entry.dynamic_references[kind].map(
+      ([source, flags]) => new RegExp(source, flags),
+    );
+    summary.annotations[kind] = new Map(
+      entry.annotations[kind].map(([action, annotations]) => [
+        action,
+        annotations.map(([description, range]) => ({
+          description,
+          range: fromCachedRange(range),
+        })),
+      ]),
+    );
+  }
+
+  return summary;
+};
+
+/**
+ * Loads the index cache from the storage directory, unless it was written by
+ * another version or with other parser settings.
+ *
+ * A missing or unreadable cache is ignored, so that every file is parsed.
+ */
+export const loadIndexCache = async () => {
+  const uri = getCacheUri();
+  let cache: IndexCacheFile;
+
+  extern.indexCache.clear();
+  if (!uri) {
+    return;
+  }
+
+  try {
+    cache = JSON.parse(
+      new TextDecoder().decode(await extern.workspace.fs.readFile(uri)),
+    );
+  } catch {
+    return;
+  }
+
+  if (cache?.version === CACHE_VERSION && cache.settings === getSettings()) {
+    for (const url in cache.files) {
+      extern.indexCache.set(url, cache.files[url]!);
+    }
+  }
+};
+
+/**
+ * Adds a document restored from its entry of the index cache to the internal
+ * store, provided the file did not change since it was cached.
+ *
+ * @param uri - The URI of the file.
+ * @param source - The current modification time and size of the file.
+ * @returns Whether the document was restored.
+ */
+export const restoreDoc = (
+  uri: Uri,
+  { mtime, size }: { mtime: number; size: number },
+) => {
+  const url = uri.toString();
+  const entry = extern.indexCache.get(url);
+  let cur;
+
+  if (
+    entry?.mtime !== mtime ||
+    entry.size !== size ||
+    !extern.Document.isApplicable(entry.languageId, uri)
+  ) {
+    return false;
+  }
+
+  cur = extern.Document.restore(uri, entry.languageId, toSummary(entry));
+  cur.source = { mtime, size, revision: cur.revision };
+  extern.docs.set(url, cur);
+
+  return true;
+};
+
+/**
+ * Saves the documents known to reflect their files on disk to the index cache
+ * in the storage directory, then forgets the loaded entries.
+ */
+export const saveIndexCache = async () => {
+  const storageUri = extern.getStorageUri();
+  const cache: IndexCacheFile = {
+    version: CACHE_VERSION,
+    settings: getSettings(),
+    files: {},
+  };
+  let url, cur;
+
+  extern.indexCache.clear();
+  if (!storageUri) {
+    return;
+  }
+
+  for ([url, cur] of extern.docs) {
+    if (cur.source && cur.source.revision === cur.revision) {
+      cache.files[url] = toEntry(cur, cur.source);
+    }
+  }
+
+  try {
+    await extern.workspace.fs.createDirectory(storageUri);
+    await extern.workspace.fs.writeFile(
+      getCacheUri()!,
+      new TextEncoder().encode(JSON.stringify(cache)),
+    );
+  } catch (error) {
+    extern.window.showErrorMessage(`Failed to save the index cache: ${error}`);
+  }
+};
+
+let extern = {
+  Document,
+  Range,
+  createDiagnostic,
+  docs,
+  getStorageUri,
+  indexCache,
+  window,
+  workspace,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const {
+    setExclude,
+    setInclude,
+    setIncludePatterns,
+    setLanguageIds,
+    setWarnOnLogAttribute,
+  } = await import("./data.mts");
+  const { TextDocument, Uri } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("indexCache", () => {
+    const a = Uri.file("/a.php");
+    const b = Uri.file("/b.php");
+    const c = Uri.file("/c.php");
+    const text = [
+      "<!-- @keml save: Saves the form. -->",
+      '<form on:submit="save" reset="done"></form>',
+      '<button on:click="save_<?= $id ?>"></button>',
+      '<div on="save_<?= $id ?>" result="list" render="list_<?= $id ?>"></div>',
+      "<!-- keml-disable-next-line log-attribute -->",
+      "<p log></p>",
+      "<p log scroll></p>",
+      "<!-- keml-disable-next-line invalid-position -->",
+      "<p></p>",
+      '{% include "footer.php" %}',
+      '<div on="load" put="/todos/1"></div>',
+    ].join("\n");
+    const files = new Map<string, Uint8Array>();
+    const settings: Record<string, unknown> = {};
+    const createDocument = (uri: typeof a, source?: object) => {
+      const cur = new Document(new TextDocument(uri, "php", 1, text) as any);
+
+      cur.source = source && ({ ...source, revision: cur.revision } as any);
+
+      return cur;
+    };
+
+    beforeEach(() => {
+      setLanguageIds(["php"]);
+      setExclude([]);
+      setInclude([]);
+      setIncludePatterns([/\{% include "([^"]+)" %\}/g]);
+      setWarnOnLogAttribute(true);
+      files.clear();
+      for (const name in settings) {
+        delete settings[name];
+      }
+      extern = {
+        ...origExtern,
+        docs: new Map(),
+        getStorageUri: () => Uri.file("/storage"),
+        indexCache: new Map(),
+        window: { showErrorMessage: fn() } as any,
+        workspace: {
+          getConfiguration: () => ({ get: (name: string) => settings[name] }),
+          fs: {
+            readFile: fn(async ({ path }) => {
+              if (!files.has(path)) {
+                throw new Error("ENOENT");
+              }
+              return files.get(path)!;
+            }),
+            writeFile: fn(async ({ path }, content) => {
+              files.set(path, content);
+            }),
+            createDirectory: fn(async () => {}),
+          },
+        } as any,
+      };
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("restores the documents that reflect their files", async () => {
+      const cur = createDocument(a, { mtime: 1, size: 2 });
+      const edited = createDocument(c, { mtime: 1, size: 2 });
+
+      edited.revision++;
+      extern.docs.set(a.toString(), cur);
+      extern.docs.set(b.toString(), createDocument(b));
+      extern.docs.set(c.toString(), edited);
+      await saveIndexCache();
+
+      expect(extern.workspace.fs.createDirectory).toHaveBeenCalledWith(
+        Uri.file("/storage"),
+      );
+      expect(Array.from(files.keys())).toEqual(["/storage/index.json"]);
+
+      await loadIndexCache();
+      expect(Array.from(extern.indexCache.keys())).toEqual([a.toString()]);
+      extern.docs.clear();
+
+      expect(restoreDoc(b, { mtime: 1, size: 2 })).toBe(false);
+      expect(restoreDoc(a, { mtime: 1, size: 3 })).toBe(false);
+      expect(restoreDoc(a, { mtime: 2, size: 2 })).toBe(false);
+      setLanguageIds(["html"]);
+      expect(restoreDoc(a, { mtime: 1, size: 2 })).toBe(false);
+      setLanguageIds(["php"]);
+      expect(restoreDoc(a, { mtime: 1, size: 2 })).toBe(true);
+
+      const restored = extern.docs.get(a.toString())!;
+
+      expect(restored.restored).toBe(true);
+      expect(restored.source).toEqual({ mtime: 1, size: 2, revision: 0 });
+      expect(restored.languageId).toBe("php");
+      for (const kind of actionKinds) {
+        expect(definitionResolvers[kind](restored)).toEqual(
+          definitionResolvers[kind](cur),
+        );
+        expect(referenceResolvers[kind](restored)).toEqual(
+          referenceResolvers[kind](cur),
+        );
+        expect(restored.dynamic_definitions[kind]).toEqual(
+          cur.dynamic_definitions[kind],
+        );
+        expect(restored.dynamic_references[kind]).toEqual(
+          cur.dynamic_references[kind],
+        );
+        expect(restored.annotations[kind]).toEqual(cur.annotations[kind]);
+      }
+      expect(restored.dynamic_definitions.event).toHaveLength(1);
+      expect(restored.dynamic_references.result).toHaveLength(1);
+      expect(restored.annotations.event.get("save")).toHaveLength(1);
+      expect(restored.diagnostics).toEqual(cur.diagnostics);
+      expect(restored.diagnostics.some(({ tags }) => tags)).toBe(true);
+      expect(restored.diagnostics.some(({ tags }) => !tags)).toBe(true);
+      expect(restored.suppressions).toEqual(cur.suppressions);
+      expect(Array.from(restored.suppressed)).toEqual(
+        restored.suppressions.slice(0, 1),
+      );
+      expect(restored.has_log).toBe(true);
+      expect(restored.includes).toEqual(["footer.php"]);
+      expect(restored.endpoints).toEqual(cur.endpoints);
+      expect(restored.endpoints).toMatchObject([
+        { method: "PUT", path: "/todos/1" },
+      ]);
+
+      // restored documents are saved back as they were
+      const saved = files.get("/storage/index.json");
+
+      await saveIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+      expect(files.get("/storage/index.json")).toEqual(saved);
+    });
+
+    it("ignores caches of other versions or parser settings", async () => {
+      extern.docs.set(a.toString(), createDocument(a, { mtime: 1, size: 2 }));
+      await saveIndexCache();
+
+      settings["warnOnLogAttribute"] = false;
+      await loadIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+
+      delete settings["warnOnLogAttribute"];
+      await loadIndexCache();
+      expect(extern.indexCache.size).toBe(1);
+
+      files.set(
+        "/storage/index.json",
+        new TextEncoder().encode(JSON.stringify({ version: 0 })),
+      );
+      await loadIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+
+      files.set("/storage/index.json", new TextEncoder().encode("null"));
+      await loadIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+
+      files.clear();
+      await loadIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+    });
+
+    it("does nothing without a storage directory", async () => {
+      extern.getStorageUri = () => undefined;
+      extern.indexCache.set(a.toString(), {} as any);
+      extern.docs.set(a.toString(), createDocument(a, { mtime: 1, size: 2 }));
+
+      await saveIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+      expect(files.size).toBe(0);
+
+      extern.indexCache.set(a.toString(), {} as any);
+      await loadIndexCache();
+      expect(extern.indexCache.size).toBe(0);
+      expect(extern.workspace.fs.readFile).not.toHaveBeenCalled();
+    });
+
+    it("reports failures to save", async () => {
+      extern.workspace.fs.createDirectory = fn(async () => {
+        throw new Error("EACCES");
+      });
+
+      await saveIndexCache();
+      expect(extern.window.showErrorMessage).toHaveBeenCalledWith(
+        "Failed to save the index cache: Error: EACCES",
+      );
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,25 @@
+const endpoints = ["get", "post", "put", "delete", "src", "href", "action"];
+
+/**
+ * Checks whether a given name represents an endpoint.
+ * @param name - The name to check.
+ * @returns A boolean indicating if the name represents an endpoint.
+ */
+export const isEndpoint = (name: string) =>
+  endpoints.includes(name.startsWith("x-") ? name.slice(2) : name);
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("isEndpoint", () => {
+    it("returns true only for endpoint attributes and their 'x-' equivalents", () => {
+      expect(isEndpoint("get")).toBe(true);
+      expect(isEndpoint("action")).toBe(true);
+      expect(isEndpoint("x-delete")).toBe(true);
+      expect(isEndpoint("method")).toBe(false);
+      expect(isEndpoint("x-on")).toBe(false);
+    });
+  });
+}
+/* v8 ignore stop */
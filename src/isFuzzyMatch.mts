@@ -0,0 +1,44 @@
+/**
+ * Checks whether the characters of a query appear in a word in the same order,
+ * though not necessarily next to each other, the way VS Code filters symbols.
+ *
+ * Comparison is case-insensitive.
+ *
+ * @param query - The query; an empty one matches every word.
+ * @param word - The word to test.
+ * @returns True if the word matches the query.
+ */
+export const isFuzzyMatch = (query: string, word: string) => {
+  const needle = query.toLowerCase();
+  const haystack = word.toLowerCase();
+  let i = 0;
+
+  for (let j = 0; i < needle.length && j < haystack.length; ++j) {
+    if (needle[i] === haystack[j]) {
+      ++i;
+    }
+  }
+
+  return i === needle.length;
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("isFuzzyMatch", () => {
+    it("matches everything with an empty query", () => {
+      expect(isFuzzyMatch("", "todoList")).toBe(true);
+      expect(isFuzzyMatch("", "")).toBe(true);
+    });
+
+    it("matches characters in order, ignoring case", () => {
+      expect(isFuzzyMatch("todoList", "todoList")).toBe(true);
+      expect(isFuzzyMatch("tdl", "todoList")).toBe(true);
+      expect(isFuzzyMatch("TODOL", "todoList")).toBe(true);
+      expect(isFuzzyMatch("ldt", "todoList")).toBe(false);
+      expect(isFuzzyMatch("todoLists", "todoList")).toBe(false);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,14 @@
+/**
+ * Entry point of the `keml-lint` command, which reports KEML problems without
+ * a running editor, e.g. in CI pipelines.
+ *
+ * Run it with `node out/keml-lint.js --help` for the available options.
+ */
+
+import("./cli.mts")
+  .then(({ run }) => run(process.argv.slice(2), process.cwd()))
+  .then(code => (process.exitCode = code))
+  .catch(error => {
+    console.error(`keml-lint: ${error.message}`);
+    process.exitCode = 2;
+  });
@@ -0,0 +1,30 @@
+/**
+ * Predefined Markdown descriptions for the custom events KEML dispatches.
+ *
+ * The keys represent custom event names (e.g., `"reveal"`, `"conceal"`),
+ * and the values are Markdown-formatted explanations of when those events fire
+ * and how they are typically used.
+ */
+export const kemlEvents: Record<string, string> = {
+  reveal: `* Triggered when an element becomes **visible in the viewport**.
+* Fires on initial page load if the element is already visible.
+* Fires again whenever the element enters the viewport after scrolling.`,
+  conceal: `* Triggered when an element **leaves the viewport** after scrolling.
+* Complements \`reveal\`, allowing visibility-based behaviors.`,
+  navigate: `* Triggered on **browser history changes** via the History API.
+* Useful for responding to in-app navigation without a full page reload.`,
+  result: `* Triggered **after receiving a response with a successful status code**.
+* Fires once the new content is fully rendered and all elements with declared
+  actions are ready to run.
+* Even actions on elements rendered dynamically through this response will fire
+  correctly.
+* Useful for chaining actions after dynamic updates.`,
+  failure: `* Triggered **after receiving a response with an unsuccessful status code**.
+* Fires once the new content is fully rendered and all elements with declared
+  actions are ready to run.
+* Even actions on elements rendered dynamically through this response will fire
+  correctly.
+* Useful for chaining actions after dynamic updates.`,
+  discover: `* Triggered **when the element is first discovered**.
+* Will be re-emitted if the \`on:discover\` attribute is removed and then added back again.`,
+};
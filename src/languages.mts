@@ -0,0 +1,233 @@
+import {
+  Diagnostic,
+  Disposable,
+  EventEmitter,
+  Uri as URI,
+} from "./vscodeApi.mts";
+
+class DiagnosticCollection {
+  private entries = new Map<string, [URI, Diagnostic[]]>();
+
+  constructor(readonly name: string) {
+    collections.add(this);
+  }
+
+  set(uri: URI, diagnostics: Diagnostic[] | undefined) {
+    if (diagnostics?.length) {
+      this.entries.set(uri.toString(), [uri, diagnostics.slice()]);
+    } else {
+      this.entries.delete(uri.toString());
+    }
+    diagnosticsEmitter.fire({ uris: [uri] });
+  }
+
+  delete(uri: URI) {
+    this.set(uri, undefined);
+  }
+
+  clear() {
+    const uris = Array.from(this.entries.values(), ([uri]) => uri);
+
+    this.entries.clear();
+    diagnosticsEmitter.fire({ uris });
+  }
+
+  forEach(callback: (uri: URI, diagnostics: Diagnostic[]) => unknown) {
+    this.entries.forEach(([uri, diagnostics]) => callback(uri, diagnostics));
+  }
+
+  get(uri: URI) {
+    return this.entries.get(uri.toString())?.[1];
+  }
+
+  has(uri: URI) {
+    return this.entries.has(uri.toString());
+  }
+
+  dispose() {
+    this.clear();
+    collections.delete(this);
+  }
+}
+
+type DocumentSelector =
+  string | { language?: string } | (string | { language?: string })[];
+
+interface Registration {
+  selector: DocumentSelector;
+  provider: any;
+  args: unknown[];
+}
+
+const collections = new Set<DiagnosticCollection>();
+const diagnosticsEmitter = new EventEmitter<{ uris: URI[] }>();
+const registrations = new Map<string, Set<Registration>>();
+
+/**
+ * Creates a function registering a provider of the given kind.
+ *
+ * @param kind - Kind of the provider, as used by `host.getProviders`.
+ * @returns The registration function.
+ */
+const register =
+  (kind: string) =>
+  (selector: DocumentSelector, provider: any, ...args: unknown[]) => {
+    const registration = { selector, provider, args };
+    let set = registrations.get(kind);
+
+    if (!set) {
+      registrations.set(kind, (set = new Set()));
+    }
+    set.add(registration);
+
+    return new Disposable(() => set.delete(registration));
+  };
+
+/**
+ * Checks whether a document selector covers a language.
+ *
+ * @param selector - The document selector.
+ * @param languageId - The language identifier.
+ * @returns Whether the language is selected.
+ */
+const isSelected = (selector: DocumentSelector, languageId: string): boolean =>
+  Array.isArray(selector) ? selector.some(s => isSelected(s, languageId))
+  : typeof selector === "string" ? selector === languageId || selector === "*"
+  : !selector.language || selector.language === languageId;
+
+/**
+ * Lists the providers of a kind registered for a language.
+ *
+ * @param kind - Kind of the provider, e.g. `hover`.
+ * @param languageId - The language identifier.
+ * @returns The providers.
+ */
+export const getProviders = (kind: string, languageId: string) =>
+  Array.from(registrations.get(kind) ?? [])
+    .filter(({ selector }) => isSelected(selector, languageId))
+    .map(({ provider }) => provider);
+
+export const languages = {
+  createDiagnosticCollection: (name = "") => new DiagnosticCollection(name),
+
+  getDiagnostics(uri: URI) {
+    const result: Diagnostic[] = [];
+    let diagnostics;
+
+    for (const collection of collections) {
+      if ((diagnostics = collection.get(uri))) {
+        result.push(...diagnostics);
+      }
+    }
+
+    return result;
+  },
+
+  onDidChangeDiagnostics: diagnosticsEmitter.event,
+  registerCodeActionsProvider: register("codeActions"),
+  registerCodeLensProvider: register("codeLens"),
+  registerCompletionItemProvider: register("completion"),
+  registerDefinitionProvider: register("definition"),
+  registerDocumentHighlightProvider: register("documentHighlight"),
+  registerDocumentSemanticTokensProvider: register("semanticTokens"),
+  registerDocumentSymbolProvider: register("documentSymbol"),
+  registerHoverProvider: register("hover"),
+  registerReferenceProvider: register("reference"),
+  registerRenameProvider: register("rename"),
+  registerWorkspaceSymbolProvider: (provider: any) =>
+    register("workspaceSymbol")("*", provider),
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    vi: { fn },
+  } = import.meta.vitest;
+  const { Range } = await import("./vscodeApi.mts");
+
+  describe("languages", () => {
+    const a = URI.file("/a.php");
+    const b = URI.file("/b.php");
+    const diagnostic = new Diagnostic(new Range(0, 0, 0, 1), "a");
+
+    it("merges and announces the diagnostics of every collection", () => {
+      const first = languages.createDiagnosticCollection("first");
+      const second = languages.createDiagnosticCollection();
+      const listener = fn();
+      const disposable = languages.onDidChangeDiagnostics(listener);
+
+      first.set(a, [diagnostic]);
+      first.set(b, [diagnostic]);
+      second.set(a, [diagnostic]);
+
+      expect(second.name).toBe("");
+      expect(languages.getDiagnostics(a)).toEqual([diagnostic, diagnostic]);
+      expect([first.has(b), second.has(b), second.get(b)]).toEqual([
+        true,
+        false,
+        undefined,
+      ]);
+
+      const uris: URI[] = [];
+
+      first.forEach(uri => uris.push(uri));
+      first.delete(b);
+      second.set(a, []);
+
+      expect(uris).toEqual([a, b]);
+      expect(languages.getDiagnostics(b)).toEqual([]);
+      expect(languages.getDiagnostics(a)).toEqual([diagnostic]);
+
+      first.dispose();
+      second.dispose();
+      disposable.dispose();
+
+      expect(languages.getDiagnostics(a)).toEqual([]);
+      expect(listener.mock.calls.map(([{ uris }]) => uris)).toEqual([
+        [a],
+        [b],
+        [a],
+        [b],
+        [a],
+        [a],
+        [],
+      ]);
+    });
+
+    it("lists the providers registered for a language", () => {
+      const hover = {};
+      const completion = {};
+      const symbols = {};
+      const disposables = [
+        languages.registerHoverProvider("php", hover),
+        languages.registerHoverProvider({ language: "html" }, hover),
+        languages.registerCompletionItemProvider(
+          [{ language: "twig" }, "php"],
+          completion,
+          "<",
+        ),
+        languages.registerCompletionItemProvider({}, completion),
+        languages.registerWorkspaceSymbolProvider(symbols),
+      ];
+
+      expect(getProviders("hover", "php")).toEqual([hover]);
+      expect(getProviders("hover", "html")).toEqual([hover]);
+      expect(getProviders("hover", "twig")).toEqual([]);
+      expect(getProviders("completion", "php")).toEqual([
+        completion,
+        completion,
+      ]);
+      expect(getProviders("completion", "html")).toEqual([completion]);
+      expect(getProviders("workspaceSymbol", "html")).toEqual([symbols]);
+      expect(getProviders("rename", "php")).toEqual([]);
+
+      disposables.forEach(disposable => disposable.dispose());
+
+      expect(getProviders("hover", "php")).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
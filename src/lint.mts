@@ -0,0 +1,328 @@
+import { Diagnostic } from "vscode";
+import { basename, relative, sep } from "node:path";
+import { configure } from "./configure.mts";
+import { docs } from "./data.mts";
+import { defaultLanguages } from "./defaultLanguages.mts";
+import { match } from "./match.mts";
+import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
+import { Uri, extensions, host, languages } from "./vscode-shim.mts";
+
+/**
+ * Options of a headless lint run.
+ */
+export interface LintOptions {
+  /**
+   * The directory to scan, which acts as the only workspace folder.
+   */
+  cwd: string;
+
+  /**
+   * Glob patterns, relative to `cwd`, that narrow down the scanned files
+   * (all of them when empty).
+   */
+  patterns: string[];
+
+  /**
+   * Settings of the `keml` section, as found in VS Code.
+   */
+  keml: Record<string, unknown>;
+
+  /**
+   * Glob patterns to exclude, as the enabled entries of `search.exclude`.
+   */
+  exclude: string[];
+}
+
+/**
+ * Diagnostics reported for a single file.
+ */
+export interface LintResult {
+  /**
+   * Path of the file relative to the scanned directory, using forward slashes.
+   */
+  path: string;
+
+  /**
+   * The diagnostics, exactly as the extension would display them.
+   */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Converts an absolute path to a forward-slash path relative to a directory.
+ *
+ * @param cwd - The directory.
+ * @param path - The absolute path.
+ * @returns The relative path.
+ */
+const toRelative = (cwd: string, path: string) =>
+  relative(cwd, path).split(sep).join("/");
+
+/**
+ * Collects the diagnostics of a directory without a running editor.
+ *
+ * The directory is set up as a workspace of the `vscode` API implementation
+ * found in `vscode-shim.mts` and configured exactly like the extension, so the
+ * results match those displayed in the editor.
+ *
+ * @param options - What to scan and how.
+ * @returns The diagnostics of every scanned file, sorted by path and
+ *          position.
+ */
+export const lint = async ({ cwd, patterns, keml, exclude }: LintOptions) => {
+  const results: LintResult[] = [];
+  let url, cur;
+
+  extern.extensions.all = [
+    { packageJSON: { contributes: { languages: defaultLanguages } } },
+  ];
+  extern.host.setConfiguration(
+    {
+      keml,
+      search: {
+        exclude: Object.fromEntries(exclude.map(pattern => [pattern, true])),
+      },
+    },
+    false,
+  );
+  extern.host.changeWorkspaceFolders([
+    { uri: Uri.file(cwd).toString(), name: basename(cwd) },
+  ]);
+  await extern.configure(false);
+
+  if (patterns.length) {
+    for ([url, cur] of extern.docs) {
+      // matched the same lenient way `keml.include` overrides an exclusion
+      if (!extern.match(toRelative(cwd, cur.uri.fsPath), ["**"], patterns)) {
+        extern.docs.delete(url);
+      }
+    }
+    extern.updateDiagnosticCollection();
+  }
+
+  for (cur of extern.docs.values()) {
+    results.push({
+      path: toRelative(cwd, cur.uri.fsPath),
+      diagnostics: extern.languages
+        .getDiagnostics(cur.uri)
+        .sort((a, b) => a.range.start.compareTo(b.range.start)),
+    });
+  }
+
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+let extern = {
+  configure,
+  docs,
+  extensions,
+  host,
+  languages,
+  match,
+  updateDiagnosticCollection,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, beforeAll, afterAll } = import.meta.vitest;
+  const { mkdtemp, mkdir, rm, unlink, writeFile } =
+    await import("node:fs/promises");
+  const { tmpdir } = await import("node:os");
+  const { join } = await import("node:path");
+  const { getDiagnosticCode } = await import("./getDiagnosticCode.mts");
+
+  describe("lint", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), "keml-lint-"));
+      await mkdir(join(dir, "pages"));
+      await mkdir(join(dir, "vendor"));
+      await writeFile(
+        join(dir, "pages", "b.html"),
+        '<form on="submit"></form>\n<button on:click="missing"></button>\n',
+      );
+      await writeFile(
+        join(dir, "a.html"),
+        '<button on:click="submit"></button>\n',
+      );
+      await writeFile(
+        join(dir, "vendor", "c.html"),
+        '<div on="other"></div>\n',
+      );
+      await writeFile(join(dir, "notes.txt"), '<div on="other"></div>\n');
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const summarize = (results: LintResult[]) =>
+      results.map(({ path, diagnostics }) => ({
+        path,
+        codes: diagnostics.map(getDiagnosticCode),
+      }));
+
+    it("reports the diagnostics of every scanned file", async () => {
+      const results = await lint({
+        cwd: dir,
+        patterns: [],
+        keml: { actionUnusedSeverity: "Hint" },
+        exclude: ["vendor"],
+      });
+
+      expect(summarize(results)).toEqual([
+        { path: "a.html", codes: [] },
+        { path: "pages/b.html", codes: ["unused-action"] },
+      ]);
+      expect(results[1]!.diagnostics[0]!.range.start).toEqual({
+        line: 1,
+        character: 18,
+      });
+    });
+
+    it("narrows the scanned files down to the patterns", async () => {
+      const results = await lint({
+        cwd: dir,
+        patterns: ["pages", "vendor/*.html"],
+        keml: { include: ["vendor"] },
+        exclude: ["vendor"],
+      });
+
+      expect(summarize(results)).toEqual([
+        { path: "pages/b.html", codes: ["undefined-action", "unused-action"] },
+        { path: "vendor/c.html", codes: ["undefined-action"] },
+      ]);
+    });
+
+    it("scans the files of a single language", async () => {
+      await writeFile(
+        join(dir, "e.tsx"),
+        'export const E = () => <div on="tsx"></div>;\n',
+      );
+
+      const results = await lint({
+        cwd: dir,
+        patterns: [],
+        keml: { languageIds: ["typescriptreact"] },
+        exclude: [],
+      });
+
+      await unlink(join(dir, "e.tsx"));
+      expect(summarize(results)).toEqual([
+        { path: "e.tsx", codes: ["undefined-action"] },
+      ]);
+    });
+
+    it("honors the actions declared by the project manifest", async () => {
+      await writeFile(
+        join(dir, "keml.config.json"),
+        '{ "events": { "missing": "Consumed by a script.", "other": "Sent by the server." } }',
+      );
+
+      const results = await lint({
+        cwd: dir,
+        patterns: [],
+        keml: { include: ["vendor"] },
+        exclude: ["vendor"],
+      });
+
+      await unlink(join(dir, "keml.config.json"));
+      expect(summarize(results)).toEqual([
+        { path: "a.html", codes: [] },
+        { path: "pages/b.html", codes: [] },
+        { path: "vendor/c.html", codes: [] },
+      ]);
+    });
+
+    it("reports the actions per page in the page graph mode", async () => {
+      await writeFile(
+        join(dir, "pages", "c.html"),
+        '{% include "../a.html" %}\n<form on="submit"></form>\n',
+      );
+
+      const results = await lint({
+        cwd: dir,
+        patterns: ["a.html", "pages"],
+        keml: { actionUnusedSeverity: "Hint", pageGraph: true },
+        exclude: [],
+      });
+
+      await unlink(join(dir, "pages", "c.html"));
+      expect(summarize(results)).toEqual([
+        { path: "a.html", codes: [] },
+        { path: "pages/b.html", codes: ["undefined-action", "unused-action"] },
+        { path: "pages/c.html", codes: [] },
+      ]);
+    });
+
+    it("checks the requests against the routes of the server", async () => {
+      await writeFile(
+        join(dir, "openapi.yaml"),
+        [
+          "openapi: 3.0.0",
+          "paths:",
+          "  /todos:",
+          "    post:",
+          "      summary: Creates a todo.",
+          "  /todos/{id}:",
+          "    put: {}",
+        ].join("\n"),
+      );
+      await writeFile(
+        join(dir, "api.html"),
+        [
+          '<form on="submit" post="/todos"></form>',
+          '<form on="submit" action="/todos/1" method="put"></form>',
+          '<form on="submit" delete="/todos/1"></form>',
+        ].join("\n"),
+      );
+
+      const results = await lint({
+        cwd: dir,
+        patterns: ["api.html"],
+        keml: { routes: "openapi.yaml" },
+        exclude: [],
+      });
+
+      await unlink(join(dir, "openapi.yaml"));
+      await unlink(join(dir, "api.html"));
+      expect(
+        results[0]!.diagnostics
+          .filter(
+            diagnostic => getDiagnosticCode(diagnostic) === "unknown-route",
+          )
+          .map(({ message, range }) => [message, range.start.line]),
+      ).toEqual([["No route of the server matches DELETE /todos/1.", 2]]);
+    });
+
+    it("honors the suppression comments", async () => {
+      await writeFile(
+        join(dir, "d.html"),
+        [
+          "<!-- keml-disable-next-line unused-action -->",
+          '<button on:click="kept"></button>',
+          "<!-- keml-disable undefined-action -->",
+          '<div on="nowhere"></div>',
+          "<!-- keml-enable -->",
+          "<!-- keml-disable-next-line -->",
+          "<p></p>",
+        ].join("\n"),
+      );
+
+      const results = await lint({
+        cwd: dir,
+        patterns: ["d.html"],
+        keml: {},
+        exclude: [],
+      });
+
+      await unlink(join(dir, "d.html"));
+      expect(summarize(results)).toEqual([
+        { path: "d.html", codes: ["unused-suppression"] },
+      ]);
+      expect(results[0]!.diagnostics[0]!.range.start.line).toBe(5);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,1254 @@
+import {
+  CodeActionKind,
+  CodeLensRefreshRequest,
+  Connection,
+  DidChangeWatchedFilesNotification,
+  FileChangeType,
+  InitializeParams,
+  Location as LSLocation,
+  LSPErrorCodes,
+  ResponseError,
+  TextDocumentSyncKind,
+} from "vscode-languageserver";
+import { setStorageUri } from "./data.mts";
+import { defaultLanguages } from "./defaultLanguages.mts";
+import { parseRestoredDocs } from "./documents.mts";
+import { getActionGraph } from "./getActionGraph.mts";
+import { semanticTokensLegend } from "./semanticTokensProvider.mts";
+import {
+  fromDiagnostic,
+  fromPosition,
+  fromRange,
+  toCodeAction,
+  toCodeLens,
+  toCompletionItem,
+  toDiagnostic,
+  toDocumentHighlight,
+  toDocumentSymbol,
+  toHover,
+  toLocation,
+  toRange,
+  toSemanticTokens,
+  toSymbolInformation,
+  toWorkspaceEdit,
+} from "./protocol.mts";
+import { rebuildIndex } from "./rebuildIndex.mts";
+import { activateServices, deactivateServices } from "./services.mts";
+import {
+  Disposable,
+  TextDocument,
+  Uri,
+  extensions,
+  host,
+  languages,
+  window,
+} from "./vscode-shim.mts";
+
+const fileChangeTypes = {
+  [FileChangeType.Created]: "create",
+  [FileChangeType.Changed]: "change",
+  [FileChangeType.Deleted]: "delete",
+} as const;
+
+/**
+ * Serves KEML language features over the Language Server Protocol.
+ *
+ * The features are the very providers registered by the rest of the code base,
+ * running on top of the editor-independent `vscode` API implementation found
+ * in `vscode-shim.mts`.
+ *
+ * @param connection - Connection to the language client.
+ */
+export const listen = (connection: Connection) => {
+  const subscriptions: Disposable[] = [];
+  const pending = new Map<string, Uri>();
+  let params: InitializeParams;
+
+  /**
+   * Reads the settings relevant to the extension from the client.
+   *
+   * @param settings - Settings pushed by the client, if any.
+   * @returns The settings, grouped by section.
+   */
+  const getSettings = async (settings?: any) => {
+    if (!params.capabilities.workspace?.configuration) {
+      return settings ?? {};
+    }
+
+    const [keml, search] = await connection.workspace.getConfiguration([
+      { section: "keml" },
+      { section: "search" },
+    ]);
+
+    return { keml, search };
+  };
+
+  /**
+   * Publishes the diagnostics of every file that changed since the last call.
+   *
+   * Changed diagnostics also mean the reference counts and undefined actions
+   * shown in other files may be stale, so the client is asked to refresh its
+   * code lenses and semantic tokens.
+   */
+  const publishDiagnostics = () => {
+    for (const [uri, file] of pending) {
+      connection.sendDiagnostics({
+        uri,
+        diagnostics: extern.languages.getDiagnostics(file).map(toDiagnostic),
+      });
+    }
+    pending.clear();
+
+    if (params.capabilities.workspace?.codeLens?.refreshSupport) {
+      connection
+        .sendRequest(CodeLensRefreshRequest.type)
+        .catch(error => connection.console.error(String(error)));
+    }
+    if (params.capabilities.workspace?.semanticTokens?.refreshSupport) {
+      connection.languages.semanticTokens.refresh();
+    }
+  };
+
+  /**
+   * Calls the providers of a kind registered for a document until one of them
+   * returns a result.
+   *
+   * @param kind - The kind of the providers.
+   * @param uri - The document URI.
+   * @param callback - Calls a provider.
+   * @returns The first result, or null.
+   */
+  const provide = async <T,>(
+    kind: string,
+    uri: string,
+    callback: (provider: any, doc: TextDocument) => T,
+  ) => {
+    const doc = extern.host.getTextDocument(uri);
+    let result;
+
+    if (doc) {
+      try {
+        for (const provider of extern.host.getProviders(kind, doc.languageId)) {
+          if ((result = await callback(provider, doc))) {
+            return result;
+          }
+        }
+      } catch (error) {
+        throw new ResponseError(
+          LSPErrorCodes.RequestFailed,
+          error instanceof Error ? error.message : String(error),
+        );
+      }
+    }
+
+    return null;
+  };
+
+  connection.onInitialize(initializeParams => {
+    const { workspaceFolders, rootUri, initializationOptions } = (params =
+      initializeParams);
+
+    extern.extensions.all = [
+      {
+        packageJSON: {
+          contributes: {
+            languages: initializationOptions?.languages ?? defaultLanguages,
+          },
+        },
+      },
+    ];
+    extern.host.changeWorkspaceFolders(
+      workspaceFolders ?? (rootUri ? [{ uri: rootUri, name: "" }] : []),
+    );
+    extern.setStorageUri(
+      initializationOptions?.storageUri ?
+        Uri.parse(initializationOptions.storageUri)
+      : undefined,
+    );
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        completionProvider: { triggerCharacters: [" "] },
+        hoverProvider: true,
+        definitionProvider: true,
+        referencesProvider: true,
+        documentHighlightProvider: true,
+        documentSymbolProvider: { label: "KEML" },
+        workspaceSymbolProvider: true,
+        renameProvider: { prepareProvider: true },
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+        codeLensProvider: { resolveProvider: false },
+        semanticTokensProvider: {
+          legend: {
+            tokenTypes: semanticTokensLegend.tokenTypes,
+            tokenModifiers: semanticTokensLegend.tokenModifiers,
+          },
+          full: true,
+        },
+        workspace: {
+          workspaceFolders: { supported: true, changeNotifications: true },
+          fileOperations: {
+            didCreate: { filters: [{ pattern: { glob: "**/*" } }] },
+            didDelete: { filters: [{ pattern: { glob: "**/*" } }] },
+            didRename: { filters: [{ pattern: { glob: "**/*" } }] },
+          },
+        },
+      },
+      serverInfo: { name: "keml-language-server" },
+    };
+  });
+
+  connection.onInitialized(async () => {
+    const { workspace: capabilities } = params.capabilities;
+
+    extern.window.showErrorMessage = async message => {
+      connection.window.showErrorMessage(message);
+      return;
+    };
+    extern.host.setConfiguration(await getSettings(), false);
+    subscriptions.push(
+      extern.languages.onDidChangeDiagnostics(({ uris }) => {
+        if (!pending.size) {
+          queueMicrotask(publishDiagnostics);
+        }
+        uris.forEach(uri => pending.set(uri.toString(), uri));
+      }),
+    );
+    await extern.activateServices(subscriptions);
+
+    if (capabilities?.workspaceFolders) {
+      connection.workspace.onDidChangeWorkspaceFolders(({ added, removed }) =>
+        extern.host.changeWorkspaceFolders(added, removed),
+      );
+    }
+
+    if (capabilities?.didChangeWatchedFiles?.dynamicRegistration) {
+      connection.client.register(DidChangeWatchedFilesNotification.type, {
+        watchers: [{ globPattern: "**/*" }],
+      });
+    }
+  });
+
+  connection.onDidChangeConfiguration(async ({ settings }) =>
+    extern.host.setConfiguration(await getSettings(settings)),
+  );
+
+  connection.onDidOpenTextDocument(
+    ({ textDocument: { uri, languageId, version, text } }) =>
+      extern.host.openTextDocument(uri, languageId, version, text),
+  );
+
+  connection.onDidChangeTextDocument(
+    ({ textDocument: { uri, version }, contentChanges }) =>
+      extern.host.changeTextDocument(uri, version, contentChanges),
+  );
+
+  connection.onDidCloseTextDocument(({ textDocument: { uri } }) =>
+    extern.host.closeTextDocument(uri),
+  );
+
+  connection.onDidChangeWatchedFiles(({ changes }) =>
+    changes.forEach(({ uri, type }) =>
+      extern.host.changeFile(uri, fileChangeTypes[type]),
+    ),
+  );
+
+  connection.workspace.onDidCreateFiles(({ files }) =>
+    extern.host.createFiles(files.map(({ uri }) => uri)),
+  );
+
+  connection.workspace.onDidDeleteFiles(({ files }) =>
+    extern.host.deleteFiles(files.map(({ uri }) => uri)),
+  );
+
+  connection.workspace.onDidRenameFiles(({ files }) =>
+    extern.host.renameFiles(files),
+  );
+
+  connection.onCompletion(
+    async ({ textDocument: { uri }, position, context }, token) =>
+      (
+        await provide("completion", uri, (provider, doc) =>
+          provider.provideCompletionItems(doc, fromPosition(position), token, {
+            triggerKind: (context?.triggerKind ?? 1) - 1,
+            triggerCharacter: context?.triggerCharacter,
+          }),
+        )
+      )?.map(toCompletionItem) ?? null,
+  );
+
+  connection.onHover(async ({ textDocument: { uri }, position }, token) => {
+    const hover = await provide("hover", uri, (provider, doc) =>
+      provider.provideHover(doc, fromPosition(position), token),
+    );
+    return hover && toHover(hover);
+  });
+
+  connection.onDefinition(
+    async ({ textDocument: { uri }, position }, token) =>
+      (
+        await provide("definition", uri, (provider, doc) =>
+          provider.provideDefinition(doc, fromPosition(position), token),
+        )
+      )?.map(toLocation) ?? null,
+  );
+
+  connection.onReferences(
+    async ({ textDocument: { uri }, position, context }, token) =>
+      (
+        await provide("reference", uri, (provider, doc) =>
+          provider.provideReferences(
+            doc,
+            fromPosition(position),
+            context,
+            token,
+          ),
+        )
+      )?.map(toLocation) ?? null,
+  );
+
+  connection.onDocumentHighlight(
+    async ({ textDocument: { uri }, position }, token) =>
+      (
+        await provide("documentHighlight", uri, (provider, doc) =>
+          provider.provideDocumentHighlights(
+            doc,
+            fromPosition(position),
+            token,
+          ),
+        )
+      )?.map(toDocumentHighlight) ?? null,
+  );
+
+  connection.onDocumentSymbol(
+    async ({ textDocument: { uri } }, token) =>
+      (
+        await provide("documentSymbol", uri, (provider, doc) =>
+          provider.provideDocumentSymbols(doc, token),
+        )
+      )?.map(toDocumentSymbol) ?? null,
+  );
+
+  connection.onWorkspaceSymbol(async ({ query }, token) => {
+    const symbols = [];
+
+    for (const provider of extern.host.getProviders("workspaceSymbol", "*")) {
+      symbols.push(
+        ...((await provider.provideWorkspaceSymbols(query, token)) ?? []),
+      );
+    }
+
+    return symbols.map(toSymbolInformation);
+  });
+
+  connection.onPrepareRename(
+    async ({ textDocument: { uri }, position }, token) => {
+      const result = await provide("rename", uri, (provider, doc) =>
+        provider.prepareRename(doc, fromPosition(position), token),
+      );
+      return (
+        result &&
+        ("range" in result ?
+          { range: toRange(result.range), placeholder: result.placeholder }
+        : toRange(result))
+      );
+    },
+  );
+
+  connection.onRenameRequest(
+    async ({ textDocument: { uri }, position, newName }, token) => {
+      const edit = await provide("rename", uri, (provider, doc) =>
+        provider.provideRenameEdits(
+          doc,
+          fromPosition(position),
+          newName,
+          token,
+        ),
+      );
+      return edit && toWorkspaceEdit(edit);
+    },
+  );
+
+  connection.onCodeAction(
+    async ({ textDocument: { uri }, range, context }, token) =>
+      (
+        await provide("codeActions", uri, (provider, doc) =>
+          provider.provideCodeActions(
+            doc,
+            fromRange(range),
+            { diagnostics: context.diagnostics.map(fromDiagnostic) },
+            token,
+          ),
+        )
+      )?.map(toCodeAction) ?? null,
+  );
+
+  connection.onCodeLens(
+    async ({ textDocument: { uri } }, token) =>
+      (
+        await provide("codeLens", uri, (provider, doc) =>
+          provider.provideCodeLenses(doc, token),
+        )
+      )?.map(toCodeLens) ?? null,
+  );
+
+  connection.languages.semanticTokens.on(
+    async ({ textDocument: { uri } }, token) => {
+      const tokens = await provide("semanticTokens", uri, (provider, doc) =>
+        provider.provideDocumentSemanticTokens(doc, token),
+      );
+      return tokens ? toSemanticTokens(tokens) : { data: [] };
+    },
+  );
+
+  connection.onRequest(
+    "keml/actionGraph",
+    async (filter?: ActionGraphFilter): Promise<ActionGraph<LSLocation>> => {
+      await extern.parseRestoredDocs();
+
+      const { nodes, edges } = extern.getActionGraph(filter);
+
+      return {
+        nodes: nodes.map(node => ({
+          ...node,
+          location: toLocation(node.location),
+        })),
+        edges,
+      };
+    },
+  );
+
+  connection.onRequest("keml/rebuildIndex", () => extern.rebuildIndex());
+
+  connection.onShutdown(() => {
+    extern.deactivateServices();
+    subscriptions.forEach(subscription => subscription.dispose());
+    subscriptions.length = 0;
+  });
+
+  connection.listen();
+};
+
+let extern = {
+  activateServices,
+  deactivateServices,
+  extensions,
+  getActionGraph,
+  host,
+  languages,
+  parseRestoredDocs,
+  rebuildIndex,
+  setStorageUri,
+  window,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    beforeAll,
+    afterAll,
+    beforeEach,
+    vi: { fn, waitFor },
+  } = import.meta.vitest;
+  const { PassThrough } = await import("node:stream");
+  const { mkdtemp, readFile, rm, writeFile } = await import("node:fs/promises");
+  const { tmpdir } = await import("node:os");
+  const { join } = await import("node:path");
+  const { pathToFileURL } = await import("node:url");
+  const { createConnection, createMessageConnection } =
+    await import("vscode-languageserver/node.js");
+  const origExtern = extern;
+
+  /**
+   * Starts a server and connects a JSON-RPC client to it over in-memory
+   * streams.
+   */
+  const connect = () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const client = createMessageConnection(output, input);
+    const diagnostics = new Map<string, any[]>();
+
+    listen(createConnection(input, output));
+    client.onNotification(
+      "textDocument/publishDiagnostics",
+      ({ uri, diagnostics: value }: any) => diagnostics.set(uri, value),
+    );
+    client.listen();
+
+    return { client, diagnostics };
+  };
+
+  describe("listen", () => {
+    let dir: string;
+    let client: ReturnType<typeof connect>["client"];
+    let diagnostics: Map<string, any[]>;
+    let a: string;
+    let b: string;
+    const settings: Record<string, unknown> = {
+      keml: { languageIds: ["html"] },
+      search: { exclude: {} },
+    };
+    const registrations: any[] = [];
+    const refresh = fn(() => null).mockImplementationOnce(() => {
+      throw new Error("not now");
+    });
+    const refreshTokens = fn(() => null);
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), "keml-"));
+      await writeFile(
+        join(dir, "a.html"),
+        '<form on="submit"></form>\n<div on="other"></div>\n',
+      );
+      a = pathToFileURL(join(dir, "a.html")).toString();
+      b = pathToFileURL(join(dir, "b.html")).toString();
+      ({ client, diagnostics } = connect());
+      client.onRequest("workspace/configuration", ({ items }: any) =>
+        items.map(({ section }: any) => settings[section]),
+      );
+      client.onRequest(
+        "client/registerCapability",
+        ({ registrations: r }: any) => {
+          registrations.push(...r);
+          return null;
+        },
+      );
+      client.onRequest("workspace/codeLens/refresh", refresh);
+      client.onRequest("workspace/semanticTokens/refresh", refreshTokens);
+    });
+
+    afterAll(async () => {
+      client.dispose();
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("initializes", async () => {
+      const { capabilities, serverInfo } = await client.sendRequest<any>(
+        "initialize",
+        {
+          processId: null,
+          rootUri: pathToFileURL(dir).toString(),
+          initializationOptions: {
+            storageUri: pathToFileURL(join(dir, "storage")).toString(),
+          },
+          capabilities: {
+            workspace: {
+              configuration: true,
+              workspaceFolders: true,
+              didChangeWatchedFiles: { dynamicRegistration: true },
+              codeLens: { refreshSupport: true },
+              semanticTokens: { refreshSupport: true },
+            },
+          },
+        },
+      );
+
+      expect(serverInfo).toEqual({ name: "keml-language-server" });
+      expect(capabilities).toMatchObject({
+        completionProvider: { triggerCharacters: [" "] },
+        hoverProvider: true,
+        definitionProvider: true,
+        referencesProvider: true,
+        documentHighlightProvider: true,
+        documentSymbolProvider: { label: "KEML" },
+        workspaceSymbolProvider: true,
+        renameProvider: { prepareProvider: true },
+        codeActionProvider: { codeActionKinds: ["quickfix"] },
+        codeLensProvider: { resolveProvider: false },
+        semanticTokensProvider: {
+          legend: {
+            tokenTypes: expect.arrayContaining(["kemlEvent"]),
+            tokenModifiers: ["definition", "undefined"],
+          },
+          full: true,
+        },
+      });
+
+      client.sendNotification("initialized", {});
+
+      await waitFor(() =>
+        expect(diagnostics.get(a)).toMatchObject([
+          { code: "undefined-action", severity: 1, source: "KEML" },
+          { code: "undefined-action", severity: 1, source: "KEML" },
+        ]),
+      );
+      await waitFor(() =>
+        expect(registrations).toMatchObject([
+          { method: "workspace/didChangeWatchedFiles" },
+        ]),
+      );
+    });
+
+    it("publishes diagnostics of opened documents", async () => {
+      client.sendNotification("textDocument/didOpen", {
+        textDocument: {
+          uri: b,
+          languageId: "html",
+          version: 1,
+          text: '<button on:click="submit"></button>\n<div on="missing"></div>',
+        },
+      });
+
+      await waitFor(() => {
+        expect(diagnostics.get(a)).toMatchObject([
+          { range: { start: { line: 1, character: 9 } } },
+        ]);
+        expect(diagnostics.get(b)).toMatchObject([
+          {
+            code: "undefined-action",
+            range: {
+              start: { line: 1, character: 9 },
+              end: { line: 1, character: 16 },
+            },
+          },
+        ]);
+      });
+    });
+
+    it("provides completion", async () => {
+      const items = await client.sendRequest("textDocument/completion", {
+        textDocument: { uri: b },
+        position: { line: 1, character: 9 },
+      });
+      expect(items).toContainEqual(
+        expect.objectContaining({ label: "submit" }),
+      );
+    });
+
+    it("provides hover", async () => {
+      expect(
+        await client.sendRequest("textDocument/hover", {
+          textDocument: { uri: b },
+          position: { line: 0, character: 10 },
+        }),
+      ).toMatchObject({ contents: { kind: "markdown" } });
+    });
+
+    it("provides definitions and references", async () => {
+      const position = { line: 0, character: 20 };
+      expect(
+        await client.sendRequest("textDocument/definition", {
+          textDocument: { uri: b },
+          position,
+        }),
+      ).toEqual([
+        {
+          uri: b,
+          range: {
+            start: { line: 0, character: 18 },
+            end: { line: 0, character: 24 },
+          },
+        },
+      ]);
+      expect(
+        await client.sendRequest("textDocument/references", {
+          textDocument: { uri: b },
+          position,
+          context: { includeDeclaration: true },
+        }),
+      ).toEqual([
+        {
+          uri: a,
+          range: {
+            start: { line: 0, character: 10 },
+            end: { line: 0, character: 16 },
+          },
+        },
+      ]);
+    });
+
+    it("provides document highlights", async () => {
+      expect(
+        await client.sendRequest("textDocument/documentHighlight", {
+          textDocument: { uri: b },
+          position: { line: 0, character: 20 },
+        }),
+      ).toEqual([
+        {
+          range: {
+            start: { line: 0, character: 18 },
+            end: { line: 0, character: 24 },
+          },
+          kind: 3,
+        },
+      ]);
+    });
+
+    it("provides document symbols", async () => {
+      const range = {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 26 },
+      };
+      expect(
+        await client.sendRequest("textDocument/documentSymbol", {
+          textDocument: { uri: b },
+        }),
+      ).toEqual([
+        {
+          name: "submit",
+          detail: "event action",
+          kind: 24,
+          range,
+          selectionRange: {
+            start: { line: 0, character: 18 },
+            end: { line: 0, character: 24 },
+          },
+          children: [],
+        },
+      ]);
+    });
+
+    it("provides workspace symbols", async () => {
+      const symbols = await client.sendRequest<any[]>("workspace/symbol", {
+        query: "sbmt",
+      });
+      expect(
+        symbols.map(({ name, kind, containerName, location: { uri } }) => ({
+          name,
+          kind,
+          containerName,
+          uri,
+        })),
+      ).toEqual(
+        expect.arrayContaining([
+          {
+            name: "submit",
+            kind: 24,
+            containerName: "event subscriber",
+            uri: a,
+          },
+          {
+            name: "submit",
+            kind: 24,
+            containerName: "event definition",
+            uri: b,
+          },
+        ]),
+      );
+      expect(symbols).toHaveLength(2);
+    });
+
+    it("provides code lenses", async () => {
+      const range = {
+        start: { line: 0, character: 18 },
+        end: { line: 0, character: 24 },
+      };
+
+      expect(
+        await client.sendRequest("textDocument/codeLens", {
+          textDocument: { uri: b },
+        }),
+      ).toContainEqual({
+        range,
+        command: {
+          title: "1 subscriber · 1 file",
+          tooltip: 'event action "submit"',
+          command: "keml.showReferences",
+          arguments: [
+            b,
+            range.start,
+            [
+              {
+                uri: a,
+                range: {
+                  start: { line: 0, character: 10 },
+                  end: { line: 0, character: 16 },
+                },
+              },
+            ],
+          ],
+        },
+      });
+      expect(refresh.mock.calls.length).toBeGreaterThan(1);
+    });
+
+    it("provides semantic tokens", async () => {
+      expect(
+        await client.sendRequest("textDocument/semanticTokens/full", {
+          textDocument: { uri: b },
+        }),
+      ).toEqual({ data: [0, 18, 6, 0, 1, 1, 9, 7, 0, 2] });
+      expect(refreshTokens).toHaveBeenCalled();
+    });
+
+    it("provides the action graph", async () => {
+      const { nodes, edges } = await client.sendRequest<any>(
+        "keml/actionGraph",
+        { action: ":event:submit" },
+      );
+      expect(nodes).toContainEqual({
+        id: ":event:submit",
+        type: "event",
+        label: "submit",
+        detail: "event action",
+        location: {
+          uri: b,
+          range: {
+            start: { line: 0, character: 18 },
+            end: { line: 0, character: 24 },
+          },
+        },
+      });
+      expect(nodes).toHaveLength(3);
+      expect(edges).toHaveLength(2);
+    });
+
+    it("rebuilds the index", async () => {
+      await client.sendRequest("keml/rebuildIndex");
+
+      const { files } = JSON.parse(
+        await readFile(join(dir, "storage", "index.json"), "utf8"),
+      );
+      expect(Object.keys(files)).toEqual([a]);
+    });
+
+    it("renames actions", async () => {
+      const position = { line: 0, character: 20 };
+      expect(
+        await client.sendRequest("textDocument/prepareRename", {
+          textDocument: { uri: b },
+          position,
+        }),
+      ).toEqual({
+        range: {
+          start: { line: 0, character: 18 },
+          end: { line: 0, character: 24 },
+        },
+        placeholder: "submit",
+      });
+      expect(
+        await client.sendRequest("textDocument/rename", {
+          textDocument: { uri: b },
+          position,
+          newName: "send",
+        }),
+      ).toEqual({
+        changes: {
+          [b]: [
+            {
+              range: {
+                start: { line: 0, character: 18 },
+                end: { line: 0, character: 24 },
+              },
+              newText: "send",
+            },
+          ],
+          [a]: [
+            {
+              range: {
+                start: { line: 0, character: 10 },
+                end: { line: 0, character: 16 },
+              },
+              newText: "send",
+            },
+          ],
+        },
+      });
+      await expect(
+        client.sendRequest("textDocument/prepareRename", {
+          textDocument: { uri: b },
+          position: { line: 0, character: 0 },
+        }),
+      ).rejects.toMatchObject({
+        code: -32803,
+        message: "You cannot rename this element.",
+      });
+    });
+
+    it("provides quick fixes", async () => {
+      expect(
+        await client.sendRequest("textDocument/codeAction", {
+          textDocument: { uri: b },
+          range: {
+            start: { line: 1, character: 9 },
+            end: { line: 1, character: 16 },
+          },
+          context: { diagnostics: diagnostics.get(b) },
+        }),
+      ).toMatchObject([
+        {
+          title: "Define event action 'missing' with 'on:click'",
+          kind: "quickfix",
+          isPreferred: true,
+          edit: {
+            changes: {
+              [b]: [
+                {
+                  range: {
+                    start: { line: 1, character: 17 },
+                    end: { line: 1, character: 17 },
+                  },
+                  newText: ' on:click="missing"',
+                },
+              ],
+            },
+          },
+        },
+      ]);
+    });
+
+    it("tracks edits", async () => {
+      client.sendNotification("textDocument/didChange", {
+        textDocument: { uri: b, version: 2 },
+        contentChanges: [
+          {
+            range: {
+              start: { line: 1, character: 9 },
+              end: { line: 1, character: 16 },
+            },
+            text: "submit",
+          },
+        ],
+      });
+      await waitFor(() => expect(diagnostics.get(b)).toEqual([]));
+    });
+
+    it("returns null for unknown documents", async () => {
+      expect(
+        await client.sendRequest("textDocument/hover", {
+          textDocument: { uri: "file:///unknown.html" },
+          position: { line: 0, character: 0 },
+        }),
+      ).toBeNull();
+    });
+
+    it("forgets closed documents", async () => {
+      client.sendNotification("textDocument/didClose", {
+        textDocument: { uri: b },
+      });
+      expect(
+        await client.sendRequest("textDocument/hover", {
+          textDocument: { uri: b },
+          position: { line: 0, character: 10 },
+        }),
+      ).toBeNull();
+    });
+
+    it("re-reads the configuration", async () => {
+      settings["keml"] = {
+        languageIds: ["html"],
+        actionUndefinedSeverity: "Hint",
+      };
+      client.sendNotification("workspace/didChangeConfiguration", {
+        settings: null,
+      });
+      await waitFor(() =>
+        expect(diagnostics.get(a)).toMatchObject([{ severity: 4 }]),
+      );
+    });
+
+    it("follows workspace folders", async () => {
+      const { workspace } = await import("./vscode-shim.mts");
+      client.sendNotification("workspace/didChangeWorkspaceFolders", {
+        event: {
+          added: [{ uri: "file:///other", name: "other" }],
+          removed: [],
+        },
+      });
+      await waitFor(() =>
+        expect(workspace.workspaceFolders?.map(({ name }) => name)).toEqual([
+          "",
+          "other",
+        ]),
+      );
+    });
+
+    it("shuts down", async () => {
+      await client.sendRequest("shutdown");
+    });
+  });
+
+  describe("listen routing", () => {
+    let client: ReturnType<typeof connect>["client"];
+    let diagnostics: ReturnType<typeof connect>["diagnostics"];
+    let host: any;
+    let onDidChangeDiagnostics: (e: { uris: unknown[] }) => void;
+    const empty = {
+      provideCompletionItems: fn(),
+      provideHover: fn(),
+      provideDefinition: fn(),
+      provideReferences: fn(),
+      provideDocumentHighlights: fn(),
+      provideDocumentSymbols: fn(),
+      provideWorkspaceSymbols: fn(),
+      prepareRename: fn(),
+      provideRenameEdits: fn(),
+      provideCodeActions: fn(),
+      provideCodeLenses: fn(),
+      provideDocumentSemanticTokens: fn(),
+    };
+    const provider = {
+      provideCompletionItems: fn(),
+      provideHover: fn(),
+      provideDefinition: fn(),
+      provideReferences: fn(),
+      provideDocumentHighlights: fn(),
+      provideDocumentSymbols: fn(),
+      provideWorkspaceSymbols: fn(),
+      prepareRename: fn(),
+      provideRenameEdits: fn(),
+      provideCodeActions: fn(),
+      provideCodeLenses: fn(),
+      provideDocumentSemanticTokens: fn(),
+    };
+    const doc = { languageId: "html" };
+    const position = { line: 0, character: 0 };
+    const range = { start: position, end: position };
+
+    beforeAll(async () => {
+      extern = {
+        ...origExtern,
+        activateServices: fn(async () => {}),
+        deactivateServices: fn(),
+        extensions: { all: [] } as any,
+        languages: {
+          getDiagnostics: fn(() => []),
+          onDidChangeDiagnostics: fn(listener => {
+            onDidChangeDiagnostics = listener;
+            return { dispose() {} };
+          }),
+        } as any,
+        window: {} as any,
+      };
+      host = {
+        getTextDocument: fn(() => doc),
+        getProviders: fn(() => [empty, provider]),
+        setConfiguration: fn(),
+        changeWorkspaceFolders: fn(),
+        openTextDocument: fn(),
+        changeTextDocument: fn(),
+        closeTextDocument: fn(),
+        changeFile: fn(),
+        createFiles: fn(),
+        deleteFiles: fn(),
+        renameFiles: fn(),
+      };
+      extern.host = host as any;
+      ({ client, diagnostics } = connect());
+      await client.sendRequest("initialize", {
+        processId: null,
+        rootUri: null,
+        capabilities: {},
+        workspaceFolders: [{ uri: "file:///w", name: "w" }],
+      });
+      client.sendNotification("initialized", {});
+      await waitFor(() => expect(extern.activateServices).toHaveBeenCalled());
+    });
+
+    beforeEach(() => {
+      Object.values(provider).forEach(mock => mock.mockReset());
+    });
+
+    afterAll(() => {
+      client.dispose();
+      extern = origExtern;
+    });
+
+    it("falls back to default languages and settings", async () => {
+      expect(
+        extern.extensions.all[0]!.packageJSON.contributes!.languages,
+      ).toEqual(
+        expect.arrayContaining([{ id: "html", extensions: expect.any(Array) }]),
+      );
+      expect(host.changeWorkspaceFolders).toHaveBeenCalledWith([
+        { uri: "file:///w", name: "w" },
+      ]);
+      expect(host.setConfiguration).toHaveBeenCalledWith({}, false);
+
+      client.sendNotification("workspace/didChangeConfiguration", {
+        settings: { keml: {} },
+      });
+      client.sendNotification("workspace/didChangeConfiguration", {});
+      await waitFor(() => {
+        expect(host.setConfiguration).toHaveBeenCalledWith({ keml: {} });
+        expect(host.setConfiguration).toHaveBeenLastCalledWith({});
+      });
+    });
+
+    it("publishes diagnostics without refreshing code lenses", async () => {
+      const refresh = fn();
+
+      client.onRequest("workspace/codeLens/refresh", refresh);
+      onDidChangeDiagnostics({ uris: ["file:///w/a.html"] });
+      await waitFor(() =>
+        expect(diagnostics.get("file:///w/a.html")).toEqual([]),
+      );
+      expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it("initializes without a workspace", async () => {
+      const { client } = connect();
+      await client.sendRequest("initialize", {
+        processId: null,
+        rootUri: null,
+        capabilities: {},
+      });
+      expect(host.changeWorkspaceFolders).toHaveBeenLastCalledWith([]);
+      client.dispose();
+    });
+
+    it("forwards error messages", async () => {
+      const onMessage = fn();
+      client.onRequest("window/showMessageRequest", onMessage);
+      await extern.window.showErrorMessage("oops");
+      await waitFor(() =>
+        expect(onMessage.mock.calls[0]![0]).toMatchObject({
+          type: 1,
+          message: "oops",
+        }),
+      );
+    });
+
+    it("routes document and file notifications", async () => {
+      client.sendNotification("textDocument/didOpen", {
+        textDocument: { uri: "u", languageId: "html", version: 1, text: "t" },
+      });
+      client.sendNotification("textDocument/didChange", {
+        textDocument: { uri: "u", version: 2 },
+        contentChanges: [{ text: "x" }],
+      });
+      client.sendNotification("textDocument/didClose", {
+        textDocument: { uri: "u" },
+      });
+      client.sendNotification("workspace/didChangeWatchedFiles", {
+        changes: [
+          { uri: "a", type: 1 },
+          { uri: "b", type: 2 },
+          { uri: "c", type: 3 },
+        ],
+      });
+      client.sendNotification("workspace/didCreateFiles", {
+        files: [{ uri: "d" }],
+      });
+      client.sendNotification("workspace/didDeleteFiles", {
+        files: [{ uri: "e" }],
+      });
+      client.sendNotification("workspace/didRenameFiles", {
+        files: [{ oldUri: "f", newUri: "g" }],
+      });
+
+      await waitFor(() => {
+        expect(host.openTextDocument).toHaveBeenCalledWith("u", "html", 1, "t");
+        expect(host.changeTextDocument).toHaveBeenCalledWith("u", 2, [
+          { text: "x" },
+        ]);
+        expect(host.closeTextDocument).toHaveBeenCalledWith("u");
+        expect(host.changeFile.mock.calls).toEqual([
+          ["a", "create"],
+          ["b", "change"],
+          ["c", "delete"],
+        ]);
+        expect(host.createFiles).toHaveBeenCalledWith(["d"]);
+        expect(host.deleteFiles).toHaveBeenCalledWith(["e"]);
+        expect(host.renameFiles).toHaveBeenCalledWith([
+          { oldUri: "f", newUri: "g" },
+        ]);
+      });
+    });
+
+    it("returns null when no provider has a result", async () => {
+      const params = { textDocument: { uri: "u" }, position };
+      expect(
+        await client.sendRequest("textDocument/completion", params),
+      ).toBeNull();
+      expect(await client.sendRequest("textDocument/hover", params)).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/definition", params),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/references", {
+          ...params,
+          context: { includeDeclaration: false },
+        }),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/documentHighlight", params),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/documentSymbol", params),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("workspace/symbol", { query: "" }),
+      ).toEqual([]);
+      expect(
+        await client.sendRequest("textDocument/prepareRename", params),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/rename", {
+          ...params,
+          newName: "a",
+        }),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/codeAction", {
+          textDocument: { uri: "u" },
+          range,
+          context: { diagnostics: [] },
+        }),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/codeLens", params),
+      ).toBeNull();
+      expect(
+        await client.sendRequest("textDocument/semanticTokens/full", params),
+      ).toEqual({ data: [] });
+      expect(provider.provideCompletionItems).toHaveBeenCalledWith(
+        doc,
+        position,
+        expect.anything(),
+        { triggerKind: 0, triggerCharacter: undefined },
+      );
+    });
+
+    it("passes the completion context", async () => {
+      await client.sendRequest("textDocument/completion", {
+        textDocument: { uri: "u" },
+        position,
+        context: { triggerKind: 2, triggerCharacter: " " },
+      });
+      expect(provider.provideCompletionItems).toHaveBeenCalledWith(
+        doc,
+        position,
+        expect.anything(),
+        { triggerKind: 1, triggerCharacter: " " },
+      );
+    });
+
+    it("accepts a range from prepareRename", async () => {
+      const { Range } = await import("./vscode-shim.mts");
+      provider.prepareRename.mockReturnValue(new Range(0, 1, 0, 2));
+      expect(
+        await client.sendRequest("textDocument/prepareRename", {
+          textDocument: { uri: "u" },
+          position,
+        }),
+      ).toEqual({
+        start: { line: 0, character: 1 },
+        end: { line: 0, character: 2 },
+      });
+    });
+
+    it("reports non-error failures", async () => {
+      provider.provideHover.mockImplementation(() => {
+        throw "oops";
+      });
+      await expect(
+        client.sendRequest("textDocument/hover", {
+          textDocument: { uri: "u" },
+          position,
+        }),
+      ).rejects.toMatchObject({ message: "oops" });
+    });
+
+    it("disposes everything on shutdown", async () => {
+      await client.sendRequest("shutdown");
+      expect(extern.deactivateServices).toHaveBeenCalled();
+    });
+  });
+}
+/* v8 ignore stop */
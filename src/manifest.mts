@@ -0,0 +1,222 @@
+import { posix } from "node:path";
+import { Location, Range, window, workspace } from "vscode";
+import { setExternalActions } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
+import { parseManifest } from "./parseManifest.mts";
+import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
+
+/**
+ * File names of the project manifest, by priority.
+ */
+const MANIFEST_NAMES = ["keml.config.json", ".kemlrc"];
+
+/**
+ * Loads the actions declared by the project manifest found at the root of
+ * each workspace folder, either `keml.config.json` or `.kemlrc`, into the
+ * namespace of the folder.
+ *
+ * Should the manifests of folders sharing a namespace declare the same action,
+ * the first one wins.
+ */
+export const loadManifest = async () => {
+  const result = new Map<
+    string,
+    Record<ActionKind, Map<string, ExternalAction>>
+  >();
+  let file, doc, entries, namespace, actions, declared;
+
+  for (const { uri } of extern.workspace.workspaceFolders ?? []) {
+    for (const name of MANIFEST_NAMES) {
+      file = uri.with({ path: posix.join(uri.path, name) });
+      try {
+        doc = await extern.workspace.openTextDocument(file);
+      } catch {
+        continue;
+      }
+      try {
+        entries = extern.parseManifest(doc.getText());
+      } catch (error) {
+        extern.window.showErrorMessage(
+          `Failed to parse ${file.fsPath}: ${error}`,
+        );
+        break;
+      }
+      namespace = extern.getNamespace(uri);
+      if (!(actions = result.get(namespace))) {
+        result.set(
+          namespace,
+          (actions = { event: new Map(), state: new Map(), result: new Map() }),
+        );
+      }
+      for (const { kind, action, description, start, end } of entries) {
+        if (!(declared = actions[kind]).has(action)) {
+          declared.set(action, {
+            description,
+            location: new extern.Location(
+              file,
+              new extern.Range(doc.positionAt(start), doc.positionAt(end)),
+            ),
+          });
+        }
+      }
+      break;
+    }
+  }
+
+  extern.setExternalActions(result);
+};
+
+/**
+ * Reloads the project manifest and refreshes the diagnostics.
+ */
+export const onDidChangeManifest = async () => {
+  await extern.loadManifest();
+  extern.updateDiagnosticCollection(true);
+};
+
+/**
+ * Watches the project manifests for changes.
+ *
+ * @returns The watcher, to be disposed of when no longer needed.
+ */
+export const watchManifest = () => {
+  const watcher = extern.workspace.createFileSystemWatcher(
+    `{${MANIFEST_NAMES.join(",")}}`,
+  );
+
+  watcher.onDidChange(onDidChangeManifest);
+  watcher.onDidCreate(onDidChangeManifest);
+  watcher.onDidDelete(onDidChangeManifest);
+
+  return watcher;
+};
+
+let extern = {
+  Location,
+  Range,
+  window,
+  workspace,
+  getNamespace,
+  loadManifest,
+  parseManifest,
+  setExternalActions,
+  updateDiagnosticCollection,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const { TextDocument, Uri } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("manifest", () => {
+    const files: Record<string, string> = {};
+
+    beforeEach(() => {
+      for (const path in files) {
+        delete files[path];
+      }
+      extern = {
+        ...origExtern,
+        window: { showErrorMessage: fn() } as any,
+        workspace: {
+          workspaceFolders: [
+            { uri: Uri.file("/a"), name: "a", index: 0 },
+            { uri: Uri.file("/b/"), name: "b", index: 1 },
+            { uri: Uri.file("/c"), name: "c", index: 2 },
+          ],
+          openTextDocument: fn(async (uri: ReturnType<typeof Uri.file>) => {
+            if (!(uri.path in files)) {
+              throw new Error("ENOENT");
+            }
+            return new TextDocument(uri, "json", 0, files[uri.path]!);
+          }),
+          createFileSystemWatcher: fn(),
+        } as any,
+        getNamespace: fn(({ path }) => (path === "/c" ? "a" : path[1]!)),
+        setExternalActions: fn(),
+        updateDiagnosticCollection: fn(),
+      };
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("loads the first manifest of every workspace folder", async () => {
+      files["/a/keml.config.json"] = '{\n  "events": { "refresh": "A." }\n}';
+      files["/a/.kemlrc"] = '{ "events": { "ignored": "A." } }';
+      files["/b/.kemlrc"] = "{";
+      files["/c/.kemlrc"] =
+        '{ "events": { "refresh": "C." }, "states": { "ready": "C." } }';
+
+      await loadManifest();
+      expect(extern.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringMatching(/^Failed to parse .*\.kemlrc: SyntaxError/),
+      );
+
+      files["/b/.kemlrc"] =
+        '{ "events": { "refresh": "B." }, "states": { "ready": "B." } }';
+
+      await loadManifest();
+      const [namespaces] = (extern.setExternalActions as any).mock.calls[1];
+      const { event, state, result } = namespaces.get("a");
+
+      expect(Array.from(namespaces.keys())).toEqual(["a", "b"]);
+      expect(Array.from(event.keys())).toEqual(["refresh"]);
+      expect(event.get("refresh")).toMatchObject({
+        description: "A.",
+        location: {
+          uri: { path: "/a/keml.config.json" },
+          range: {
+            start: { line: 1, character: 15 },
+            end: { line: 1, character: 22 },
+          },
+        },
+      });
+      expect(state.get("ready").location.uri.path).toBe("/c/.kemlrc");
+      expect(result.size).toBe(0);
+      expect(namespaces.get("b").event.get("refresh").description).toBe("B.");
+    });
+
+    it("loads nothing without workspace folders", async () => {
+      extern.workspace = { ...extern.workspace, workspaceFolders: undefined };
+      await loadManifest();
+      expect(extern.setExternalActions).toHaveBeenCalledWith(new Map());
+    });
+
+    it("reloads the manifest when it changes", async () => {
+      const watcher = {
+        onDidChange: fn(),
+        onDidCreate: fn(),
+        onDidDelete: fn(),
+      };
+
+      extern.workspace.createFileSystemWatcher = fn(() => watcher) as any;
+      extern.loadManifest = fn(async () => {});
+
+      expect(watchManifest()).toBe(watcher);
+      expect(extern.workspace.createFileSystemWatcher).toHaveBeenCalledWith(
+        "{keml.config.json,.kemlrc}",
+      );
+
+      const [[listener]] = watcher.onDidChange.mock.calls as any;
+
+      expect(watcher.onDidCreate).toHaveBeenCalledWith(listener);
+      expect(watcher.onDidDelete).toHaveBeenCalledWith(listener);
+      await listener();
+      expect(extern.loadManifest).toHaveBeenCalled();
+      expect(extern.updateDiagnosticCollection).toHaveBeenCalledWith(true);
+    });
+  });
+}
+/* v8 ignore stop */
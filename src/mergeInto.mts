@@ -0,0 +1,42 @@
+/**
+ * Appends the values of every key of a map to the values of the same key in
+ * another one.
+ *
+ * @param target - Map receiving the values.
+ * @param source - Map whose values are copied, left untouched.
+ */
+export const mergeInto = <T,>(
+  target: Map<string, T[]>,
+  source: Map<string, T[]>,
+) => {
+  for (const [key, values] of source) {
+    target.get(key)?.push(...values) ?? target.set(key, values.slice());
+  }
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("mergeInto", () => {
+    it("appends to existing keys and copies new ones", () => {
+      const target = new Map([["a", [1]]]);
+      const source = new Map([
+        ["a", [2, 3]],
+        ["b", [4]],
+      ]);
+
+      mergeInto(target, source);
+      target.get("b")!.push(5);
+
+      expect(target).toEqual(
+        new Map([
+          ["a", [1, 2, 3]],
+          ["b", [4, 5]],
+        ]),
+      );
+      expect(source.get("b")).toEqual([4]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -9,7 +9,14 @@ import { configure } from "./configure.mts";
  */
 export const onDidChangeConfiguration = (e: ConfigurationChangeEvent) =>
   (e.affectsConfiguration("keml") || e.affectsConfiguration("search")) &&
-  extern.configure(e.affectsConfiguration("keml.warnOnLogAttribute"));
+  extern.configure(
+    e.affectsConfiguration("keml.warnOnLogAttribute"),
+    e.affectsConfiguration("keml.templateSyntaxes") ||
+      e.affectsConfiguration("keml.rules") ||
+      e.affectsConfiguration("keml.customEvents") ||
+      e.affectsConfiguration("keml.pageGraph") ||
+      e.affectsConfiguration("keml.includePatterns"),
+  );
 
 let extern = { configure };
 
@@ -47,7 +54,7 @@ if (import.meta.vitest) {
 
       const result = onDidChangeConfiguration(e as any);
 
-      expect(extern.configure).toHaveBeenCalled();
+      expect(extern.configure).toHaveBeenCalledWith(false, false);
       expect(result).toBe("configured");
     });
 
@@ -63,13 +70,45 @@ if (import.meta.vitest) {
       expect(result).toBe("configured");
     });
 
+    it("refreshes every document if the rules are affected", () => {
+      const e = {
+        affectsConfiguration: fn((name: string) =>
+          ["keml", "keml.rules"].includes(name),
+        ),
+      };
+      extern.configure = fn();
+
+      onDidChangeConfiguration(e as any);
+
+      expect(extern.configure).toHaveBeenCalledWith(false, true);
+    });
+
+    it("refreshes every document if the page graph or custom events are affected", () => {
+      for (const setting of [
+        "keml.pageGraph",
+        "keml.includePatterns",
+        "keml.customEvents",
+      ]) {
+        const e = {
+          affectsConfiguration: fn((name: string) =>
+            ["keml", setting].includes(name),
+          ),
+        };
+        extern.configure = fn();
+
+        onDidChangeConfiguration(e as any);
+
+        expect(extern.configure).toHaveBeenCalledWith(false, true);
+      }
+    });
+
     it("calls configure if both keml and search are affected", () => {
       const e = { affectsConfiguration: fn(() => true) };
       extern.configure = fn(() => "configured") as any;
 
       const result = onDidChangeConfiguration(e as any);
 
-      expect(extern.configure).toHaveBeenCalled();
+      expect(extern.configure).toHaveBeenCalledWith(true, true);
       expect(result).toBe("configured");
     });
   });
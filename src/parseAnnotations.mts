@@ -0,0 +1,67 @@
+const COMMENT_PATTERN = /<!--([\s\S]*?)-->\s*/g;
+const ANNOTATION_PATTERN = /@keml\s+([^\s:]+)\s*:([\s\S]*?)(?=@keml\s|$)/g;
+const WHITESPACE_PATTERN = /\s+/g;
+
+/**
+ * Finds the `@keml` annotations documenting the actions of the elements that
+ * directly follow HTML comments, e.g.
+ * `<!-- @keml save: persists the draft and refreshes the list -->`.
+ *
+ * A comment may hold several annotations, one per action.
+ *
+ * @param text - The HTML text.
+ * @returns The descriptions by action name, by the offset of the element they
+ *          apply to.
+ */
+export const parseAnnotations = (text: string) => {
+  const result = new Map<number, Map<string, string>>();
+  let annotations, description;
+
+  for (const { 0: comment, 1: body, index } of text.matchAll(COMMENT_PATTERN)) {
+    annotations = new Map<string, string>();
+    for (const [, action, value] of body!.matchAll(ANNOTATION_PATTERN)) {
+      if ((description = value!.replace(WHITESPACE_PATTERN, " ").trim())) {
+        annotations.set(action!, description);
+      }
+    }
+    if (annotations.size) {
+      result.set(index + comment.length, annotations);
+    }
+  }
+
+  return result;
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("parseAnnotations", () => {
+    it("maps the annotations to the element that follows", () => {
+      const text = [
+        "<!-- @keml save: persists the draft",
+        "     and refreshes the list",
+        "     @keml busy: while saving @keml empty: -->",
+        '<button on:click="save" if:loading="busy"></button>',
+        "<!-- a regular comment --><p></p>",
+        "<!-- @keml done:ok--> <i></i>",
+        "<!-- @keml done:ok--> <i></i>",
+      ].join("\n");
+
+      expect(parseAnnotations(text)).toEqual(
+        new Map([
+          [
+            text.indexOf("<button"),
+            new Map([
+              ["save", "persists the draft and refreshes the list"],
+              ["busy", "while saving"],
+            ]),
+          ],
+          [text.indexOf("<i>"), new Map([["done", "ok"]])],
+          [text.lastIndexOf("<i>"), new Map([["done", "ok"]])],
+        ]),
+      );
+    });
+  });
+}
+/* v8 ignore stop */
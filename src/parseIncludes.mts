@@ -0,0 +1,63 @@
+/**
+ * Finds the paths of the files a template renders along with itself, e.g.
+ * `{% include "header.html" %}`, `{{> footer}}` or
+ * `<!--#include file="nav.html" -->`.
+ *
+ * @param text - The text of the template.
+ * @param patterns - Global patterns of the include directives, whose first
+ *                   capturing group is the path of the included file.
+ * @returns The paths, in order of appearance, without duplicates.
+ */
+export const parseIncludes = (text: string, patterns: RegExp[]) => {
+  const result = new Set<string>();
+  let path;
+
+  for (const pattern of patterns) {
+    for ({ 1: path } of text.matchAll(pattern)) {
+      if (path) {
+        result.add(path);
+      }
+    }
+  }
+
+  return Array.from(result);
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { defaultIncludePatterns } =
+    await import("./defaultIncludePatterns.mts");
+
+  describe("parseIncludes", () => {
+    const patterns = defaultIncludePatterns.map(
+      source => new RegExp(source, "g"),
+    );
+
+    it("finds the included files", () => {
+      const text = [
+        '{% extends "layout.html" %}',
+        "{%- include 'partials/cart.html' with items %}",
+        "{{> footer}}",
+        '{{> "nav.hbs" }}',
+        '<!--#include virtual="/ssi/banner.html" -->',
+        '<!--#include file="cart.html" -->',
+        '{% include "partials/cart.html" %}',
+      ].join("\n");
+
+      expect(parseIncludes(text, patterns)).toEqual([
+        "layout.html",
+        "partials/cart.html",
+        "footer",
+        "nav.hbs",
+        "/ssi/banner.html",
+        "cart.html",
+      ]);
+    });
+
+    it("skips matches without a path", () => {
+      expect(parseIncludes("<b> <ib>", [/<(i)?b>/g])).toEqual(["i"]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,142 @@
+const TOKEN_PATTERN = /"(?:[^"\\]|\\.)*"|[^\s"]/g;
+
+/**
+ * The kind of action declared by each section of the manifest.
+ */
+const sections = new Map<string | undefined, ActionKind>([
+  ["events", "event"],
+  ["states", "state"],
+  ["results", "result"],
+]);
+
+/**
+ * An action declared by the project manifest.
+ */
+export interface ManifestEntry {
+  /**
+   * The namespace of the action.
+   */
+  kind: ActionKind;
+
+  /**
+   * The name of the action.
+   */
+  action: string;
+
+  /**
+   * Markdown describing the action.
+   */
+  description: string;
+
+  /**
+   * The starting offset of the action name in the manifest.
+   */
+  start: number;
+
+  /**
+   * The ending offset of the action name in the manifest.
+   */
+  end: number;
+}
+
+/**
+ * Parses the project manifest declaring the actions that are triggered or
+ * consumed outside of the markup, e.g.
+ * `{ "events": { "refresh": "Sent by the server." } }`.
+ *
+ * The `events`, `states` and `results` sections map action names to their
+ * descriptions. Anything else is ignored.
+ *
+ * @param text - The JSON text of the manifest.
+ * @returns The declared actions, in order.
+ * @throws {SyntaxError} If the text is not valid JSON.
+ */
+export const parseManifest = (text: string) => {
+  const manifest: unknown = JSON.parse(text);
+  const result: ManifestEntry[] = [];
+  const containers: { open: string; key: string | undefined }[] = [];
+  let key: string | undefined, last, token, kind, description;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    token = match[0];
+    if (token === "{" || token === "[") {
+      containers.push({ open: token, key });
+      key = undefined;
+    } else if (token === "}" || token === "]") {
+      containers.pop();
+    } else if (token.startsWith('"')) {
+      last = match;
+    } else if (token === ":" && last) {
+      key = JSON.parse(last[0]) as string;
+      if (
+        containers.length === 2 &&
+        containers.every(({ open }) => open === "{") &&
+        (kind = sections.get(containers[1]!.key)) &&
+        typeof (description = (
+          manifest as Record<string, Record<string, unknown> | null>
+        )[containers[1]!.key!]?.[key]) === "string"
+      ) {
+        result.push({
+          kind,
+          action: key,
+          description,
+          start: last.index + 1,
+          end: last.index + last[0].length - 1,
+        });
+      }
+    }
+  }
+
+  return result;
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("parseManifest", () => {
+    it("finds the declared actions along with their offsets", () => {
+      const text = JSON.stringify(
+        {
+          $schema: "x",
+          events: { refresh: "Sent by the server.", 'a\\"b': "Quoted." },
+          states: { ready: "Set by a script.", bad: 1 },
+          results: { "{}": "Odd." },
+          other: { nested: "ignored" },
+        },
+        null,
+        2,
+      );
+      const result = parseManifest(text);
+
+      expect(result.map(({ kind, action }) => [kind, action])).toEqual([
+        ["event", "refresh"],
+        ["event", 'a\\"b'],
+        ["state", "ready"],
+        ["result", "{}"],
+      ]);
+      expect(result.map(({ start, end }) => text.slice(start, end))).toEqual([
+        "refresh",
+        'a\\\\\\"b',
+        "ready",
+        "{}",
+      ]);
+      expect(result[0]!.description).toBe("Sent by the server.");
+    });
+
+    it("ignores sections of the wrong shape", () => {
+      expect(
+        parseManifest('{ "events": ["a"], "states": [{ "b": "c" }] }'),
+      ).toEqual([]);
+      expect(parseManifest('[{ "events": 1 }, { "a": "b" }]')).toEqual([]);
+      expect(
+        parseManifest('{ "events": { "a": "b" }, "events": null }'),
+      ).toEqual([]);
+    });
+
+    it("rejects invalid JSON", () => {
+      expect(() => parseManifest("{ events: {} }")).toThrow(SyntaxError);
+    });
+  });
+}
+/* v8 ignore stop */
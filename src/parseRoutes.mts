@@ -0,0 +1,285 @@
+import { posix } from "node:path";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * The HTTP methods of the operations of an OpenAPI path item.
+ */
+const operations = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+/**
+ * An entry of a route list, e.g. `GET /todos Lists the todos.`.
+ */
+const ROUTE_PATTERN = /^(?:([A-Za-z]+)\s+)?(\/\S*)(?:\s+(.*))?$/;
+
+/**
+ * The parts of an OpenAPI (or Swagger) specification the routes come from.
+ */
+interface Spec {
+  basePath?: unknown;
+  servers?: { url?: unknown }[];
+  paths?: Record<string, Record<string, Operation | null> | null>;
+}
+
+/**
+ * An operation of an OpenAPI path item.
+ */
+interface Operation {
+  summary?: unknown;
+  description?: unknown;
+}
+
+/**
+ * Creates a route, turning its path into a pattern where every parameter
+ * matches any one segment, and a trailing slash is optional.
+ *
+ * @param method - The HTTP method, any method when `undefined`.
+ * @param path - The path, e.g. `/todos/{id}`.
+ * @param description - Markdown describing the route.
+ * @returns The route.
+ */
+const createRoute = (
+  method: string | undefined,
+  path: string,
+  description: string,
+): Route => ({
+  method: method?.toUpperCase(),
+  path,
+  pattern: new RegExp(
+    `^${path
+      .replace(/\/+$/, "")
+      .split(/\{[^}]*\}/)
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/]+")}/?$`,
+  ),
+  description,
+});
+
+/**
+ * Finds the path all the paths of an OpenAPI specification are relative to,
+ * i.e. the `basePath` of Swagger 2, or the path of the first server of
+ * OpenAPI 3.
+ *
+ * @param spec - The specification.
+ * @returns The base path, without a trailing slash.
+ */
+const getBasePath = (spec: Spec) => {
+  const url =
+    typeof spec.basePath === "string" ? spec.basePath
+    : Array.isArray(spec.servers) && typeof spec.servers[0]?.url === "string" ?
+      (spec.servers[0].url as string)
+    : "";
+
+  return url
+    .replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, "")
+    .replace(/[?#].*/, "")
+    .replace(/\/+$/, "");
+};
+
+/**
+ * Parses the routes of the server, as described by either an OpenAPI (or
+ * Swagger) specification, or a list of routes such as
+ * `["GET /todos", "POST /todos", "/health"]`, where a route without a method
+ * accepts any method.
+ *
+ * JSON and YAML files are told apart by their extension. Any other file is a
+ * list of routes, one per line, where `#` starts a comment.
+ *
+ * @param text - The text of the file.
+ * @param path - The path of the file.
+ * @returns The routes.
+ * @throws {SyntaxError} If the file describes no routes, or is malformed JSON.
+ * @throws {YAMLParseError} If the file is malformed YAML.
+ */
+export const parseRoutes = (text: string, path: string) => {
+  const ext = posix.extname(path).toLowerCase();
+  const result: Route[] = [];
+  let spec, entry, match, base, route, item, operation;
+
+  if (ext === ".json") {
+    spec = JSON.parse(text) as unknown;
+  } else if (ext === ".yaml" || ext === ".yml") {
+    spec = parseYaml(text);
+  } else {
+    spec = text.split(/\r?\n/).map(line => line.replace(/#.*/, "").trim());
+  }
+
+  if (Array.isArray(spec)) {
+    for (entry of spec) {
+      if (typeof entry === "string" && (match = ROUTE_PATTERN.exec(entry))) {
+        result.push(createRoute(match[1], match[2]!, match[3] ?? ""));
+      }
+    }
+    return result;
+  }
+
+  if (!spec || typeof spec !== "object" || !("paths" in spec)) {
+    throw new SyntaxError(
+      "Expected an OpenAPI specification or a list of routes",
+    );
+  }
+
+  base = getBasePath(spec as Spec);
+  for ([route, item] of Object.entries((spec as Spec).paths ?? {})) {
+    if (!route.startsWith("/") || !item || typeof item !== "object") {
+      continue;
+    }
+    for (operation of operations) {
+      if ((entry = item[operation])) {
+        result.push(
+          createRoute(
+            operation,
+            base + route,
+            [entry.summary, entry.description]
+              .filter(text => typeof text === "string" && text)
+              .join("\n\n"),
+          ),
+        );
+      }
+    }
+  }
+
+  return result;
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const { YAMLParseError } = await import("yaml");
+
+  describe("parseRoutes", () => {
+    const summarize = (routes: Route[]) =>
+      routes.map(({ method, path, description }) => [
+        method,
+        path,
+        description,
+      ]);
+
+    it("reads the operations of an OpenAPI specification", () => {
+      const spec = {
+        openapi: "3.0.0",
+        servers: [{ url: "https://api.example.com/v1/" }],
+        paths: {
+          "/todos": {
+            summary: "Todos",
+            get: { summary: "Lists the todos." },
+            post: { description: "Creates a todo." },
+            parameters: [],
+          },
+          "/todos/{id}": {
+            put: { summary: "Updates", description: "a todo." },
+            delete: {},
+          },
+          "x-extension": { get: {} },
+          "/broken": null,
+        },
+      };
+      const routes = parseRoutes(JSON.stringify(spec), "/api/openapi.JSON");
+
+      expect(summarize(routes)).toEqual([
+        ["GET", "/v1/todos", "Lists the todos."],
+        ["POST", "/v1/todos", "Creates a todo."],
+        ["PUT", "/v1/todos/{id}", "Updates\n\na todo."],
+        ["DELETE", "/v1/todos/{id}", ""],
+      ]);
+      expect(routes[2]!.pattern.test("/v1/todos/42")).toBe(true);
+      expect(routes[2]!.pattern.test("/v1/todos/42/")).toBe(true);
+      expect(routes[2]!.pattern.test("/v1/todos/")).toBe(false);
+      expect(routes[2]!.pattern.test("/v1/todos/4/2")).toBe(false);
+    });
+
+    it("reads the base path of a Swagger specification", () => {
+      const text = [
+        "swagger: '2.0'",
+        "basePath: /api",
+        "paths:",
+        "  /users.json:",
+        "    get:",
+        "      summary: Lists the users.",
+        "  /:",
+        "    head: {}",
+      ].join("\n");
+      const routes = parseRoutes(text, "swagger.yml");
+
+      expect(summarize(routes)).toEqual([
+        ["GET", "/api/users.json", "Lists the users."],
+        ["HEAD", "/api/", ""],
+      ]);
+      expect(routes[0]!.pattern.test("/api/users.json")).toBe(true);
+      expect(routes[0]!.pattern.test("/api/usersxjson")).toBe(false);
+      expect(routes[1]!.pattern.test("/api")).toBe(true);
+      expect(
+        parseRoutes("openapi: 3.1.0\nservers: []\npaths:\n", "a.yaml"),
+      ).toEqual([]);
+      expect(
+        summarize(
+          parseRoutes(
+            [
+              "paths:",
+              "  /todos: &todos",
+              "    get: { summary: Lists,",
+              "      description: the todos. }",
+              "  /tasks: *todos",
+              "  /tags: {",
+              "    post: {}",
+              "  }",
+            ].join("\n"),
+            "a.yaml",
+          ),
+        ),
+      ).toEqual([
+        ["GET", "/todos", "Lists\n\nthe todos."],
+        ["GET", "/tasks", "Lists\n\nthe todos."],
+        ["POST", "/tags", ""],
+      ]);
+      expect(
+        parseRoutes('{"servers": [{"url": "/v2?x"}], "paths": {}}', "a.json"),
+      ).toEqual([]);
+    });
+
+    it("reads route lists", () => {
+      expect(
+        summarize(
+          parseRoutes(
+            '["GET /todos Lists the todos.", "post /todos", "/health", "todos", 1]',
+            "routes.json",
+          ),
+        ),
+      ).toEqual([
+        ["GET", "/todos", "Lists the todos."],
+        ["POST", "/todos", ""],
+        [undefined, "/health", ""],
+      ]);
+      expect(
+        summarize(
+          parseRoutes(
+            "# routes\nPUT /todos/{id}  # replaces\n\nDELETE /todos/{id}\n",
+            "routes.txt",
+          ),
+        ),
+      ).toEqual([
+        ["PUT", "/todos/{id}", ""],
+        ["DELETE", "/todos/{id}", ""],
+      ]);
+    });
+
+    it("rejects anything else", () => {
+      expect(() => parseRoutes("{", "a.json")).toThrow(SyntaxError);
+      expect(() => parseRoutes("paths: [", "a.yaml")).toThrow(YAMLParseError);
+      expect(() => parseRoutes("a: b", "a.yaml")).toThrow(
+        "Expected an OpenAPI specification or a list of routes",
+      );
+      expect(() => parseRoutes("null", "a.json")).toThrow(SyntaxError);
+      expect(() => parseRoutes("1", "a.json")).toThrow(SyntaxError);
+    });
+  });
+}
+/* v8 ignore stop */
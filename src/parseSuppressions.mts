@@ -0,0 +1,90 @@
+const SUPPRESSION_PATTERN =
+  /<!--\s*keml-(disable-next-line|disable|enable)(?![\w-])([\s\S]*?)-->/g;
+const CODE_PATTERN = /[^\s,]+/g;
+
+/**
+ * A comment turning KEML diagnostics off or back on.
+ */
+export interface SuppressionComment {
+  /**
+   * Whether the comment turns the diagnostics off for the next line, off until
+   * they are enabled again, or back on.
+   */
+  directive: "disable-next-line" | "disable" | "enable";
+
+  /**
+   * The codes of the diagnostics, every one of them when empty.
+   */
+  codes: string[];
+
+  /**
+   * The starting offset of the comment.
+   */
+  start: number;
+
+  /**
+   * The ending offset of the comment.
+   */
+  end: number;
+}
+
+/**
+ * Finds the HTML comments suppressing KEML diagnostics, e.g.
+ * `<!-- keml-disable-next-line unused-action -->`, or
+ * `<!-- keml-disable undefined-action -->` … `<!-- keml-enable -->`.
+ *
+ * The codes may be separated by whitespace or commas.
+ *
+ * @param text - The HTML text.
+ * @returns The suppression comments, in order.
+ */
+export const parseSuppressions = (text: string) =>
+  Array.from(
+    text.matchAll(SUPPRESSION_PATTERN),
+    ({ 0: comment, 1: directive, 2: codes, index }): SuppressionComment => ({
+      directive: directive as SuppressionComment["directive"],
+      codes: codes!.match(CODE_PATTERN) ?? [],
+      start: index,
+      end: index + comment.length,
+    }),
+  );
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("parseSuppressions", () => {
+    it("finds the suppression comments along with their codes", () => {
+      const text = [
+        "<!-- keml-disable-next-line unused-action -->",
+        "<!--keml-disable undefined-action,  log-attribute-->",
+        "<!-- keml-enable -->",
+      ].join("\n");
+
+      expect(parseSuppressions(text)).toEqual([
+        {
+          directive: "disable-next-line",
+          codes: ["unused-action"],
+          start: 0,
+          end: 45,
+        },
+        {
+          directive: "disable",
+          codes: ["undefined-action", "log-attribute"],
+          start: 46,
+          end: 98,
+        },
+        { directive: "enable", codes: [], start: 99, end: 119 },
+      ]);
+    });
+
+    it("ignores other comments", () => {
+      expect(
+        parseSuppressions(
+          "<!-- keml-disabled --><!-- keml-disable-line --><!-- see keml-enable -->",
+        ),
+      ).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,841 @@
+import {
+  CodeAction,
+  CodeLens,
+  CompletionItem,
+  Diagnostic,
+  DocumentHighlight,
+  DocumentSymbol,
+  Hover,
+  Location,
+  MarkdownString,
+  Position,
+  Range,
+  SemanticTokens,
+  SnippetTextEdit,
+  SymbolInformation,
+  Uri,
+  WorkspaceEdit,
+} from "vscode";
+import {
+  CodeAction as LSCodeAction,
+  CodeLens as LSCodeLens,
+  CompletionItem as LSCompletionItem,
+  Diagnostic as LSDiagnostic,
+  DocumentHighlight as LSDocumentHighlight,
+  DocumentSymbol as LSDocumentSymbol,
+  Hover as LSHover,
+  Location as LSLocation,
+  Position as LSPosition,
+  Range as LSRange,
+  SemanticTokens as LSSemanticTokens,
+  SymbolInformation as LSSymbolInformation,
+  TextEdit as LSTextEdit,
+  WorkspaceEdit as LSWorkspaceEdit,
+  InsertTextFormat,
+  InsertTextMode,
+  MarkupContent,
+  MarkupKind,
+} from "vscode-languageserver";
+
+const SNIPPET_PATTERN = /\$\{\d+:([^}]*)\}|\$\{\d+\}|\$\d+/g;
+
+/**
+ * Converts a protocol position into an editor position.
+ *
+ * @param position - Position received from the language client.
+ * @returns The editor position.
+ */
+export const fromPosition = ({ line, character }: LSPosition) =>
+  new extern.Position(line, character);
+
+/**
+ * Converts a protocol range into an editor range.
+ *
+ * @param range - Range received from the language client.
+ * @returns The editor range.
+ */
+export const fromRange = ({ start, end }: LSRange) =>
+  new extern.Range(fromPosition(start), fromPosition(end));
+
+/**
+ * Converts a protocol diagnostic into an editor diagnostic.
+ *
+ * @param diagnostic - Diagnostic received from the language client.
+ * @returns The editor diagnostic.
+ */
+export const fromDiagnostic = ({
+  range,
+  message,
+  severity = 1,
+  source,
+  code,
+}: LSDiagnostic) => {
+  const diagnostic = new extern.Diagnostic(
+    fromRange(range),
+    message,
+    severity - 1,
+  );
+
+  if (source != null) {
+    diagnostic.source = source;
+  }
+
+  if (code != null) {
+    diagnostic.code = code;
+  }
+
+  return diagnostic;
+};
+
+/**
+ * Converts an editor range into a protocol range.
+ *
+ * @param range - The editor range.
+ * @returns A range that can be sent to the language client.
+ */
+export const toRange = ({ start, end }: Range): LSRange => ({
+  start: { line: start.line, character: start.character },
+  end: { line: end.line, character: end.character },
+});
+
+/**
+ * Converts markdown produced for the editor into protocol markup.
+ *
+ * @param value - The markdown or plain text.
+ * @returns Markup that can be sent to the language client.
+ */
+export const toMarkupContent = (
+  value: MarkdownString | string,
+): MarkupContent =>
+  typeof value === "string" ?
+    { kind: MarkupKind.PlainText, value }
+  : { kind: MarkupKind.Markdown, value: value.value };
+
+/**
+ * Converts an editor diagnostic into a protocol diagnostic.
+ *
+ * @param diagnostic - The editor diagnostic.
+ * @returns A diagnostic that can be sent to the language client.
+ */
+export const toDiagnostic = ({
+  range,
+  message,
+  severity,
+  source,
+  code,
+  tags,
+}: Diagnostic) => {
+  const diagnostic: LSDiagnostic = {
+    range: toRange(range),
+    message,
+    severity: (severity + 1) as LSDiagnostic["severity"] & {},
+  };
+
+  if (source) {
+    diagnostic.source = source;
+  }
+
+  if (typeof code === "object") {
+    diagnostic.code = code.value;
+    diagnostic.codeDescription = { href: code.target.toString() };
+  } else if (code != null) {
+    diagnostic.code = code;
+  }
+
+  if (tags?.length) {
+    diagnostic.tags = tags as LSDiagnostic["tags"] & {};
+  }
+
+  return diagnostic;
+};
+
+/**
+ * Converts an editor completion item into a protocol completion item.
+ *
+ * @param item - The editor completion item.
+ * @returns A completion item that can be sent to the language client.
+ */
+export const toCompletionItem = ({
+  label,
+  kind,
+  tags,
+  detail,
+  documentation,
+  sortText,
+  filterText,
+  preselect,
+  insertText,
+  range,
+  commitCharacters,
+  keepWhitespace,
+  additionalTextEdits,
+  command,
+}: CompletionItem) => {
+  const item: LSCompletionItem = {
+    label: typeof label === "string" ? label : label.label,
+  };
+
+  if (typeof label !== "string") {
+    item.labelDetails = {};
+    if (label.detail) {
+      item.labelDetails.detail = label.detail;
+    }
+    if (label.description) {
+      item.labelDetails.description = label.description;
+    }
+  }
+
+  if (kind != null) {
+    item.kind = (kind + 1) as LSCompletionItem["kind"] & {};
+  }
+
+  if (tags?.length) {
+    item.tags = tags as LSCompletionItem["tags"] & {};
+  }
+
+  if (detail) {
+    item.detail = detail;
+  }
+
+  if (documentation) {
+    item.documentation = toMarkupContent(documentation);
+  }
+
+  if (sortText) {
+    item.sortText = sortText;
+  }
+
+  if (filterText) {
+    item.filterText = filterText;
+  }
+
+  if (preselect) {
+    item.preselect = preselect;
+  }
+
+  if (insertText != null) {
+    if (typeof insertText === "string") {
+      item.insertTextFormat = InsertTextFormat.PlainText;
+      item.insertText = insertText;
+    } else {
+      item.insertTextFormat = InsertTextFormat.Snippet;
+      item.insertText = insertText.value;
+    }
+  }
+
+  if (range) {
+    item.textEdit =
+      "inserting" in range ?
+        {
+          newText: item.insertText ?? item.label,
+          insert: toRange(range.inserting),
+          replace: toRange(range.replacing),
+        }
+      : { newText: item.insertText ?? item.label, range: toRange(range) };
+  }
+
+  if (commitCharacters) {
+    item.commitCharacters = commitCharacters;
+  }
+
+  if (keepWhitespace) {
+    item.insertTextMode = InsertTextMode.asIs;
+  }
+
+  if (additionalTextEdits) {
+    item.additionalTextEdits = additionalTextEdits.map(
+      ({ range, newText }) => ({ range: toRange(range), newText }),
+    );
+  }
+
+  if (command) {
+    item.command = {
+      title: command.title,
+      command: command.command,
+      ...(command.arguments && { arguments: command.arguments }),
+    };
+  }
+
+  return item;
+};
+
+/**
+ * Converts an editor hover into a protocol hover, joining its sections.
+ *
+ * @param hover - The editor hover.
+ * @returns A hover that can be sent to the language client.
+ */
+export const toHover = ({ contents, range }: Hover) => {
+  const hover: LSHover = {
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: contents
+        .map(content =>
+          typeof content === "string" ? content
+          : "language" in content ?
+            `\`\`\`${content.language}\n${content.value}\n\`\`\``
+          : content.value,
+        )
+        .join("\n\n"),
+    },
+  };
+
+  if (range) {
+    hover.range = toRange(range);
+  }
+
+  return hover;
+};
+
+/**
+ * Converts an editor location into a protocol location.
+ *
+ * @param location - The editor location.
+ * @returns A location that can be sent to the language client.
+ */
+export const toLocation = ({ uri, range }: Location): LSLocation => ({
+  uri: uri.toString(),
+  range: toRange(range),
+});
+
+/**
+ * Converts an editor document highlight into a protocol document highlight.
+ *
+ * @param highlight - The editor document highlight.
+ * @returns A document highlight that can be sent to the language client.
+ */
+export const toDocumentHighlight = ({ range, kind }: DocumentHighlight) => {
+  const highlight: LSDocumentHighlight = { range: toRange(range) };
+
+  if (kind != null) {
+    highlight.kind = (kind + 1) as LSDocumentHighlight["kind"] & {};
+  }
+
+  return highlight;
+};
+
+/**
+ * Converts an editor document symbol, along with its children, into a protocol
+ * document symbol.
+ *
+ * @param symbol - The editor document symbol.
+ * @returns A document symbol that can be sent to the language client.
+ */
+export const toDocumentSymbol = ({
+  name,
+  detail,
+  kind,
+  range,
+  selectionRange,
+  children,
+}: DocumentSymbol): LSDocumentSymbol => ({
+  name,
+  detail,
+  kind: (kind + 1) as LSDocumentSymbol["kind"],
+  range: toRange(range),
+  selectionRange: toRange(selectionRange),
+  children: children.map(toDocumentSymbol),
+});
+
+/**
+ * Converts an editor symbol information into a protocol symbol information.
+ *
+ * @param symbol - The editor symbol information.
+ * @returns A symbol information that can be sent to the language client.
+ */
+export const toSymbolInformation = ({
+  name,
+  kind,
+  containerName,
+  location,
+}: SymbolInformation): LSSymbolInformation => ({
+  name,
+  kind: (kind + 1) as LSSymbolInformation["kind"],
+  containerName,
+  location: toLocation(location),
+});
+
+/**
+ * Converts an editor workspace edit into a protocol workspace edit.
+ *
+ * Snippet edits are flattened to their plain text, since snippets in workspace
+ * edits are not part of the supported protocol version.
+ *
+ * @param edit - The editor workspace edit.
+ * @returns A workspace edit that can be sent to the language client.
+ */
+export const toWorkspaceEdit = (edit: WorkspaceEdit) => {
+  const changes: Record<string, LSTextEdit[]> = {};
+
+  for (const [uri, edits] of edit.entries()) {
+    changes[uri.toString()] = edits.map(edit => ({
+      range: toRange(edit.range),
+      newText:
+        edit instanceof extern.SnippetTextEdit ?
+          edit.snippet.value.replace(SNIPPET_PATTERN, "$1")
+        : edit.newText,
+    }));
+  }
+
+  return { changes } satisfies LSWorkspaceEdit;
+};
+
+/**
+ * Converts an editor code action into a protocol code action.
+ *
+ * @param action - The editor code action.
+ * @returns A code action that can be sent to the language client.
+ */
+export const toCodeAction = ({
+  title,
+  kind,
+  diagnostics,
+  edit,
+  isPreferred,
+}: CodeAction) => {
+  const action: LSCodeAction = { title };
+
+  if (kind) {
+    action.kind = kind.value;
+  }
+
+  if (diagnostics) {
+    action.diagnostics = diagnostics.map(toDiagnostic);
+  }
+
+  if (edit) {
+    action.edit = toWorkspaceEdit(edit);
+  }
+
+  if (isPreferred) {
+    action.isPreferred = isPreferred;
+  }
+
+  return action;
+};
+
+/**
+ * Converts an editor command argument into a protocol one, so that URIs,
+ * positions and locations survive the trip to the language client.
+ *
+ * @param value - The editor command argument.
+ * @returns An argument that can be sent to the language client.
+ */
+const toArgument = (value: unknown): unknown =>
+  Array.isArray(value) ? value.map(toArgument)
+  : value instanceof extern.Uri ? value.toString()
+  : value instanceof extern.Position ?
+    { line: value.line, character: value.character }
+  : value instanceof extern.Location ? toLocation(value)
+  : value;
+
+/**
+ * Converts an editor code lens into a protocol code lens.
+ *
+ * @param lens - The editor code lens.
+ * @returns A code lens that can be sent to the language client.
+ */
+export const toCodeLens = ({ range, command }: CodeLens) => {
+  const lens: LSCodeLens = { range: toRange(range) };
+
+  if (command) {
+    lens.command = {
+      title: command.title,
+      command: command.command,
+      ...(command.tooltip && { tooltip: command.tooltip }),
+      ...(command.arguments && {
+        arguments: command.arguments.map(toArgument),
+      }),
+    };
+  }
+
+  return lens;
+};
+
+/**
+ * Converts editor semantic tokens into protocol semantic tokens.
+ *
+ * @param tokens - The editor semantic tokens.
+ * @returns Semantic tokens that can be sent to the language client.
+ */
+export const toSemanticTokens = ({
+  data,
+}: SemanticTokens): LSSemanticTokens => ({
+  data: Array.from(data),
+});
+
+let extern = { Diagnostic, Location, Position, Range, SnippetTextEdit, Uri };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+  const {
+    CodeAction,
+    CodeActionKind,
+    CodeLens,
+    CompletionItem,
+    Diagnostic,
+    DocumentHighlight,
+    DocumentHighlightKind,
+    DocumentSymbol,
+    Hover,
+    Location,
+    MarkdownString,
+    Position,
+    Range,
+    SemanticTokens,
+    SnippetString,
+    SnippetTextEdit,
+    SymbolInformation,
+    SymbolKind,
+    TextEdit,
+    Uri,
+    WorkspaceEdit,
+  } = await import("./vscode-shim.mts");
+
+  const range = new Range(1, 2, 3, 4);
+  const lsRange = {
+    start: { line: 1, character: 2 },
+    end: { line: 3, character: 4 },
+  };
+
+  describe("protocol", () => {
+    it("fromPosition/fromRange", () => {
+      expect(fromPosition({ line: 1, character: 2 })).toBeInstanceOf(Position);
+      expect(fromRange(lsRange)).toEqual(range);
+      expect(fromRange(lsRange)).toBeInstanceOf(Range);
+    });
+
+    it("fromDiagnostic", () => {
+      expect(fromDiagnostic({ range: lsRange, message: "a" })).toEqual(
+        new Diagnostic(range, "a", 0),
+      );
+      expect(
+        fromDiagnostic({
+          range: lsRange,
+          message: "a",
+          severity: 2,
+          source: "KEML",
+          code: "b",
+        }),
+      ).toMatchObject({ severity: 1, source: "KEML", code: "b" });
+    });
+
+    it("toRange", () => {
+      expect(toRange(range)).toEqual(lsRange);
+    });
+
+    it("toMarkupContent", () => {
+      expect(toMarkupContent("a")).toEqual({ kind: "plaintext", value: "a" });
+      expect(toMarkupContent(new MarkdownString("*a*"))).toEqual({
+        kind: "markdown",
+        value: "*a*",
+      });
+    });
+
+    it("toDiagnostic", () => {
+      const diagnostic = new Diagnostic(range, "a", 1);
+      expect(toDiagnostic(diagnostic)).toEqual({
+        range: lsRange,
+        message: "a",
+        severity: 2,
+      });
+
+      diagnostic.source = "KEML";
+      diagnostic.code = "b";
+      diagnostic.tags = [1];
+      expect(toDiagnostic(diagnostic)).toEqual({
+        range: lsRange,
+        message: "a",
+        severity: 2,
+        source: "KEML",
+        code: "b",
+        tags: [1],
+      });
+
+      diagnostic.code = { value: "c", target: Uri.parse("https://a.b/c") };
+      diagnostic.tags = [];
+      expect(toDiagnostic(diagnostic)).toEqual({
+        range: lsRange,
+        message: "a",
+        severity: 2,
+        source: "KEML",
+        code: "c",
+        codeDescription: { href: "https://a.b/c" },
+      });
+    });
+
+    it("toCompletionItem with minimal data", () => {
+      expect(toCompletionItem(new CompletionItem("a") as any)).toEqual({
+        label: "a",
+      });
+      expect(toCompletionItem(new CompletionItem("a", 0) as any)).toEqual({
+        label: "a",
+        kind: 1,
+      });
+    });
+
+    it("toCompletionItem with full data", () => {
+      const item = new CompletionItem(
+        { label: "a", detail: "b", description: "c" },
+        11,
+      );
+      item.tags = [1];
+      item.detail = "d";
+      item.documentation = new MarkdownString("e");
+      item.sortText = "f";
+      item.filterText = "g";
+      item.preselect = true;
+      item.insertText = new SnippetString('a="$1"');
+      item.range = range;
+      item.commitCharacters = ["h"];
+      item.keepWhitespace = true;
+      item.additionalTextEdits = [new TextEdit(range, "i")];
+      item.command = { title: "j", command: "k" };
+
+      expect(toCompletionItem(item as any)).toEqual({
+        label: "a",
+        labelDetails: { detail: "b", description: "c" },
+        kind: 12,
+        tags: [1],
+        detail: "d",
+        documentation: { kind: "markdown", value: "e" },
+        sortText: "f",
+        filterText: "g",
+        preselect: true,
+        insertTextFormat: 2,
+        insertText: 'a="$1"',
+        textEdit: { newText: 'a="$1"', range: lsRange },
+        commitCharacters: ["h"],
+        insertTextMode: 1,
+        additionalTextEdits: [{ range: lsRange, newText: "i" }],
+        command: { title: "j", command: "k" },
+      });
+    });
+
+    it("toCompletionItem with empty label details", () => {
+      expect(
+        toCompletionItem(new CompletionItem({ label: "a" }) as any),
+      ).toEqual({ label: "a", labelDetails: {} });
+    });
+
+    it("toCompletionItem with insert/replace ranges", () => {
+      const item = new CompletionItem("a");
+      item.insertText = "b";
+      item.range = { inserting: range, replacing: range };
+      item.command = { title: "c", command: "d", arguments: [1] };
+
+      expect(toCompletionItem(item as any)).toEqual({
+        label: "a",
+        insertTextFormat: 1,
+        insertText: "b",
+        textEdit: { newText: "b", insert: lsRange, replace: lsRange },
+        command: { title: "c", command: "d", arguments: [1] },
+      });
+
+      delete item.insertText;
+      item.range = range;
+      expect(toCompletionItem(item as any).textEdit).toEqual({
+        newText: "a",
+        range: lsRange,
+      });
+      item.range = { inserting: range, replacing: range };
+      expect(toCompletionItem(item as any).textEdit).toEqual({
+        newText: "a",
+        insert: lsRange,
+        replace: lsRange,
+      });
+    });
+
+    it("toHover", () => {
+      expect(
+        toHover(
+          new Hover(
+            [
+              "a",
+              new MarkdownString("b"),
+              { language: "html", value: "c" } as any,
+            ],
+            range,
+          ) as any,
+        ),
+      ).toEqual({
+        contents: { kind: "markdown", value: "a\n\nb\n\n```html\nc\n```" },
+        range: lsRange,
+      });
+      expect(toHover(new Hover("a") as any)).toEqual({
+        contents: { kind: "markdown", value: "a" },
+      });
+    });
+
+    it("toLocation", () => {
+      expect(
+        toLocation(new Location(Uri.parse("file:///a"), range) as any),
+      ).toEqual({ uri: "file:///a", range: lsRange });
+    });
+
+    it("toDocumentHighlight", () => {
+      expect(toDocumentHighlight(new DocumentHighlight(range) as any)).toEqual({
+        range: lsRange,
+        kind: 1,
+      });
+      expect(
+        toDocumentHighlight(
+          new DocumentHighlight(range, DocumentHighlightKind.Write) as any,
+        ),
+      ).toEqual({ range: lsRange, kind: 3 });
+      expect(toDocumentHighlight({ range } as any)).toEqual({
+        range: lsRange,
+      });
+    });
+
+    it("toDocumentSymbol", () => {
+      const symbol = new DocumentSymbol(
+        "a",
+        "b",
+        SymbolKind.Event,
+        range,
+        range,
+      );
+
+      symbol.children.push(
+        new DocumentSymbol("c", "d", SymbolKind.File, range, range),
+      );
+      expect(toDocumentSymbol(symbol as any)).toEqual({
+        name: "a",
+        detail: "b",
+        kind: 24,
+        range: lsRange,
+        selectionRange: lsRange,
+        children: [
+          {
+            name: "c",
+            detail: "d",
+            kind: 1,
+            range: lsRange,
+            selectionRange: lsRange,
+            children: [],
+          },
+        ],
+      });
+    });
+
+    it("toSymbolInformation", () => {
+      expect(
+        toSymbolInformation(
+          new SymbolInformation(
+            "a",
+            SymbolKind.Variable,
+            "b",
+            new Location(Uri.parse("file:///a"), range),
+          ) as any,
+        ),
+      ).toEqual({
+        name: "a",
+        kind: 13,
+        containerName: "b",
+        location: { uri: "file:///a", range: lsRange },
+      });
+    });
+
+    it("toWorkspaceEdit", () => {
+      const edit = new WorkspaceEdit();
+      const a = Uri.parse("file:///a");
+      const b = Uri.parse("file:///b");
+
+      edit.replace(a, range, "x");
+      edit.delete(a, range);
+      edit.set(b, [
+        SnippetTextEdit.insert(
+          range.start,
+          new SnippetString('on="$1" ${2:a} ${3}'),
+        ),
+      ]);
+
+      expect(toWorkspaceEdit(edit as any)).toEqual({
+        changes: {
+          "file:///a": [
+            { range: lsRange, newText: "x" },
+            { range: lsRange, newText: "" },
+          ],
+          "file:///b": [
+            {
+              range: { start: lsRange.start, end: lsRange.start },
+              newText: 'on="" a ',
+            },
+          ],
+        },
+      });
+    });
+
+    it("toCodeAction", () => {
+      expect(toCodeAction(new CodeAction("a") as any)).toEqual({ title: "a" });
+
+      const action = new CodeAction("a", CodeActionKind.QuickFix);
+      action.diagnostics = [new Diagnostic(range, "b")];
+      action.edit = new WorkspaceEdit();
+      action.isPreferred = true;
+
+      expect(toCodeAction(action as any)).toEqual({
+        title: "a",
+        kind: "quickfix",
+        diagnostics: [{ range: lsRange, message: "b", severity: 1 }],
+        edit: { changes: {} },
+        isPreferred: true,
+      });
+    });
+
+    it("toSemanticTokens", () => {
+      expect(
+        toSemanticTokens(
+          new SemanticTokens(new Uint32Array([1, 2, 3, 4, 5])) as any,
+        ),
+      ).toEqual({ data: [1, 2, 3, 4, 5] });
+    });
+
+    it("toCodeLens", () => {
+      expect(toCodeLens(new CodeLens(range) as any)).toEqual({
+        range: lsRange,
+      });
+      expect(
+        toCodeLens(
+          new CodeLens(range, {
+            title: "a",
+            command: "b",
+            tooltip: "c",
+          }) as any,
+        ),
+      ).toEqual({
+        range: lsRange,
+        command: { title: "a", command: "b", tooltip: "c" },
+      });
+      expect(
+        toCodeLens(
+          new CodeLens(range, {
+            title: "a",
+            command: "b",
+            arguments: [
+              Uri.parse("file:///a"),
+              range.start,
+              [new Location(Uri.parse("file:///b"), range)],
+              1,
+            ],
+          }) as any,
+        ),
+      ).toEqual({
+        range: lsRange,
+        command: {
+          title: "a",
+          command: "b",
+          arguments: [
+            "file:///a",
+            lsRange.start,
+            [{ uri: "file:///b", range: lsRange }],
+            1,
+          ],
+        },
+      });
+    });
+  });
+}
+/* v8 ignore stop */
@@ -1,26 +1,40 @@
 import { Range } from "vscode";
 import { IValueData } from "vscode-html-languageservice";
-import { docs } from "./data.mts";
+import { getExternalActions } from "./data.mts";
+import { describeAction } from "./describeAction.mts";
+import { getNamespaceDocs } from "./getNamespaceDocs.mts";
 
 /**
- * Collects unique action values from documents using a resolver and converter.
+ * Collects unique action values from the documents of a namespace using a
+ * resolver and converter. The actions declared by the project manifest come
+ * first. Documented actions are described by their documentation rather than
+ * by the converter.
  *
  * @param resolver Function that maps a document to its action ranges.
  * @param converter Function that converts an action name into a value object.
+ * @param kind The namespace of the actions.
+ * @param namespace The namespace of the documents to collect from.
  * @returns Array of converted action values with duplicates removed.
  */
 export const provideActionValues = (
   resolver: (cur: Document) => Map<string, Range[]>,
-  converter: (name: string) => IValueData
+  converter: (name: string) => IValueData,
+  kind: ActionKind,
+  namespace: string,
 ) => {
   const seen = new Set<string>();
   const result = [];
   let action;
 
-  for (const cur of extern.docs.values()) {
+  for (const name of extern.getExternalActions(namespace)[kind].keys()) {
+    result.push(extern.describeAction(name, kind, converter, namespace));
+    seen.add(name);
+  }
+
+  for (const cur of extern.getNamespaceDocs(namespace)) {
     for (action of resolver(cur).keys()) {
       if (!seen.has(action)) {
-        result.push(converter(action));
+        result.push(extern.describeAction(action, kind, converter, namespace));
         seen.add(action);
       }
     }
@@ -29,7 +43,7 @@ export const provideActionValues = (
   return result;
 };
 
-let extern = { docs };
+let extern = { describeAction, getExternalActions, getNamespaceDocs };
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -38,6 +52,7 @@ if (import.meta.vitest) {
     it,
     expect,
     afterAll,
+    beforeEach,
     vi: { fn },
   } = import.meta.vitest;
   const origExtern = extern;
@@ -45,18 +60,55 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("provideActionValues", () => {
+    beforeEach(() => {
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map(),
+        result: new Map(),
+      }));
+      extern.describeAction = fn((name, _kind, converter) => converter(name));
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
 
+    it("puts the actions declared by the manifest first", () => {
+      const external = { description: "desc" } as ExternalAction;
+
+      extern.getNamespaceDocs = fn(() => [{}]) as any;
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map(),
+        result: new Map([["declared", external]]),
+      }));
+
+      const resolver = fn(
+        () =>
+          new Map([
+            ["declared", []],
+            ["found", []],
+          ]),
+      );
+      const converter = fn((name: string) => ({ converted: name }) as any);
+
+      expect(
+        provideActionValues(resolver, converter, "result", "site"),
+      ).toEqual([{ converted: "declared" }, { converted: "found" }]);
+      expect(extern.getExternalActions).toHaveBeenCalledWith("site");
+      expect(extern.describeAction).toHaveBeenCalledWith(
+        "declared",
+        "result",
+        converter,
+        "site",
+      );
+    });
+
     it("returns converted unique action values from all documents", () => {
-      // mock docs map
+      // mock the documents of the namespace
       const docA = { uri: "A" };
       const docB = { uri: "B" };
-      extern.docs = new Map([
-        ["A", docA],
-        ["B", docB],
-      ]) as any;
+      extern.getNamespaceDocs = fn(() => [docA, docB]) as any;
 
       // mock resolver returning overlapping actions
       const resolver = fn((cur: any) => {
@@ -76,8 +128,9 @@ if (import.meta.vitest) {
       // mock converter to produce identifiable output
       const converter = fn((name: string) => ({ converted: name })) as any;
 
-      const result = provideActionValues(resolver, converter);
+      const result = provideActionValues(resolver, converter, "event", "site");
 
+      expect(extern.getNamespaceDocs).toHaveBeenCalledWith("site");
       expect(result).toEqual([
         { converted: "foo" },
         { converted: "bar" },
@@ -90,11 +143,11 @@ if (import.meta.vitest) {
     });
 
     it("returns an empty array when no actions exist", () => {
-      extern.docs = new Map([["X", {}]]) as any;
+      extern.getNamespaceDocs = fn(() => [{}]) as any;
       const resolver = fn(() => new Map());
       const converter = fn();
 
-      const result = provideActionValues(resolver, converter);
+      const result = provideActionValues(resolver, converter, "event", "site");
 
       expect(result).toEqual([]);
       expect(converter).not.toHaveBeenCalled();
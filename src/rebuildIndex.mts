@@ -0,0 +1,66 @@
+import { indexCache } from "./data.mts";
+import { populateDocs, pruneDocs } from "./documents.mts";
+import { saveIndexCache } from "./indexCache.mts";
+import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
+
+/**
+ * Reads and parses every file of the workspace anew, ignoring the index
+ * cache, which is then saved again.
+ */
+export const rebuildIndex = async () => {
+  extern.indexCache.clear();
+  extern.pruneDocs(false, true);
+  await extern.populateDocs();
+  extern.updateDiagnosticCollection(true);
+  await extern.saveIndexCache();
+};
+
+let extern = {
+  indexCache,
+  populateDocs,
+  pruneDocs,
+  saveIndexCache,
+  updateDiagnosticCollection,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("rebuildIndex", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("parses every file without the cache, then saves it", async () => {
+      const calls: string[] = [];
+
+      extern.indexCache = new Map([["file:///a.html", {} as any]]);
+      extern.pruneDocs = fn(() => calls.push("prune"));
+      extern.populateDocs = fn(async () => {
+        expect(extern.indexCache.size).toBe(0);
+        calls.push("populate");
+      });
+      extern.updateDiagnosticCollection = fn(() => calls.push("diagnostics"));
+      extern.saveIndexCache = fn(async () => {
+        calls.push("save");
+      });
+
+      await rebuildIndex();
+
+      expect(extern.pruneDocs).toHaveBeenCalledWith(false, true);
+      expect(extern.updateDiagnosticCollection).toHaveBeenCalledWith(true);
+      expect(calls).toEqual(["prune", "populate", "diagnostics", "save"]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -23,6 +23,7 @@ import { getStateReferences } from "./getStateReferences.mts";
  * @param doc The document to analyze.
  * @param position Position within the document to get references for.
  * @param param5 Cancellation token to abort the operation if requested.
+ * @param external Whether to include the declarations of the project manifest.
  * @returns Reference data for the given position, or undefined if none found or
  *          cancelled.
  */
@@ -32,7 +33,8 @@ const provideReferences = (
   resultResolver: (cur: Document) => Map<string, Range[]>,
   doc: TextDocument,
   position: Position,
-  { isCancellationRequested }: CancellationToken
+  { isCancellationRequested }: CancellationToken,
+  external = false,
 ) => {
   if (isCancellationRequested) {
     return;
@@ -40,7 +42,7 @@ const provideReferences = (
 
   return extern.docs
     .get(doc.uri.toString())
-    ?.doRefer(eventResolver, stateResolver, resultResolver, position);
+    ?.doRefer(eventResolver, stateResolver, resultResolver, position, external);
 };
 
 /**
@@ -63,7 +65,8 @@ export const definitionProvider: DefinitionProvider = {
       getResultDefinitions,
       doc,
       position,
-      token
+      token,
+      true,
     ),
 };
 
@@ -87,7 +90,7 @@ export const referenceProvider: ReferenceProvider = {
       getResultReferences,
       doc,
       position,
-      token
+      token,
     ),
 };
 
@@ -137,20 +140,20 @@ if (import.meta.vitest) {
         rRes,
         doc,
         "pos" as any,
-        token
+        token,
       );
 
       expect(result).toBe("ok");
-      expect(doRefer).toHaveBeenCalledWith(eRes, sRes, rRes, "pos");
+      expect(doRefer).toHaveBeenCalledWith(eRes, sRes, rRes, "pos", false);
     });
 
-    it("definitionProvider uses getEvent/State/ResultDefinitions", () => {
+    it("definitionProvider uses getEvent/State/ResultDefinitions and the manifest", () => {
       extern.provideReferences = fn();
 
       definitionProvider.provideDefinition(
         "doc" as any,
         "pos" as any,
-        "token" as any
+        "token" as any,
       );
 
       expect(extern.provideReferences).toHaveBeenCalledWith(
@@ -159,7 +162,8 @@ if (import.meta.vitest) {
         getResultDefinitions,
         "doc",
         "pos",
-        "token"
+        "token",
+        true,
       );
     });
 
@@ -170,7 +174,7 @@ if (import.meta.vitest) {
         "doc" as any,
         "pos" as any,
         "ctx" as any,
-        "token" as any
+        "token" as any,
       );
 
       expect(extern.provideReferences).toHaveBeenCalledWith(
@@ -179,7 +183,7 @@ if (import.meta.vitest) {
         getResultReferences,
         "doc",
         "pos",
-        "token"
+        "token",
       );
     });
   });
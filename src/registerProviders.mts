@@ -1,7 +1,16 @@
-import { languages } from "vscode";
+import { CodeActionKind, languages } from "vscode";
+import { codeActionProvider } from "./codeActionProvider.mts";
+import { codeLensProvider } from "./codeLensProvider.mts";
 import { completionProvider } from "./completionProvider.mts";
+import { documentHighlightProvider } from "./documentHighlightProvider.mts";
+import { documentSymbolProvider } from "./documentSymbolProvider.mts";
 import { hoverProvider } from "./hoverProvider.mts";
 import { definitionProvider, referenceProvider } from "./referenceProvider.mts";
+import { renameProvider } from "./renameProvider.mts";
+import {
+  semanticTokensLegend,
+  semanticTokensProvider,
+} from "./semanticTokensProvider.mts";
 
 /**
  * Registers language service providers for a specific language.
@@ -13,14 +22,33 @@ export const registerProviders = (languageId: string) => [
   extern.languages.registerCompletionItemProvider(
     languageId,
     completionProvider,
-    " "
+    " ",
   ),
   extern.languages.registerDefinitionProvider(languageId, definitionProvider),
   extern.languages.registerReferenceProvider(languageId, referenceProvider),
+  extern.languages.registerDocumentHighlightProvider(
+    languageId,
+    documentHighlightProvider,
+  ),
+  extern.languages.registerDocumentSymbolProvider(
+    languageId,
+    documentSymbolProvider,
+    { label: "KEML" },
+  ),
   extern.languages.registerHoverProvider(languageId, hoverProvider),
+  extern.languages.registerRenameProvider(languageId, renameProvider),
+  extern.languages.registerCodeActionsProvider(languageId, codeActionProvider, {
+    providedCodeActionKinds: [extern.CodeActionKind.QuickFix],
+  }),
+  extern.languages.registerCodeLensProvider(languageId, codeLensProvider),
+  extern.languages.registerDocumentSemanticTokensProvider(
+    languageId,
+    semanticTokensProvider,
+    semanticTokensLegend,
+  ),
 ];
 
-let extern = { languages };
+let extern = { CodeActionKind, languages };
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -44,14 +72,27 @@ if (import.meta.vitest) {
       const registerCompletionItemProvider = fn(() => "completion");
       const registerDefinitionProvider = fn(() => "definition");
       const registerReferenceProvider = fn(() => "reference");
+      const registerDocumentHighlightProvider = fn(() => "documentHighlight");
+      const registerDocumentSymbolProvider = fn(() => "documentSymbol");
       const registerHoverProvider = fn(() => "hover");
+      const registerRenameProvider = fn(() => "rename");
+      const registerCodeActionsProvider = fn(() => "codeActions");
+      const registerCodeLensProvider = fn(() => "codeLens");
+      const registerDocumentSemanticTokensProvider = fn(() => "semanticTokens");
 
       extern.languages = {
         registerCompletionItemProvider,
         registerDefinitionProvider,
         registerReferenceProvider,
+        registerDocumentHighlightProvider,
+        registerDocumentSymbolProvider,
         registerHoverProvider,
+        registerRenameProvider,
+        registerCodeActionsProvider,
+        registerCodeLensProvider,
+        registerDocumentSemanticTokensProvider,
       } as any;
+      extern.CodeActionKind = { QuickFix: "quickfix" } as any;
 
       const result = registerProviders("keml");
 
@@ -59,23 +100,56 @@ if (import.meta.vitest) {
         "completion",
         "definition",
         "reference",
+        "documentHighlight",
+        "documentSymbol",
         "hover",
+        "rename",
+        "codeActions",
+        "codeLens",
+        "semanticTokens",
       ]);
 
       expect(registerCompletionItemProvider).toHaveBeenCalledWith(
         "keml",
         completionProvider,
-        " "
+        " ",
       );
       expect(registerDefinitionProvider).toHaveBeenCalledWith(
         "keml",
-        definitionProvider
+        definitionProvider,
       );
       expect(registerReferenceProvider).toHaveBeenCalledWith(
         "keml",
-        referenceProvider
+        referenceProvider,
+      );
+      expect(registerDocumentHighlightProvider).toHaveBeenCalledWith(
+        "keml",
+        documentHighlightProvider,
+      );
+      expect(registerDocumentSymbolProvider).toHaveBeenCalledWith(
+        "keml",
+        documentSymbolProvider,
+        { label: "KEML" },
       );
       expect(registerHoverProvider).toHaveBeenCalledWith("keml", hoverProvider);
+      expect(registerRenameProvider).toHaveBeenCalledWith(
+        "keml",
+        renameProvider,
+      );
+      expect(registerCodeActionsProvider).toHaveBeenCalledWith(
+        "keml",
+        codeActionProvider,
+        { providedCodeActionKinds: ["quickfix"] },
+      );
+      expect(registerCodeLensProvider).toHaveBeenCalledWith(
+        "keml",
+        codeLensProvider,
+      );
+      expect(registerDocumentSemanticTokensProvider).toHaveBeenCalledWith(
+        "keml",
+        semanticTokensProvider,
+        semanticTokensLegend,
+      );
     });
   });
 }
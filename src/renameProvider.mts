@@ -0,0 +1,214 @@
+import { RenameProvider, WorkspaceEdit } from "vscode";
+import { docs } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
+import { getNamespaceDocs } from "./getNamespaceDocs.mts";
+import { isValidToken } from "./isValidToken.mts";
+import { definitionResolvers, referenceResolvers } from "./resolvers.mts";
+
+/**
+ * Provides workspace-wide renaming of event, state and result actions, within
+ * the namespace of the document.
+ */
+export const renameProvider: RenameProvider = {
+  /**
+   * Checks that the position holds an action that can safely be renamed.
+   *
+   * @param doc - Document in which the rename was requested.
+   * @param position - Position within the document.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The range and current name of the action.
+   * @throws When the position does not hold a definitely valid action name.
+   */
+  prepareRename(doc, position, { isCancellationRequested }) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    const match = extern.docs.get(doc.uri.toString())?.findActionAt(position);
+
+    if (!match || !extern.isValidToken(match.action)) {
+      throw new Error("You cannot rename this element.");
+    }
+
+    return { range: match.range, placeholder: match.action };
+  },
+
+  /**
+   * Renames every definition and subscriber of the action at a position.
+   *
+   * Only the matching token is replaced inside of multi-action definitions.
+   *
+   * @param doc - Document in which the rename was requested.
+   * @param position - Position within the document.
+   * @param newName - The new name of the action.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns A workspace edit covering all affected documents.
+   * @throws When the new name is not a definitely valid action name.
+   */
+  provideRenameEdits(doc, position, newName, { isCancellationRequested }) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    if (!extern.isValidToken(newName)) {
+      throw new Error(`'${newName}' is not a valid action name.`);
+    }
+
+    const match = extern.docs.get(doc.uri.toString())?.findActionAt(position);
+    if (!match) {
+      return;
+    }
+
+    const { kind, action } = match;
+    const definitionResolver = definitionResolvers[kind];
+    const referenceResolver = referenceResolvers[kind];
+    const edit = new extern.WorkspaceEdit();
+    let range;
+
+    for (const cur of extern.getNamespaceDocs(extern.getNamespace(doc.uri))) {
+      for (range of definitionResolver(cur).get(action) ?? []) {
+        edit.replace(cur.uri, range, newName);
+      }
+      for (range of referenceResolver(cur).get(action) ?? []) {
+        edit.replace(cur.uri, range, newName);
+      }
+    }
+
+    return edit;
+  },
+};
+
+let extern = {
+  WorkspaceEdit,
+  docs,
+  getNamespace,
+  getNamespaceDocs,
+  isValidToken,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("renameProvider", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    const doc = { uri: { toString: () => "doc1" } } as any;
+    const token = { isCancellationRequested: false } as any;
+    const cancelled = { isCancellationRequested: true } as any;
+
+    it("prepareRename returns undefined if cancelled", () => {
+      expect(
+        renameProvider.prepareRename!(doc, {} as any, cancelled),
+      ).toBeUndefined();
+    });
+
+    it("prepareRename throws when there is no action", () => {
+      extern.docs = new Map([["doc1", { findActionAt: fn() }]]) as any;
+      extern.isValidToken = fn(() => true);
+
+      expect(() =>
+        renameProvider.prepareRename!(doc, {} as any, token),
+      ).toThrow("You cannot rename this element.");
+    });
+
+    it("prepareRename throws for an ambiguous action name", () => {
+      extern.docs = new Map([
+        ["doc1", { findActionAt: fn(() => ({ action: "{{ x }}" })) }],
+      ]) as any;
+      extern.isValidToken = fn(() => false);
+
+      expect(() =>
+        renameProvider.prepareRename!(doc, {} as any, token),
+      ).toThrow("You cannot rename this element.");
+      expect(extern.isValidToken).toHaveBeenCalledWith("{{ x }}");
+    });
+
+    it("prepareRename returns the range and placeholder", () => {
+      const findActionAt = fn(() => ({ action: "save", range: "range" }));
+      extern.docs = new Map([["doc1", { findActionAt }]]) as any;
+      extern.isValidToken = fn(() => true);
+
+      expect(renameProvider.prepareRename!(doc, "pos" as any, token)).toEqual({
+        range: "range",
+        placeholder: "save",
+      });
+      expect(findActionAt).toHaveBeenCalledWith("pos");
+    });
+
+    it("provideRenameEdits returns undefined if cancelled", () => {
+      expect(
+        renameProvider.provideRenameEdits(doc, {} as any, "foo", cancelled),
+      ).toBeUndefined();
+    });
+
+    it("provideRenameEdits throws for an invalid new name", () => {
+      extern.isValidToken = fn(() => false);
+
+      expect(() =>
+        renameProvider.provideRenameEdits(doc, {} as any, "a b", token),
+      ).toThrow("'a b' is not a valid action name.");
+    });
+
+    it("provideRenameEdits returns undefined when there is no action", () => {
+      extern.isValidToken = fn(() => true);
+      extern.docs = new Map() as any;
+
+      expect(
+        renameProvider.provideRenameEdits(doc, {} as any, "foo", token),
+      ).toBeUndefined();
+    });
+
+    it("provideRenameEdits replaces definitions and references", () => {
+      const replace = fn();
+      extern.isValidToken = fn(() => true);
+      extern.WorkspaceEdit = class {
+        replace = replace;
+      } as any;
+      extern.docs = new Map([
+        [
+          "doc1",
+          {
+            uri: "uri1",
+            findActionAt: fn(() => ({ kind: "result", action: "save" })),
+            result_definitions: new Map([["save", ["d1"]]]),
+            result_references: new Map([["save", ["r1", "r2"]]]),
+          },
+        ],
+        [
+          "doc2",
+          {
+            uri: "uri2",
+            result_definitions: new Map([["other", ["d2"]]]),
+            result_references: new Map(),
+          },
+        ],
+      ]) as any;
+      extern.getNamespace = fn(() => "site");
+      extern.getNamespaceDocs = fn(() => extern.docs.values()) as any;
+
+      expect(
+        renameProvider.provideRenameEdits(doc, {} as any, "store", token),
+      ).toBeInstanceOf(extern.WorkspaceEdit);
+      expect(extern.getNamespace).toHaveBeenCalledWith(doc.uri);
+      expect(extern.getNamespaceDocs).toHaveBeenCalledWith("site");
+      expect(replace.mock.calls).toEqual([
+        ["uri1", "d1", "store"],
+        ["uri1", "r1", "store"],
+        ["uri1", "r2", "store"],
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
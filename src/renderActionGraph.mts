@@ -0,0 +1,307 @@
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 40;
+const GAP_X = 80;
+const GAP_Y = 24;
+const PADDING = 16;
+
+/**
+ * What the action graph view currently shows.
+ */
+export interface ActionGraphView {
+  /**
+   * Whether the graph covers the whole workspace or a single file.
+   */
+  scope: "workspace" | "file";
+
+  /**
+   * The file the view can be narrowed down to, if any.
+   */
+  uri?: string;
+
+  /**
+   * Identifier of the action whose transitive closure is shown, or an empty
+   * string to show all of them.
+   */
+  action: string;
+}
+
+/**
+ * Escapes text for safe inclusion in HTML content and attribute values.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+const escape = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Arranges the nodes of a graph in columns, so that edges mostly point to the
+ * right: every node is placed one column after the closest node pointing to
+ * it, starting from the nodes nothing points to.
+ *
+ * @param graph - The graph to arrange.
+ * @returns The top left corner of every node.
+ */
+const layout = ({ nodes, edges }: ActionGraph<unknown>) => {
+  const next = new Map<string, string[]>();
+  const columns = new Map<string, number>();
+  const heights: number[] = [];
+  const positions = new Map<string, { x: number; y: number }>();
+  const queue: string[] = [];
+  const targets = new Set<string>();
+  let id, column, neighbor, row;
+
+  for (const { from, to } of edges) {
+    next.set(from, (next.get(from) ?? []).concat(to));
+    targets.add(to);
+  }
+
+  // sources first, then whatever remains unreached, i.e. cycles
+  for (const seed of [
+    ...nodes.filter(({ id }) => !targets.has(id)),
+    ...nodes,
+  ]) {
+    if (columns.has(seed.id)) {
+      continue;
+    }
+    columns.set(seed.id, 0);
+    queue.push(seed.id);
+
+    while ((id = queue.shift()) != null) {
+      column = columns.get(id)! + 1;
+      for (neighbor of next.get(id) ?? []) {
+        if (!columns.has(neighbor)) {
+          columns.set(neighbor, column);
+          queue.push(neighbor);
+        }
+      }
+    }
+  }
+
+  for ({ id } of nodes) {
+    column = columns.get(id)!;
+    row = heights[column] ?? 0;
+    heights[column] = row + 1;
+    positions.set(id, {
+      x: PADDING + column * (NODE_WIDTH + GAP_X),
+      y: PADDING + row * (NODE_HEIGHT + GAP_Y),
+    });
+  }
+
+  return {
+    positions,
+    width: PADDING * 2 + heights.length * (NODE_WIDTH + GAP_X) - GAP_X,
+    height:
+      PADDING * 2 + Math.max(0, ...heights) * (NODE_HEIGHT + GAP_Y) - GAP_Y,
+  };
+};
+
+/**
+ * Renders the action flow graph as a webview page.
+ *
+ * Nodes are laid out left to right in the direction of the flow; clicking a
+ * node, or changing a filter, posts a message back to the extension.
+ *
+ * @param graph - The graph to render.
+ * @param view - What the graph currently shows.
+ * @param options - Security settings of the webview.
+ * @param options.nonce - Nonce allowing the inline style and script to run.
+ * @param options.cspSource - Content security policy source of the webview.
+ * @returns The HTML of the page.
+ */
+export const renderActionGraph = (
+  graph: ActionGraph<unknown>,
+  view: ActionGraphView,
+  { nonce, cspSource }: { nonce: string; cspSource: string },
+) => {
+  const { positions, width, height } = layout(graph);
+  const actions = graph.nodes
+    .filter(({ type }) => type !== "element")
+    .map(({ id }) => id)
+    .concat(view.action ? [view.action] : [])
+    .filter((id, i, ids) => ids.indexOf(id) === i)
+    .sort();
+  let svg = "";
+  let from, to, x1, y1, x2, y2;
+
+  for (const { from: source, to: target, label } of graph.edges) {
+    from = positions.get(source)!;
+    to = positions.get(target)!;
+    x1 = from.x + NODE_WIDTH;
+    y1 = from.y + NODE_HEIGHT / 2;
+    x2 = to.x;
+    y2 = to.y + NODE_HEIGHT / 2;
+    svg += `<path class="edge" d="M${x1},${y1} C${x1 + GAP_X / 2},${y1} ${x2 - GAP_X / 2},${y2} ${x2},${y2}" marker-end="url(#arrow)"><title>${escape(label)}</title></path>`;
+  }
+
+  for (const { id, type, label, detail } of graph.nodes) {
+    ({ x: x1, y: y1 } = positions.get(id)!);
+    svg += `<g class="node ${type}" data-node="${escape(id)}" tabindex="0"><title>${escape(detail)}</title><rect x="${x1}" y="${y1}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4"/><text x="${x1 + 8}" y="${y1 + 16}">${escape(label)}</text><text class="detail" x="${x1 + 8}" y="${y1 + 32}">${escape(detail)}</text></g>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource}; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<title>KEML Action Flow</title>
+<style nonce="${nonce}">
+body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+select { margin-right: 8px; color: var(--vscode-dropdown-foreground); background: var(--vscode-dropdown-background); border: 1px solid var(--vscode-dropdown-border); }
+.edge { fill: none; stroke: var(--vscode-editorLineNumber-foreground); }
+#arrow path { fill: var(--vscode-editorLineNumber-foreground); }
+.node { cursor: pointer; }
+.node rect { fill: var(--vscode-editorWidget-background); stroke: var(--vscode-editorWidget-border); }
+.node.event rect { stroke: var(--vscode-charts-blue); }
+.node.state rect { stroke: var(--vscode-charts-yellow); }
+.node.result rect { stroke: var(--vscode-charts-green); }
+.node:hover rect, .node:focus rect { stroke-width: 2; }
+.node text { fill: var(--vscode-foreground); font-size: 12px; }
+.node .detail { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+</style>
+</head>
+<body>
+<p>
+<select id="scope">
+<option value="workspace"${view.scope === "workspace" ? " selected" : ""}>Whole workspace</option>
+<option value="file"${view.scope === "file" ? " selected" : ""}${view.uri ? "" : " disabled"}>Current file</option>
+</select>
+<select id="action">
+<option value="">All actions</option>
+${actions.map(id => `<option value="${escape(id)}"${id === view.action ? " selected" : ""}>${escape(id)}</option>`).join("\n")}
+</select>
+</p>
+${
+  graph.nodes.length ?
+    `<svg width="${width}" height="${height}">
+<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z"/></marker></defs>
+${svg}
+</svg>`
+  : "<p>No actions found.</p>"
+}
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+const scope = document.getElementById("scope");
+const action = document.getElementById("action");
+const filter = () =>
+  vscode.postMessage({ type: "filter", scope: scope.value, action: action.value });
+scope.addEventListener("change", filter);
+action.addEventListener("change", filter);
+for (const node of document.querySelectorAll("[data-node]")) {
+  const reveal = () => vscode.postMessage({ type: "reveal", id: node.dataset.node });
+  node.addEventListener("click", reveal);
+  node.addEventListener("keydown", e => e.key === "Enter" && reveal());
+}
+</script>
+</body>
+</html>
+`;
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("renderActionGraph", () => {
+    const options = { nonce: "abc", cspSource: "vscode-resource:" };
+    const node = (id: string, type: ActionGraphNode["type"]) => ({
+      id,
+      type,
+      label: `${id} & co`,
+      detail: `<${id}>`,
+      location: null,
+    });
+    const getPosition = (html: string, id: string) =>
+      new RegExp(`data-node="${id}"[^>]*>.*?<rect x="(\\d+)" y="(\\d+)"`)
+        .exec(html)!
+        .slice(1)
+        .map(Number);
+
+    it("renders an empty graph", () => {
+      const html = renderActionGraph(
+        { nodes: [], edges: [] },
+        { scope: "workspace", action: "" },
+        options,
+      );
+
+      expect(html).toContain("No actions found.");
+      expect(html).toContain(`script-src 'nonce-abc'`);
+      expect(html).toContain(`img-src vscode-resource:`);
+      expect(html).toContain(`<option value="file" disabled>`);
+      expect(html).toContain(`<option value="workspace" selected>`);
+      expect(html).not.toContain("<svg");
+    });
+
+    it("lays the nodes out in the direction of the flow", () => {
+      const html = renderActionGraph(
+        {
+          nodes: [
+            node("a", "element"),
+            node("event:b", "event"),
+            node("c", "element"),
+            node("d", "element"),
+            node("result:e", "result"),
+            node("f", "element"),
+            node("state:g", "state"),
+          ],
+          edges: [
+            { from: "a", to: "event:b", label: "on:click" },
+            { from: "event:b", to: "c", label: "on" },
+            { from: "event:b", to: "d", label: "on" },
+            { from: "c", to: "result:e", label: "result" },
+            { from: "result:e", to: "f", label: "render" },
+            { from: "f", to: "state:g", label: "if:x" },
+            { from: "state:g", to: "f", label: "if" },
+          ],
+        },
+        { scope: "file", uri: "file:///a.html", action: "event:z" },
+        options,
+      );
+
+      expect(getPosition(html, "a")).toEqual([16, 16]);
+      expect(getPosition(html, "event:b")).toEqual([256, 16]);
+      expect(getPosition(html, "c")).toEqual([496, 16]);
+      expect(getPosition(html, "d")).toEqual([496, 80]);
+      expect(getPosition(html, "result:e")).toEqual([736, 16]);
+      expect(getPosition(html, "f")).toEqual([976, 16]);
+      expect(getPosition(html, "state:g")).toEqual([1216, 16]);
+      expect(html).toContain(`<svg width="1392" height="136">`);
+      expect(html).toContain(
+        `<path class="edge" d="M176,36 C216,36 216,36 256,36" marker-end="url(#arrow)"><title>on:click</title></path>`,
+      );
+      expect(html).toContain('<text x="24" y="32">a &#38; co</text>');
+      expect(html).toContain("&#60;a&#62;");
+      expect(html).toContain(`<option value="file" selected>`);
+      expect(
+        Array.from(html.matchAll(/<option value="([^"]*)"/g), m => m[1]),
+      ).toEqual([
+        "workspace",
+        "file",
+        "",
+        "event:b",
+        "event:z",
+        "result:e",
+        "state:g",
+      ]);
+      expect(html).toContain(`<option value="event:z" selected>`);
+    });
+
+    it("lays cycles out", () => {
+      const html = renderActionGraph(
+        {
+          nodes: [node("a", "element"), node("event:b", "event")],
+          edges: [
+            { from: "a", to: "event:b", label: "on:click" },
+            { from: "event:b", to: "a", label: "on" },
+          ],
+        },
+        { scope: "workspace", action: "" },
+        options,
+      );
+
+      expect(getPosition(html, "a")).toEqual([16, 16]);
+      expect(getPosition(html, "event:b")).toEqual([256, 16]);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,60 @@
+import { Range } from "vscode";
+import { getEventDefinitions } from "./getEventDefinitions.mts";
+import { getEventReferences } from "./getEventReferences.mts";
+import { getResultDefinitions } from "./getResultDefinitions.mts";
+import { getResultReferences } from "./getResultReferences.mts";
+import { getStateDefinitions } from "./getStateDefinitions.mts";
+import { getStateReferences } from "./getStateReferences.mts";
+
+/**
+ * Every kind of action, in the order they are presented to the user.
+ */
+export const actionKinds: ActionKind[] = ["event", "state", "result"];
+
+/**
+ * Functions retrieving action definition ranges from a document, per kind.
+ */
+export const definitionResolvers: Record<
+  ActionKind,
+  (cur: Document) => Map<string, Range[]>
+> = {
+  event: getEventDefinitions,
+  state: getStateDefinitions,
+  result: getResultDefinitions,
+};
+
+/**
+ * Functions retrieving action reference ranges from a document, per kind.
+ */
+export const referenceResolvers: Record<
+  ActionKind,
+  (cur: Document) => Map<string, Range[]>
+> = {
+  event: getEventReferences,
+  state: getStateReferences,
+  result: getResultReferences,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("resolvers", () => {
+    it("maps every kind to its definition getter", () => {
+      expect(definitionResolvers).toEqual({
+        event: getEventDefinitions,
+        state: getStateDefinitions,
+        result: getResultDefinitions,
+      });
+    });
+
+    it("maps every kind to its reference getter", () => {
+      expect(referenceResolvers).toEqual({
+        event: getEventReferences,
+        state: getStateReferences,
+        result: getResultReferences,
+      });
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,255 @@
+import { posix } from "node:path";
+import { FileSystemWatcher, Uri, window, workspace } from "vscode";
+import { setRoutes } from "./data.mts";
+import { parseRoutes } from "./parseRoutes.mts";
+import { updateDiagnosticCollection } from "./updateDiagnosticCollection.mts";
+
+let watcher: FileSystemWatcher | undefined;
+
+/**
+ * Retrieves the watcher of the route file.
+ *
+ * @returns The watcher, if a route file is configured.
+ */
+export const getRoutesWatcher = () => watcher;
+
+/**
+ * Loads the routes of the server from the file the `keml.routes` setting
+ * points to, resolved against each workspace folder unless absolute.
+ *
+ * Every workspace folder gets the routes of its own file, while an absolute
+ * file serves every folder as well as the resources outside of them.
+ */
+export const loadRoutes = async () => {
+  const path = extern.workspace
+    .getConfiguration("keml", null)
+    .get<string>("routes", "");
+  const folders = (extern.workspace.workspaceFolders ?? []).map(({ uri }) =>
+    uri.toString(),
+  );
+  const result = new Map<string, Route[]>();
+  let doc, routes;
+
+  const files: [Uri, string[]][] =
+    !path ? []
+    : posix.isAbsolute(path) ? [[extern.Uri.file(path), ["", ...folders]]]
+    : (extern.workspace.workspaceFolders ?? []).map(({ uri }) => [
+        uri.with({ path: posix.join(uri.path, path) }),
+        [uri.toString()],
+      ]);
+
+  for (const [file, keys] of files) {
+    try {
+      doc = await extern.workspace.openTextDocument(file);
+    } catch {
+      continue;
+    }
+    try {
+      routes = extern.parseRoutes(doc.getText(), file.path);
+      for (const key of keys) {
+        result.set(key, routes);
+      }
+    } catch (error) {
+      extern.window.showErrorMessage(
+        `Failed to parse ${file.fsPath}: ${error}`,
+      );
+    }
+  }
+
+  extern.setRoutes(result);
+};
+
+/**
+ * Reloads the routes and refreshes the diagnostics.
+ */
+export const onDidChangeRoutes = async () => {
+  await extern.loadRoutes();
+  extern.updateDiagnosticCollection(true);
+};
+
+/**
+ * Updates the watcher of the route file.
+ *
+ * Disposes the previous watcher if it exists, then watches the file the
+ * `keml.routes` setting points to, if any.
+ */
+export const updateRoutesWatcher = () => {
+  watcher?.dispose();
+  watcher = undefined;
+
+  const path = extern.workspace
+    .getConfiguration("keml", null)
+    .get<string>("routes", "");
+
+  if (path) {
+    watcher = extern.workspace.createFileSystemWatcher(path);
+    watcher.onDidChange(onDidChangeRoutes);
+    watcher.onDidCreate(onDidChangeRoutes);
+    watcher.onDidDelete(onDidChangeRoutes);
+  }
+};
+
+let extern = {
+  Uri,
+  window,
+  workspace,
+  loadRoutes,
+  parseRoutes,
+  setRoutes,
+  updateDiagnosticCollection,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const { TextDocument, Uri } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("routes", () => {
+    const files: Record<string, string> = {};
+    const settings: Record<string, unknown> = {};
+
+    beforeEach(() => {
+      for (const path in files) {
+        delete files[path];
+      }
+      for (const name in settings) {
+        delete settings[name];
+      }
+      extern = {
+        ...origExtern,
+        Uri: Uri as any,
+        window: { showErrorMessage: fn() } as any,
+        workspace: {
+          workspaceFolders: [
+            { uri: Uri.file("/a"), name: "a", index: 0 },
+            { uri: Uri.file("/b/"), name: "b", index: 1 },
+            { uri: Uri.file("/c"), name: "c", index: 2 },
+          ],
+          getConfiguration: () => ({
+            get: (name: string, value: unknown) => settings[name] ?? value,
+          }),
+          openTextDocument: fn(async (uri: ReturnType<typeof Uri.file>) => {
+            if (!(uri.path in files)) {
+              throw new Error("ENOENT");
+            }
+            return new TextDocument(uri, "plaintext", 0, files[uri.path]!);
+          }),
+          createFileSystemWatcher: fn(),
+        } as any,
+        setRoutes: fn(),
+        updateDiagnosticCollection: fn(),
+      };
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("loads the route file of every workspace folder", async () => {
+      settings["routes"] = "api/routes.txt";
+      files["/a/api/routes.txt"] = "GET /todos\nPOST /todos";
+      files["/b/api/routes.txt"] = "/health";
+
+      await loadRoutes();
+
+      const [[routes]] = (extern.setRoutes as any).mock.calls;
+      const summarize = (folder: string) =>
+        routes.get(folder).map(({ method, path }: Route) => [method, path]);
+
+      expect(Array.from(routes.keys())).toEqual(["file:///a", "file:///b/"]);
+      expect(summarize("file:///a")).toEqual([
+        ["GET", "/todos"],
+        ["POST", "/todos"],
+      ]);
+      expect(summarize("file:///b/")).toEqual([[undefined, "/health"]]);
+      expect(extern.window.showErrorMessage).not.toHaveBeenCalled();
+    });
+
+    it("loads an absolute route file once for every folder", async () => {
+      settings["routes"] = "/api/routes.txt";
+      files["/api/routes.txt"] = "/health";
+
+      await loadRoutes();
+
+      const [[routes]] = (extern.setRoutes as any).mock.calls;
+
+      expect(extern.workspace.openTextDocument).toHaveBeenCalledOnce();
+      expect(Array.from(routes.keys())).toEqual([
+        "",
+        "file:///a",
+        "file:///b/",
+        "file:///c",
+      ]);
+      expect(routes.get("file:///c")).toBe(routes.get(""));
+      expect(routes.get("")).toHaveLength(1);
+    });
+
+    it("reports malformed route files", async () => {
+      settings["routes"] = "/api/openapi.json";
+      files["/api/openapi.json"] = "{";
+
+      await loadRoutes();
+      expect(extern.window.showErrorMessage).toHaveBeenCalledWith(
+        expect.stringMatching(/^Failed to parse .*openapi\.json: SyntaxError/),
+      );
+      expect(extern.setRoutes).toHaveBeenCalledWith(new Map());
+    });
+
+    it("loads nothing without a route file or workspace folders", async () => {
+      await loadRoutes();
+      settings["routes"] = "routes.txt";
+      extern.workspace = { ...extern.workspace, workspaceFolders: undefined };
+      await loadRoutes();
+      expect(extern.workspace.openTextDocument).not.toHaveBeenCalled();
+      expect(extern.setRoutes).toHaveBeenCalledTimes(2);
+      expect(extern.setRoutes).toHaveBeenCalledWith(new Map());
+    });
+
+    it("reloads the routes when the route file changes", async () => {
+      const watcher = {
+        dispose: fn(),
+        onDidChange: fn(),
+        onDidCreate: fn(),
+        onDidDelete: fn(),
+      };
+
+      extern.workspace.createFileSystemWatcher = fn(() => watcher) as any;
+      extern.loadRoutes = fn(async () => {});
+
+      updateRoutesWatcher();
+      expect(getRoutesWatcher()).toBeUndefined();
+      expect(extern.workspace.createFileSystemWatcher).not.toHaveBeenCalled();
+
+      settings["routes"] = "openapi.yaml";
+      updateRoutesWatcher();
+      expect(getRoutesWatcher()).toBe(watcher);
+      expect(extern.workspace.createFileSystemWatcher).toHaveBeenCalledWith(
+        "openapi.yaml",
+      );
+
+      const [[listener]] = watcher.onDidChange.mock.calls as any;
+
+      expect(watcher.onDidCreate).toHaveBeenCalledWith(listener);
+      expect(watcher.onDidDelete).toHaveBeenCalledWith(listener);
+      await listener();
+      expect(extern.loadRoutes).toHaveBeenCalled();
+      expect(extern.updateDiagnosticCollection).toHaveBeenCalledWith(true);
+
+      delete settings["routes"];
+      updateRoutesWatcher();
+      expect(watcher.dispose).toHaveBeenCalledOnce();
+      expect(getRoutesWatcher()).toBeUndefined();
+    });
+  });
+}
+/* v8 ignore stop */
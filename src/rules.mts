@@ -0,0 +1,28 @@
+/**
+ * Where the rules are documented, one section per code.
+ */
+export const RULES_URL =
+  "https://github.com/thealjey/keml-vscode/blob/main/RULES.md";
+
+/**
+ * The codes of every diagnostic.
+ */
+export const ruleCodes: RuleCode[] = [
+  "undefined-action",
+  "unused-action",
+  "missing-dependency",
+  "conditional-without-if",
+  "empty-subscriber",
+  "whitespace-in-subscriber",
+  "invalid-position",
+  "invalid-behavior",
+  "invalid-scroll-position",
+  "scroll-without-offset",
+  "log-attribute",
+  "unused-suppression",
+  "unknown-route",
+  "shadowed-endpoint",
+  "invalid-method",
+  "redirect-with-method",
+  "unknown-event",
+];
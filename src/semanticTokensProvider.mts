@@ -0,0 +1,339 @@
+import {
+  DocumentSemanticTokensProvider,
+  Range,
+  SemanticTokensBuilder,
+  SemanticTokensLegend,
+} from "vscode";
+import { docs, getExternalActions } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
+import { getNamespaceDocs } from "./getNamespaceDocs.mts";
+import { isEndpoint } from "./isEndpoint.mts";
+import { isEventDefinition } from "./isEventDefinition.mts";
+import { isEventFilter } from "./isEventFilter.mts";
+import { isEventReference } from "./isEventReference.mts";
+import { isResultDefinition } from "./isResultDefinition.mts";
+import { isResultReference } from "./isResultReference.mts";
+import { isStateDefinition } from "./isStateDefinition.mts";
+import { isStateReference } from "./isStateReference.mts";
+import { isValidToken } from "./isValidToken.mts";
+import { parseTokens } from "./parseTokens.mts";
+import { definitionResolvers } from "./resolvers.mts";
+
+/**
+ * The token types and modifiers KEML classifies attributes and actions into.
+ */
+export const semanticTokensLegend = new SemanticTokensLegend(
+  [
+    "kemlEvent",
+    "kemlState",
+    "kemlResult",
+    "kemlConditional",
+    "kemlEventFilter",
+    "kemlEndpoint",
+  ],
+  ["definition", "undefined"],
+);
+
+const tokenTypes: Record<ActionKind, string> = {
+  event: "kemlEvent",
+  state: "kemlState",
+  result: "kemlResult",
+};
+
+/**
+ * Finds out which action, if any, an attribute defines or subscribes to.
+ *
+ * @param name - The attribute name.
+ * @returns The kind of action and whether it is being defined, or undefined.
+ */
+const classify = (name: string): [ActionKind, boolean] | undefined =>
+  extern.isEventDefinition(name) ? ["event", true]
+  : extern.isEventReference(name) ? ["event", false]
+  : extern.isStateDefinition(name) ? ["state", true]
+  : extern.isStateReference(name) ? ["state", false]
+  : extern.isResultDefinition(name) ? ["result", true]
+  : extern.isResultReference(name) ? ["result", false]
+  : undefined;
+
+/**
+ * Classifies KEML attributes and action names for semantic highlighting, so
+ * that themes can tell them apart from plain HTML attributes.
+ *
+ * Action names are typed by their kind, with the `definition` modifier where
+ * they are defined and the `undefined` modifier where they are subscribed to
+ * without being defined anywhere in the namespace of the document. The `x-`
+ * prefix of conditional attributes, event filters and endpoint attributes are
+ * classified by name.
+ */
+export const semanticTokensProvider: DocumentSemanticTokensProvider = {
+  /**
+   * Computes the semantic tokens of a whole document.
+   *
+   * @param doc - The document.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The encoded tokens, or undefined if the document is unknown.
+   */
+  provideDocumentSemanticTokens(doc, { isCancellationRequested }) {
+    if (isCancellationRequested) {
+      return;
+    }
+
+    const cur = extern.docs.get(doc.uri.toString());
+    if (!cur) {
+      return;
+    }
+
+    const namespace = extern.getNamespace(cur.uri);
+    const builder = new extern.SemanticTokensBuilder(semanticTokensLegend);
+    const defined = new Map<string, boolean>();
+    let node, attr, start, offset, match, key, token, characterDelta;
+
+    /**
+     * Checks whether an action is defined anywhere in the namespace of the
+     * document, possibly through template interpolations, or declared by the
+     * project manifest.
+     *
+     * @param kind - The kind of the action.
+     * @param action - The action name.
+     * @returns Whether the action has at least one definition.
+     */
+    const isDefined = (kind: ActionKind, action: string) => {
+      let result = defined.get((key = `${kind}:${action}`));
+
+      if (result == null) {
+        result = extern.getExternalActions(namespace)[kind].has(action);
+        for (const other of extern.getNamespaceDocs(namespace)) {
+          if (
+            definitionResolvers[kind](other).has(action) ||
+            other.dynamic_definitions[kind].some(pattern =>
+              pattern.test(action),
+            )
+          ) {
+            result = true;
+            break;
+          }
+        }
+        defined.set(key, result);
+      }
+
+      return result;
+    };
+
+    for (node of cur.nodes) {
+      for (attr of node.attributes.values()) {
+        const { name, value, range } = attr;
+
+        start = attr.fullRange.start;
+        offset = 0;
+        if (name.startsWith("x-")) {
+          builder.push(
+            new extern.Range(start, start.translate(0, 2)),
+            "kemlConditional",
+          );
+          offset = 2;
+        }
+        if (extern.isEventFilter(name) || extern.isEndpoint(name)) {
+          builder.push(
+            new extern.Range(
+              start.translate(0, offset),
+              start.translate(0, name.length),
+            ),
+            extern.isEventFilter(name) ? "kemlEventFilter" : "kemlEndpoint",
+          );
+        }
+
+        if (!range?.isSingleLine || !(match = classify(name))) {
+          continue;
+        }
+
+        const [kind, definition] = match;
+
+        if (definition) {
+          for ({ token, characterDelta } of extern.parseTokens(value)) {
+            builder.push(
+              new extern.Range(
+                range.start.translate(0, characterDelta),
+                range.start.translate(0, characterDelta + token.length),
+              ),
+              tokenTypes[kind],
+              ["definition"],
+            );
+          }
+        } else if (extern.isValidToken(value)) {
+          builder.push(
+            range,
+            tokenTypes[kind],
+            isDefined(kind, value) ? [] : ["undefined"],
+          );
+        }
+      }
+    }
+
+    return builder.build();
+  },
+};
+
+let extern = {
+  Range,
+  SemanticTokensBuilder,
+  docs,
+  getExternalActions,
+  getNamespace,
+  getNamespaceDocs,
+  isEndpoint,
+  isEventDefinition,
+  isEventFilter,
+  isEventReference,
+  isResultDefinition,
+  isResultReference,
+  isStateDefinition,
+  isStateReference,
+  isValidToken,
+  parseTokens,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const { Document } = await import("./document.mts");
+  const { setExclude, setInclude, setLanguageIds, setTemplateSyntaxes } =
+    await import("./data.mts");
+  const { TextDocument, Uri } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("semanticTokensProvider", () => {
+    const token = { isCancellationRequested: false } as any;
+    const a = Uri.file("/a.html");
+    const b = Uri.file("/b.html");
+
+    setLanguageIds(["html"]);
+    setExclude([]);
+    setInclude([]);
+    setTemplateSyntaxes(["jinja"]);
+
+    afterAll(() => {
+      extern = origExtern;
+      setTemplateSyntaxes([]);
+    });
+
+    /**
+     * Decodes tokens back into absolute, human readable ones.
+     */
+    const decode = (data: Uint32Array) => {
+      const { tokenTypes, tokenModifiers } = semanticTokensLegend;
+      const result = [];
+      let line = 0;
+      let character = 0;
+
+      for (let i = 0; i < data.length; i += 5) {
+        const [deltaLine, deltaStart, length, type, modifiers] = data.slice(
+          i,
+          i + 5,
+        );
+        line += deltaLine!;
+        character = deltaLine ? deltaStart! : character + deltaStart!;
+        result.push(
+          [
+            `${line}:${character}+${length}`,
+            tokenTypes[type!],
+            ...tokenModifiers.filter((_, j) => modifiers! & (1 << j)),
+          ].join(" "),
+        );
+      }
+
+      return result;
+    };
+
+    it("ignores cancelled requests and unknown documents", () => {
+      extern.docs = new Map();
+      expect(
+        semanticTokensProvider.provideDocumentSemanticTokens(
+          { uri: a } as any,
+          { isCancellationRequested: true } as any,
+        ),
+      ).toBeUndefined();
+      expect(
+        semanticTokensProvider.provideDocumentSemanticTokens(
+          { uri: a } as any,
+          token,
+        ),
+      ).toBeUndefined();
+    });
+
+    it("classifies attributes and actions", () => {
+      extern = { ...origExtern };
+      extern.getExternalActions = fn(() => ({
+        event: new Map(),
+        state: new Map([["busy", {} as ExternalAction]]),
+        result: new Map(),
+      }));
+      extern.getNamespace = () => "site";
+      extern.getNamespaceDocs = fn(() => extern.docs.values()) as any;
+      extern.docs = new Map([
+        [
+          a.toString(),
+          new Document(
+            new TextDocument(
+              a,
+              "html",
+              1,
+              [
+                '<button on:click="save  load" x-if="busy" event:click="ctrl">',
+                '<form x-post="/todos" on="save" result="list" render="gone">',
+                '<p on="{{ x }}" if:valid="ok" render="missing"></p><i render="item_1"></i>',
+                '<ul on="mul',
+                'ti" class="list" if="busy"></ul>',
+              ].join("\n"),
+            ) as any,
+          ),
+        ],
+        [
+          b.toString(),
+          new Document(
+            new TextDocument(
+              b,
+              "html",
+              1,
+              [
+                '<a href="/" error="gone" if="ok" result="item_{{ id }}"></a>',
+              ].join("\n"),
+            ) as any,
+          ),
+        ],
+      ]) as any;
+
+      const tokens = semanticTokensProvider.provideDocumentSemanticTokens(
+        { uri: a } as any,
+        token,
+      ) as { data: Uint32Array };
+
+      expect(extern.getNamespaceDocs).toHaveBeenCalledWith("site");
+      expect(extern.getExternalActions).toHaveBeenCalledWith("site");
+      expect(decode(tokens.data)).toEqual([
+        "0:18+4 kemlEvent definition",
+        "0:24+4 kemlEvent definition",
+        "0:30+2 kemlConditional",
+        "0:36+4 kemlState",
+        "0:42+11 kemlEventFilter",
+        "1:6+2 kemlConditional",
+        "1:8+4 kemlEndpoint",
+        "1:26+4 kemlEvent",
+        "1:40+4 kemlResult definition",
+        "1:54+4 kemlResult",
+        "2:26+2 kemlState definition",
+        "2:38+7 kemlResult undefined",
+        "2:62+6 kemlResult",
+        "4:21+4 kemlState",
+      ]);
+    });
+  });
+}
+/* v8 ignore stop */
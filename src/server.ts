@@ -0,0 +1,11 @@
+/**
+ * Entry point of the KEML language server.
+ *
+ * Run it with `node out/server.js --stdio` from any LSP capable editor.
+ */
+
+import { ProposedFeatures, createConnection } from "vscode-languageserver/node";
+
+import("./listen.mts").then(({ listen }) =>
+  listen(createConnection(ProposedFeatures.all)),
+);
@@ -7,8 +7,12 @@ import {
   newHTMLDataProvider,
 } from "vscode-html-languageservice";
 import { customData } from "./customData.mts";
-import { getLanguageIds } from "./data.mts";
-import { expandEventAttr } from "./expandEventAttr.mts";
+import {
+  getActiveNamespace,
+  getCustomEvents,
+  getLanguageIds,
+} from "./data.mts";
+import { getEventAttrs } from "./getEventAttrs.mts";
 import { getEventDefinitions } from "./getEventDefinitions.mts";
 import { getEventValue } from "./getEventValue.mts";
 import { getResultDefinitions } from "./getResultDefinitions.mts";
@@ -50,7 +54,8 @@ const provider: IHTMLDataProvider = {
   provideTags: () => providedTags,
 
   /**
-   * Provides the possible values for a given tag attribute.
+   * Provides the possible values for a given tag attribute. Actions are only
+   * collected from the namespace of the document being completed.
    *
    * @param tag Tag name.
    * @param attribute Attribute name.
@@ -58,15 +63,30 @@ const provider: IHTMLDataProvider = {
    */
   provideValues: (tag, attribute) => {
     if (extern.isEventReference(attribute)) {
-      return extern.provideActionValues(getEventDefinitions, getEventValue);
+      return extern.provideActionValues(
+        getEventDefinitions,
+        getEventValue,
+        "event",
+        extern.getActiveNamespace(),
+      );
     }
 
     if (extern.isStateReference(attribute)) {
-      return extern.provideActionValues(getStateDefinitions, getStateValue);
+      return extern.provideActionValues(
+        getStateDefinitions,
+        getStateValue,
+        "state",
+        extern.getActiveNamespace(),
+      );
     }
 
     if (extern.isResultReference(attribute)) {
-      return extern.provideActionValues(getResultDefinitions, getResultValue);
+      return extern.provideActionValues(
+        getResultDefinitions,
+        getResultValue,
+        "result",
+        extern.getActiveNamespace(),
+      );
     }
 
     let tagged = extern.providedValues.get(tag);
@@ -88,7 +108,8 @@ const provider: IHTMLDataProvider = {
   },
 
   /**
-   * Provides the attributes available for a given tag.
+   * Provides the attributes available for a given tag, along with the
+   * attributes of the custom events declared by the user.
    *
    * @param tag Tag name.
    * @returns Array of allowed attributes for the tag.
@@ -99,16 +120,19 @@ const provider: IHTMLDataProvider = {
     if (!tagged) {
       extern.providedAttributes.set(
         tag,
-        (tagged = extern
-          .mergeDefinitions(
-            extern.staticProvider.provideAttributes(tag),
-            extern.defaultProvider.provideAttributes(tag),
-          )
-          .flatMap(extern.expandEventAttr)),
+        (tagged = extern.mergeDefinitions(
+          extern.staticProvider.provideAttributes(tag),
+          extern.defaultProvider.provideAttributes(tag),
+        )),
       );
     }
 
-    return tagged.filter(extern.isAllowedAttr);
+    return extern
+      .mergeDefinitions(
+        extern.getCustomEvents().flatMap(extern.getEventAttrs),
+        tagged,
+      )
+      .filter(extern.isAllowedAttr);
   },
 };
 
@@ -118,6 +142,9 @@ export const service = getLanguageService({
 });
 
 let extern = {
+  getActiveNamespace,
+  getCustomEvents,
+  getEventAttrs,
   getLanguageIds,
   isEventReference,
   provideActionValues,
@@ -128,7 +155,6 @@ let extern = {
   staticProvider,
   defaultProvider,
   providedAttributes,
-  expandEventAttr,
   isAllowedAttr,
 };
 
@@ -166,12 +192,15 @@ if (import.meta.vitest) {
 
     it("provideValues calls provideActionValues for event, state, result attributes", () => {
       const conv = { converted: true };
+      extern.getActiveNamespace = fn(() => "site");
       extern.isEventReference = fn(() => true) as any;
       extern.provideActionValues = fn(() => [conv]) as any;
       expect(provider.provideValues("tag", "attr")).toEqual([conv]);
       expect(extern.provideActionValues).toHaveBeenCalledWith(
         getEventDefinitions,
         getEventValue,
+        "event",
+        "site",
       );
 
       extern.isEventReference = fn(() => false) as any;
@@ -180,6 +209,8 @@ if (import.meta.vitest) {
       expect(extern.provideActionValues).toHaveBeenCalledWith(
         getStateDefinitions,
         getStateValue,
+        "state",
+        "site",
       );
 
       extern.isStateReference = fn(() => false) as any;
@@ -188,6 +219,8 @@ if (import.meta.vitest) {
       expect(extern.provideActionValues).toHaveBeenCalledWith(
         getResultDefinitions,
         getResultValue,
+        "result",
+        "site",
       );
     });
 
@@ -205,12 +238,15 @@ if (import.meta.vitest) {
       expect(provider.provideValues("tag", "attr")).toBe(provided);
     });
 
-    it("provideAttributes merges, expands, and filters correctly", () => {
+    it("provideAttributes merges and filters correctly", () => {
       const merged = [{ name: "a" }, { name: "b" }];
-      extern.mergeDefinitions = fn(() => merged) as any;
+      extern.mergeDefinitions = fn((left, right) =>
+        right === merged ? left.concat(right) : merged,
+      ) as any;
       extern.staticProvider = { provideAttributes: fn(() => ["s"]) } as any;
       extern.defaultProvider = { provideAttributes: fn(() => ["d"]) } as any;
-      extern.expandEventAttr = fn(x => [x]);
+      extern.getCustomEvents = fn(() => []);
+      extern.getEventAttrs = fn();
       extern.isAllowedAttr = fn(attr => attr.name === "a");
       extern.providedAttributes = new Map();
 
@@ -218,6 +254,24 @@ if (import.meta.vitest) {
       expect(result).toEqual([{ name: "a" }]);
       // cached result should be reused
       expect(provider.provideAttributes("tag")).toEqual([{ name: "a" }]);
+      expect(extern.staticProvider.provideAttributes).toHaveBeenCalledOnce();
+    });
+
+    it("provideAttributes adds the custom events of the user", () => {
+      extern.mergeDefinitions = origExtern.mergeDefinitions;
+      extern.getCustomEvents = fn(() => ["refresh", "click"]);
+      extern.getEventAttrs = origExtern.getEventAttrs;
+      extern.isAllowedAttr = fn(() => true);
+      extern.providedAttributes = new Map([
+        ["tag", [{ name: "on:click", description: "Native" }]],
+      ]);
+
+      expect(provider.provideAttributes("tag")).toMatchObject([
+        { name: "on:refresh" },
+        { name: "event:refresh" },
+        { name: "on:click", description: "Native" },
+        { name: "event:click" },
+      ]);
     });
   });
 }
@@ -0,0 +1,210 @@
+import { Disposable, languages, workspace } from "vscode";
+import { configure } from "./configure.mts";
+import { getDiagnosticCollection, languageDisposables } from "./data.mts";
+import {
+  onDidCloseDiagnostics,
+  onDidCreateDiagnostics,
+  onDidCreateFilesDiagnostics,
+  onDidDeleteFilesDiagnostics,
+  onDidEdit,
+  onDidRenameFilesDiagnostics,
+} from "./documents.mts";
+import { onDidChangeManifest, watchManifest } from "./manifest.mts";
+import { onDidChangeConfiguration } from "./onDidChangeConfiguration.mts";
+import { getRoutesWatcher, onDidChangeRoutes } from "./routes.mts";
+import {
+  getWatcher,
+  updateFileSystemWatcher,
+} from "./updateFileSystemWatcher.mts";
+import { workspaceSymbolProvider } from "./workspaceSymbolProvider.mts";
+
+/**
+ * Starts the language services by performing initial configuration and
+ * registering event handlers, as well as the providers that are not tied to a
+ * language.
+ *
+ * @param subscriptions - Collection receiving the registered disposables.
+ */
+export const activateServices = async (subscriptions: Disposable[]) => {
+  await extern.configure(false);
+
+  subscriptions.push(
+    extern.getDiagnosticCollection(),
+    extern.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider),
+    extern.workspace.onDidChangeConfiguration(onDidChangeConfiguration),
+    extern.workspace.onDidChangeTextDocument(onDidEdit),
+    extern.workspace.onDidChangeWorkspaceFolders(updateFileSystemWatcher),
+    extern.workspace.onDidChangeWorkspaceFolders(onDidChangeManifest),
+    extern.workspace.onDidChangeWorkspaceFolders(onDidChangeRoutes),
+    extern.workspace.onDidCloseTextDocument(onDidCloseDiagnostics),
+    extern.workspace.onDidCreateFiles(onDidCreateFilesDiagnostics),
+    extern.workspace.onDidDeleteFiles(onDidDeleteFilesDiagnostics),
+    extern.workspace.onDidOpenTextDocument(onDidCreateDiagnostics),
+    extern.workspace.onDidRenameFiles(onDidRenameFilesDiagnostics),
+    extern.watchManifest(),
+  );
+};
+
+/**
+ * Stops the language services by disposing of watchers and language-specific
+ * resources.
+ */
+export const deactivateServices = () => {
+  extern.getWatcher().dispose();
+  extern.getRoutesWatcher()?.dispose();
+
+  let disposable;
+  for (const disposables of extern.languageDisposables.values()) {
+    for (disposable of disposables) {
+      disposable.dispose();
+    }
+  }
+  extern.languageDisposables.clear();
+};
+
+let extern = {
+  languages,
+  workspace,
+  configure,
+  getDiagnosticCollection,
+  languageDisposables,
+  getWatcher,
+  getRoutesWatcher,
+  watchManifest,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("activateServices/deactivateServices", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("activateServices calls configure and registers workspace listeners with correct handlers and disposables", async () => {
+      const configureFn = fn(async () => {});
+      const diagCollection = {} as any;
+
+      // Fake disposables returned by workspace registration functions
+      const fakeDisposable1 = {};
+      const fakeDisposable2 = {};
+      const fakeDisposable3 = {};
+      const fakeDisposable4 = {};
+      const fakeDisposable5 = {};
+      const fakeDisposable6 = {};
+      const fakeDisposable7 = {};
+      const fakeDisposable8 = {};
+      const fakeDisposable9 = {};
+      const fakeDisposable10 = {};
+
+      const subscriptions: any[] = [];
+
+      extern.configure = configureFn;
+      extern.getDiagnosticCollection = fn(() => diagCollection);
+      extern.watchManifest = fn(() => fakeDisposable10) as any;
+      extern.languages = {
+        registerWorkspaceSymbolProvider: fn(() => fakeDisposable9),
+      } as any;
+      extern.workspace = {
+        onDidChangeConfiguration: fn(() => fakeDisposable1),
+        onDidChangeTextDocument: fn(() => fakeDisposable2),
+        onDidChangeWorkspaceFolders: fn(() => fakeDisposable3),
+        onDidCreateFiles: fn(() => fakeDisposable4),
+        onDidDeleteFiles: fn(() => fakeDisposable5),
+        onDidOpenTextDocument: fn(() => fakeDisposable6),
+        onDidRenameFiles: fn(() => fakeDisposable7),
+        onDidCloseTextDocument: fn(() => fakeDisposable8),
+      } as any;
+
+      await activateServices(subscriptions);
+
+      expect(configureFn).toHaveBeenCalled();
+
+      // Each workspace function called with the correct module handler
+      expect(extern.workspace.onDidChangeConfiguration).toHaveBeenCalledWith(
+        onDidChangeConfiguration,
+      );
+      expect(extern.workspace.onDidChangeTextDocument).toHaveBeenCalledWith(
+        onDidEdit,
+      );
+      expect(extern.workspace.onDidChangeWorkspaceFolders).toHaveBeenCalledWith(
+        updateFileSystemWatcher,
+      );
+      expect(extern.workspace.onDidChangeWorkspaceFolders).toHaveBeenCalledWith(
+        onDidChangeManifest,
+      );
+      expect(extern.workspace.onDidChangeWorkspaceFolders).toHaveBeenCalledWith(
+        onDidChangeRoutes,
+      );
+      expect(extern.workspace.onDidCreateFiles).toHaveBeenCalledWith(
+        onDidCreateFilesDiagnostics,
+      );
+      expect(extern.workspace.onDidDeleteFiles).toHaveBeenCalledWith(
+        onDidDeleteFilesDiagnostics,
+      );
+      expect(extern.workspace.onDidOpenTextDocument).toHaveBeenCalledWith(
+        onDidCreateDiagnostics,
+      );
+      expect(extern.workspace.onDidRenameFiles).toHaveBeenCalledWith(
+        onDidRenameFilesDiagnostics,
+      );
+      expect(extern.workspace.onDidCloseTextDocument).toHaveBeenCalledWith(
+        onDidCloseDiagnostics,
+      );
+      expect(
+        extern.languages.registerWorkspaceSymbolProvider,
+      ).toHaveBeenCalledWith(workspaceSymbolProvider);
+
+      // Subscriptions array contains the disposables returned by workspace functions
+      expect(subscriptions).toContain(diagCollection);
+      expect(subscriptions).toContain(fakeDisposable1);
+      expect(subscriptions).toContain(fakeDisposable2);
+      expect(subscriptions).toContain(fakeDisposable3);
+      expect(subscriptions).toContain(fakeDisposable4);
+      expect(subscriptions).toContain(fakeDisposable5);
+      expect(subscriptions).toContain(fakeDisposable6);
+      expect(subscriptions).toContain(fakeDisposable7);
+      expect(subscriptions).toContain(fakeDisposable8);
+      expect(subscriptions).toContain(fakeDisposable9);
+      expect(subscriptions).toContain(fakeDisposable10);
+    });
+
+    it("deactivateServices disposes watcher and clears language disposables", () => {
+      const disposeWatcher = fn();
+      const disposeRoutesWatcher = fn();
+      const disposable1 = { dispose: fn() };
+      const disposable2 = { dispose: fn() };
+
+      extern.getWatcher = fn(() => ({ dispose: disposeWatcher })) as any;
+      extern.getRoutesWatcher = fn(() => ({
+        dispose: disposeRoutesWatcher,
+      })) as any;
+      extern.languageDisposables = new Map([
+        ["lang1", [disposable1, disposable2]],
+      ]);
+
+      deactivateServices();
+
+      expect(disposeWatcher).toHaveBeenCalled();
+      expect(disposeRoutesWatcher).toHaveBeenCalled();
+      expect(disposable1.dispose).toHaveBeenCalled();
+      expect(disposable2.dispose).toHaveBeenCalled();
+      expect(extern.languageDisposables.size).toBe(0);
+
+      extern.getRoutesWatcher = fn(() => undefined);
+      deactivateServices();
+      expect(disposeWatcher).toHaveBeenCalledTimes(2);
+    });
+  });
+}
+/* v8 ignore stop */
@@ -0,0 +1,285 @@
+import { randomUUID } from "node:crypto";
+import { Range, Uri, ViewColumn, WebviewPanel, window } from "vscode";
+import type { Location } from "vscode-languageclient/node.js";
+import { ActionGraphView, renderActionGraph } from "./renderActionGraph.mts";
+
+/**
+ * Fetches the action graph from the language server.
+ */
+export type ActionGraphRequest = (
+  filter: ActionGraphFilter,
+) => Promise<ActionGraph<Location>>;
+
+let panel: WebviewPanel | undefined;
+let graph: ActionGraph<Location> = { nodes: [], edges: [] };
+let view: ActionGraphView = { scope: "workspace", action: "" };
+let request: ActionGraphRequest;
+
+/**
+ * Fetches the graph for the current view and renders it into the panel.
+ */
+const render = async () => {
+  const filter: ActionGraphFilter = {};
+
+  if (view.scope === "file" && view.uri) {
+    filter.uri = view.uri;
+  }
+  if (view.action) {
+    filter.action = view.action;
+  }
+
+  graph = await request(filter);
+
+  if (panel) {
+    panel.webview.html = extern.renderActionGraph(graph, view, {
+      nonce: extern.randomUUID(),
+      cspSource: panel.webview.cspSource,
+    });
+  }
+};
+
+/**
+ * A message posted by the webview.
+ */
+type ActionGraphMessage =
+  | { type: "reveal"; id: string }
+  | { type: "filter"; scope: ActionGraphView["scope"]; action: string };
+
+/**
+ * Handles the messages posted by the webview: opens the source of a clicked
+ * node, or re-renders the graph when a filter changes.
+ *
+ * @param message - The message.
+ */
+const onMessage = async (message: ActionGraphMessage) => {
+  if (message.type === "filter") {
+    view = { ...view, scope: message.scope, action: message.action };
+    await render();
+    return;
+  }
+
+  const node = graph.nodes.find(({ id }) => id === message.id);
+  if (!node) {
+    return;
+  }
+
+  const { start, end } = node.location.range;
+  await extern.window.showTextDocument(extern.Uri.parse(node.location.uri), {
+    viewColumn: extern.ViewColumn.One,
+    selection: new extern.Range(
+      start.line,
+      start.character,
+      end.line,
+      end.character,
+    ),
+  });
+};
+
+/**
+ * Shows the action flow graph in a webview panel beside the editor, creating
+ * the panel on first use.
+ *
+ * The "current file" scope refers to the editor active when the command was
+ * run, since focusing the panel leaves no active text editor.
+ *
+ * @param fetchGraph - Fetches the graph from the language server.
+ */
+export const showActionGraph = async (fetchGraph: ActionGraphRequest) => {
+  const uri = extern.window.activeTextEditor?.document.uri.toString();
+
+  request = fetchGraph;
+  view = { scope: view.scope, action: view.action };
+  if (uri) {
+    view.uri = uri;
+  } else {
+    view.scope = "workspace";
+  }
+
+  if (panel) {
+    panel.reveal();
+  } else {
+    panel = extern.window.createWebviewPanel(
+      "keml.actionGraph",
+      "KEML Action Flow",
+      extern.ViewColumn.Beside,
+      { enableScripts: true },
+    );
+    panel.onDidDispose(() => {
+      panel = undefined;
+    });
+    panel.webview.onDidReceiveMessage((message: ActionGraphMessage) =>
+      onMessage(message).catch(error =>
+        extern.window.showErrorMessage(
+          `Failed to update the action flow graph: ${error}`,
+        ),
+      ),
+    );
+  }
+
+  await render();
+};
+
+let extern = { Range, Uri, ViewColumn, randomUUID, renderActionGraph, window };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    beforeEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("showActionGraph", () => {
+    const location = {
+      uri: "file:///a.html",
+      range: {
+        start: { line: 1, character: 2 },
+        end: { line: 3, character: 4 },
+      },
+    };
+    const fetched: ActionGraph<Location> = {
+      nodes: [
+        {
+          id: "event:save",
+          type: "event",
+          label: "save",
+          detail: "event action",
+          location,
+        },
+      ],
+      edges: [],
+    };
+    let onDidDispose: () => void;
+    let onDidReceiveMessage: (message: any) => Promise<void>;
+    const webview = {
+      cspSource: "csp",
+      html: "",
+      onDidReceiveMessage: (listener: typeof onDidReceiveMessage) => {
+        onDidReceiveMessage = listener;
+      },
+    };
+    const created = {
+      webview,
+      reveal: fn(),
+      onDidDispose: (listener: typeof onDidDispose) => {
+        onDidDispose = listener;
+      },
+    };
+
+    beforeEach(() => {
+      webview.html = "";
+      extern.randomUUID = (() => "nonce") as any;
+      extern.renderActionGraph = fn(() => "html");
+      extern.Uri = { parse: (uri: string) => `parsed ${uri}` } as any;
+      extern.ViewColumn = { One: 1, Beside: -2 } as any;
+      extern.Range = class {
+        constructor(...args: any[]) {
+          return args;
+        }
+      } as any;
+      extern.window = {
+        activeTextEditor: { document: { uri: "file:///b.html" } },
+        createWebviewPanel: fn(() => created),
+        showErrorMessage: fn(),
+        showTextDocument: fn(),
+      } as any;
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("shows the graph and reacts to the webview", async () => {
+      const fetchGraph = fn(async () => fetched);
+
+      await showActionGraph(fetchGraph);
+      expect(extern.window.createWebviewPanel).toHaveBeenCalledWith(
+        "keml.actionGraph",
+        "KEML Action Flow",
+        -2,
+        { enableScripts: true },
+      );
+      expect(fetchGraph).toHaveBeenLastCalledWith({});
+      expect(extern.renderActionGraph).toHaveBeenLastCalledWith(
+        fetched,
+        { scope: "workspace", uri: "file:///b.html", action: "" },
+        { nonce: "nonce", cspSource: "csp" },
+      );
+      expect(webview.html).toBe("html");
+
+      await onDidReceiveMessage({
+        type: "filter",
+        scope: "file",
+        action: "event:save",
+      });
+      expect(fetchGraph).toHaveBeenLastCalledWith({
+        uri: "file:///b.html",
+        action: "event:save",
+      });
+
+      await onDidReceiveMessage({ type: "reveal", id: "event:save" });
+      expect(extern.window.showTextDocument).toHaveBeenCalledWith(
+        "parsed file:///a.html",
+        { viewColumn: 1, selection: [1, 2, 3, 4] },
+      );
+
+      await onDidReceiveMessage({ type: "reveal", id: "event:missing" });
+      expect(extern.window.showTextDocument).toHaveBeenCalledTimes(1);
+    });
+
+    it("reuses the panel", async () => {
+      const fetchGraph = fn(async () => fetched);
+
+      (extern.window as any).activeTextEditor = undefined;
+      await showActionGraph(fetchGraph);
+      expect(extern.window.createWebviewPanel).not.toHaveBeenCalled();
+      expect(created.reveal).toHaveBeenCalled();
+      expect(fetchGraph).toHaveBeenLastCalledWith({ action: "event:save" });
+      expect(extern.renderActionGraph).toHaveBeenLastCalledWith(
+        fetched,
+        { scope: "workspace", action: "event:save" },
+        expect.anything(),
+      );
+    });
+
+    it("reports the failures of the webview messages", async () => {
+      const fetchGraph = fn(async () => {
+        throw new Error("Request failed.");
+      });
+
+      await showActionGraph(async () => fetched);
+      await showActionGraph(fetchGraph).catch(() => {});
+      await onDidReceiveMessage({
+        type: "filter",
+        scope: "workspace",
+        action: "",
+      });
+      expect(extern.window.showErrorMessage).toHaveBeenCalledWith(
+        "Failed to update the action flow graph: Error: Request failed.",
+      );
+
+      (extern.window.showTextDocument as any).mockRejectedValue("Closed.");
+      await onDidReceiveMessage({ type: "reveal", id: "event:save" });
+      expect(extern.window.showErrorMessage).toHaveBeenLastCalledWith(
+        "Failed to update the action flow graph: Closed.",
+      );
+    });
+
+    it("skips rendering when the panel is closed meanwhile", async () => {
+      onDidDispose();
+      await showActionGraph(async () => {
+        onDidDispose();
+        return fetched;
+      });
+      expect(extern.window.createWebviewPanel).toHaveBeenCalled();
+      expect(webview.html).toBe("");
+    });
+  });
+}
+/* v8 ignore stop */
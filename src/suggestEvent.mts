@@ -0,0 +1,53 @@
+import { findClosest } from "./findClosest.mts";
+import { getEventNames } from "./getEventNames.mts";
+
+/**
+ * Suggests the known event an unknown event name was most likely meant to be,
+ * e.g. `click` for `clik`.
+ *
+ * Only events at most 2 edits away are suggested, and never by replacing every
+ * character of the name.
+ *
+ * @param event - The unknown event name.
+ * @returns The suggested event name, if any.
+ */
+export const suggestEvent = (event: string) => {
+  const { closest, distance } = extern.findClosest(
+    event,
+    extern.getEventNames(),
+  );
+
+  return distance <= Math.min(2, event.length - 1) ? closest : undefined;
+};
+
+let extern = { findClosest, getEventNames };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("suggestEvent", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    extern.findClosest = findClosest;
+    extern.getEventNames = () => ["click", "keydown", "reveal", "refresh"];
+
+    it("suggests the closest event", () => {
+      expect(suggestEvent("clik")).toBe("click");
+      expect(suggestEvent("KeyDown")).toBe("keydown");
+      expect(suggestEvent("refresch")).toBe("refresh");
+    });
+
+    it("suggests nothing when no event is close enough", () => {
+      expect(suggestEvent("clap")).toBeUndefined();
+      expect(suggestEvent("teleport")).toBeUndefined();
+      expect(suggestEvent("x")).toBeUndefined();
+    });
+  });
+}
+/* v8 ignore stop */
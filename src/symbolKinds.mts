@@ -0,0 +1,10 @@
+import { SymbolKind } from "vscode";
+
+/**
+ * Symbol kinds representing the actions of each kind in the editor.
+ */
+export const symbolKinds: Record<ActionKind, SymbolKind> = {
+  event: SymbolKind.Event,
+  state: SymbolKind.Variable,
+  result: SymbolKind.Object,
+};
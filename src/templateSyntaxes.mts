@@ -0,0 +1,147 @@
+import { getTemplateSyntaxes } from "./data.mts";
+import { escapeRegExp } from "./escapeRegExp.mts";
+
+/**
+ * Delimiters of the interpolations of server-side template languages, longest
+ * first where they overlap.
+ */
+export const templateSyntaxes: Record<string, [string, string][]> = {
+  // also Django, Twig and Nunjucks
+  jinja: [
+    ["{{", "}}"],
+    ["{%", "%}"],
+    ["{#", "#}"],
+  ],
+  go: [["{{", "}}"]],
+  // also Mustache
+  handlebars: [
+    ["{{{", "}}}"],
+    ["{{", "}}"],
+  ],
+  php: [["<?", "?>"]],
+  erb: [["<%", "%>"]],
+  blade: [
+    ["{{--", "--}}"],
+    ["{!!", "!!}"],
+    ["{{", "}}"],
+  ],
+};
+
+/**
+ * Template syntaxes implied by a language.
+ */
+const languageSyntaxes: Record<string, string[]> = {
+  blade: ["blade", "php"],
+  "django-html": ["jinja"],
+  erb: ["erb"],
+  handlebars: ["handlebars"],
+  "jinja-html": ["jinja"],
+  php: ["php"],
+  twig: ["jinja"],
+};
+
+const patterns = new Map<string, RegExp | undefined>();
+
+/**
+ * Builds a pattern matching the template interpolations of a language, using
+ * the template syntaxes implied by the language along with the ones enabled by
+ * `keml.templateSyntaxes`.
+ *
+ * @param languageId - The language identifier.
+ * @returns A global pattern, or undefined if no template syntax applies.
+ */
+export const getInterpolationPattern = (languageId: string) => {
+  const names = Array.from(
+    new Set([
+      ...(languageSyntaxes[languageId] ?? []),
+      ...extern.getTemplateSyntaxes(),
+    ]),
+  ).sort();
+  const key = names.join();
+
+  if (!patterns.has(key)) {
+    const delimiters = names
+      .flatMap(name => templateSyntaxes[name] ?? [])
+      .sort(([a], [b]) => b.length - a.length);
+
+    patterns.set(
+      key,
+      delimiters.length ?
+        new RegExp(
+          delimiters
+            .map(
+              ([open, close]) =>
+                `${escapeRegExp(open)}[\\s\\S]*?${escapeRegExp(close)}`,
+            )
+            .join("|"),
+          "g",
+        )
+      : undefined,
+    );
+  }
+
+  return patterns.get(key);
+};
+
+let extern = { getTemplateSyntaxes };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("getInterpolationPattern", () => {
+    const match = (languageId: string, text: string) =>
+      Array.from(text.matchAll(getInterpolationPattern(languageId)!), m => [
+        m.index,
+        m[0],
+      ]);
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("applies no syntax by default", () => {
+      extern.getTemplateSyntaxes = fn(() => []);
+      expect(getInterpolationPattern("html")).toBeUndefined();
+    });
+
+    it("applies the syntaxes implied by the language", () => {
+      extern.getTemplateSyntaxes = fn(() => []);
+      expect(match("twig", 'a{{ "}" }}b{% if x %}{# c #}')).toEqual([
+        [1, '{{ "}" }}'],
+        [11, "{% if x %}"],
+        [21, "{# c #}"],
+      ]);
+      expect(match("handlebars", "{{{ a }}} {{ b }}")).toEqual([
+        [0, "{{{ a }}}"],
+        [10, "{{ b }}"],
+      ]);
+      expect(match("blade", "{{-- a --}}{!! b !!}<?php c ?>{{ d")).toEqual([
+        [0, "{{-- a --}}"],
+        [11, "{!! b !!}"],
+        [20, "<?php c ?>"],
+      ]);
+    });
+
+    it("applies the configured syntaxes and caches the pattern", () => {
+      extern.getTemplateSyntaxes = fn(() => ["erb", "php", "unknown"]);
+      expect(match("php", "<%= a %><?= b ?>")).toEqual([
+        [0, "<%= a %>"],
+        [8, "<?= b ?>"],
+      ]);
+      expect(getInterpolationPattern("php")).toBe(
+        getInterpolationPattern("erb"),
+      );
+    });
+  });
+}
+/* v8 ignore stop */
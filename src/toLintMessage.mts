@@ -0,0 +1,78 @@
+import { Diagnostic } from "vscode";
+
+const severities = ["error", "warning", "info", "hint"] as const;
+
+/**
+ * Flattens a diagnostic into a message suitable for a lint report, with
+ * 1-based line and column numbers.
+ *
+ * @param diagnostic - The diagnostic to convert.
+ * @returns The lint message.
+ */
+export const toLintMessage = ({
+  code,
+  message,
+  range: { start, end },
+  severity,
+}: Diagnostic) => ({
+  ruleId:
+    code == null ? null
+    : typeof code === "object" ? String(code.value)
+    : String(code),
+  severity: severities[severity] ?? "error",
+  message,
+  line: start.line + 1,
+  column: start.character + 1,
+  endLine: end.line + 1,
+  endColumn: end.character + 1,
+});
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect } = import.meta.vitest;
+
+  describe("toLintMessage", () => {
+    const range = {
+      start: { line: 0, character: 4 },
+      end: { line: 2, character: 0 },
+    };
+
+    it("converts a diagnostic", () => {
+      expect(
+        toLintMessage({
+          code: "unused-action",
+          message: "foo",
+          range,
+          severity: 1,
+        } as any),
+      ).toEqual({
+        ruleId: "unused-action",
+        severity: "warning",
+        message: "foo",
+        line: 1,
+        column: 5,
+        endLine: 3,
+        endColumn: 1,
+      });
+    });
+
+    it("handles any kind of code", () => {
+      const convert = (code: unknown) =>
+        toLintMessage({ code, message: "", range, severity: 3 } as any);
+
+      expect(convert(undefined).ruleId).toBe(null);
+      expect(convert(42).ruleId).toBe("42");
+      expect(convert({ value: "foo", target: "" })).toMatchObject({
+        ruleId: "foo",
+        severity: "hint",
+      });
+    });
+
+    it("treats an unknown severity as an error", () => {
+      expect(
+        toLintMessage({ message: "", range, severity: 9 } as any).severity,
+      ).toBe("error");
+    });
+  });
+}
+/* v8 ignore stop */
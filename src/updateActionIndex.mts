@@ -0,0 +1,413 @@
+import { Uri } from "vscode";
+import { actionIndex, docs } from "./data.mts";
+import { getNamespace } from "./getNamespace.mts";
+import {
+  actionKinds,
+  definitionResolvers,
+  referenceResolvers,
+} from "./resolvers.mts";
+
+/**
+ * What changed in the workspace since the action index was last updated.
+ */
+export interface ActionIndexChanges {
+  /**
+   * The URLs of the documents that were added or parsed anew.
+   */
+  changed: Set<string>;
+
+  /**
+   * The URIs of the documents that were removed.
+   */
+  removed: Uri[];
+
+  /**
+   * The actions that became defined or undefined, used or unused, per kind.
+   */
+  flipped: Record<ActionKind, Set<string>>;
+
+  /**
+   * Whether the dynamic patterns of any document changed, which may turn any
+   * action defined or used.
+   */
+  dynamic: boolean;
+}
+
+/**
+ * Adjusts the number of documents holding the actions that one revision of a
+ * document holds and the other does not.
+ *
+ * @param counts - The number of documents holding each action.
+ * @param before - The actions held by the previous revision.
+ * @param after - The actions held by the current revision.
+ * @param flipped - Receives the actions no longer held by any document, or
+ *                  held by one for the first time.
+ */
+const recount = (
+  counts: Map<string, number>,
+  before: string[],
+  after: string[],
+  flipped: Set<string>,
+) => {
+  const previous = new Set(before);
+  const next = new Set(after);
+  let action, count;
+
+  for (action of before) {
+    if (!next.has(action)) {
+      if ((count = counts.get(action)! - 1)) {
+        counts.set(action, count);
+      } else {
+        counts.delete(action);
+        flipped.add(action);
+      }
+    }
+  }
+  for (action of after) {
+    if (!previous.has(action)) {
+      if ((count = (counts.get(action) ?? 0) + 1) === 1) {
+        flipped.add(action);
+      }
+      counts.set(action, count);
+    }
+  }
+};
+
+/**
+ * Retrieves the counts of a namespace, adding empty ones if it has none yet.
+ *
+ * @param namespace - The name of the namespace.
+ * @returns The counts of the namespace.
+ */
+const getNamespaceIndex = (namespace: string) => {
+  let index = extern.actionIndex.namespaces.get(namespace);
+
+  if (!index) {
+    extern.actionIndex.namespaces.set(
+      namespace,
+      (index = {
+        definitions: { event: new Map(), state: new Map(), result: new Map() },
+        references: { event: new Map(), state: new Map(), result: new Map() },
+        dynamic_definitions: { event: [], state: [], result: [] },
+        dynamic_references: { event: [], state: [], result: [] },
+      }),
+    );
+  }
+
+  return index;
+};
+
+/**
+ * Counts a document out of the namespace it was counted in.
+ *
+ * @param indexed - What the document was counted with.
+ * @param flipped - Receives the actions no longer held by any document of the
+ *                  namespace, per kind.
+ * @returns Whether the document had any dynamic pattern.
+ */
+const uncount = (
+  indexed: IndexedDocument,
+  flipped: Record<ActionKind, Set<string>>,
+) => {
+  const { definitions, references } = extern.actionIndex.namespaces.get(
+    indexed.namespace,
+  )!;
+
+  for (const kind of actionKinds) {
+    recount(definitions[kind], indexed.definitions[kind], [], flipped[kind]);
+    recount(references[kind], indexed.references[kind], [], flipped[kind]);
+  }
+
+  return indexed.dynamic !== "";
+};
+
+/**
+ * Brings the action index up to date with the documents of the workspace.
+ *
+ * Only the documents that were added, removed, replaced, parsed anew or moved
+ * to another namespace since the last update are counted again. An action
+ * flipping in one namespace is reported regardless of the namespace.
+ *
+ * @returns What changed since the last update.
+ */
+export const updateActionIndex = () => {
+  const { namespaces, documents } = extern.actionIndex;
+  const changes: ActionIndexChanges = {
+    changed: new Set(),
+    removed: [],
+    flipped: { event: new Set(), state: new Set(), result: new Set() },
+    dynamic: false,
+  };
+  let url, cur, indexed, namespace, index, next: IndexedDocument;
+  let kind: ActionKind;
+
+  for ([url, indexed] of documents) {
+    if (!extern.docs.has(url)) {
+      changes.dynamic = uncount(indexed, changes.flipped) || changes.dynamic;
+      changes.removed.push(indexed.uri);
+      documents.delete(url);
+    }
+  }
+
+  for ([url, cur] of extern.docs) {
+    indexed = documents.get(url);
+    namespace = extern.getNamespace(cur.uri);
+    if (indexed && indexed.namespace !== namespace) {
+      changes.dynamic = uncount(indexed, changes.flipped) || changes.dynamic;
+      indexed = undefined;
+    } else if (indexed?.cur === cur && indexed.revision === cur.revision) {
+      continue;
+    }
+    index = getNamespaceIndex(namespace);
+    next = {
+      cur,
+      revision: cur.revision,
+      uri: cur.uri,
+      namespace,
+      definitions: { event: [], state: [], result: [] },
+      references: { event: [], state: [], result: [] },
+      // empty unless the document has any pattern at all
+      dynamic: actionKinds
+        .flatMap(kind => [
+          cur!.dynamic_definitions[kind].join(" "),
+          cur!.dynamic_references[kind].join(" "),
+        ])
+        .join("\n")
+        .trim(),
+    };
+    for (kind of actionKinds) {
+      next.definitions[kind] = Array.from(
+        extern.definitionResolvers[kind](cur).keys(),
+      );
+      next.references[kind] = Array.from(
+        extern.referenceResolvers[kind](cur).keys(),
+      );
+      recount(
+        index.definitions[kind],
+        indexed?.definitions[kind] ?? [],
+        next.definitions[kind],
+        changes.flipped[kind],
+      );
+      recount(
+        index.references[kind],
+        indexed?.references[kind] ?? [],
+        next.references[kind],
+        changes.flipped[kind],
+      );
+    }
+    changes.dynamic ||= (indexed?.dynamic ?? "") !== next.dynamic;
+    changes.changed.add(url);
+    documents.set(url, next);
+  }
+
+  if (changes.dynamic) {
+    for (index of namespaces.values()) {
+      for (kind of actionKinds) {
+        index.dynamic_definitions[kind] = [];
+        index.dynamic_references[kind] = [];
+      }
+    }
+    for ({ cur, namespace } of documents.values()) {
+      index = namespaces.get(namespace)!;
+      for (kind of actionKinds) {
+        index.dynamic_definitions[kind].push(...cur.dynamic_definitions[kind]);
+        index.dynamic_references[kind].push(...cur.dynamic_references[kind]);
+      }
+    }
+  }
+
+  return changes;
+};
+
+let extern = {
+  actionIndex,
+  definitionResolvers,
+  docs,
+  getNamespace,
+  referenceResolvers,
+};
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const { describe, it, expect, afterAll, beforeEach } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("updateActionIndex", () => {
+    const doc = (
+      uri: string,
+      events: string[],
+      subscribers: string[],
+      dynamic: RegExp[] = [],
+    ) =>
+      ({
+        uri,
+        revision: 1,
+        event_definitions: new Map(events.map(action => [action, []])),
+        event_references: new Map(subscribers.map(action => [action, []])),
+        state_definitions: new Map(),
+        state_references: new Map(),
+        result_definitions: new Map(),
+        result_references: new Map([["list", []]]),
+        dynamic_definitions: { event: dynamic, state: [], result: [] },
+        dynamic_references: { event: [], state: [], result: [] },
+      }) as unknown as Document;
+
+    let namespaces: Record<string, string>;
+    const counts = (namespace = "") =>
+      extern.actionIndex.namespaces.get(namespace)!;
+
+    beforeEach(() => {
+      namespaces = {};
+      extern = {
+        ...origExtern,
+        actionIndex: { namespaces: new Map(), documents: new Map() },
+        docs: new Map(),
+        getNamespace: (uri: any) => namespaces[uri] ?? "",
+      };
+    });
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("counts the documents holding every action", () => {
+      extern.docs.set("a", doc("a", ["save", "load"], ["save"]));
+      extern.docs.set("b", doc("b", ["save"], ["load"]));
+
+      const changes = updateActionIndex();
+
+      expect(changes).toEqual({
+        changed: new Set(["a", "b"]),
+        removed: [],
+        flipped: {
+          event: new Set(["save", "load"]),
+          state: new Set(),
+          result: new Set(["list"]),
+        },
+        dynamic: false,
+      });
+      expect(counts().definitions.event).toEqual(
+        new Map([
+          ["save", 2],
+          ["load", 1],
+        ]),
+      );
+      expect(counts().references.event).toEqual(
+        new Map([
+          ["save", 1],
+          ["load", 1],
+        ]),
+      );
+      expect(counts().references.result).toEqual(new Map([["list", 2]]));
+    });
+
+    it("only counts the documents that changed again", () => {
+      const a = doc("a", ["save", "load"], ["save"]);
+
+      extern.docs.set("a", a);
+      extern.docs.set("b", doc("b", ["save"], ["load"]));
+      updateActionIndex();
+
+      expect(updateActionIndex().changed.size).toBe(0);
+
+      a.event_definitions.delete("save");
+      a.event_definitions.delete("load");
+      a.event_definitions.set("reset", []);
+      a.revision++;
+      extern.docs.set("b", doc("b", ["save"], ["load", "reset"]));
+
+      expect(updateActionIndex()).toEqual({
+        changed: new Set(["a", "b"]),
+        removed: [],
+        flipped: {
+          event: new Set(["load", "reset"]),
+          state: new Set(),
+          result: new Set(),
+        },
+        dynamic: false,
+      });
+      expect(counts().definitions.event).toEqual(
+        new Map([
+          ["save", 1],
+          ["reset", 1],
+        ]),
+      );
+      expect(counts().references.event).toEqual(
+        new Map([
+          ["save", 1],
+          ["load", 1],
+          ["reset", 1],
+        ]),
+      );
+    });
+
+    it("forgets the documents that were removed", () => {
+      extern.docs.set("a", doc("a", ["save"], ["save"]));
+      extern.docs.set("b", doc("b", ["save"], []));
+      updateActionIndex();
+      extern.docs.delete("a");
+
+      expect(updateActionIndex()).toEqual({
+        changed: new Set(),
+        removed: ["a"],
+        flipped: {
+          event: new Set(["save"]),
+          state: new Set(),
+          result: new Set(),
+        },
+        dynamic: false,
+      });
+      expect(counts().definitions.event).toEqual(new Map([["save", 1]]));
+      expect(extern.actionIndex.documents.has("a")).toBe(false);
+    });
+
+    it("counts every namespace apart", () => {
+      namespaces = { a: "site", b: "mail", c: "mail" };
+      extern.docs.set("a", doc("a", ["save"], []));
+      extern.docs.set("b", doc("b", [], ["save"], [/^save_\S*$/]));
+      extern.docs.set("c", doc("c", [], []));
+      updateActionIndex();
+
+      expect(counts("site").definitions.event).toEqual(new Map([["save", 1]]));
+      expect(counts("site").references.event).toEqual(new Map());
+      expect(counts("mail").references.event).toEqual(new Map([["save", 1]]));
+      expect(counts("site").dynamic_definitions.event).toEqual([]);
+      expect(counts("mail").dynamic_definitions.event).toHaveLength(1);
+
+      namespaces = { a: "site", b: "site", c: "site" };
+      expect(updateActionIndex()).toEqual({
+        changed: new Set(["b", "c"]),
+        removed: [],
+        flipped: {
+          event: new Set(["save"]),
+          state: new Set(),
+          result: new Set(["list"]),
+        },
+        dynamic: true,
+      });
+      expect(counts("site").references.event).toEqual(new Map([["save", 1]]));
+      expect(counts("mail").references.event).toEqual(new Map());
+      expect(counts("site").dynamic_definitions.event).toHaveLength(1);
+      expect(counts("mail").dynamic_definitions.event).toEqual([]);
+    });
+
+    it("gathers the dynamic patterns of every document", () => {
+      const pattern = /^save_\S*$/;
+
+      extern.docs.set("a", doc("a", [], [], [pattern]));
+      extern.docs.set("b", doc("b", [], []));
+      expect(updateActionIndex().dynamic).toBe(true);
+      expect(counts().dynamic_definitions.event).toEqual([pattern]);
+
+      extern.docs.set("b", doc("b", ["load"], []));
+      expect(updateActionIndex().dynamic).toBe(false);
+
+      extern.docs.delete("a");
+      expect(updateActionIndex().dynamic).toBe(true);
+      expect(counts().dynamic_definitions.event).toEqual([]);
+    });
+  });
+}
+/* v8 ignore stop */
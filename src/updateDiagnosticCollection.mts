@@ -1,54 +1,123 @@
 import { Diagnostic } from "vscode";
 import { addReferenceDiagnostics } from "./addReferenceDiagnostics.mts";
-import { docs, getDiagnosticCollection } from "./data.mts";
+import { addRouteDiagnostics } from "./addRouteDiagnostics.mts";
+import { addSuppressionDiagnostics } from "./addSuppressionDiagnostics.mts";
+import { applySuppressions } from "./applySuppressions.mts";
+import { docs, getDiagnosticCollection, getPageGraph } from "./data.mts";
 import { getEventDefinitions } from "./getEventDefinitions.mts";
 import { getEventReferences } from "./getEventReferences.mts";
+import { getPages } from "./getPages.mts";
 import { getResultDefinitions } from "./getResultDefinitions.mts";
 import { getResultReferences } from "./getResultReferences.mts";
 import { getStateDefinitions } from "./getStateDefinitions.mts";
 import { getStateReferences } from "./getStateReferences.mts";
+import { actionKinds } from "./resolvers.mts";
+import { updateActionIndex } from "./updateActionIndex.mts";
 
 /**
- * Updates the diagnostic collection for all documents.
+ * Tells whether a document defines or subscribes to any of the given actions.
  *
- * Clears the existing diagnostics and adds reference diagnostics for events,
- * states, and results.
+ * @param cur - The document to check.
+ * @param actions - The actions to look for, per kind.
  */
-export const updateDiagnosticCollection = () => {
-  const diagnosticCollection = extern.getDiagnosticCollection();
+const holdsAny = (cur: Document, actions: Record<ActionKind, Set<string>>) =>
+  actionKinds.some(kind => {
+    for (const action of actions[kind]) {
+      if (
+        cur[`${kind}_definitions`].has(action) ||
+        cur[`${kind}_references`].has(action)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  });
 
-  diagnosticCollection.clear();
+/**
+ * Updates the diagnostic collection after documents were added, changed or
+ * removed.
+ *
+ * Brings the action index up to date, then publishes the diagnostics of the
+ * documents that changed anew, along with the ones defining or subscribing to
+ * an action that became defined or undefined, used or unused. Everything is
+ * published anew when the dynamic patterns of a document changed, as they may
+ * match any action, and always in the page graph mode, where an edit may move
+ * documents from a page to another.
+ *
+ * Adds reference diagnostics for events, states, and results, along with the
+ * requests no route of the server accepts, unless suppressed by a comment.
+ * Suppression comments that turn off neither these nor the diagnostics of the
+ * document itself are reported.
+ *
+ * @param everything - Whether to publish the diagnostics of every document
+ *                     anew, e.g. because the settings or the project manifest
+ *                     changed.
+ */
+export const updateDiagnosticCollection = (everything = false) => {
+  const diagnosticCollection = extern.getDiagnosticCollection();
+  const { changed, removed, flipped, dynamic } = extern.updateActionIndex();
+  const pages = extern.getPageGraph() ? extern.getPages() : undefined;
+  let diagnostics: Diagnostic[], used, url, cur, uri, page;
 
-  let diagnostics: Diagnostic[];
+  if ((everything ||= dynamic || !!pages)) {
+    diagnosticCollection.clear();
+  } else {
+    for (uri of removed) {
+      diagnosticCollection.delete(uri);
+    }
+  }
 
-  for (const cur of extern.docs.values()) {
+  for ([url, cur] of extern.docs) {
+    if (!everything && !changed.has(url) && !holdsAny(cur, flipped)) {
+      continue;
+    }
     diagnostics = [];
+    page = pages?.get(cur);
     extern.addReferenceDiagnostics(
       diagnostics,
       cur,
       getEventDefinitions,
       getEventReferences,
-      "event"
+      "event",
+      page,
     );
     extern.addReferenceDiagnostics(
       diagnostics,
       cur,
       getStateDefinitions,
       getStateReferences,
-      "state"
+      "state",
+      page,
     );
     extern.addReferenceDiagnostics(
       diagnostics,
       cur,
       getResultDefinitions,
       getResultReferences,
-      "result"
+      "result",
+      page,
     );
-    diagnosticCollection.set(cur.uri, diagnostics.concat(cur.diagnostics));
+    extern.addRouteDiagnostics(diagnostics, cur);
+    used = new Set(cur.suppressed);
+    diagnostics = extern
+      .applySuppressions(diagnostics, cur.suppressions, used)
+      .concat(cur.diagnostics);
+    extern.addSuppressionDiagnostics(diagnostics, cur.suppressions, used);
+    diagnosticCollection.set(cur.uri, diagnostics);
   }
 };
 
-let extern = { addReferenceDiagnostics, docs, getDiagnosticCollection };
+let extern = {
+  addReferenceDiagnostics,
+  addRouteDiagnostics,
+  addSuppressionDiagnostics,
+  applySuppressions,
+  docs,
+  getDiagnosticCollection,
+  getPageGraph,
+  getPages,
+  updateActionIndex,
+};
 
 /* v8 ignore start */
 if (import.meta.vitest) {
@@ -56,6 +125,7 @@ if (import.meta.vitest) {
     describe,
     it,
     afterAll,
+    beforeEach,
     expect,
     vi: { fn },
   } = import.meta.vitest;
@@ -64,6 +134,11 @@ if (import.meta.vitest) {
   extern = {} as typeof extern;
 
   describe("updateDiagnosticCollection", () => {
+    beforeEach(() => {
+      extern.getPageGraph = fn(() => false);
+      extern.addRouteDiagnostics = fn();
+    });
+
     afterAll(() => {
       extern = origExtern;
     });
@@ -74,17 +149,48 @@ if (import.meta.vitest) {
         set: fn(),
       };
 
-      const doc1 = { uri: "uri1", diagnostics: ["old1"] } as any;
-      const doc2 = { uri: "uri2", diagnostics: ["old2"] } as any;
+      const doc1 = {
+        uri: "uri1",
+        diagnostics: ["old1"],
+        suppressions: ["s3"],
+        suppressed: new Set(),
+      } as any;
+      const doc2 = {
+        uri: "uri2",
+        diagnostics: ["old2"],
+        suppressions: ["s1", "s2"],
+        suppressed: new Set(["s1"]),
+      } as any;
 
       extern.getDiagnosticCollection = fn(() => diagCollection) as any;
       extern.docs = new Map([
         ["doc1", doc1],
         ["doc2", doc2],
       ]);
+      extern.updateActionIndex = fn(() => ({
+        changed: new Set<string>(),
+        removed: [],
+        flipped: { event: new Set(), state: new Set(), result: new Set() },
+        dynamic: false,
+      })) as any;
       extern.addReferenceDiagnostics = fn(diags => diags.push("new"));
+      extern.addRouteDiagnostics = fn(diags => diags.push("route"));
+      extern.applySuppressions = fn((diags, suppressions, used) => {
+        if (suppressions.includes("s2")) {
+          used.add("s2");
+          return diags.slice(1);
+        }
+        return diags;
+      });
+      extern.addSuppressionDiagnostics = fn((diags, suppressions, used) => {
+        for (const suppression of suppressions) {
+          if (!used.has(suppression)) {
+            diags.push(`unused ${suppression}`);
+          }
+        }
+      });
 
-      updateDiagnosticCollection();
+      updateDiagnosticCollection(true);
 
       // clear called once
       expect(diagCollection.clear).toHaveBeenCalled();
@@ -93,18 +199,124 @@ if (import.meta.vitest) {
       expect(extern.addReferenceDiagnostics).toHaveBeenCalledTimes(6);
 
       // set called once per doc with combined diagnostics
+      expect(extern.addRouteDiagnostics).toHaveBeenCalledWith(
+        expect.any(Array),
+        doc1,
+      );
       expect(diagCollection.set).toHaveBeenCalledWith("uri1", [
         "new",
         "new",
         "new",
+        "route",
         "old1",
+        "unused s3",
       ]);
       expect(diagCollection.set).toHaveBeenCalledWith("uri2", [
         "new",
         "new",
-        "new",
+        "route",
         "old2",
       ]);
+
+      // the suppressions of the document itself are left untouched
+      expect(doc2.suppressed).toEqual(new Set(["s1"]));
+    });
+
+    it("only publishes the documents affected by a change", () => {
+      const diagCollection = { clear: fn(), set: fn(), delete: fn() };
+      const doc = (uri: string, events: string[], states: string[] = []) =>
+        ({
+          uri,
+          diagnostics: [],
+          suppressions: [],
+          suppressed: new Set(),
+          event_definitions: new Map(events.map(action => [action, []])),
+          event_references: new Map(),
+          state_definitions: new Map(),
+          state_references: new Map(states.map(action => [action, []])),
+          result_definitions: new Map(),
+          result_references: new Map(),
+        }) as any;
+      const changes = {
+        changed: new Set(["a"]),
+        removed: ["gone"],
+        flipped: {
+          event: new Set(["save"]),
+          state: new Set(["ready"]),
+          result: new Set<string>(),
+        },
+        dynamic: false,
+      };
+
+      extern.getDiagnosticCollection = fn(() => diagCollection) as any;
+      extern.docs = new Map([
+        ["a", doc("a", [])],
+        ["b", doc("b", ["save"])],
+        ["c", doc("c", ["load"], ["ready"])],
+        ["d", doc("d", ["load"])],
+      ]);
+      extern.updateActionIndex = fn(() => changes) as any;
+      extern.addReferenceDiagnostics = fn();
+      extern.applySuppressions = fn(diags => diags);
+      extern.addSuppressionDiagnostics = fn();
+
+      updateDiagnosticCollection();
+      expect(diagCollection.clear).not.toHaveBeenCalled();
+      expect(diagCollection.delete).toHaveBeenCalledWith("gone");
+      expect(diagCollection.set.mock.calls.map(([uri]) => uri)).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+
+      diagCollection.set.mockClear();
+      changes.dynamic = true;
+      updateDiagnosticCollection();
+      expect(diagCollection.clear).toHaveBeenCalledOnce();
+      expect(diagCollection.delete).toHaveBeenCalledOnce();
+      expect(diagCollection.set).toHaveBeenCalledTimes(4);
+    });
+
+    it("publishes everything along with the pages in the page graph mode", () => {
+      const diagCollection = { clear: fn(), set: fn(), delete: fn() };
+      const doc = (uri: string) =>
+        ({
+          uri,
+          diagnostics: [],
+          suppressions: [],
+          suppressed: new Set(),
+        }) as any;
+      const a = doc("a");
+      const b = doc("b");
+
+      extern.getDiagnosticCollection = fn(() => diagCollection) as any;
+      extern.docs = new Map([
+        ["a", a],
+        ["b", b],
+      ]);
+      extern.updateActionIndex = fn(() => ({
+        changed: new Set<string>(),
+        removed: [],
+        flipped: { event: new Set(), state: new Set(), result: new Set() },
+        dynamic: false,
+      })) as any;
+      extern.getPageGraph = fn(() => true);
+      extern.getPages = fn(() => new Map([[a, [a, b]]]));
+      const addReferenceDiagnostics = (extern.addReferenceDiagnostics = fn());
+      extern.applySuppressions = fn(diags => diags);
+      extern.addSuppressionDiagnostics = fn();
+
+      updateDiagnosticCollection();
+      expect(diagCollection.clear).toHaveBeenCalledOnce();
+      expect(diagCollection.set).toHaveBeenCalledTimes(2);
+      expect(addReferenceDiagnostics.mock.calls.map(args => args[5])).toEqual([
+        [a, b],
+        [a, b],
+        [a, b],
+        undefined,
+        undefined,
+        undefined,
+      ]);
     });
   });
 }
@@ -0,0 +1,36 @@
+/**
+ * Values accepted by the `position` attribute.
+ */
+export const validPosition = [
+  "replaceChildren",
+  "replaceWith",
+  "before",
+  "after",
+  "prepend",
+  "append",
+];
+
+/**
+ * Values accepted by the `behavior` attribute.
+ */
+export const validBehavior = ["auto", "instant", "smooth"];
+
+/**
+ * Non-numeric values accepted by the `top` and `left` attributes.
+ */
+export const validScrollPosition = ["start", "center", "end"];
+
+/**
+ * The endpoint attributes sending requests with each HTTP method.
+ */
+export const methods: Record<string, string[]> = {
+  GET: ["href", "action", "src", "get"],
+  POST: ["post"],
+  PUT: ["put"],
+  DELETE: ["delete"],
+};
+
+/**
+ * Values accepted by the `method` attribute, in upper case.
+ */
+export const validMethod = Object.keys(methods);
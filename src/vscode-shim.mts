@@ -0,0 +1,12 @@
+/**
+ * Editor-independent implementation of the subset of the `vscode` API used by
+ * this extension.
+ *
+ * It is aliased in place of `vscode` for the unit tests and for the language
+ * server bundle, where the `host` object of `workspace.mts` feeds it the
+ * documents, settings and file events received from the language client.
+ */
+
+export * from "./vscodeApi.mts";
+export { languages } from "./languages.mts";
+export { host, workspace } from "./workspace.mts";
@@ -1,41 +0,0 @@
-export enum DiagnosticSeverity {
-  Error = 0,
-  Warning = 1,
-  Information = 2,
-  Hint = 3,
-}
-
-export enum DiagnosticTag {
-  Unnecessary = 1,
-  Deprecated = 2,
-}
-
-export enum CompletionItemKind {
-  Text = 0,
-  Method = 1,
-  Function = 2,
-  Constructor = 3,
-  Field = 4,
-  Variable = 5,
-  Class = 6,
-  Interface = 7,
-  Module = 8,
-  Property = 9,
-  Unit = 10,
-  Value = 11,
-  Enum = 12,
-  Keyword = 13,
-  Snippet = 14,
-  Color = 15,
-  Reference = 17,
-  File = 16,
-  Folder = 18,
-  EnumMember = 19,
-  Constant = 20,
-  Struct = 21,
-  Event = 22,
-  Operator = 23,
-  TypeParameter = 24,
-  User = 25,
-  Issue = 26,
-}
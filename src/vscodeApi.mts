@@ -0,0 +1,942 @@
+/**
+ * Editor-independent implementation of the value classes and enums of the
+ * `vscode` API used by this extension, along with the extensions and window
+ * namespaces, which need no editor either.
+ */
+
+import {
+  TextDocument as LSTextDocument,
+  TextDocumentContentChangeEvent as LSTextDocumentContentChangeEvent,
+} from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+
+export { URI as Uri };
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3,
+}
+
+export enum DiagnosticTag {
+  Unnecessary = 1,
+  Deprecated = 2,
+}
+
+export enum CompletionItemKind {
+  Text = 0,
+  Method = 1,
+  Function = 2,
+  Constructor = 3,
+  Field = 4,
+  Variable = 5,
+  Class = 6,
+  Interface = 7,
+  Module = 8,
+  Property = 9,
+  Unit = 10,
+  Value = 11,
+  Enum = 12,
+  Keyword = 13,
+  Snippet = 14,
+  Color = 15,
+  Reference = 17,
+  File = 16,
+  Folder = 18,
+  EnumMember = 19,
+  Constant = 20,
+  Struct = 21,
+  Event = 22,
+  Operator = 23,
+  TypeParameter = 24,
+  User = 25,
+  Issue = 26,
+}
+
+export enum CompletionTriggerKind {
+  Invoke = 0,
+  TriggerCharacter = 1,
+  TriggerForIncompleteCompletions = 2,
+}
+
+export enum DocumentHighlightKind {
+  Text = 0,
+  Read = 1,
+  Write = 2,
+}
+
+export enum SymbolKind {
+  File = 0,
+  Module = 1,
+  Namespace = 2,
+  Package = 3,
+  Class = 4,
+  Method = 5,
+  Property = 6,
+  Field = 7,
+  Constructor = 8,
+  Enum = 9,
+  Interface = 10,
+  Function = 11,
+  Variable = 12,
+  Constant = 13,
+  String = 14,
+  Number = 15,
+  Boolean = 16,
+  Array = 17,
+  Object = 18,
+  Key = 19,
+  Null = 20,
+  EnumMember = 21,
+  Struct = 22,
+  Event = 23,
+  Operator = 24,
+  TypeParameter = 25,
+}
+
+export class CodeActionKind {
+  static readonly Empty = new CodeActionKind("");
+  static readonly QuickFix = new CodeActionKind("quickfix");
+
+  constructor(readonly value: string) {}
+
+  append(part: string) {
+    return new CodeActionKind(this.value ? `${this.value}.${part}` : part);
+  }
+}
+
+export class Disposable {
+  static from(...disposables: { dispose(): unknown }[]) {
+    return new Disposable(() => disposables.forEach(d => d.dispose()));
+  }
+
+  constructor(private callOnDispose: () => unknown) {}
+
+  dispose() {
+    this.callOnDispose();
+    this.callOnDispose = () => {};
+  }
+}
+
+type Listener<T> = (e: T) => unknown;
+
+export class EventEmitter<T> {
+  private listeners = new Set<Listener<T>>();
+
+  event = (
+    listener: Listener<T>,
+    thisArgs?: unknown,
+    disposables?: Disposable[],
+  ) => {
+    const bound: Listener<T> = e => listener.call(thisArgs, e);
+    const disposable = new Disposable(() => this.listeners.delete(bound));
+
+    this.listeners.add(bound);
+    disposables?.push(disposable);
+
+    return disposable;
+  };
+
+  fire(data: T) {
+    for (const listener of Array.from(this.listeners)) {
+      listener(data);
+    }
+  }
+
+  dispose() {
+    this.listeners.clear();
+  }
+}
+
+export class Position {
+  constructor(
+    readonly line: number,
+    readonly character: number,
+  ) {}
+
+  isBefore(other: Position) {
+    return this.compareTo(other) < 0;
+  }
+
+  isBeforeOrEqual(other: Position) {
+    return this.compareTo(other) <= 0;
+  }
+
+  isAfter(other: Position) {
+    return this.compareTo(other) > 0;
+  }
+
+  isAfterOrEqual(other: Position) {
+    return this.compareTo(other) >= 0;
+  }
+
+  isEqual(other: Position) {
+    return this.compareTo(other) === 0;
+  }
+
+  compareTo(other: Position) {
+    return this.line - other.line || this.character - other.character;
+  }
+
+  translate(
+    lineDelta: number | { lineDelta?: number; characterDelta?: number } = 0,
+    characterDelta = 0,
+  ) {
+    if (typeof lineDelta === "object") {
+      ({ lineDelta = 0, characterDelta = 0 } = lineDelta);
+    }
+    return new Position(this.line + lineDelta, this.character + characterDelta);
+  }
+
+  with(
+    line: number | { line?: number; character?: number } = this.line,
+    character = this.character,
+  ) {
+    if (typeof line === "object") {
+      ({ line = this.line, character = this.character } = line);
+    }
+    return new Position(line, character);
+  }
+}
+
+export class Range {
+  readonly start: Position;
+  readonly end: Position;
+
+  constructor(
+    start: Position | number,
+    end: Position | number,
+    endLine?: number,
+    endCharacter?: number,
+  ) {
+    if (typeof start === "number" && typeof end === "number") {
+      start = new Position(start, end);
+      end = new Position(endLine!, endCharacter!);
+    }
+    [this.start, this.end] =
+      (start as Position).isAfter(end as Position) ?
+        [end as Position, start as Position]
+      : [start as Position, end as Position];
+  }
+
+  get isEmpty() {
+    return this.start.isEqual(this.end);
+  }
+
+  get isSingleLine() {
+    return this.start.line === this.end.line;
+  }
+
+  contains(positionOrRange: Position | Range): boolean {
+    return positionOrRange instanceof Range ?
+        this.contains(positionOrRange.start) &&
+          this.contains(positionOrRange.end)
+      : !positionOrRange.isBefore(this.start) &&
+          !positionOrRange.isAfter(this.end);
+  }
+
+  isEqual(other: Range) {
+    return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+  }
+
+  intersection(other: Range) {
+    const start = this.start.isAfter(other.start) ? this.start : other.start;
+    const end = this.end.isBefore(other.end) ? this.end : other.end;
+
+    return start.isAfter(end) ? undefined : new Range(start, end);
+  }
+
+  union(other: Range) {
+    return new Range(
+      this.start.isBefore(other.start) ? this.start : other.start,
+      this.end.isAfter(other.end) ? this.end : other.end,
+    );
+  }
+
+  with(
+    start: Position | { start?: Position; end?: Position } = this.start,
+    end = this.end,
+  ) {
+    if (!(start instanceof Position)) {
+      ({ start = this.start, end = this.end } = start);
+    }
+    return new Range(start, end);
+  }
+}
+
+export class Location {
+  range: Range;
+
+  constructor(
+    public uri: URI,
+    rangeOrPosition: Range | Position,
+  ) {
+    this.range =
+      rangeOrPosition instanceof Range ? rangeOrPosition : (
+        new Range(rangeOrPosition, rangeOrPosition)
+      );
+  }
+}
+
+export class DocumentSymbol {
+  children: DocumentSymbol[] = [];
+
+  constructor(
+    public name: string,
+    public detail: string,
+    public kind: SymbolKind,
+    public range: Range,
+    public selectionRange: Range,
+  ) {
+    if (!range.contains(selectionRange)) {
+      throw new Error("selectionRange must be contained in fullRange");
+    }
+  }
+}
+
+export class SymbolInformation {
+  constructor(
+    public name: string,
+    public kind: SymbolKind,
+    public containerName: string,
+    public location: Location,
+  ) {}
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number | { value: string | number; target: URI };
+  tags?: DiagnosticTag[];
+
+  constructor(
+    public range: Range,
+    public message: string,
+    public severity = DiagnosticSeverity.Error,
+  ) {}
+}
+
+export class MarkdownString {
+  isTrusted?: boolean;
+  supportHtml?: boolean;
+
+  constructor(
+    public value = "",
+    public supportThemeIcons = false,
+  ) {}
+
+  appendText(value: string) {
+    this.value += value.replace(/[\\`*_{}[\]()#+\-.!<>]/g, "\\$&");
+    return this;
+  }
+
+  appendMarkdown(value: string) {
+    this.value += value;
+    return this;
+  }
+
+  appendCodeblock(value: string, language = "") {
+    this.value += `\n\`\`\`${language}\n${value}\n\`\`\`\n`;
+    return this;
+  }
+}
+
+export class Hover {
+  contents: (MarkdownString | string)[];
+
+  constructor(
+    contents: MarkdownString | string | (MarkdownString | string)[],
+    public range?: Range,
+  ) {
+    this.contents = Array.isArray(contents) ? contents : [contents];
+  }
+}
+
+export class DocumentHighlight {
+  constructor(
+    public range: Range,
+    public kind = DocumentHighlightKind.Text,
+  ) {}
+}
+
+export class SnippetString {
+  constructor(public value = "") {}
+}
+
+export class TextEdit {
+  static replace(range: Range, newText: string) {
+    return new TextEdit(range, newText);
+  }
+
+  static insert(position: Position, newText: string) {
+    return new TextEdit(new Range(position, position), newText);
+  }
+
+  static delete(range: Range) {
+    return new TextEdit(range, "");
+  }
+
+  constructor(
+    public range: Range,
+    public newText: string,
+  ) {}
+}
+
+export class SnippetTextEdit {
+  static replace(range: Range, snippet: SnippetString) {
+    return new SnippetTextEdit(range, snippet);
+  }
+
+  static insert(position: Position, snippet: SnippetString) {
+    return new SnippetTextEdit(new Range(position, position), snippet);
+  }
+
+  constructor(
+    public range: Range,
+    public snippet: SnippetString,
+  ) {}
+}
+
+export class WorkspaceEdit {
+  private edits = new Map<string, [URI, (TextEdit | SnippetTextEdit)[]]>();
+
+  get size() {
+    return this.edits.size;
+  }
+
+  private push(uri: URI, edit: TextEdit | SnippetTextEdit) {
+    const url = uri.toString();
+    const entry = this.edits.get(url);
+
+    if (entry) {
+      entry[1].push(edit);
+    } else {
+      this.edits.set(url, [uri, [edit]]);
+    }
+  }
+
+  replace(uri: URI, range: Range, newText: string) {
+    this.push(uri, TextEdit.replace(range, newText));
+  }
+
+  insert(uri: URI, position: Position, newText: string) {
+    this.push(uri, TextEdit.insert(position, newText));
+  }
+
+  delete(uri: URI, range: Range) {
+    this.push(uri, TextEdit.delete(range));
+  }
+
+  has(uri: URI) {
+    return this.edits.has(uri.toString());
+  }
+
+  set(uri: URI, edits: (TextEdit | SnippetTextEdit)[]) {
+    this.edits.set(uri.toString(), [uri, edits.slice()]);
+  }
+
+  get(uri: URI) {
+    return this.edits.get(uri.toString())?.[1] ?? [];
+  }
+
+  entries() {
+    return Array.from(this.edits.values());
+  }
+}
+
+export class CompletionItem {
+  detail?: string;
+  documentation?: MarkdownString | string;
+  sortText?: string;
+  filterText?: string;
+  preselect?: boolean;
+  insertText?: SnippetString | string;
+  range?: Range | { inserting: Range; replacing: Range };
+  commitCharacters?: string[];
+  keepWhitespace?: boolean;
+  additionalTextEdits?: TextEdit[];
+  command?: { title: string; command: string; arguments?: unknown[] };
+  tags?: number[];
+
+  constructor(
+    public label:
+      string | { label: string; detail?: string; description?: string },
+    public kind?: CompletionItemKind,
+  ) {}
+}
+
+export class CodeAction {
+  diagnostics?: Diagnostic[];
+  edit?: WorkspaceEdit;
+  isPreferred?: boolean;
+
+  constructor(
+    public title: string,
+    public kind?: CodeActionKind,
+  ) {}
+}
+
+export interface Command {
+  title: string;
+  command: string;
+  tooltip?: string;
+  arguments?: unknown[];
+}
+
+export class CodeLens {
+  constructor(
+    public range: Range,
+    public command?: Command,
+  ) {}
+}
+
+export class SemanticTokensLegend {
+  constructor(
+    public readonly tokenTypes: string[],
+    public readonly tokenModifiers: string[] = [],
+  ) {}
+}
+
+export class SemanticTokens {
+  constructor(
+    public readonly data: Uint32Array,
+    public readonly resultId: string | undefined = undefined,
+  ) {}
+}
+
+/**
+ * Encodes semantic tokens into the relative format of the protocol, accepting
+ * them in any order.
+ */
+export class SemanticTokensBuilder {
+  private tokens: [number, number, number, number, number][] = [];
+
+  constructor(private legend: SemanticTokensLegend) {}
+
+  push(range: Range, tokenType: string, tokenModifiers: string[] = []) {
+    const type = this.legend.tokenTypes.indexOf(tokenType);
+    let modifiers = 0;
+
+    if (type < 0 || !range.isSingleLine) {
+      throw new Error("Illegal semantic token");
+    }
+    for (const modifier of tokenModifiers) {
+      const index = this.legend.tokenModifiers.indexOf(modifier);
+      if (index < 0) {
+        throw new Error(`Unknown token modifier '${modifier}'`);
+      }
+      modifiers |= 1 << index;
+    }
+
+    this.tokens.push([
+      range.start.line,
+      range.start.character,
+      range.end.character - range.start.character,
+      type,
+      modifiers,
+    ]);
+  }
+
+  build() {
+    const data: number[] = [];
+    let line = 0;
+    let character = 0;
+
+    this.tokens.sort(([a, b], [c, d]) => a - c || b - d);
+    for (const [l, c, length, type, modifiers] of this.tokens) {
+      data.push(
+        l - line,
+        l === line ? c - character : c,
+        length,
+        type,
+        modifiers,
+      );
+      line = l;
+      character = c;
+    }
+
+    return new SemanticTokens(new Uint32Array(data));
+  }
+}
+
+/**
+ * A text document backed by the language server text document implementation.
+ */
+export class TextDocument {
+  isClosed = false;
+  private doc: LSTextDocument;
+
+  constructor(
+    readonly uri: URI,
+    readonly languageId: string,
+    version: number,
+    text: string,
+  ) {
+    this.doc = LSTextDocument.create(uri.toString(), languageId, version, text);
+  }
+
+  get fileName() {
+    return this.uri.fsPath;
+  }
+
+  get version() {
+    return this.doc.version;
+  }
+
+  get lineCount() {
+    return this.doc.lineCount;
+  }
+
+  getText(range?: Range) {
+    return this.doc.getText(range);
+  }
+
+  positionAt(offset: number) {
+    const { line, character } = this.doc.positionAt(offset);
+    return new Position(line, character);
+  }
+
+  offsetAt(position: Position) {
+    return this.doc.offsetAt(position);
+  }
+
+  validatePosition(position: Position) {
+    return this.positionAt(this.offsetAt(position));
+  }
+
+  getWordRangeAtPosition(position: Position, regex = /[\w-]+/) {
+    const { line, character } = this.validatePosition(position);
+    const text = this.getText(new Range(line, 0, line + 1, 0));
+    const pattern = new RegExp(
+      regex.source,
+      regex.flags.replace("g", "") + "g",
+    );
+    let match;
+
+    while ((match = pattern.exec(text))) {
+      if (match.index > character) {
+        break;
+      }
+      if (match.index + match[0].length >= character && match[0]) {
+        return new Range(
+          line,
+          match.index,
+          line,
+          match.index + match[0].length,
+        );
+      }
+      if (!match[0]) {
+        ++pattern.lastIndex;
+      }
+    }
+
+    return;
+  }
+
+  update(changes: LSTextDocumentContentChangeEvent[], version: number) {
+    LSTextDocument.update(this.doc, changes, version);
+  }
+}
+
+export interface TextDocumentContentChangeEvent {
+  range: Range;
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+}
+
+export interface WorkspaceFolder {
+  uri: URI;
+  name: string;
+  index: number;
+}
+
+interface LanguageContribution {
+  id: string;
+  extensions?: string[];
+}
+
+export const extensions = {
+  all: [] as {
+    packageJSON: { contributes?: { languages?: LanguageContribution[] } };
+  }[],
+};
+
+export const window = {
+  showErrorMessage: async (message: string): Promise<undefined> => {
+    extern.console.error(message);
+    return;
+  },
+};
+
+let extern = { console };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("vscodeApi", () => {
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("appends code action kinds", () => {
+      expect(CodeActionKind.Empty.append("quickfix").value).toBe("quickfix");
+      expect(CodeActionKind.QuickFix.append("keml").value).toBe(
+        "quickfix.keml",
+      );
+    });
+
+    it("disposes once", () => {
+      const a = fn();
+      const b = fn();
+      const disposable = Disposable.from({ dispose: a }, { dispose: b });
+
+      disposable.dispose();
+      disposable.dispose();
+
+      expect(a).toHaveBeenCalledOnce();
+      expect(b).toHaveBeenCalledOnce();
+    });
+
+    it("fires events to the subscribed listeners", () => {
+      const emitter = new EventEmitter<number>();
+      const disposables: Disposable[] = [];
+      const thisArgs = {};
+      const listener = fn(function (this: unknown) {
+        expect(this).toBe(thisArgs);
+      });
+
+      emitter.event(listener, thisArgs, disposables);
+      emitter.fire(1);
+      disposables[0]!.dispose();
+      emitter.fire(2);
+      emitter.event(listener);
+      emitter.dispose();
+      emitter.fire(3);
+
+      expect(listener.mock.calls).toEqual([[1]]);
+    });
+
+    it("compares and derives positions", () => {
+      const a = new Position(1, 2);
+      const b = new Position(1, 4);
+
+      expect([a.isBefore(b), a.isBeforeOrEqual(a), b.isAfter(a)]).toEqual([
+        true,
+        true,
+        true,
+      ]);
+      expect([a.isAfterOrEqual(b), a.isEqual(new Position(1, 2))]).toEqual([
+        false,
+        true,
+      ]);
+      expect(a.translate()).toEqual(a);
+      expect(a.translate(1, 1)).toEqual(new Position(2, 3));
+      expect(a.translate({ characterDelta: 2 })).toEqual(b);
+      expect(a.translate({ lineDelta: 1 })).toEqual(new Position(2, 2));
+      expect(a.with()).toEqual(a);
+      expect(a.with(3)).toEqual(new Position(3, 2));
+      expect(a.with({ character: 4 })).toEqual(b);
+      expect(a.with({ line: 0 })).toEqual(new Position(0, 2));
+    });
+
+    it("normalizes and combines ranges", () => {
+      const a = new Range(1, 4, 0, 2);
+      const b = new Range(new Position(0, 3), new Position(2, 0));
+
+      expect(a.start).toEqual(new Position(0, 2));
+      expect([a.isEmpty, a.isSingleLine]).toEqual([false, false]);
+      expect(new Range(0, 1, 0, 1).isEmpty).toBe(true);
+      expect(a.contains(new Position(1, 0))).toBe(true);
+      expect(a.contains(b)).toBe(false);
+      expect(a.isEqual(new Range(0, 2, 1, 4))).toBe(true);
+      expect(a.isEqual(b)).toBe(false);
+      expect(a.intersection(b)).toEqual(new Range(0, 3, 1, 4));
+      expect(b.intersection(a)).toEqual(new Range(0, 3, 1, 4));
+      expect(a.intersection(new Range(3, 0, 3, 1))).toBeUndefined();
+      expect(a.union(b)).toEqual(new Range(0, 2, 2, 0));
+      expect(b.union(a)).toEqual(new Range(0, 2, 2, 0));
+      expect(a.with()).toEqual(a);
+      expect(a.with(new Position(0, 0))).toEqual(new Range(0, 0, 1, 4));
+      expect(a.with({ end: new Position(3, 0) })).toEqual(
+        new Range(0, 2, 3, 0),
+      );
+      expect(a.with({ start: new Position(1, 0) })).toEqual(
+        new Range(1, 0, 1, 4),
+      );
+    });
+
+    it("creates locations and document symbols", () => {
+      const uri = URI.file("/a.php");
+      const range = new Range(0, 0, 1, 0);
+
+      expect(new Location(uri, new Position(0, 1)).range).toEqual(
+        new Range(0, 1, 0, 1),
+      );
+      expect(new Location(uri, range).range).toBe(range);
+      expect(
+        new DocumentSymbol("a", "", SymbolKind.Event, range, range).children,
+      ).toEqual([]);
+      expect(
+        () =>
+          new DocumentSymbol(
+            "a",
+            "",
+            SymbolKind.Event,
+            range,
+            new Range(2, 0, 2, 1),
+          ),
+      ).toThrow("selectionRange must be contained in fullRange");
+    });
+
+    it("defaults the optional members of value classes", () => {
+      const uri = URI.file("/a.php");
+      const range = new Range(0, 0, 0, 1);
+
+      expect(new Diagnostic(range, "a").severity).toBe(
+        DiagnosticSeverity.Error,
+      );
+      expect(new DocumentHighlight(range).kind).toBe(
+        DocumentHighlightKind.Text,
+      );
+      expect(
+        new SymbolInformation(
+          "a",
+          SymbolKind.Event,
+          "",
+          new Location(uri, range),
+        ).location.uri,
+      ).toBe(uri);
+      expect(new CompletionItem("a").kind).toBeUndefined();
+      expect(new CodeAction("a").kind).toBeUndefined();
+      expect(new CodeLens(range).command).toBeUndefined();
+      expect(new SemanticTokens(new Uint32Array()).resultId).toBeUndefined();
+    });
+
+    it("builds markdown", () => {
+      const markdown = new MarkdownString()
+        .appendText("*a*")
+        .appendMarkdown(" **b**")
+        .appendCodeblock("c")
+        .appendCodeblock("<d>", "html");
+
+      expect(markdown.value).toBe(
+        "\\*a\\* **b**\n```\nc\n```\n\n```html\n<d>\n```\n",
+      );
+      expect(new Hover("a").contents).toEqual(["a"]);
+      expect(new Hover(["a", markdown]).contents).toEqual(["a", markdown]);
+    });
+
+    it("collects edits per document", () => {
+      const a = URI.file("/a.php");
+      const b = URI.file("/b.php");
+      const edit = new WorkspaceEdit();
+      const snippet = SnippetTextEdit.insert(
+        new Position(0, 0),
+        new SnippetString("$0"),
+      );
+
+      edit.replace(a, new Range(0, 0, 0, 1), "x");
+      edit.insert(a, new Position(1, 0), "y");
+      edit.delete(a, new Range(2, 0, 2, 1));
+      edit.set(b, [snippet]);
+
+      expect(edit.size).toBe(2);
+      expect([edit.has(a), edit.has(URI.file("/c.php"))]).toEqual([
+        true,
+        false,
+      ]);
+      expect(edit.get(a).map(({ range }) => range.start.line)).toEqual([
+        0, 1, 2,
+      ]);
+      expect(edit.get(URI.file("/c.php"))).toEqual([]);
+      expect(edit.entries()).toEqual([
+        [a, edit.get(a)],
+        [b, [snippet]],
+      ]);
+      expect(
+        SnippetTextEdit.replace(new Range(0, 0, 0, 1), new SnippetString()),
+      ).toEqual(
+        new SnippetTextEdit(new Range(0, 0, 0, 1), new SnippetString()),
+      );
+    });
+
+    it("builds semantic tokens in document order", () => {
+      const builder = new SemanticTokensBuilder(
+        new SemanticTokensLegend(["event", "function"], ["declaration"]),
+      );
+
+      builder.push(new Range(2, 4, 2, 8), "function");
+      builder.push(new Range(0, 1, 0, 3), "event", ["declaration"]);
+      builder.push(new Range(2, 10, 2, 12), "event");
+
+      expect(Array.from(builder.build().data)).toEqual([
+        0, 1, 2, 0, 1, 2, 4, 4, 1, 0, 0, 6, 2, 0, 0,
+      ]);
+      expect(() => builder.push(new Range(0, 0, 0, 1), "string")).toThrow(
+        "Illegal semantic token",
+      );
+      expect(() => builder.push(new Range(0, 0, 1, 1), "event")).toThrow(
+        "Illegal semantic token",
+      );
+      expect(() =>
+        builder.push(new Range(0, 0, 0, 1), "event", ["readonly"]),
+      ).toThrow("Unknown token modifier 'readonly'");
+      expect(new SemanticTokensLegend([]).tokenModifiers).toEqual([]);
+    });
+
+    it("reads and updates text documents", () => {
+      const doc = new TextDocument(
+        URI.file("/a.php"),
+        "php",
+        1,
+        "<p on:click='a-b'></p>\n",
+      );
+
+      expect([doc.fileName, doc.version, doc.lineCount]).toEqual([
+        URI.file("/a.php").fsPath,
+        1,
+        2,
+      ]);
+      expect(doc.validatePosition(new Position(5, 0))).toEqual(
+        new Position(1, 0),
+      );
+      expect(doc.getWordRangeAtPosition(new Position(0, 14))).toEqual(
+        new Range(0, 13, 0, 16),
+      );
+      expect(doc.getWordRangeAtPosition(new Position(0, 2), /\w*/g)).toEqual(
+        new Range(0, 1, 0, 2),
+      );
+      expect(doc.getWordRangeAtPosition(new Position(0, 0), /x*/)).toBe(
+        undefined,
+      );
+      expect(doc.getWordRangeAtPosition(new Position(1, 0))).toBeUndefined();
+
+      doc.update([{ range: new Range(0, 1, 0, 2), text: "div" }], 2);
+
+      expect([doc.getText(new Range(0, 0, 0, 4)), doc.version]).toEqual([
+        "<div",
+        2,
+      ]);
+    });
+
+    it("reports errors to the console", async () => {
+      extern.console = { error: fn() } as any;
+
+      await window.showErrorMessage("Failed.");
+
+      expect(extern.console.error).toHaveBeenCalledWith("Failed.");
+    });
+  });
+}
+/* v8 ignore stop */
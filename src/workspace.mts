@@ -0,0 +1,670 @@
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import { extname, join, matchesGlob, relative, sep } from "node:path";
+import { TextDocumentContentChangeEvent as LSTextDocumentContentChangeEvent } from "vscode-languageserver-textdocument";
+import { getProviders } from "./languages.mts";
+import {
+  EventEmitter,
+  extensions,
+  Position,
+  Range,
+  TextDocument,
+  TextDocumentContentChangeEvent,
+  Uri as URI,
+  WorkspaceFolder,
+} from "./vscodeApi.mts";
+
+interface ConfigurationChangeEvent {
+  affectsConfiguration(section: string): boolean;
+}
+
+interface FileSystemWatcher {
+  onDidChange: EventEmitter<URI>["event"];
+  onDidCreate: EventEmitter<URI>["event"];
+  onDidDelete: EventEmitter<URI>["event"];
+  dispose(): void;
+}
+
+const textDocuments: TextDocument[] = [];
+const watchers = new Set<{
+  globPattern: string;
+  emitters: Record<"change" | "create" | "delete", EventEmitter<URI>>;
+}>();
+const emitters = {
+  changeConfiguration: new EventEmitter<ConfigurationChangeEvent>(),
+  changeTextDocument: new EventEmitter<{
+    document: TextDocument;
+    contentChanges: TextDocumentContentChangeEvent[];
+  }>(),
+  changeWorkspaceFolders: new EventEmitter<{
+    added: WorkspaceFolder[];
+    removed: WorkspaceFolder[];
+  }>(),
+  closeTextDocument: new EventEmitter<TextDocument>(),
+  createFiles: new EventEmitter<{ files: URI[] }>(),
+  deleteFiles: new EventEmitter<{ files: URI[] }>(),
+  openTextDocument: new EventEmitter<TextDocument>(),
+  renameFiles: new EventEmitter<{ files: { oldUri: URI; newUri: URI }[] }>(),
+};
+let settings: Record<string, unknown> = {};
+
+/**
+ * Reads a dot-separated path from a settings object.
+ *
+ * @param value - The settings object.
+ * @param path - The dot-separated path.
+ * @returns The value found, or undefined.
+ */
+const getPath = (value: unknown, path: string) => {
+  for (const key of path.split(".")) {
+    if (value == null || typeof value !== "object") {
+      return;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+};
+
+/**
+ * Finds the language of a file by its extension among the contributed ones.
+ *
+ * @param uri - The file.
+ * @returns The language identifier.
+ */
+const getLanguageId = ({ path }: URI) => {
+  const ext = extname(path);
+
+  for (const { packageJSON } of extensions.all) {
+    for (const { id, extensions: exts } of packageJSON.contributes?.languages ??
+      []) {
+      if (exts?.includes(ext)) {
+        return id;
+      }
+    }
+  }
+
+  return "plaintext";
+};
+
+/**
+ * Converts a path relative to a workspace folder to a glob-friendly form.
+ *
+ * @param folder - The workspace folder.
+ * @param path - The absolute path.
+ * @returns The relative path using forward slashes.
+ */
+const toRelative = (folder: URI, path: string) =>
+  relative(folder.fsPath, path).split(sep).join("/");
+
+export const workspace = {
+  textDocuments,
+  workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+
+  getConfiguration(section?: string, _scope?: unknown) {
+    const root = section ? getPath(settings, section) : settings;
+
+    return {
+      get: <T,>(key: string, defaultValue?: T) =>
+        (getPath(root, key) as T | undefined) ?? defaultValue,
+      has: (key: string) => getPath(root, key) !== undefined,
+    };
+  },
+
+  /**
+   * Returns the innermost workspace folder containing a resource.
+   */
+  getWorkspaceFolder(uri: URI) {
+    let result: WorkspaceFolder | undefined;
+
+    for (const folder of workspace.workspaceFolders ?? []) {
+      if (
+        folder.uri.scheme === uri.scheme &&
+        folder.uri.authority === uri.authority &&
+        (uri.path === folder.uri.path ||
+          uri.path.startsWith(folder.uri.path.replace(/\/?$/, "/"))) &&
+        (!result || folder.uri.path.length > result.uri.path.length)
+      ) {
+        result = folder;
+      }
+    }
+
+    return result;
+  },
+
+  async findFiles(include: string) {
+    const result: URI[] = [];
+    let entry, path;
+
+    for (const { uri } of workspace.workspaceFolders ?? []) {
+      for (entry of await extern.readdir(uri.fsPath, {
+        recursive: true,
+        withFileTypes: true,
+      })) {
+        path = join(entry.parentPath, entry.name);
+        if (
+          entry.isFile() &&
+          !matchesGlob(toRelative(uri, path), "**/.git/**") &&
+          matchesGlob(toRelative(uri, path), include)
+        ) {
+          result.push(URI.file(path));
+        }
+      }
+    }
+
+    return result;
+  },
+
+  fs: {
+    async stat(uri: URI) {
+      const { ctimeMs, mtimeMs, size } = await extern.stat(uri.fsPath);
+
+      return { ctime: ctimeMs, mtime: mtimeMs, size };
+    },
+
+    readFile: async (uri: URI) =>
+      new Uint8Array(await extern.readFile(uri.fsPath)),
+
+    writeFile: (uri: URI, content: Uint8Array) =>
+      extern.writeFile(uri.fsPath, content),
+
+    async createDirectory(uri: URI) {
+      await extern.mkdir(uri.fsPath, { recursive: true });
+    },
+  },
+
+  async openTextDocument(uri: URI) {
+    const url = uri.toString();
+
+    return (
+      textDocuments.find(doc => doc.uri.toString() === url) ??
+      new TextDocument(
+        uri,
+        getLanguageId(uri),
+        0,
+        await extern.readFile(uri.fsPath, "utf8"),
+      )
+    );
+  },
+
+  createFileSystemWatcher(globPattern: string): FileSystemWatcher {
+    const watcher = {
+      globPattern,
+      emitters: {
+        change: new EventEmitter<URI>(),
+        create: new EventEmitter<URI>(),
+        delete: new EventEmitter<URI>(),
+      },
+    };
+
+    watchers.add(watcher);
+
+    return {
+      onDidChange: watcher.emitters.change.event,
+      onDidCreate: watcher.emitters.create.event,
+      onDidDelete: watcher.emitters.delete.event,
+      dispose: () => watchers.delete(watcher),
+    };
+  },
+
+  onDidChangeConfiguration: emitters.changeConfiguration.event,
+  onDidChangeTextDocument: emitters.changeTextDocument.event,
+  onDidChangeWorkspaceFolders: emitters.changeWorkspaceFolders.event,
+  onDidCloseTextDocument: emitters.closeTextDocument.event,
+  onDidCreateFiles: emitters.createFiles.event,
+  onDidDeleteFiles: emitters.deleteFiles.event,
+  onDidOpenTextDocument: emitters.openTextDocument.event,
+  onDidRenameFiles: emitters.renameFiles.event,
+};
+
+/**
+ * Drives the API above on behalf of an editor, which is not part of the
+ * `vscode` API itself.
+ */
+export const host = {
+  /**
+   * Finds an open text document.
+   */
+  getTextDocument: (uri: string) =>
+    textDocuments.find(doc => doc.uri.toString() === uri),
+
+  /**
+   * Lists the providers of a kind registered for a language.
+   */
+  getProviders: (kind: string, languageId: string) =>
+    extern.getProviders(kind, languageId),
+
+  /**
+   * Replaces the settings, notifying about the sections that changed.
+   */
+  setConfiguration(value: Record<string, unknown>, notify = true) {
+    const prev = settings;
+
+    settings = value;
+
+    if (notify) {
+      emitters.changeConfiguration.fire({
+        affectsConfiguration: section =>
+          JSON.stringify(getPath(prev, section)) !==
+          JSON.stringify(getPath(value, section)),
+      });
+    }
+  },
+
+  /**
+   * Adds and removes workspace folders.
+   */
+  changeWorkspaceFolders(
+    added: { uri: string; name: string }[],
+    removed: { uri: string }[] = [],
+  ) {
+    const urls = new Set(removed.map(({ uri }) => URI.parse(uri).toString()));
+    const prev = workspace.workspaceFolders ?? [];
+    const kept = prev.filter(({ uri }) => !urls.has(uri.toString()));
+    const folders = kept.concat(
+      added.map(({ uri, name }) => ({ uri: URI.parse(uri), name, index: 0 })),
+    );
+
+    folders.forEach((folder, index) => (folder.index = index));
+    workspace.workspaceFolders = folders.length ? folders : undefined;
+    emitters.changeWorkspaceFolders.fire({
+      added: folders.slice(kept.length),
+      removed: prev.filter(({ uri }) => urls.has(uri.toString())),
+    });
+  },
+
+  openTextDocument(
+    uri: string,
+    languageId: string,
+    version: number,
+    text: string,
+  ) {
+    const doc = new TextDocument(URI.parse(uri), languageId, version, text);
+
+    textDocuments.push(doc);
+    emitters.openTextDocument.fire(doc);
+  },
+
+  changeTextDocument(
+    uri: string,
+    version: number,
+    changes: LSTextDocumentContentChangeEvent[],
+  ) {
+    const document = host.getTextDocument(uri);
+    if (!document) {
+      return;
+    }
+
+    const contentChanges = changes.map(change => {
+      const { start, end } =
+        "range" in change ?
+          change.range
+        : {
+            start: { line: 0, character: 0 },
+            end: document.positionAt(Infinity),
+          };
+      const range = new Range(
+        document.validatePosition(new Position(start.line, start.character)),
+        document.validatePosition(new Position(end.line, end.character)),
+      );
+      const rangeOffset = document.offsetAt(range.start);
+      const rangeLength = document.offsetAt(range.end) - rangeOffset;
+      const { text } = change;
+
+      document.update([{ range, text }], version);
+
+      return { range, rangeOffset, rangeLength, text };
+    });
+
+    emitters.changeTextDocument.fire({ document, contentChanges });
+  },
+
+  closeTextDocument(uri: string) {
+    const index = textDocuments.findIndex(doc => doc.uri.toString() === uri);
+    if (index === -1) {
+      return;
+    }
+
+    const [doc] = textDocuments.splice(index, 1);
+
+    doc!.isClosed = true;
+    emitters.closeTextDocument.fire(doc!);
+  },
+
+  createFiles: (uris: string[]) =>
+    emitters.createFiles.fire({ files: uris.map(uri => URI.parse(uri)) }),
+
+  deleteFiles: (uris: string[]) =>
+    emitters.deleteFiles.fire({ files: uris.map(uri => URI.parse(uri)) }),
+
+  renameFiles: (files: { oldUri: string; newUri: string }[]) =>
+    emitters.renameFiles.fire({
+      files: files.map(({ oldUri, newUri }) => ({
+        oldUri: URI.parse(oldUri),
+        newUri: URI.parse(newUri),
+      })),
+    }),
+
+  /**
+   * Notifies the file system watchers whose pattern matches a file.
+   */
+  changeFile(uri: string, type: "change" | "create" | "delete") {
+    const file = URI.parse(uri);
+    const folders = workspace.workspaceFolders ?? [];
+
+    for (const { globPattern, emitters } of watchers) {
+      if (
+        matchesGlob(file.path, globPattern) ||
+        folders.some(({ uri }) =>
+          matchesGlob(toRelative(uri, file.fsPath), globPattern),
+        )
+      ) {
+        emitters[type].fire(file);
+      }
+    }
+  },
+};
+
+let extern = { getProviders, mkdir, readdir, readFile, stat, writeFile };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    afterEach,
+    vi: { fn },
+  } = import.meta.vitest;
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("workspace", () => {
+    const root = URI.file("/root");
+    const url = URI.file("/root/a.php").toString();
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    afterEach(() => {
+      host.changeWorkspaceFolders(
+        [],
+        (workspace.workspaceFolders ?? []).map(({ uri }) => ({
+          uri: uri.toString(),
+        })),
+      );
+      host.setConfiguration({}, false);
+      textDocuments
+        .slice()
+        .forEach(doc => host.closeTextDocument(doc.uri.toString()));
+      extensions.all.length = 0;
+    });
+
+    it("reads and announces settings", () => {
+      const listener = fn();
+      const disposable = workspace.onDidChangeConfiguration(listener);
+
+      host.setConfiguration({ keml: { events: ["a"], lint: true } });
+      host.setConfiguration({ keml: { events: ["a"], lint: false } });
+      disposable.dispose();
+
+      const keml = workspace.getConfiguration("keml");
+      const [, [event]] = listener.mock.calls as [
+        unknown,
+        [ConfigurationChangeEvent],
+      ];
+
+      expect(keml.get("lint")).toBe(false);
+      expect(keml.get("missing", 1)).toBe(1);
+      expect(keml.get("lint.deep")).toBeUndefined();
+      expect([keml.has("events"), keml.has("missing")]).toEqual([true, false]);
+      expect(workspace.getConfiguration().get("keml.events")).toEqual(["a"]);
+      expect(workspace.getConfiguration("missing").has("a")).toBe(false);
+      expect(event.affectsConfiguration("keml.lint")).toBe(true);
+      expect(event.affectsConfiguration("keml.events")).toBe(false);
+    });
+
+    it("adds and removes workspace folders", () => {
+      const listener = fn();
+      const disposable = workspace.onDidChangeWorkspaceFolders(listener);
+
+      host.changeWorkspaceFolders([
+        { uri: "file:///root", name: "root" },
+        { uri: "file:///root/sub/", name: "sub" },
+        { uri: "file:///other", name: "other" },
+      ]);
+      host.changeWorkspaceFolders([], [{ uri: "file:///other" }]);
+      disposable.dispose();
+
+      expect(
+        workspace.workspaceFolders?.map(({ name, index }) => [name, index]),
+      ).toEqual([
+        ["root", 0],
+        ["sub", 1],
+      ]);
+      expect(listener.mock.calls[1]![0].removed[0].name).toBe("other");
+      expect(
+        workspace.getWorkspaceFolder(URI.file("/root/sub/a.php"))?.name,
+      ).toBe("sub");
+      expect(workspace.getWorkspaceFolder(URI.file("/root"))?.name).toBe(
+        "root",
+      );
+      expect(workspace.getWorkspaceFolder(URI.file("/rooted"))).toBeUndefined();
+      expect(
+        workspace.getWorkspaceFolder(URI.parse("untitled:/root/a.php")),
+      ).toBeUndefined();
+
+      host.changeWorkspaceFolders([], [{ uri: "file:///root" }]);
+      host.changeWorkspaceFolders([], [{ uri: "file:///root/sub/" }]);
+
+      expect(workspace.workspaceFolders).toBeUndefined();
+      expect(workspace.getWorkspaceFolder(URI.file("/root"))).toBeUndefined();
+    });
+
+    it("finds files outside of .git folders", async () => {
+      const entry = (parentPath: string, name: string, file = true) => ({
+        parentPath,
+        name,
+        isFile: () => file,
+      });
+
+      extern.readdir = fn(async () => [
+        entry("/root", "a.php"),
+        entry("/root", "b.js"),
+        entry("/root", "src", false),
+        entry("/root/src", "c.php"),
+        entry("/root/.git", "d.php"),
+      ]) as any;
+
+      expect(await workspace.findFiles("**/*.php")).toEqual([]);
+
+      host.changeWorkspaceFolders([{ uri: root.toString(), name: "root" }]);
+
+      expect(
+        (await workspace.findFiles("**/*.php")).map(({ path }) => path),
+      ).toEqual(["/root/a.php", "/root/src/c.php"]);
+      expect(extern.readdir).toHaveBeenCalledWith(root.fsPath, {
+        recursive: true,
+        withFileTypes: true,
+      });
+    });
+
+    it("accesses the file system", async () => {
+      const uri = URI.file("/root/a.php");
+      const content = new Uint8Array([97]);
+
+      extern.stat = fn(async () => ({
+        ctimeMs: 1,
+        mtimeMs: 2,
+        size: 3,
+      })) as any;
+      extern.readFile = fn(async () => Buffer.from("a")) as any;
+      extern.writeFile = fn(async () => {});
+      extern.mkdir = fn(async () => undefined);
+
+      expect(await workspace.fs.stat(uri)).toEqual({
+        ctime: 1,
+        mtime: 2,
+        size: 3,
+      });
+      expect(await workspace.fs.readFile(uri)).toEqual(content);
+
+      await workspace.fs.writeFile(uri, content);
+      await workspace.fs.createDirectory(root);
+
+      expect(extern.writeFile).toHaveBeenCalledWith(uri.fsPath, content);
+      expect(extern.mkdir).toHaveBeenCalledWith(root.fsPath, {
+        recursive: true,
+      });
+    });
+
+    it("opens documents from the host or from disk", async () => {
+      const opened = fn();
+      const closed = fn();
+
+      extensions.all.push(
+        { packageJSON: {} },
+        { packageJSON: { contributes: {} } },
+        {
+          packageJSON: {
+            contributes: {
+              languages: [{ id: "twig" }, { id: "php", extensions: [".php"] }],
+            },
+          },
+        },
+      );
+      extern.readFile = fn(async () => "<p></p>") as any;
+      workspace.onDidOpenTextDocument(opened);
+      workspace.onDidCloseTextDocument(closed);
+      host.openTextDocument(url, "html", 3, "<div></div>");
+
+      const doc = host.getTextDocument(url)!;
+
+      expect(await workspace.openTextDocument(URI.parse(url))).toBe(doc);
+      expect(
+        await workspace.openTextDocument(URI.file("/root/b.php")),
+      ).toMatchObject({ languageId: "php", version: 0 });
+      expect(
+        (await workspace.openTextDocument(URI.file("/root/b.txt"))).languageId,
+      ).toBe("plaintext");
+      expect(extern.readFile).toHaveBeenCalledWith(
+        URI.file("/root/b.txt").fsPath,
+        "utf8",
+      );
+
+      host.closeTextDocument(url);
+      host.closeTextDocument(url);
+
+      expect([doc.isClosed, host.getTextDocument(url)]).toEqual([
+        true,
+        undefined,
+      ]);
+      expect(opened).toHaveBeenCalledWith(doc);
+      expect(closed).toHaveBeenCalledOnce();
+    });
+
+    it("applies and announces document changes", () => {
+      const listener =
+        fn<(e: { contentChanges: TextDocumentContentChangeEvent[] }) => void>();
+
+      workspace.onDidChangeTextDocument(listener);
+      host.changeTextDocument(url, 2, [{ text: "" }]);
+      host.openTextDocument(url, "php", 1, "<p></p>");
+      host.changeTextDocument(url, 2, [
+        { range: new Range(0, 1, 0, 2), text: "a" },
+      ]);
+      host.changeTextDocument(url, 3, [{ text: "<b></b>" }]);
+      host.changeTextDocument(url, 4, [
+        { range: new Range(0, 0, 0, 7), text: "<ul>\n<li></li>\n</ul>" },
+      ]);
+      host.changeTextDocument(url, 5, [
+        { range: new Range(0, 4, 2, 0), text: "" },
+      ]);
+
+      const [first, second, , fourth] = listener.mock.calls.map(
+        ([{ contentChanges }]) => contentChanges,
+      );
+
+      expect(host.getTextDocument(url)?.getText()).toBe("<ul></ul>");
+      expect(host.getTextDocument(url)?.version).toBe(5);
+      expect(first).toEqual([
+        {
+          range: new Range(0, 1, 0, 2),
+          rangeOffset: 1,
+          rangeLength: 1,
+          text: "a",
+        },
+      ]);
+      expect(second).toMatchObject([
+        { range: new Range(0, 0, 0, 7), rangeOffset: 0, text: "<b></b>" },
+      ]);
+      expect(fourth).toEqual([
+        {
+          range: new Range(0, 4, 2, 0),
+          rangeOffset: 4,
+          rangeLength: 11,
+          text: "",
+        },
+      ]);
+    });
+
+    it("announces file operations", () => {
+      const created = fn();
+      const deleted = fn();
+      const renamed = fn();
+
+      workspace.onDidCreateFiles(created);
+      workspace.onDidDeleteFiles(deleted);
+      workspace.onDidRenameFiles(renamed);
+      host.createFiles([url]);
+      host.deleteFiles([url]);
+      host.renameFiles([{ oldUri: url, newUri: "file:///root/b.php" }]);
+
+      expect(created).toHaveBeenCalledWith({ files: [URI.parse(url)] });
+      expect(deleted).toHaveBeenCalledWith({ files: [URI.parse(url)] });
+      expect(renamed).toHaveBeenCalledWith({
+        files: [
+          { oldUri: URI.parse(url), newUri: URI.parse("file:///root/b.php") },
+        ],
+      });
+    });
+
+    it("notifies the matching file system watchers", () => {
+      const absolute = workspace.createFileSystemWatcher("/root/**/*.php");
+      const relative = workspace.createFileSystemWatcher("src/*.php");
+      const changed = fn();
+      const created = fn();
+      const deleted = fn();
+
+      absolute.onDidChange(changed);
+      relative.onDidCreate(created);
+      relative.onDidDelete(deleted);
+      host.changeFile(url, "change");
+      host.changeFile("file:///root/src/c.php", "create");
+
+      expect(created).not.toHaveBeenCalled();
+
+      host.changeWorkspaceFolders([{ uri: root.toString(), name: "root" }]);
+      host.changeFile("file:///root/src/c.php", "create");
+      host.changeFile("file:///root/c.php", "delete");
+      absolute.dispose();
+      relative.dispose();
+      host.changeFile(url, "change");
+
+      expect(changed).toHaveBeenCalledOnce();
+      expect(created.mock.calls.map(([{ path }]) => path)).toEqual([
+        "/root/src/c.php",
+      ]);
+      expect(deleted).not.toHaveBeenCalled();
+    });
+
+    it("lists the registered providers", () => {
+      extern.getProviders = fn(() => ["provider"]);
+
+      expect(host.getProviders("hover", "php")).toEqual(["provider"]);
+      expect(extern.getProviders).toHaveBeenCalledWith("hover", "php");
+    });
+  });
+}
+/* v8 ignore stop */
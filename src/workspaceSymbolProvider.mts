@@ -0,0 +1,194 @@
+import { Location, SymbolInformation, WorkspaceSymbolProvider } from "vscode";
+import { docs } from "./data.mts";
+import { isFuzzyMatch } from "./isFuzzyMatch.mts";
+import {
+  actionKinds,
+  definitionResolvers,
+  referenceResolvers,
+} from "./resolvers.mts";
+import { symbolKinds } from "./symbolKinds.mts";
+
+/**
+ * Provides workspace-wide search (`Ctrl+T`) of every action definition and
+ * subscriber.
+ */
+export const workspaceSymbolProvider: WorkspaceSymbolProvider = {
+  /**
+   * Finds the actions whose name fuzzy matches a query in all known documents.
+   *
+   * Action names repeat a lot across documents, so each distinct name is only
+   * matched against the query once. An empty query matches nothing, rather
+   * than every action of the workspace.
+   *
+   * @param query - The search query.
+   * @param token - Cancellation token to abort the operation if requested.
+   * @returns The definitions and subscribers of the matching actions.
+   */
+  provideWorkspaceSymbols(query, token) {
+    const symbols: SymbolInformation[] = [];
+    const matches = new Map<string, boolean>();
+    let cur, kind, resolver, role, action, ranges, range, match;
+
+    if (!query) {
+      return symbols;
+    }
+
+    for (cur of extern.docs.values()) {
+      for (kind of actionKinds) {
+        for ([resolver, role] of [
+          [definitionResolvers[kind], "definition"],
+          [referenceResolvers[kind], "subscriber"],
+        ] as const) {
+          for ([action, ranges] of resolver(cur)) {
+            if (token.isCancellationRequested) {
+              return;
+            }
+            if ((match = matches.get(action)) == null) {
+              matches.set(action, (match = extern.isFuzzyMatch(query, action)));
+            }
+            if (match) {
+              for (range of ranges) {
+                symbols.push(
+                  new extern.SymbolInformation(
+                    action,
+                    symbolKinds[kind],
+                    `${kind} ${role}`,
+                    new extern.Location(cur.uri, range),
+                  ),
+                );
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return symbols;
+  },
+};
+
+let extern = { Location, SymbolInformation, docs, isFuzzyMatch };
+
+/* v8 ignore start */
+if (import.meta.vitest) {
+  const {
+    describe,
+    it,
+    expect,
+    afterAll,
+    vi: { fn },
+  } = import.meta.vitest;
+  const { SymbolKind } = await import("./vscode-shim.mts");
+  const origExtern = extern;
+
+  extern = {} as typeof extern;
+
+  describe("workspaceSymbolProvider", () => {
+    const token = { isCancellationRequested: false } as any;
+    const a = {
+      uri: "a",
+      event_definitions: new Map([["save", ["r1", "r2"]]]),
+      event_references: new Map([["save", ["r3"]]]),
+      state_definitions: new Map([["saving", ["r4"]]]),
+      state_references: new Map(),
+      result_definitions: new Map([["list", ["r5"]]]),
+      result_references: new Map(),
+    };
+    const b = {
+      uri: "b",
+      event_definitions: new Map(),
+      event_references: new Map(),
+      state_definitions: new Map(),
+      state_references: new Map([["saving", ["r6"]]]),
+      result_definitions: new Map(),
+      result_references: new Map([["list", ["r7"]]]),
+    };
+
+    afterAll(() => {
+      extern = origExtern;
+    });
+
+    it("finds the matching definitions and subscribers", () => {
+      extern.docs = new Map([
+        ["a", a],
+        ["b", b],
+      ]) as any;
+      extern.isFuzzyMatch = fn(origExtern.isFuzzyMatch);
+      extern.Location = class {
+        constructor(
+          public uri: any,
+          public range: any,
+        ) {}
+      } as any;
+      extern.SymbolInformation = class {
+        constructor(
+          public name: any,
+          public kind: any,
+          public containerName: any,
+          public location: any,
+        ) {}
+      } as any;
+
+      expect(
+        workspaceSymbolProvider.provideWorkspaceSymbols("sv", token),
+      ).toEqual([
+        {
+          name: "save",
+          kind: SymbolKind.Event,
+          containerName: "event definition",
+          location: { uri: "a", range: "r1" },
+        },
+        {
+          name: "save",
+          kind: SymbolKind.Event,
+          containerName: "event definition",
+          location: { uri: "a", range: "r2" },
+        },
+        {
+          name: "save",
+          kind: SymbolKind.Event,
+          containerName: "event subscriber",
+          location: { uri: "a", range: "r3" },
+        },
+        {
+          name: "saving",
+          kind: SymbolKind.Variable,
+          containerName: "state definition",
+          location: { uri: "a", range: "r4" },
+        },
+        {
+          name: "saving",
+          kind: SymbolKind.Variable,
+          containerName: "state subscriber",
+          location: { uri: "b", range: "r6" },
+        },
+      ]);
+      expect(extern.isFuzzyMatch).toHaveBeenCalledTimes(3);
+    });
+
+    it("finds nothing for an empty query", () => {
+      expect(
+        workspaceSymbolProvider.provideWorkspaceSymbols("", token),
+      ).toEqual([]);
+    });
+
+    it("stops when cancelled", () => {
+      let checks = 0;
+
+      expect(
+        workspaceSymbolProvider.provideWorkspaceSymbols("s", {
+          isCancellationRequested: true,
+        } as any),
+      ).toBeUndefined();
+      expect(
+        workspaceSymbolProvider.provideWorkspaceSymbols("s", {
+          get isCancellationRequested() {
+            return ++checks > 2;
+          },
+        } as any),
+      ).toBeUndefined();
+      expect(checks).toBe(3);
+    });
+  });
+}
+/* v8 ignore stop */
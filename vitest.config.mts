@@ -6,6 +6,7 @@ export default defineConfig({
     coverage: {
       enabled: true,
       include: ["src/*.mts"],
+      exclude: ["src/*.bench.mts"],
       reporter: "html",
       clean: true,
       thresholds: { 100: true },
@@ -14,7 +15,7 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      vscode: resolve(__dirname, "src", "vscode-shim.ts"),
+      vscode: resolve(__dirname, "src", "vscode-shim.mts"),
     },
   },
 });